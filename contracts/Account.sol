@@ -5,25 +5,37 @@ pragma solidity ^0.8.21;
 /// @notice This contract is a smart contract wallet fully controlled by its owner.
 //         It allows the owner to recover the account using a social recovery process.
 //         The owner can add guardians to the account. Guardians can vote to recover the account.
+//         Guardians registered by Tyron DNS NFT ID follow the token: its current holder votes for it.
 //         The owner can also remove guardians from the account.
-//         The threshold of votes required to recover the account is determined by the number of guardians (absolute majority, i.e. half plus one).
+//         The threshold of votes required to recover the account follows a policy chosen by the owner:
+//         absolute majority (the default, i.e. half plus one), a fixed number of guardians, a percentage of them, or a weight where some guardians count more than others.
+//         A recovery is timelocked: the owner can cancel it before anyone executes it.
+//         The owner can register session keys that sign user operations within a time window, for a set of targets and functions.
+//         The owner can register a passkey (WebAuthn P-256 key) that signs for the owner, e.g. from a phone, without a seed phrase.
+//         The owner can bound what the account sends and calls with a spending policy: daily limits, a target allowlist and blocked selectors.
+//         The owner can install modules: validators that sign for the account, executors that run its calls, and fallback handlers.
 //         The wallet can receive, hold and send any fungible ERC20 token and non-fungible ERC721 token.
 //         The wallet can also receive and send the native cryptocurrency.
 
 /// @dev Import the required contracts
 import "@openzeppelin/contracts/access/Ownable2Step.sol";
-import "@openzeppelin/contracts/utils/math/SafeMath.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
-import "hardhat/console.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {IEntryPoint} from "@account-abstraction/contracts/interfaces/IEntryPoint.sol";
+import {IStakeManager} from "@account-abstraction/contracts/interfaces/IStakeManager.sol";
 import {CustomSlotInitializable} from "./CustomSlotInitializable.sol";
 import {BaseAccount} from "@account-abstraction/contracts/core/BaseAccount.sol";
 import {UserOperation} from "@account-abstraction/contracts/interfaces/UserOperation.sol";
+import {_packValidationData} from "@account-abstraction/contracts/core/Helpers.sol";
 import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import {IERC5267} from "@openzeppelin/contracts/interfaces/IERC5267.sol";
 import {TokenCallbackHandler} from "@account-abstraction/contracts/samples/callback/TokenCallbackHandler.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {ITyronSpendingPolicy} from "./SpendingPolicy.sol";
+import {IWebAuthnVerifier, P256} from "./WebAuthn.sol";
+import {TyronGuardians} from "./Guardians.sol";
+import "./Modules.sol";
 
 /**
  * @notice Extending Alchemy's `LightAccount`, a simple ERC-4337 compatible smart contract account with a designated owner account
@@ -54,6 +66,12 @@ import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeab
  * 4. Event `SimpleAccountInitialized` renamed to `LightAccountInitialized`.
  *
  * 5. Uses custom errors.
+ *
+ * 6. The EIP-712 domain hashes its name and version as the standard requires,
+ * and is exposed with EIP-5267 `eip712Domain()`.
+ *
+ * 7. Modules extend the account without a new implementation (see `Modules.sol`).
+ * Their registry lives in its own namespaced storage.
  */
 
 contract TyronSSIAccount is
@@ -61,37 +79,134 @@ contract TyronSSIAccount is
     CustomSlotInitializable,
     BaseAccount,
     IERC1271,
+    IERC5267,
     TokenCallbackHandler,
     UUPSUpgradeable
 {
     /**
      * @dev Using libraries
      */
-    using SafeMath for uint256;
     using ECDSA for bytes32;
+    using TyronGuardians for TyronGuardians.GuardianStorage;
+    /**
+     * @dev The guardians (social-recovery feature), the pending social recovery and its timelock.
+     * Their state variables are grouped in a struct of the same layout, for `TyronGuardians`.
+     */
+    TyronGuardians.GuardianStorage internal _guardianStorage;
+    /**
+     * @dev Session keys, their allowed targets and selectors (keyed by `_sessionPermission`),
+     * and the owner generation that invalidates every session when the owner changes.
+     */
+    mapping(address => SessionKey) internal _sessionKeys;
+    mapping(bytes32 => bool) internal _sessionPermissions;
+    uint256 internal _ownerGeneration;
+    /**
+     * @dev The spending policy checked before each call, and the policy scheduled to replace it.
+     */
+    ITyronSpendingPolicy internal _spendingPolicy;
+    ITyronSpendingPolicy internal _scheduledSpendingPolicy;
+    uint256 internal _spendingPolicyApplicableAt;
+    /**
+     * @dev The passkey that signs for the owner.
+     */
+    Passkey internal _passkey;
+    /**
+     * @dev The nonce of the next recovery request, so that guardian signatures are used once.
+     */
+    uint256 internal _recoveryNonce;
+    /**
+     * @dev The end of the guardian freeze, kept after it ends to space out freezes.
+     */
+    uint256 internal _frozenUntil;
+    /**
+     * @dev The last time the owner or its passkey authorized an action, directly or with a user operation.
+     */
+    uint256 internal _lastActivity;
     /**
-     * @dev Mapping of guardians by the hash of their addresses (social-recovery feature)
+     * @dev The call data hashes of the user operations the owner or its passkey signed, from their
+     * validation, which cannot read the time, to their execution, which records the activity.
+     * Each validation overwrites the flag of its call data, so that the flag of an owner operation
+     * that reverted or never executed does not carry over to another signer's operation.
      */
-    mapping(bytes32 => bool) internal _guardians;
-    uint256 internal _guardianCount;
-    uint256 internal _guardianThreshold;
+    mapping(bytes32 => bool) internal _ownerUserOps;
+    /**
+     * @dev The implementation the owner scheduled to upgrade to, which a spending policy requires,
+     * and the time from which the account can upgrade to it.
+     */
+    address internal _scheduledUpgrade;
+    uint256 internal _upgradeApplicableAt;
+    /**
+     * @dev The votes of the guardians to freeze the account, and the threshold the owner sets for them.
+     */
+    TyronGuardians.FreezeVotes internal _freezeVotes;
     IERC721 private immutable _dns;
 
     // keccak256(abi.encode(uint256(keccak256("light_account_v1.storage")) - 1)) & ~bytes32(uint256(0xff));
     bytes32 internal immutable _STORAGE_POSITION =
         0x691ec1a18226d004c07c9f8e5c4a6ff15a7b38db267cf7e3c945aef8be512200;
     // keccak256(abi.encode(uint256(keccak256("light_account_v1.initializable")) - 1)) & ~bytes32(uint256(0xff));
-    bytes32 internal immutable _INITIALIZABLE_STORAGE_POSITION =
+    // A constant, since the IR pipeline evaluates base constructor arguments before the immutables are set.
+    bytes32 internal constant _INITIALIZABLE_STORAGE_POSITION =
         0x33e4b41198cc5b8053630ed667ea7c0c4c873f7fc8d9a478b5d7259cec0a4a00;
+    // keccak256(abi.encode(uint256(keccak256("tyron.account.modules")) - 1)) & ~bytes32(uint256(0xff));
+    bytes32 internal constant _MODULE_STORAGE_POSITION =
+        0x223ea3a9decbcee8472234a111fec7653442a89121245a1af56defdc5c568700;
     // bytes4(keccak256("isValidSignature(bytes32,bytes)"))
-    bytes4 internal immutable _1271_MAGIC_VALUE = 0x1626ba7e;
+    bytes4 internal constant _1271_MAGIC_VALUE = 0x1626ba7e;
     IEntryPoint private immutable _entryPoint;
     // keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)")
     bytes32 private constant DOMAIN_SEPARATOR_TYPEHASH =
         0x8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f;
+    // @dev The name and version of the EIP-712 domain.
+    string private constant _DOMAIN_NAME = "TyronSSIAccount";
+    string private constant _DOMAIN_VERSION = "1";
     // keccak256("LightAccountMessage(bytes message)");
     bytes32 private constant LA_MSG_TYPEHASH =
         0x5e3baca2936049843f06038876a12f03627b5edc98025751ecf2ac7562640199;
+    /**
+     * @dev Bounds of the recovery timelock, and the time a recovery can be executed once its timelock passes.
+     */
+    uint256 public constant DEFAULT_RECOVERY_DELAY = 2 days;
+    uint256 public constant MIN_RECOVERY_DELAY = 1 hours;
+    uint256 public constant MAX_RECOVERY_DELAY = 30 days;
+    uint256 public constant RECOVERY_EXPIRY = 7 days;
+    /**
+     * @dev The maximum vote weight of a guardian.
+     */
+    uint256 public constant MAX_GUARDIAN_WEIGHT =
+        TyronGuardians.MAX_GUARDIAN_WEIGHT;
+    /**
+     * @dev The time a replacement or removal of the spending policy waits before it applies.
+     */
+    uint256 public constant SPENDING_POLICY_DELAY = 2 days;
+    /**
+     * @dev The time a guardian freeze gives the guardians to open a recovery, on top of the
+     * recovery timelock, and the time after a freeze before the next one.
+     */
+    uint256 internal constant FREEZE_PERIOD = 3 days;
+    /**
+     * @dev User operations signed by a session key carry
+     * `abi.encodePacked(SESSION_SIGNATURE_MAGIC, key, signature)`.
+     */
+    bytes4 public constant SESSION_SIGNATURE_MAGIC = 0x5e55104e;
+    uint256 internal constant _SESSION_SIGNATURE_LENGTH = 89;
+    /**
+     * @dev User operations and messages signed by the passkey carry
+     * `abi.encodePacked(PASSKEY_SIGNATURE_MAGIC, abi.encode(assertion))`.
+     */
+    bytes4 public constant PASSKEY_SIGNATURE_MAGIC = 0x9a55c0de;
+    /**
+     * @dev User operations and messages signed by a validator module carry
+     * `abi.encodePacked(VALIDATOR_SIGNATURE_MAGIC, validator, signature)`.
+     */
+    bytes4 public constant VALIDATOR_SIGNATURE_MAGIC = 0x7a11da70;
+    // @dev Selectors of the calls a session key can sign.
+    bytes4 internal constant _EXECUTE_SELECTOR =
+        bytes4(keccak256("execute(address,uint256,bytes)"));
+    bytes4 internal constant _EXECUTE_BATCH_SELECTOR =
+        bytes4(keccak256("executeBatch(address[],bytes[])"));
+    bytes4 internal constant _EXECUTE_BATCH_VALUE_SELECTOR =
+        bytes4(keccak256("executeBatch(address[],uint256[],bytes[])"));
 
     /**
      * @dev Alchemy's Light Account Storage
@@ -102,6 +217,66 @@ contract TyronSSIAccount is
         address owner;
     }
 
+    /**
+     * @dev The installed modules, at `_MODULE_STORAGE_POSITION`.
+     * @param installed Whether a module is installed, by module type.
+     * @param fallbackHandlers The fallback handler of each selector.
+     * @param ownerGenerations The owner generation a module was installed in, by module type.
+     */
+    struct ModuleStorage {
+        mapping(uint256 => mapping(address => bool)) installed;
+        mapping(bytes4 => address) fallbackHandlers;
+        mapping(uint256 => mapping(address => uint256)) ownerGenerations;
+    }
+
+    /**
+     * @dev The recovery message the guardians sign.
+     * @param newOwner The proposed owner of the account.
+     * @param nonce The recovery nonce of the account, consumed when a recovery is proposed.
+     * @param deadline The time until which the signatures can be submitted.
+     * @param chainId The chain the recovery is for.
+     */
+    struct RecoveryRequest {
+        address newOwner;
+        uint256 nonce;
+        uint256 deadline;
+        uint256 chainId;
+    }
+
+    /**
+     * @dev A session key registered by the owner.
+     * @param validAfter The time from which the key can sign user operations.
+     * @param validUntil The time until which the key can sign user operations (zero once revoked).
+     * @param epoch Bumped on every registration, so the permissions of a previous session do not carry over.
+     * @param anySelector Whether the key can call any function of its targets.
+     * @param ownerGeneration The owner generation the session was registered in.
+     * @param valueLimit The total native value the key can send.
+     * @param valueSpent The native value the key has sent so far.
+     */
+    struct SessionKey {
+        uint48 validAfter;
+        uint48 validUntil;
+        uint32 epoch;
+        bool anySelector;
+        uint256 ownerGeneration;
+        uint256 valueLimit;
+        uint256 valueSpent;
+    }
+
+    /**
+     * @dev A P-256 public key that signs WebAuthn assertions for the owner.
+     * @param x The x coordinate of the public key.
+     * @param y The y coordinate of the public key.
+     * @param verifier The contract that verifies the assertions.
+     * @param ownerGeneration The owner generation the passkey was registered in.
+     */
+    struct Passkey {
+        uint256 x;
+        uint256 y;
+        IWebAuthnVerifier verifier;
+        uint256 ownerGeneration;
+    }
+
     /**
      * @dev Emitted when a guardians are added or removed.
      * @param account The address of this account.
@@ -109,6 +284,191 @@ contract TyronSSIAccount is
      */
     event GuardiansUpdated(address indexed account, uint256 indexed threshold);
 
+    /**
+     * @dev Emitted when a guardian is registered.
+     * @param guardianHash The hash of the guardian address.
+     * @param source Whether the guardian was registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian.
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    event GuardianAdded(
+        bytes32 indexed guardianHash,
+        TyronGuardians.GuardianSource source,
+        address guardian,
+        uint256 tokenId
+    );
+
+    /**
+     * @dev Emitted when a guardian is removed.
+     * @param guardianHash The hash of the guardian address.
+     * @param source Whether the guardian was registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian.
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    event GuardianRemoved(
+        bytes32 indexed guardianHash,
+        TyronGuardians.GuardianSource source,
+        address guardian,
+        uint256 tokenId
+    );
+
+    /**
+     * @dev Emitted when the owner changes the threshold policy.
+     * @param mode How the threshold is computed.
+     * @param value The parameter of the mode.
+     */
+    event ThresholdPolicyUpdated(TyronGuardians.ThresholdMode mode, uint256 value);
+
+    /**
+     * @dev Emitted when the owner changes the vote weight of a guardian.
+     * @param guardianHash The hash of the guardian address.
+     * @param weight The new vote weight.
+     */
+    event GuardianWeightUpdated(bytes32 indexed guardianHash, uint256 weight);
+
+    /**
+     * @dev Emitted when the owner registers a session key.
+     * @param key The address of the session key.
+     * @param validAfter The time from which the key can sign user operations.
+     * @param validUntil The time until which the key can sign user operations.
+     * @param valueLimit The total native value the key can send.
+     * @param targets The contracts the key can call.
+     * @param selectors The functions the key can call (any if empty).
+     */
+    event SessionCreated(
+        address indexed key,
+        uint48 validAfter,
+        uint48 validUntil,
+        uint256 valueLimit,
+        address[] targets,
+        bytes4[] selectors
+    );
+
+    /**
+     * @dev Emitted when the owner revokes a session key.
+     * @param key The address of the session key.
+     */
+    event SessionRevoked(address indexed key);
+
+    /**
+     * @dev Emitted when the spending policy of the account changes.
+     * @param policy The new policy (zero if removed).
+     */
+    event SpendingPolicyUpdated(address indexed policy);
+
+    /**
+     * @dev Emitted when the owner schedules a replacement or removal of the spending policy.
+     * @param policy The scheduled policy (zero for a removal).
+     * @param applicableAt The time from which `applySpendingPolicy` can be called.
+     */
+    event SpendingPolicyScheduled(address indexed policy, uint256 applicableAt);
+
+    /**
+     * @dev Emitted when the owner schedules an upgrade of the account.
+     * @param applicableAt The time from which the account can upgrade to the implementation.
+     */
+    event UpgradeScheduled(address indexed implementation, uint256 applicableAt);
+
+    /**
+     * @dev Emitted when the owner registers or removes its passkey.
+     * @param x The x coordinate of the public key (zero if removed).
+     * @param y The y coordinate of the public key (zero if removed).
+     * @param verifier The contract that verifies the assertions.
+     */
+    event PasskeyUpdated(uint256 x, uint256 y, address verifier);
+
+    /**
+     * @dev Emitted when the owner installs a module.
+     * @param moduleTypeId The type the module is installed as.
+     * @param module The module.
+     */
+    event ModuleInstalled(uint256 moduleTypeId, address module);
+
+    /**
+     * @dev Emitted when the owner uninstalls a module.
+     * @param moduleTypeId The type the module was installed as.
+     * @param module The module.
+     */
+    event ModuleUninstalled(uint256 moduleTypeId, address module);
+
+    /**
+     * @dev Emitted when the `onUninstall` hook of a module reverts, which does not keep the module installed.
+     * @param moduleTypeId The type the module was installed as.
+     * @param module The module.
+     */
+    event ModuleUninstallFailed(uint256 moduleTypeId, address module);
+
+    /**
+     * @dev Emitted when the fallback handler of a selector changes.
+     * @param selector The function handled.
+     * @param handler The fallback handler (zero if removed).
+     */
+    event FallbackHandlerUpdated(bytes4 indexed selector, address handler);
+
+    /**
+     * @dev Emitted for each call of a batch executed with per-call results.
+     * @param index The position of the call in the batch.
+     * @param target The target of the call.
+     * @param success Whether the call succeeded.
+     * @param result The data returned by the call, or its revert data.
+     */
+    event BatchCallExecuted(
+        uint256 index,
+        address indexed target,
+        bool success,
+        bytes result
+    );
+
+    /**
+     * @dev Emitted when the guardians open a social recovery.
+     * @param newOwner The proposed owner of the account.
+     * @param executableAt The time from which the recovery can be executed.
+     */
+    event RecoveryProposed(address indexed newOwner, uint256 executableAt);
+
+    /**
+     * @dev Emitted when the owner cancels a pending social recovery.
+     * @param newOwner The proposed owner of the cancelled recovery.
+     */
+    event RecoveryCancelled(address indexed newOwner);
+
+    /**
+     * @dev Emitted when a social recovery rotates the owner of the account.
+     * @param previousOwner The owner before the recovery.
+     * @param newOwner The owner after the recovery.
+     */
+    event RecoveryExecuted(
+        address indexed previousOwner,
+        address indexed newOwner
+    );
+
+    /**
+     * @dev Emitted when the owner changes the recovery timelock.
+     * @param delay The new timelock, in seconds.
+     */
+    event RecoveryDelayUpdated(uint256 delay);
+
+    /**
+     * @dev Emitted when the votes of the guardians freeze the account.
+     * @param guardian The guardian whose vote froze the account.
+     * @param frozenUntil The time the freeze ends, unless a recovery ends it first.
+     */
+    event AccountFrozen(address indexed guardian, uint256 frozenUntil);
+
+    /**
+     * @dev Emitted when a guardian votes to freeze the account.
+     * @param guardian The guardian, or holder of the DNS NFT of guardians, that voted.
+     * @param votes The votes of the round so far.
+     * @param threshold The votes the freeze needs.
+     */
+    event FreezeVoted(address indexed guardian, uint256 votes, uint256 threshold);
+
+    /**
+     * @dev Emitted when the owner changes the votes a freeze needs.
+     * @param threshold The new freeze threshold (zero counts as one).
+     */
+    event FreezeThresholdUpdated(uint256 threshold);
+
     /**
      * @notice Emitted when this account is first initialized
      * @param entryPoint The entry point
@@ -136,29 +496,165 @@ contract TyronSSIAccount is
     error NotAuthorized(address caller);
 
     /**
-     * @notice Constructor to create a new account contract
-     * @param guardiansAddr The addresses of the social-recovery guardians
+     * @dev There is no pending social recovery.
+     */
+    error NoPendingRecovery();
+
+    /**
+     * @dev The timelock of the pending social recovery has not passed yet.
+     */
+    error RecoveryNotReady(uint256 executableAt);
+
+    /**
+     * @dev The pending social recovery was not executed in time.
+     */
+    error RecoveryExpired(uint256 expiredAt);
+
+    /**
+     * @dev The deadline of the guardian signatures has passed.
+     */
+    error RecoveryRequestExpired(uint256 deadline);
+
+    /**
+     * @dev The guardian is listed more than once in the recovery.
+     */
+    error DuplicateGuardian(address guardian);
+
+    /**
+     * @dev The recovery timelock is out of bounds.
+     */
+    error InvalidRecoveryDelay(uint256 delay);
+
+    /**
+     * @dev The threshold policy is malformed (e.g., a percentage above 100).
+     */
+    error InvalidThresholdPolicy(TyronGuardians.ThresholdMode mode, uint256 value);
+
+    /**
+     * @dev The guardian weight is out of bounds.
+     */
+    error InvalidGuardianWeight(bytes32 guardianHash, uint256 weight);
+
+    /**
+     * @dev The guardians cannot reach the threshold with their votes.
+     */
+    error UnreachableThreshold(uint256 threshold, uint256 votes);
+
+    /**
+     * @dev The signer of a recovery is not a guardian, nor holds the DNS NFT of one.
+     */
+    error UnregisteredGuardian(address guardian);
+
+    /**
+     * @dev The valid signatures of a recovery do not reach the threshold.
+     */
+    error InsufficientRecoveryVotes(uint256 threshold, uint256 votes);
+
+    /**
+     * @dev The session parameters are invalid (e.g., an empty time window, no targets, or the account as a target).
+     */
+    error InvalidSession(address key);
+
+    /**
+     * @dev The session key is not registered, revoked, or was registered by a previous owner.
+     */
+    error SessionNotActive(address key);
+
+    /**
+     * @dev The session key is not allowed to make the call.
+     */
+    error SessionCallNotAllowed(address key, address target, bytes4 selector);
+
+    /**
+     * @dev The session key would exceed its value limit.
+     */
+    error SessionValueExceeded(address key, uint256 value, uint256 remaining);
+
+    /**
+     * @dev There is no scheduled spending policy, or its delay has not passed.
+     */
+    error SpendingPolicyNotReady(uint256 applicableAt);
+
+    /**
+     * @dev The account has a spending policy and the call would withdraw from the entry point
+     * without going through `withdrawDepositTo`.
+     */
+    error EntryPointWithdrawal(bytes4 selector);
+
+    /**
+     * @dev The account has a spending policy and the upgrade is not scheduled, or its delay has not passed.
+     */
+    error UpgradeNotReady(address implementation, uint256 applicableAt);
+
+    /**
+     * @dev The passkey is not a P-256 public key, or has no verifier.
+     */
+    error InvalidPasskey(uint256 x, uint256 y);
+
+    /**
+     * @dev The module is not of the type, or is already installed (for fallbacks, the selector already has a handler).
+     */
+    error InvalidModule(uint256 moduleTypeId, address module);
+
+    /**
+     * @dev The module is not installed as the type.
+     */
+    error ModuleNotInstalled(uint256 moduleTypeId, address module);
+
+    /**
+     * @dev No fallback handler answers the function.
+     */
+    error NoFallbackHandler(bytes4 selector);
+
+    /**
+     * @dev The account is frozen by its guardians.
+     */
+    error Frozen(uint256 frozenUntil);
+
+    /**
+     * @dev The account cannot be frozen again before the time given.
+     */
+    error FreezeCooldown(uint256 availableAt);
+
+    /**
+     * @notice Constructor of the account implementation
+     * @dev Accounts are ERC-1967 proxies of this implementation, set up with `initialize`.
+     * The implementation itself cannot be initialized.
      * @param dns The address of the DNS contract
-     * @param guardiansId The NFT IDs of the social-recovery guardians
-     * param anEntryPoint The AA Entry Point interface
+     * @param anEntryPoint The AA Entry Point interface
      */
     constructor(
-        address[] memory guardiansAddr,
         address dns,
-        uint256[] memory guardiansId,
         address anEntryPoint
     ) CustomSlotInitializable(_INITIALIZABLE_STORAGE_POSITION) {
-        _initialize(msg.sender);
-        /**
-         * @dev Setup the first guardians of the account.
-         */
-        _setupGuardiansByAddr(guardiansAddr);
-        _setupGuardiansById(guardiansId);
         _dns = IERC721(dns);
         _entryPoint = IEntryPoint(anEntryPoint);
         _disableInitializers();
     }
 
+    /**
+     * @notice Initializes a new account behind an ERC-1967 proxy.
+     * @param anOwner The initial owner of the account
+     * @param guardiansAddr The addresses of the social-recovery guardians
+     * @param guardiansId The NFT IDs of the social-recovery guardians
+     */
+    function initialize(
+        address anOwner,
+        address[] memory guardiansAddr,
+        uint256[] memory guardiansId
+    ) public virtual initializer {
+        _initialize(anOwner);
+        /**
+         * @dev Setup the first guardians of the account.
+         */
+        _guardianStorage.addGuardians(
+            _dns,
+            anOwner,
+            guardiansAddr,
+            guardiansId
+        );
+    }
+
     /**
      * @notice Called once as part of initialization, either during initial deployment or when first upgrading to
      * this contract.
@@ -167,13 +663,29 @@ contract TyronSSIAccount is
      * the implementation by calling `upgradeTo()`
      * @param anOwner The initial owner of the account
      */
-    function _initialize(address anOwner) internal initializer {
+    function _initialize(address anOwner) internal virtual {
         if (anOwner == address(0)) {
             revert InvalidOwner(address(0));
         }
-        _getStorage().owner = anOwner;
+        _transferOwnership(anOwner);
         emit LightAccountInitialized(_entryPoint, anOwner);
-        emit OwnershipTransferred(address(0), anOwner);
+    }
+
+    /**
+     * @notice Returns the highest initialized version of the account.
+     * @dev Migrations of new implementations use `reinitializer(version + 1)`.
+     * @return The initialized version.
+     */
+    function getInitializedVersion() external view returns (uint64) {
+        return _getInitializedVersion();
+    }
+
+    /**
+     * @notice Returns the DNS contract that resolves guardians by NFT ID.
+     * @return The DNS contract.
+     */
+    function dns() external view returns (IERC721) {
+        return _dns;
     }
 
     /**
@@ -201,14 +713,42 @@ contract TyronSSIAccount is
             keccak256(
                 abi.encode(
                     DOMAIN_SEPARATOR_TYPEHASH,
-                    abi.encode("TyronSSIAccount"), // name
-                    abi.encode("1"), // version
+                    keccak256(bytes(_DOMAIN_NAME)), // name
+                    keccak256(bytes(_DOMAIN_VERSION)), // version
                     block.chainid, // chainId
                     address(this) // verifying contract
                 )
             );
     }
 
+    /**
+     * @inheritdoc IERC5267
+     * @dev The domain has a name, a version, a chain ID and a verifying contract.
+     */
+    function eip712Domain()
+        external
+        view
+        returns (
+            bytes1 fields,
+            string memory name,
+            string memory version,
+            uint256 chainId,
+            address verifyingContract,
+            bytes32 salt,
+            uint256[] memory extensions
+        )
+    {
+        return (
+            hex"0f",
+            _DOMAIN_NAME,
+            _DOMAIN_VERSION,
+            block.chainid,
+            address(this),
+            bytes32(0),
+            new uint256[](0)
+        );
+    }
+
     /**
      * @notice Returns the pre-image of the message hash
      * @param message Message that should be encoded.
@@ -236,31 +776,78 @@ contract TyronSSIAccount is
 
     /*
      * @notice Implements template method of BaseAccount.
+     * @dev While the account is frozen, user operations are only valid after the freeze,
+     * which the EntryPoint checks, as validation cannot read the time.
+     */
+    function _validateSignature(
+        UserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal override returns (uint256 validationData) {
+        validationData = _validateUserOpSignature(userOp, userOpHash);
+        uint256 frozen_until = _frozenUntil;
+        if (uint48(validationData >> 208) < frozen_until) {
+            validationData = uint208(validationData) | (frozen_until << 208);
+        }
+    }
+
+    /*
      * @dev A modified version of `SignatureChecker.isValidSignatureNow` in
      * which the digest is wrapped with an "Ethereum Signed Message" envelope
      * for the EOA-owner case but not in the ERC-1271 contract-owner case.
+     * Signatures prefixed with `SESSION_SIGNATURE_MAGIC` are checked against
+     * the permissions of their session key instead, and those prefixed with
+     * `PASSKEY_SIGNATURE_MAGIC` are WebAuthn assertions of the owner's passkey
+     * with the user operation hash as challenge. Those prefixed with
+     * `VALIDATOR_SIGNATURE_MAGIC` are checked by the installed validator module they name.
      */
-    function _validateSignature(
+    function _validateUserOpSignature(
         UserOperation calldata userOp,
         bytes32 userOpHash
-    ) internal view override returns (uint256 validationData) {
+    ) internal returns (uint256 validationData) {
+        bytes32 call_hash = keccak256(userOp.callData);
+        delete _ownerUserOps[call_hash];
+        address validator = _signatureValidator(userOp.signature);
+        if (validator != address(0)) {
+            return
+                IValidatorModule(validator).validateUserOp(userOp, userOpHash);
+        }
+        if (
+            userOp.signature.length == _SESSION_SIGNATURE_LENGTH &&
+            bytes4(userOp.signature[:4]) == SESSION_SIGNATURE_MAGIC
+        ) {
+            return _validateSessionSignature(userOp, userOpHash);
+        }
+        if (_isPasskeySignature(userOp.signature)) {
+            if (!_isValidPasskeySignature(userOpHash, userOp.signature)) {
+                return SIG_VALIDATION_FAILED;
+            }
+        } else if (!_isOwnerSignature(userOpHash, userOp.signature)) {
+            return SIG_VALIDATION_FAILED;
+        }
+        _ownerUserOps[call_hash] = true;
+        return 0;
+    }
+
+    /**
+     * @dev Whether the owner signed a user operation hash, with an "Ethereum Signed Message"
+     * envelope if the owner is an EOA.
+     */
+    function _isOwnerSignature(
+        bytes32 userOpHash,
+        bytes memory signature
+    ) internal view returns (bool) {
         address signer = owner();
         bytes32 signedHash = userOpHash.toEthSignedMessageHash();
-        bytes memory signature = userOp.signature;
         (address recovered, ECDSA.RecoverError error) = signedHash.tryRecover(
             signature
         );
-        if (
+        return
             (error == ECDSA.RecoverError.NoError && recovered == signer) ||
             SignatureChecker.isValidERC1271SignatureNow(
                 signer,
                 userOpHash,
                 signature
-            )
-        ) {
-            return 0;
-        }
-        return SIG_VALIDATION_FAILED;
+            );
     }
 
     /**
@@ -271,20 +858,35 @@ contract TyronSSIAccount is
      * owner (if the owner is a contract). Note that unlike the signature
      * validation used in `validateUserOp`, this does **not** wrap the digest in
      * an "Ethereum Signed Message" envelope before checking the signature in
-     * the EOA-owner case.
+     * the EOA-owner case. The owner's passkey can also sign, with the message
+     * hash as challenge, and so can the installed validator modules.
      *
      */
     function isValidSignature(
         bytes32 digest,
-        bytes memory signature
+        bytes calldata signature
     ) external view override returns (bytes4) {
+        if (block.timestamp < _frozenUntil) {
+            return 0xffffffff;
+        }
         bytes32 message_hash = getMessageHash(abi.encode(digest));
+        address validator = _signatureValidator(signature);
+        if (validator != address(0)) {
+            return
+                IValidatorModule(validator).isValidSignatureWithSender(
+                    msg.sender,
+                    message_hash,
+                    signature[24:]
+                );
+        }
         if (
-            SignatureChecker.isValidSignatureNow(
-                owner(),
-                message_hash,
-                signature
-            )
+            _isPasskeySignature(signature)
+                ? _isValidPasskeySignature(message_hash, signature)
+                : SignatureChecker.isValidSignatureNow(
+                    owner(),
+                    message_hash,
+                    signature
+                )
         ) {
             return _1271_MAGIC_VALUE;
         }
@@ -317,17 +919,50 @@ contract TyronSSIAccount is
         if (msg.sender != address(this) && msg.sender != owner()) {
             revert NotAuthorized(msg.sender);
         }
+        _requireNotFrozen();
     }
 
     /**
-     * @notice Requires the function call to go through EntryPoint or owner
+     * @notice Requires the function call to go through EntryPoint or owner, or to come from an executor module
+     * @dev Calls of the owner and the user operations it or its passkey signed record the activity
+     * of the owner. Those of session keys, validator and executor modules do not.
      */
-    function _requireFromEntryPointOrOwner() internal view {
-        if (msg.sender != address(entryPoint()) && msg.sender != owner()) {
+    function _requireFromEntryPointOrOwner() internal {
+        _requireNotFrozen();
+        if (msg.sender == address(entryPoint())) {
+            bytes32 call_hash = keccak256(msg.data);
+            if (_ownerUserOps[call_hash]) {
+                delete _ownerUserOps[call_hash];
+                _lastActivity = block.timestamp;
+            }
+        } else if (msg.sender == owner()) {
+            _lastActivity = block.timestamp;
+        } else if (!_isModuleActive(MODULE_TYPE_EXECUTOR, msg.sender)) {
             revert NotAuthorized(msg.sender);
         }
     }
 
+    /**
+     * @dev Records the activity of the owner for the functions restricted by `onlyOwner`
+     * when the owner calls them directly. Their calls through `execute` were recorded by it.
+     */
+    modifier recordsActivity() {
+        if (msg.sender != address(this)) {
+            _lastActivity = block.timestamp;
+        }
+        _;
+    }
+
+    /**
+     * @notice Requires the account not to be frozen, which suspends the powers of the owner,
+     * its keys and the executor modules.
+     */
+    function _requireNotFrozen() internal view {
+        if (block.timestamp < _frozenUntil) {
+            revert Frozen(_frozenUntil);
+        }
+    }
+
     /**
      * @notice Deposits more funds for this account in the entryPoint.
      */
@@ -351,11 +986,13 @@ contract TyronSSIAccount is
     function withdrawDepositTo(
         address payable withdrawAddress,
         uint256 amount
-    ) public onlyOwner {
+    ) public onlyOwner recordsActivity {
+        _checkSpendingPolicy(withdrawAddress, amount, "");
         entryPoint().withdrawTo(withdrawAddress, amount);
     }
 
     function _call(address target, uint256 value, bytes memory data) internal {
+        _checkSpendingPolicy(target, value, data);
         (bool success, bytes memory result) = target.call{value: value}(data);
         if (!success) {
             assembly {
@@ -431,199 +1068,770 @@ contract TyronSSIAccount is
     }
 
     /**
-     * @notice Retrieves a guardian of the account per address hash.
-     * @param guardian The address has of the guardian.
-     * @return is_guardian_ True if the guardian is registered.
+     * @notice Executes a sequence of transactions, letting some of them fail.
+     * @param dest An array of the targets for each transaction in the sequence.
+     * @param value An array of values for each transaction in the sequence.
+     * @param func An array of calldata for each transaction in the sequence.
+     * @param allowFailure Whether each transaction may fail without reverting the sequence.
+     * @return success Whether each transaction succeeded.
+     * @return results The data returned by each transaction, or its revert data.
+     * @dev Each call emits `BatchCallExecuted`, as user operations do not return data.
+     * A required call that fails reverts the sequence with its revert data, and the spending
+     * policy is enforced on every call, including those allowed to fail.
+     * Session keys cannot use this overload.
      */
-    function isGuardian(
-        bytes32 guardian
-    ) public view returns (bool is_guardian_) {
-        return _guardians[guardian];
+    function executeBatch(
+        address[] calldata dest,
+        uint256[] calldata value,
+        bytes[] calldata func,
+        bool[] calldata allowFailure
+    ) external returns (bool[] memory success, bytes[] memory results) {
+        _requireFromEntryPointOrOwner();
+        if (
+            dest.length != func.length ||
+            dest.length != value.length ||
+            dest.length != allowFailure.length
+        ) {
+            revert ArrayLengthMismatch();
+        }
+        uint256 length = dest.length;
+        success = new bool[](length);
+        results = new bytes[](length);
+        for (uint256 i = 0; i < length; ) {
+            (success[i], results[i]) = _tryCall(
+                i,
+                dest[i],
+                value[i],
+                func[i],
+                allowFailure[i]
+            );
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    function _tryCall(
+        uint256 index,
+        address target,
+        uint256 value,
+        bytes calldata data,
+        bool allowFailure
+    ) internal returns (bool success, bytes memory result) {
+        _checkSpendingPolicy(target, value, data);
+        (success, result) = target.call{value: value}(data);
+        if (!success && !allowFailure) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        emit BatchCallExecuted(index, target, success, result);
     }
 
     /**
-     * @notice Retrieves the number of guardians and the threshold.
-     * @return guardian_count_ The number of guardians.
-     * @return guardian_threshold_ The threshold required to recover the account.
-     * @dev The threshold is the number of guardians required to recover the account.
-     * The threshold is half plus one of the number of guardians.
-     * The minimum threshold is 3.
+     * @notice Sets the spending policy checked before each call of the account.
+     * @param policy The policy contract, e.g. a `TyronSpendingPolicy` (zero to remove it).
+     * @dev A policy is installed at once when there is none. Otherwise the change
+     * is scheduled and applies after `SPENDING_POLICY_DELAY` with `applySpendingPolicy`,
+     * so a leaked owner key cannot lift the policy before the guardians react.
+     * Scheduling the current policy cancels a scheduled change.
+     * While a policy is set, the deposit only leaves the entry point with `withdrawDepositTo`,
+     * which spends it as native value, and the stake cannot be withdrawn.
      */
-    function getGuardianParams()
+    function setSpendingPolicy(
+        address policy
+    ) external onlyOwner recordsActivity {
+        if (address(_spendingPolicy) == address(0)) {
+            _spendingPolicy = ITyronSpendingPolicy(policy);
+            emit SpendingPolicyUpdated(policy);
+            return;
+        }
+        _scheduledSpendingPolicy = ITyronSpendingPolicy(policy);
+        _spendingPolicyApplicableAt = block.timestamp + SPENDING_POLICY_DELAY;
+        emit SpendingPolicyScheduled(policy, _spendingPolicyApplicableAt);
+    }
+
+    /**
+     * @notice Applies the scheduled spending policy once its delay has passed.
+     */
+    function applySpendingPolicy() external onlyOwner recordsActivity {
+        uint256 applicableAt = _spendingPolicyApplicableAt;
+        if (applicableAt == 0 || block.timestamp < applicableAt) {
+            revert SpendingPolicyNotReady(applicableAt);
+        }
+        _spendingPolicy = _scheduledSpendingPolicy;
+        delete _scheduledSpendingPolicy;
+        delete _spendingPolicyApplicableAt;
+        emit SpendingPolicyUpdated(address(_spendingPolicy));
+    }
+
+    /**
+     * @notice Retrieves the spending policy.
+     * @return policy_ The policy checked before each call (zero if there is none).
+     * @return scheduled_policy_ The policy scheduled to replace it.
+     * @return applicable_at_ The time from which the scheduled policy can be applied (zero if there is none).
+     */
+    function getSpendingPolicy()
         external
         view
-        returns (uint256 guardian_count_, uint256 guardian_threshold_)
+        returns (
+            address policy_,
+            address scheduled_policy_,
+            uint256 applicable_at_
+        )
     {
-        return (_guardianCount, _guardianThreshold);
+        return (
+            address(_spendingPolicy),
+            address(_scheduledSpendingPolicy),
+            _spendingPolicyApplicableAt
+        );
     }
 
     /**
-     * @notice Updates the guardians' threshold.
-     * Sets the theshold to half plus one of the number of guardians.
-     * @param guardianCount The number of registered guardians.
+     * @notice Schedules an upgrade of the account, which it needs while it has a spending policy.
+     * @dev `upgradeTo` and `upgradeToAndCall` then only accept the scheduled implementation, after
+     * `SPENDING_POLICY_DELAY`, so that a leaked owner key cannot upgrade the policy away either.
+     * Scheduling another implementation replaces the schedule.
      */
-    function _updateGuardianThreshold(uint256 guardianCount) internal {
-        uint256 threshold;
-        assembly {
-            threshold := add(div(guardianCount, 2), 1)
-            // Requires the threeshold to be at least 3.
-            if lt(threshold, 3) {
-                threshold := 3
+    function scheduleUpgrade(
+        address newImplementation
+    ) external onlyOwner recordsActivity {
+        _scheduledUpgrade = newImplementation;
+        _upgradeApplicableAt = block.timestamp + SPENDING_POLICY_DELAY;
+        emit UpgradeScheduled(newImplementation, _upgradeApplicableAt);
+    }
+
+    /**
+     * @notice Retrieves the scheduled upgrade.
+     * @return implementation_ The implementation the account can upgrade to.
+     * @return applicable_at_ The time from which it can (zero if there is no scheduled upgrade).
+     */
+    function getScheduledUpgrade()
+        external
+        view
+        returns (address implementation_, uint256 applicable_at_)
+    {
+        return (_scheduledUpgrade, _upgradeApplicableAt);
+    }
+
+    function _checkSpendingPolicy(
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal {
+        if (address(_spendingPolicy) == address(0)) {
+            return;
+        }
+        if (target == address(entryPoint())) {
+            bytes4 selector = bytes4(data);
+            if (
+                selector == IStakeManager.withdrawTo.selector ||
+                selector == IStakeManager.withdrawStake.selector
+            ) {
+                revert EntryPointWithdrawal(selector);
             }
         }
-        _guardianThreshold = threshold;
-        emit GuardiansUpdated(address(this), threshold);
+        _spendingPolicy.checkCall(target, value, data);
     }
 
     /**
-     * @notice Setup function that sets initial guardians by address.
-     * @param guardiansAddr List of social-recovery guardians per address.
-     * @dev The guardians must be unique, not null and not the owner.
+     * @notice Registers the passkey that signs for the owner, replacing the previous one.
+     * @param x The x coordinate of the P-256 public key (zero with `y` to remove the passkey).
+     * @param y The y coordinate of the P-256 public key.
+     * @param verifier The WebAuthn verifier, e.g. a `TyronWebAuthnVerifier`.
+     * @dev The passkey signs user operations and ERC-1271 messages like the owner does.
+     * It is removed when the owner changes, e.g. by a social recovery.
      */
-    function _setupGuardiansByAddr(address[] memory guardiansAddr) internal {
-        /**
-         * @dev Count the number of incoming guardians
-         */
-        uint256 incoming = guardiansAddr.length;
+    function setPasskey(
+        uint256 x,
+        uint256 y,
+        address verifier
+    ) external onlyOwner recordsActivity {
+        if (x == 0 && y == 0) {
+            delete _passkey;
+            emit PasskeyUpdated(0, 0, address(0));
+            return;
+        }
+        if (verifier == address(0) || !P256.isOnCurve(x, y)) {
+            revert InvalidPasskey(x, y);
+        }
+        _passkey = Passkey(
+            x,
+            y,
+            IWebAuthnVerifier(verifier),
+            _ownerGeneration
+        );
+        emit PasskeyUpdated(x, y, verifier);
+    }
 
-        /**
-         * @dev Account the registered guardians
-         */
-        uint256 guardian_count = _guardianCount;
+    /**
+     * @notice Retrieves the passkey that signs for the owner.
+     * @return x_ The x coordinate of the public key (zero if there is none).
+     * @return y_ The y coordinate of the public key (zero if there is none).
+     * @return verifier_ The contract that verifies the assertions.
+     */
+    function getPasskey()
+        external
+        view
+        returns (uint256 x_, uint256 y_, address verifier_)
+    {
+        Passkey memory passkey = _passkey;
+        if (passkey.ownerGeneration != _ownerGeneration) {
+            return (0, 0, address(0));
+        }
+        return (passkey.x, passkey.y, address(passkey.verifier));
+    }
 
-        /**
-         * @dev Fetch the owner of the account
-         */
-        address signer = owner();
+    function _isPasskeySignature(
+        bytes calldata signature
+    ) internal pure returns (bool) {
+        return
+            signature.length > 65 &&
+            bytes4(signature[:4]) == PASSKEY_SIGNATURE_MAGIC;
+    }
 
-        /**
-         * @dev Account the new guardians that pass the checks
-         */
-        for (uint256 i = 0; i < incoming; i++) {
-            address guardian = guardiansAddr[i];
-
-            /**
-             * @dev Calculate the hash of the guardian address.
-             */
-            bytes32 guardian_hash = keccak256(abi.encodePacked(guardian));
-
-            /**
-             * @dev Verify that the guardian is valid.
-             * A guardian cannot be repeated.
-             * A guardian cannot be null.
-             * A guardian cannot be the owner.
-             */
-            require(
-                !isGuardian(guardian_hash),
-                "Account: A guardian cannot be repeated."
-            );
+    /**
+     * @dev Checks a WebAuthn assertion of the owner's passkey over a challenge.
+     */
+    function _isValidPasskeySignature(
+        bytes32 challenge,
+        bytes calldata signature
+    ) internal view returns (bool) {
+        Passkey memory passkey = _passkey;
+        if (
+            address(passkey.verifier) == address(0) ||
+            passkey.ownerGeneration != _ownerGeneration
+        ) {
+            return false;
+        }
+        // @dev A malformed assertion reverts while the verifier decodes it: it is an invalid signature.
+        try
+            passkey.verifier.verify(
+                challenge,
+                signature[4:],
+                passkey.x,
+                passkey.y
+            )
+        returns (bool valid) {
+            return valid;
+        } catch {
+            return false;
+        }
+    }
 
-            /**
-             * @dev Verify that the given address is not null.
-             * A guardian cannot be null.
-             */
-            require(
-                guardian != address(0),
-                "Account: A guardian cannot be null."
-            );
+    /**
+     * @notice Installs a module.
+     * @param moduleTypeId The type to install the module as: `MODULE_TYPE_VALIDATOR`,
+     * `MODULE_TYPE_EXECUTOR` or `MODULE_TYPE_FALLBACK`.
+     * @param module The module, which must support the type.
+     * @param initData The data of the module's `onInstall`. For a fallback handler,
+     * it starts with the selector the handler answers.
+     * @dev Validators sign for the account and executors can call `execute` and
+     * `executeBatch`, so both act with the owner's authority, until the owner changes.
+     */
+    function installModule(
+        uint256 moduleTypeId,
+        address module,
+        bytes calldata initData
+    ) external onlyOwner recordsActivity {
+        ModuleStorage storage modules = _getModuleStorage();
+        if (
+            moduleTypeId == MODULE_TYPE_FALLBACK &&
+            initData.length >= 4 &&
+            modules.fallbackHandlers[bytes4(initData[:4])] == address(0)
+        ) {
+            modules.fallbackHandlers[bytes4(initData[:4])] = module;
+            emit FallbackHandlerUpdated(bytes4(initData[:4]), module);
+            initData = initData[4:];
+        } else if (
+            moduleTypeId == MODULE_TYPE_FALLBACK ||
+            _isModuleActive(moduleTypeId, module)
+        ) {
+            revert InvalidModule(moduleTypeId, module);
+        }
+        if (!IModule(module).isModuleType(moduleTypeId)) {
+            revert InvalidModule(moduleTypeId, module);
+        }
+        // @dev Fallback handlers are tracked by selector only, which uninstalling clears.
+        if (moduleTypeId != MODULE_TYPE_FALLBACK) {
+            modules.installed[moduleTypeId][module] = true;
+            modules.ownerGenerations[moduleTypeId][module] = _ownerGeneration;
+        }
+        IModule(module).onInstall(initData);
+        emit ModuleInstalled(moduleTypeId, module);
+    }
 
-            /**
-             * @dev Verify that the guardian is not the account owner.
-             * A guardian cannot be the owner.
-             */
-            require(
-                guardian != signer,
-                "Account: A guardian cannot be the account owner."
-            );
+    /**
+     * @notice Uninstalls a module.
+     * @param moduleTypeId The type the module is installed as.
+     * @param module The module.
+     * @param deInitData The data of the module's `onUninstall`. For a fallback
+     * handler, it starts with the selector to remove.
+     * @dev The module is removed even if its `onUninstall` reverts, so that a
+     * faulty module cannot stay installed, and `ModuleUninstallFailed` reports the revert. The modules of a previous owner can be uninstalled too.
+     */
+    function uninstallModule(
+        uint256 moduleTypeId,
+        address module,
+        bytes calldata deInitData
+    ) external onlyOwner recordsActivity {
+        ModuleStorage storage modules = _getModuleStorage();
+        if (moduleTypeId == MODULE_TYPE_FALLBACK) {
+            if (
+                deInitData.length < 4 ||
+                modules.fallbackHandlers[bytes4(deInitData[:4])] != module
+            ) {
+                revert ModuleNotInstalled(moduleTypeId, module);
+            }
+            delete modules.fallbackHandlers[bytes4(deInitData[:4])];
+            emit FallbackHandlerUpdated(bytes4(deInitData[:4]), address(0));
+            deInitData = deInitData[4:];
+        } else if (!modules.installed[moduleTypeId][module]) {
+            revert ModuleNotInstalled(moduleTypeId, module);
+        } else {
+            delete modules.installed[moduleTypeId][module];
+            delete modules.ownerGenerations[moduleTypeId][module];
+        }
+        (bool success, ) = module.call(
+            abi.encodeCall(IModule.onUninstall, (deInitData))
+        );
+        if (!success) {
+            emit ModuleUninstallFailed(moduleTypeId, module);
+        }
+        emit ModuleUninstalled(moduleTypeId, module);
+    }
 
-            /**
-             * @dev The guardian is approved.
-             * Add one to the number of guardians.
-             * Save the guardian in the guardians map.
-             */
-            guardian_count = guardian_count.add(1);
-            _guardians[guardian_hash] = true;
-            console.log("New guardian address: %o", guardian);
+    /**
+     * @notice Checks whether a module is installed.
+     * @param moduleTypeId The type of the module.
+     * @param module The module.
+     * @param additionalContext For a fallback handler, the selector it answers.
+     */
+    function isModuleInstalled(
+        uint256 moduleTypeId,
+        address module,
+        bytes calldata additionalContext
+    ) external view returns (bool) {
+        ModuleStorage storage modules = _getModuleStorage();
+        if (moduleTypeId == MODULE_TYPE_FALLBACK) {
+            return
+                module != address(0) &&
+                additionalContext.length >= 4 &&
+                modules.fallbackHandlers[bytes4(additionalContext[:4])] ==
+                module;
         }
-        _guardianCount = guardian_count;
-        _updateGuardianThreshold(guardian_count);
+        return _isModuleActive(moduleTypeId, module);
     }
 
     /**
-     * @notice Setup function that sets initial guardians.
-     * @param guardiansId List of social-recovery guardians by NFT ID.
-     * @dev The guardians must be unique, not null and not the owner.
+     * @notice Forwards calls to functions the account does not implement to
+     * their fallback handler, with the caller appended to the calldata.
      */
-    function _setupGuardiansById(uint256[] memory guardiansId) internal {
-        /**
-         * @dev Counts the number of incoming guardians.
-         */
-        uint256 incoming = guardiansId.length;
+    fallback() external payable {
+        address handler = _getModuleStorage().fallbackHandlers[msg.sig];
+        if (handler == address(0)) {
+            revert NoFallbackHandler(msg.sig);
+        }
+        (bool success, bytes memory result) = handler.call{value: msg.value}(
+            abi.encodePacked(msg.data, msg.sender)
+        );
+        assembly {
+            switch success
+            case 0 {
+                revert(add(result, 32), mload(result))
+            }
+            default {
+                return(add(result, 32), mload(result))
+            }
+        }
+    }
 
-        /**
-         * @dev Accounts for the registered guardians.
-         */
-        uint256 guardian_count = _guardianCount;
+    /**
+     * @dev The installed validator a signature is made with, or zero if another signer made it.
+     */
+    function _signatureValidator(
+        bytes calldata signature
+    ) internal view returns (address validator) {
+        if (
+            signature.length >= 24 &&
+            bytes4(signature[:4]) == VALIDATOR_SIGNATURE_MAGIC
+        ) {
+            validator = address(bytes20(signature[4:24]));
+            if (!_isModuleActive(MODULE_TYPE_VALIDATOR, validator)) {
+                validator = address(0);
+            }
+        }
+    }
 
-        /**
-         * @dev Fetches the owner of the account
-         */
-        address signer = owner();
+    /**
+     * @dev Whether a validator or executor module is installed by the current owner.
+     * Like session keys and the passkey, the modules of a previous owner stop working
+     * when the owner changes, e.g. on recovery, and can be installed again.
+     */
+    function _isModuleActive(
+        uint256 moduleTypeId,
+        address module
+    ) internal view returns (bool) {
+        ModuleStorage storage modules = _getModuleStorage();
+        return
+            modules.installed[moduleTypeId][module] &&
+            modules.ownerGenerations[moduleTypeId][module] == _ownerGeneration;
+    }
 
-        /**
-         * @dev Accounts for the new guardians that pass the checks.
-         */
-        for (uint256 i = 0; i < incoming; i++) {
-            uint256 guardian_id = guardiansId[i];
-            /**
-             * @dev Fetches the owner address with ownerOf
-             */
-            address guardian = _dns.ownerOf(guardian_id);
-
-            /**
-             * @dev Calculates the hash of the guardian address
-             */
-            bytes32 guardian_hash = keccak256(abi.encodePacked(guardian));
-
-            /**
-             * @dev Verifies that the guardian is valid
-             * A guardian cannot be repeated
-             * A guardian cannot be null
-             * A guardian cannot be the owner
-             */
-            require(
-                !isGuardian(guardian_hash),
-                "Account: A guardian cannot be repeated."
-            );
+    function _getModuleStorage()
+        internal
+        pure
+        returns (ModuleStorage storage modules)
+    {
+        bytes32 position = _MODULE_STORAGE_POSITION;
+        assembly {
+            modules.slot := position
+        }
+    }
 
-            /**
-             * @dev Verifies that the given address is not null.
-             * A guardian cannot be null.
-             */
-            require(
-                guardian != address(0),
-                "Account: A guardian cannot be null."
-            );
+    /**
+     * @notice Registers a session key, replacing its previous session if there is one.
+     * @param key The address of the session key (an EOA).
+     * @param validAfter The time from which the key can sign user operations.
+     * @param validUntil The time until which the key can sign user operations.
+     * @param valueLimit The total native value the key can send.
+     * @param targets The contracts the key can call, other than the account itself and the entry point.
+     * @param selectors The functions the key can call on its targets (any if empty).
+     * @dev The session key signs user operations calling `execute` or `executeBatch`.
+     * Its time window is returned to the entry point as `validAfter`/`validUntil`.
+     * The value of a user operation counts against `valueLimit` when it is validated,
+     * so it stays spent even if the execution of the operation reverts.
+     * Sessions end when the owner changes.
+     */
+    function createSession(
+        address key,
+        uint48 validAfter,
+        uint48 validUntil,
+        uint256 valueLimit,
+        address[] calldata targets,
+        bytes4[] calldata selectors
+    ) external onlyOwner recordsActivity {
+        if (
+            key == address(0) ||
+            validUntil <= validAfter ||
+            validUntil <= block.timestamp ||
+            targets.length == 0
+        ) {
+            revert InvalidSession(key);
+        }
+        SessionKey storage session = _sessionKeys[key];
+        uint32 epoch = session.epoch + 1;
+        _sessionKeys[key] = SessionKey({
+            validAfter: validAfter,
+            validUntil: validUntil,
+            epoch: epoch,
+            anySelector: selectors.length == 0,
+            ownerGeneration: _ownerGeneration,
+            valueLimit: valueLimit,
+            valueSpent: 0
+        });
+        for (uint256 i = 0; i < targets.length; i++) {
+            address target = targets[i];
+            if (target == address(this) || target == address(entryPoint())) {
+                revert InvalidSession(key);
+            }
+            _sessionPermissions[
+                _sessionPermission(key, epoch, bytes32(bytes20(target)))
+            ] = true;
+        }
+        for (uint256 i = 0; i < selectors.length; i++) {
+            _sessionPermissions[
+                _sessionPermission(key, epoch, bytes32(selectors[i]))
+            ] = true;
+        }
+        emit SessionCreated(
+            key,
+            validAfter,
+            validUntil,
+            valueLimit,
+            targets,
+            selectors
+        );
+    }
+
+    /**
+     * @notice Revokes a session key.
+     * @param key The address of the session key.
+     */
+    function revokeSession(address key) external onlyOwner recordsActivity {
+        SessionKey storage session = _sessionKeys[key];
+        if (session.validUntil == 0) {
+            revert SessionNotActive(key);
+        }
+        session.validAfter = 0;
+        session.validUntil = 0;
+        emit SessionRevoked(key);
+    }
+
+    /**
+     * @notice Retrieves a session key.
+     * @param key The address of the session key.
+     * @return valid_after_ The time from which the key can sign user operations.
+     * @return valid_until_ The time until which the key can sign user operations.
+     * @return value_limit_ The total native value the key can send.
+     * @return value_spent_ The native value the key has sent so far.
+     * @return active_ Whether the session is registered, not revoked and from the current owner
+     * (it may still be outside of its time window).
+     */
+    function getSession(
+        address key
+    )
+        external
+        view
+        returns (
+            uint48 valid_after_,
+            uint48 valid_until_,
+            uint256 value_limit_,
+            uint256 value_spent_,
+            bool active_
+        )
+    {
+        SessionKey memory session = _sessionKeys[key];
+        return (
+            session.validAfter,
+            session.validUntil,
+            session.valueLimit,
+            session.valueSpent,
+            _isSessionActive(session)
+        );
+    }
+
+    /**
+     * @notice Checks whether a session key can call a function of a target.
+     * @param key The address of the session key.
+     * @param target The contract called.
+     * @param selector The function called (zero for plain transfers).
+     * @return True if the session is active and allows the call.
+     */
+    function isSessionCallAllowed(
+        address key,
+        address target,
+        bytes4 selector
+    ) public view returns (bool) {
+        SessionKey memory session = _sessionKeys[key];
+        return
+            _isSessionActive(session) &&
+            _sessionPermissions[
+                _sessionPermission(key, session.epoch, bytes32(bytes20(target)))
+            ] &&
+            (session.anySelector ||
+                _sessionPermissions[
+                    _sessionPermission(key, session.epoch, bytes32(selector))
+                ]);
+    }
+
+    function _isSessionActive(
+        SessionKey memory session
+    ) internal view returns (bool) {
+        return
+            session.validUntil != 0 &&
+            session.ownerGeneration == _ownerGeneration;
+    }
 
-            /**
-             * @dev Verifies that the guardian is not the account owner.
-             * A guardian cannot be the owner.
-             */
-            require(
-                guardian != signer,
-                "Account: A guardian cannot be the account owner."
+    function _sessionPermission(
+        address key,
+        uint32 epoch,
+        bytes32 permission
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encode(key, epoch, permission));
+    }
+
+    /**
+     * @notice Validates a user operation signed by a session key.
+     * @dev Reverts if the call is not allowed, and accounts for the value it sends.
+     * The time window is left to the entry point, as validation cannot read the time.
+     */
+    function _validateSessionSignature(
+        UserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal returns (uint256 validationData) {
+        address key = address(bytes20(userOp.signature[4:24]));
+        SessionKey storage session = _sessionKeys[key];
+        if (!_isSessionActive(session)) {
+            revert SessionNotActive(key);
+        }
+        (address recovered, ECDSA.RecoverError error) = userOpHash
+            .toEthSignedMessageHash()
+            .tryRecover(userOp.signature[24:]);
+        if (error != ECDSA.RecoverError.NoError || recovered != key) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        bytes calldata call_data = userOp.callData;
+        bytes4 selector = bytes4(call_data);
+        uint256 value;
+        if (selector == _EXECUTE_SELECTOR) {
+            (address dest, uint256 amount, bytes memory func) = abi.decode(
+                call_data[4:],
+                (address, uint256, bytes)
             );
+            _checkSessionCall(key, dest, func);
+            value = amount;
+        } else if (selector == _EXECUTE_BATCH_SELECTOR) {
+            (address[] memory dest, bytes[] memory func) = abi.decode(
+                call_data[4:],
+                (address[], bytes[])
+            );
+            for (uint256 i = 0; i < dest.length; i++) {
+                _checkSessionCall(key, dest[i], func[i]);
+            }
+        } else if (selector == _EXECUTE_BATCH_VALUE_SELECTOR) {
+            (
+                address[] memory dest,
+                uint256[] memory amounts,
+                bytes[] memory func
+            ) = abi.decode(call_data[4:], (address[], uint256[], bytes[]));
+            for (uint256 i = 0; i < dest.length; i++) {
+                _checkSessionCall(key, dest[i], func[i]);
+                value += amounts[i];
+            }
+        } else {
+            revert SessionCallNotAllowed(key, address(this), selector);
+        }
+
+        uint256 remaining = session.valueLimit - session.valueSpent;
+        if (value > remaining) {
+            revert SessionValueExceeded(key, value, remaining);
+        }
+        session.valueSpent += value;
+        return _packValidationData(false, session.validUntil, session.validAfter);
+    }
 
-            /**
-             * @notice The guardian is approved.
-             * @dev Adds one to the number of guardians.
-             * @dev Saves the guardian in the guardians map.
-             */
-            guardian_count = guardian_count.add(1);
-            _guardians[guardian_hash] = true;
+    function _checkSessionCall(
+        address key,
+        address target,
+        bytes memory func
+    ) internal view {
+        bytes4 selector = bytes4(func);
+        if (!isSessionCallAllowed(key, target, selector)) {
+            revert SessionCallNotAllowed(key, target, selector);
         }
-        _guardianCount = guardian_count;
-        _updateGuardianThreshold(guardian_count);
+    }
+
+    /**
+     * @notice Retrieves a guardian of the account per address hash.
+     * @param guardian The address has of the guardian.
+     * @return is_guardian_ True if the guardian is registered.
+     */
+    function isGuardian(
+        bytes32 guardian
+    ) public view returns (bool is_guardian_) {
+        return _guardianStorage.guardians[guardian];
+    }
+
+    /**
+     * @notice Lists the registered guardians, in registration order
+     * (removals move the last guardian into the removed one's place).
+     * @return guardians_ The registered guardians, with DNS NFTs resolved to their current holder.
+     */
+    function getGuardians()
+        external
+        view
+        returns (TyronGuardians.Guardian[] memory guardians_)
+    {
+        return _guardianStorage.getGuardians(_dns);
+    }
+
+    /**
+     * @notice Resolves a guardian to the address that votes for it.
+     * @param guardian The hash of the guardian address, or of the DNS NFT ID.
+     * @return The guardian address, or the current holder of the DNS NFT
+     * (zero if the guardian is not registered or the NFT no longer exists).
+     */
+    function resolveGuardian(bytes32 guardian) external view returns (address) {
+        return _guardianStorage.resolveGuardian(_dns, guardian);
+    }
+
+    /**
+     * @notice Counts the votes a signer holds in a social recovery.
+     * @param signer The address of the signer.
+     * @return votes_ The number of guardians the signer resolves to (by address, or holding their DNS NFT),
+     * or their total weight with the `Weighted` policy.
+     */
+    function getGuardianVotes(
+        address signer
+    ) public view returns (uint256 votes_) {
+        return _guardianStorage.getGuardianVotes(_dns, signer);
+    }
+
+    /**
+     * @notice Retrieves the number of guardians and the threshold.
+     * @return guardian_count_ The number of guardians.
+     * @return guardian_threshold_ The threshold required to recover the account.
+     * @dev The threshold follows the policy returned by `getThresholdPolicy`.
+     * It is a number of guardians, or a total weight with the `Weighted` policy.
+     */
+    function getGuardianParams()
+        external
+        view
+        returns (uint256 guardian_count_, uint256 guardian_threshold_)
+    {
+        return (_guardianStorage.count, _guardianStorage.threshold);
+    }
+
+    /**
+     * @notice Retrieves the threshold policy.
+     * @return mode_ How the threshold is computed.
+     * @return value_ The parameter of the mode.
+     */
+    function getThresholdPolicy()
+        external
+        view
+        returns (TyronGuardians.ThresholdMode mode_, uint256 value_)
+    {
+        TyronGuardians.ThresholdPolicy memory policy = _guardianStorage
+            .thresholdPolicy;
+        return (policy.mode, policy.value);
+    }
+
+    /**
+     * @notice Retrieves the vote weight of a guardian.
+     * @param guardian The address hash of the guardian.
+     * @return The vote weight (zero if the guardian is not registered).
+     */
+    function getGuardianWeight(
+        bytes32 guardian
+    ) external view returns (uint256) {
+        return _guardianStorage.getGuardianWeight(guardian);
+    }
+
+    /**
+     * @notice Retrieves the total vote weight of the guardians.
+     * @return The sum of the guardians' weights.
+     */
+    function getGuardianTotalWeight() external view returns (uint256) {
+        return _guardianStorage.count + _guardianStorage.extraWeight;
+    }
+
+    /**
+     * @notice Sets the threshold policy.
+     * @param mode How the threshold is computed.
+     * @param value The parameter of the mode: zero for `Majority`, a number of guardians for `Fixed`,
+     * a percentage between 1 and 100 for `Percentage`, and a weight for `Weighted`.
+     * @dev The registered guardians must be able to reach the resulting threshold.
+     */
+    function setThresholdPolicy(
+        TyronGuardians.ThresholdMode mode,
+        uint256 value
+    ) external onlyOwner recordsActivity {
+        _guardianStorage.setThresholdPolicy(mode, value);
+    }
+
+    /**
+     * @notice Sets the vote weight of registered guardians, used by the `Weighted` policy.
+     * @param guardiansHash List of social-recovery guardians per address hash.
+     * @param weights The vote weights, between 1 and `MAX_GUARDIAN_WEIGHT`.
+     */
+    function setGuardianWeights(
+        bytes32[] memory guardiansHash,
+        uint256[] memory weights
+    ) external onlyOwner recordsActivity {
+        _guardianStorage.setGuardianWeights(guardiansHash, weights);
     }
 
     /**
@@ -636,9 +1844,13 @@ contract TyronSSIAccount is
     function addGuardians(
         address[] memory guardiansAddr,
         uint256[] memory guardiansId
-    ) external onlyOwner {
-        _setupGuardiansByAddr(guardiansAddr);
-        _setupGuardiansById(guardiansId);
+    ) external onlyOwner recordsActivity {
+        _guardianStorage.addGuardians(
+            _dns,
+            owner(),
+            guardiansAddr,
+            guardiansId
+        );
     }
 
     /**
@@ -646,43 +1858,12 @@ contract TyronSSIAccount is
      * @param guardiansHash List of social-recovery guardians per address hash.
      * @dev The guardians must be valid.
      * The removal must be approved by the owner.
+     * The remaining guardians must be able to reach the threshold of the policy.
      */
     function removeGuardians(
         bytes32[] memory guardiansHash
-    ) external onlyOwner {
-        /**
-         * @dev Count the number of guardians to remove.
-         */
-        uint256 outcoming = guardiansHash.length;
-
-        /**
-         * @dev Account the registered guardians
-         */
-        uint256 guardian_count = _guardianCount;
-
-        /**
-         * @dev Account the guardians that pass the checks
-         */
-        for (uint256 i = 0; i < outcoming; i++) {
-            bytes32 guardian = guardiansHash[i];
-
-            /**
-             * @dev Verify that the guardian is valid.
-             * A guardian must be registered.
-             */
-            require(isGuardian(guardian), "Account: Unregistered guardian.");
-
-            /**
-             * @dev Remove guardian from guardians map.
-             */
-            delete _guardians[guardian];
-            /**
-             * @dev Decrease the number of guardians by one.
-             */
-            guardian_count = guardian_count.sub(1);
-        }
-        _guardianCount = guardian_count;
-        _updateGuardianThreshold(guardian_count);
+    ) external onlyOwner recordsActivity {
+        _guardianStorage.removeGuardians(guardiansHash);
     }
 
     /**
@@ -692,7 +1873,9 @@ contract TyronSSIAccount is
      * user operation signed by the current owner.
      * @param newOwner The new account owner.
      */
-    function transferOwnership(address newOwner) public override(Ownable2Step) {
+    function transferOwnership(
+        address newOwner
+    ) public override(Ownable2Step) recordsActivity {
         LightAccountStorage storage _storage = _getStorage();
         address old_owner = _storage.owner;
 
@@ -706,11 +1889,22 @@ contract TyronSSIAccount is
         Ownable2Step.transferOwnership(newOwner);
     }
 
+    /**
+     * @inheritdoc Ownable
+     * @dev Always reverts: an account without owner could never act again, and
+     * only a social recovery can take the ownership away from the owner.
+     */
+    function renounceOwnership() public pure override {
+        revert InvalidOwner(address(0));
+    }
+
     /**
      * @inheritdoc Ownable2Step
-     * @dev The new owner accepts the ownership transfer.
+     * @dev The new owner accepts the ownership transfer, unless the guardians froze the account,
+     * so that a transfer started with a leaked owner key cannot complete during the freeze.
      */
     function acceptOwnership() public override(Ownable2Step) {
+        _requireNotFrozen();
         address sender = _msgSender();
         require(
             pendingOwner() == sender,
@@ -719,92 +1913,222 @@ contract TyronSSIAccount is
 
         /**
          * @dev Transfer ownership of the account to the sender.
-         * But the new owner remains as the _pendingOwner.
          */
-        LightAccountStorage storage _storage = _getStorage();
-        address old_owner = _storage.owner;
-        _storage.owner = sender;
-        emit OwnershipTransferred(old_owner, sender);
+        _transferOwnership(sender);
     }
 
     /**
-     * @notice Updates the owner of the account with the help of its guardians.
+     * @inheritdoc Ownable2Step
+     * @dev Rotates the owner in the namespaced storage, clears the pending owner and ends the session keys.
+     * `Ownable`'s own slot is kept in sync so that its `OwnershipTransferred` event
+     * carries the previous owner.
+     */
+    function _transferOwnership(address newOwner) internal override {
+        _getStorage().owner = newOwner;
+        // @dev Ends the sessions registered by the previous owner.
+        _ownerGeneration++;
+        super._transferOwnership(newOwner);
+    }
+
+    /**
+     * @notice Opens a social recovery of the account with the help of its guardians.
      * @param newOwner Address of the new account owner.
-     * @param guardians Guardians' addresses.
+     * @param deadline The time until which the guardians' signatures are valid.
+     * @param guardians Guardians' addresses, each listed once.
      * @param signatures Guardians' signatures.
-     * @dev The guardians must be valid.
-     * The removal must be approved by the owner.
+     * @dev The guardians must be valid, sign the `RecoveryRequest` with the current
+     * recovery nonce, and reach the threshold.
+     * Anyone can submit the signatures. Proposing the recovery consumes the nonce,
+     * so the signatures cannot be submitted again, e.g. after the owner cancels it.
+     * The recovery can be executed with `executeRecovery` once the timelock passes,
+     * unless the owner cancels it. A new recovery replaces the pending one.
      */
     function socialRecovery(
         address newOwner,
+        uint256 deadline,
         address[] memory guardians,
         bytes[] memory signatures
     ) external {
-        LightAccountStorage memory new_signer = LightAccountStorage({
-            owner: newOwner
+        if (block.timestamp > deadline) {
+            revert RecoveryRequestExpired(deadline);
+        }
+        RecoveryRequest memory request = RecoveryRequest({
+            newOwner: newOwner,
+            nonce: _recoveryNonce,
+            deadline: deadline,
+            chainId: block.chainid
         });
         /**
-         * @dev Get the new owner message hash.
+         * @dev Get the recovery request message hash.
          */
-        bytes32 message_hash = getMessageHash(abi.encode(new_signer));
+        bytes32 message_hash = getMessageHash(abi.encode(request));
+
+        _guardianStorage.proposeRecovery(
+            _dns,
+            message_hash,
+            owner(),
+            newOwner,
+            getRecoveryDelay(),
+            guardians,
+            signatures
+        );
+        _recoveryNonce++;
+    }
 
-        /**
-         * @dev Count the number of guardians.
-         */
-        uint256 guardian_amount = guardians.length;
+    /**
+     * @notice Cancels the pending social recovery.
+     * @dev Can only be called by the current owner or from the entry point via a
+     * user operation signed by the current owner.
+     */
+    function cancelRecovery() external onlyOwner recordsActivity {
+        address new_owner = _guardianStorage.pendingRecovery.newOwner;
+        if (new_owner == address(0)) {
+            revert NoPendingRecovery();
+        }
+        delete _guardianStorage.pendingRecovery;
+        emit RecoveryCancelled(new_owner);
+    }
 
-        /**
-         * @dev Accounts for the verified guardians.
-         */
-        uint256 guardian_count = 0;
-
-        for (uint256 i = 0; i < guardian_amount; i++) {
-            address guardian = guardians[i];
-            /**
-             * @dev Calculate the hash of the guardian address.
-             */
-            bytes32 guardian_hash = keccak256(abi.encodePacked(guardian));
-
-            /**
-             * @dev Verify that the guardian is valid.
-             * A guardian must be registered.
-             */
-            console.log("Address: %o", guardian);
-
-            console.log("isGuardian: %o", isGuardian(guardian_hash));
-            require(
-                isGuardian(guardian_hash),
-                "Account: Unregistered guardian."
-            );
+    /**
+     * @notice Rotates the owner of the account to the owner of the pending social recovery.
+     * @dev Anyone can execute the recovery once its timelock passes and before it expires.
+     * Any ownership transfer started by the previous owner is cleared.
+     */
+    function executeRecovery() external {
+        address new_owner = _guardianStorage.executeRecovery(RECOVERY_EXPIRY);
+        delete _frozenUntil;
+        delete _freezeVotes.openedAt;
+
+        address previous_owner = owner();
+        _transferOwnership(new_owner);
+        emit RecoveryExecuted(previous_owner, new_owner);
+    }
 
-            /**
-             * @dev Verify the guardian's signature.
-             */
-            bytes memory signature = signatures[i];
-            if (
-                SignatureChecker.isValidSignatureNow(
-                    guardian,
-                    message_hash,
-                    signature
-                )
-            ) {
-                /**
-                 * @notice The guardian is authenticated.
-                 * @dev Adds one to the number of verified guardians.
-                 */
-                guardian_count = guardian_count.add(1);
-                console.log("count: %o", guardian_count);
-            }
+    /**
+     * @notice Retrieves the pending social recovery.
+     * @return new_owner_ The proposed owner (zero if there is no pending recovery).
+     * @return executable_at_ The time from which the recovery can be executed.
+     */
+    function getPendingRecovery()
+        external
+        view
+        returns (address new_owner_, uint256 executable_at_)
+    {
+        TyronGuardians.PendingRecovery memory recovery = _guardianStorage.pendingRecovery;
+        return (recovery.newOwner, recovery.executableAt);
+    }
+
+    /**
+     * @notice Retrieves the nonce guardians sign in the next recovery request.
+     */
+    function getRecoveryNonce() external view returns (uint256) {
+        return _recoveryNonce;
+    }
+
+    /**
+     * @notice Retrieves the recovery timelock.
+     * @return The timelock in seconds, `DEFAULT_RECOVERY_DELAY` unless the owner set one.
+     */
+    function getRecoveryDelay() public view returns (uint256) {
+        uint256 delay = _guardianStorage.recoveryDelay;
+        return delay == 0 ? DEFAULT_RECOVERY_DELAY : delay;
+    }
+
+    /**
+     * @notice Sets the recovery timelock.
+     * @param delay The timelock in seconds, between `MIN_RECOVERY_DELAY` and `MAX_RECOVERY_DELAY`.
+     * @dev The delay is bounded so that a leaked owner key cannot postpone recoveries indefinitely.
+     * It applies to the recoveries opened afterwards.
+     */
+    function setRecoveryDelay(
+        uint256 delay
+    ) external onlyOwner recordsActivity {
+        if (delay < MIN_RECOVERY_DELAY || delay > MAX_RECOVERY_DELAY) {
+            revert InvalidRecoveryDelay(delay);
+        }
+        _guardianStorage.recoveryDelay = delay;
+        emit RecoveryDelayUpdated(delay);
+    }
+
+    /**
+     * @notice Lets the guardians freeze the account when the owner key is compromised, e.g. until
+     * they recover it.
+     * @dev Each guardian votes once per round, and the account is frozen once the votes reach the
+     * freeze threshold. A round lasts `FREEZE_PERIOD` from its first vote.
+     * Freezing blocks the owner, its session keys and passkey, the validator and executor
+     * modules, and the ERC-1271 signatures. Funds can still be received, and `socialRecovery`
+     * and `executeRecovery` still run. The freeze ends after `FREEZE_PERIOD` plus the recovery
+     * timelock, or when a recovery is executed, and the account can be frozen again
+     * `FREEZE_PERIOD` after it ended.
+     */
+    function freeze() external {
+        uint256 frozen_until = _guardianStorage.voteFreeze(
+            _freezeVotes,
+            _dns,
+            msg.sender,
+            _frozenUntil,
+            FREEZE_PERIOD,
+            getRecoveryDelay()
+        );
+        if (frozen_until != 0) {
+            _frozenUntil = frozen_until;
         }
-        console.log("verified count: %o", guardian_count);
-        require(guardian_count >= _guardianThreshold, "Failed Recovery");
-        transferOwnership(newOwner);
+    }
+
+    /**
+     * @notice Sets the votes the guardians need to freeze the account.
+     * @param threshold The number of votes, or their weight with the `Weighted` policy
+     * (zero counts as one).
+     * @dev The threshold is capped by the recovery threshold, so that the guardians who can
+     * recover the account can always freeze it.
+     */
+    function setFreezeThreshold(
+        uint256 threshold
+    ) external onlyOwner recordsActivity {
+        _freezeVotes.threshold = threshold;
+        emit FreezeThresholdUpdated(threshold);
+    }
+
+    /**
+     * @notice Retrieves the guardian freeze and the votes for the next one.
+     * @return frozen_until_ The time the freeze ends, which is past or zero if the account is not frozen.
+     * @return threshold_ The votes a freeze needs, at least one and at most the recovery threshold.
+     * @return votes_ The votes cast in the current round (zero once the round has passed).
+     */
+    function getFreeze()
+        external
+        view
+        returns (uint256 frozen_until_, uint256 threshold_, uint256 votes_)
+    {
+        (threshold_, votes_) = _guardianStorage.getFreezeVotes(
+            _freezeVotes,
+            FREEZE_PERIOD
+        );
+        return (_frozenUntil, threshold_, votes_);
+    }
+
+    /**
+     * @notice The last time the owner or its passkey authorized an action, directly or with a
+     * user operation, e.g. for an inheritance module to tell whether the owner is still active.
+     * Session keys and modules do not count as activity of the owner.
+     */
+    function getLastActivity() external view returns (uint256) {
+        return _lastActivity;
     }
 
     function _authorizeUpgrade(
         address newImplementation
-    ) internal view override {
-        (newImplementation);
+    ) internal override recordsActivity {
         _checkOwner();
+        if (address(_spendingPolicy) != address(0)) {
+            uint256 applicableAt = newImplementation == _scheduledUpgrade
+                ? _upgradeApplicableAt
+                : 0;
+            if (applicableAt == 0 || block.timestamp < applicableAt) {
+                revert UpgradeNotReady(newImplementation, applicableAt);
+            }
+        }
+        delete _scheduledUpgrade;
+        delete _upgradeApplicableAt;
     }
 }
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Counterfactual factory of self-sovereign identity accounts
+/// @notice This contract deploys TyronSSI accounts with CREATE2.
+//         The address of an account is known before it is deployed, so it can receive funds beforehand.
+//         The account is deployed on first use, e.g. from the `initCode` of its first user operation.
+
+/// @dev Import the required contracts
+import {Create2} from "@openzeppelin/contracts/utils/Create2.sol";
+import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import {IEntryPoint} from "@account-abstraction/contracts/interfaces/IEntryPoint.sol";
+import {TyronSSIAccount} from "./Account.sol";
+
+/**
+ * @notice Like eth-infinitism's `SimpleAccountFactory`, for `TyronSSIAccount`.
+ * @dev Accounts are ERC-1967 proxies of `accountImplementation`, initialized in
+ * the same transaction. The account address is derived from its owner,
+ * guardians and salt, as well as from the implementation (and so from its DNS
+ * and entry point).
+ */
+contract TyronSSIAccountFactory {
+    TyronSSIAccount public immutable accountImplementation;
+
+    /**
+     * @dev Emitted when an account is deployed.
+     * @param account The address of the new account.
+     * @param owner The initial owner of the account.
+     * @param salt The salt of the CREATE2 deployment.
+     */
+    event AccountCreated(
+        address indexed account,
+        address indexed owner,
+        uint256 salt
+    );
+
+    /**
+     * @param anAccountImplementation The implementation of the accounts.
+     */
+    constructor(TyronSSIAccount anAccountImplementation) {
+        accountImplementation = anAccountImplementation;
+    }
+
+    /**
+     * @notice Returns the AA Entry Point of the accounts.
+     */
+    function entryPoint() external view returns (IEntryPoint) {
+        return accountImplementation.entryPoint();
+    }
+
+    /**
+     * @notice Creates an account and returns its address.
+     * @dev Returns the address even if the account is already deployed, so
+     * that the EntryPoint can call it from the `initCode` of a user operation.
+     * @param owner The initial owner of the account.
+     * @param guardiansAddr The addresses of the social-recovery guardians.
+     * @param guardiansId The NFT IDs of the social-recovery guardians.
+     * @param salt The salt of the CREATE2 deployment.
+     * @return ret The account.
+     */
+    function createAccount(
+        address owner,
+        address[] calldata guardiansAddr,
+        uint256[] calldata guardiansId,
+        uint256 salt
+    ) external returns (TyronSSIAccount ret) {
+        address addr = getAddress(owner, guardiansAddr, guardiansId, salt);
+        if (addr.code.length > 0) {
+            return TyronSSIAccount(payable(addr));
+        }
+        ret = TyronSSIAccount(
+            payable(
+                new ERC1967Proxy{salt: bytes32(salt)}(
+                    address(accountImplementation),
+                    _initializeCall(owner, guardiansAddr, guardiansId)
+                )
+            )
+        );
+        emit AccountCreated(address(ret), owner, salt);
+    }
+
+    /**
+     * @notice Calculates the counterfactual address of an account.
+     * @param owner The initial owner of the account.
+     * @param guardiansAddr The addresses of the social-recovery guardians.
+     * @param guardiansId The NFT IDs of the social-recovery guardians.
+     * @param salt The salt of the CREATE2 deployment.
+     * @return The address the account has, or will have once created.
+     */
+    function getAddress(
+        address owner,
+        address[] calldata guardiansAddr,
+        uint256[] calldata guardiansId,
+        uint256 salt
+    ) public view returns (address) {
+        return
+            Create2.computeAddress(
+                bytes32(salt),
+                keccak256(
+                    abi.encodePacked(
+                        type(ERC1967Proxy).creationCode,
+                        abi.encode(
+                            address(accountImplementation),
+                            _initializeCall(owner, guardiansAddr, guardiansId)
+                        )
+                    )
+                )
+            );
+    }
+
+    function _initializeCall(
+        address owner,
+        address[] calldata guardiansAddr,
+        uint256[] calldata guardiansId
+    ) internal pure returns (bytes memory) {
+        return
+            abi.encodeCall(
+                TyronSSIAccount.initialize,
+                (owner, guardiansAddr, guardiansId)
+            );
+    }
+}
@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @dev Imports eth-infinitism's ERC-4337 EntryPoint so that Hardhat compiles it
+// and local networks can deploy their own instance.
+import "@account-abstraction/contracts/core/EntryPoint.sol";
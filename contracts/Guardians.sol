@@ -0,0 +1,918 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Guardians of the account
+/// @notice The guardian registry of a `TyronSSIAccount` and the proposal of its social recoveries.
+//         The account links this library and calls it with its own storage, so the guardians keep living
+//         in the account, and the account stays under the contract size limit.
+
+import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/**
+ * @notice Guardian registry and recovery votes of `TyronSSIAccount`.
+ * @dev The functions run in the account's context (`DELEGATECALL`), so their events are logged by the account.
+ * The account declares the same events and errors, so that they are part of its ABI.
+ */
+library TyronGuardians {
+    using SafeMath for uint256;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    /**
+     * @dev The maximum vote weight of a guardian.
+     */
+    uint256 internal constant MAX_GUARDIAN_WEIGHT = 100;
+
+    /**
+     * @dev Where a guardian was registered from.
+     */
+    enum GuardianSource {
+        Address,
+        DnsToken
+    }
+
+    /**
+     * @dev How the threshold required to recover the account is computed.
+     * Majority: half plus one of the guardians, at least 3 (or all of them if there are fewer).
+     * Fixed: `value` guardians.
+     * Percentage: `value` percent of the guardians, rounded up.
+     * Weighted: guardians vote with their weight and `value` is the weight required.
+     */
+    enum ThresholdMode {
+        Majority,
+        Fixed,
+        Percentage,
+        Weighted
+    }
+
+    /**
+     * @dev The threshold policy of the account.
+     * @param mode How the threshold is computed.
+     * @param value The parameter of the mode (zero for `Majority`).
+     */
+    struct ThresholdPolicy {
+        ThresholdMode mode;
+        uint256 value;
+    }
+
+    /**
+     * @dev A registered guardian.
+     * @param guardianHash The hash of the guardian address, or of the DNS NFT ID.
+     * @param source Whether the guardian was registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian (the holder at registration for DNS NFTs).
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    struct Guardian {
+        bytes32 guardianHash;
+        GuardianSource source;
+        address guardian;
+        uint256 tokenId;
+    }
+
+    /**
+     * @dev A social recovery approved by the guardians.
+     * @param newOwner The proposed owner of the account.
+     * @param executableAt The time from which the recovery can be executed.
+     */
+    struct PendingRecovery {
+        address newOwner;
+        uint64 executableAt;
+    }
+
+    /**
+     * @dev The guardian and recovery state of the account. Its members keep the slots the account
+     * gave them as separate state variables, so that upgraded accounts keep their guardians.
+     * @param guardians Whether a guardian is registered, by the hash of its address or DNS NFT ID.
+     * @param count The number of registered guardians.
+     * @param threshold The threshold required to recover the account.
+     * @param hashes The enumerable guardian hashes.
+     * @param records The source each guardian was registered from.
+     * @param pendingRecovery The social recovery waiting for its timelock.
+     * @param recoveryDelay The owner-configured timelock (zero for the default).
+     * @param thresholdPolicy The owner-chosen threshold policy.
+     * @param weights The vote weight of each guardian (zero counts as one).
+     * @param extraWeight The weight guardians have on top of one vote each.
+     */
+    struct GuardianStorage {
+        mapping(bytes32 => bool) guardians;
+        uint256 count;
+        uint256 threshold;
+        EnumerableSet.Bytes32Set hashes;
+        mapping(bytes32 => Guardian) records;
+        PendingRecovery pendingRecovery;
+        uint256 recoveryDelay;
+        ThresholdPolicy thresholdPolicy;
+        mapping(bytes32 => uint256) weights;
+        uint256 extraWeight;
+    }
+
+    /**
+     * @dev The votes of the guardians to freeze the account, kept apart from `GuardianStorage`
+     * so that they take new slots of the account.
+     * @param threshold The votes the owner requires to freeze the account (zero counts as one).
+     * @param round The round of votes, which a freeze or the end of its window closes.
+     * @param openedAt The time of the first vote of the round.
+     * @param votes The votes cast in the round.
+     * @param voted The last round each guardian voted in, by the hash of its address or DNS NFT ID.
+     */
+    struct FreezeVotes {
+        uint256 threshold;
+        uint256 round;
+        uint256 openedAt;
+        uint256 votes;
+        mapping(bytes32 => uint256) voted;
+    }
+
+    /**
+     * @dev Emitted when a guardians are added or removed.
+     * @param account The address of this account.
+     * @param threshold The threshold required to recover the account.
+     */
+    event GuardiansUpdated(address indexed account, uint256 indexed threshold);
+
+    /**
+     * @dev Emitted when a guardian is registered.
+     * @param guardianHash The hash of the guardian address.
+     * @param source Whether the guardian was registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian.
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    event GuardianAdded(
+        bytes32 indexed guardianHash,
+        GuardianSource source,
+        address guardian,
+        uint256 tokenId
+    );
+
+    /**
+     * @dev Emitted when a guardian is removed.
+     * @param guardianHash The hash of the guardian address.
+     * @param source Whether the guardian was registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian.
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    event GuardianRemoved(
+        bytes32 indexed guardianHash,
+        GuardianSource source,
+        address guardian,
+        uint256 tokenId
+    );
+
+    /**
+     * @dev Emitted when the owner changes the threshold policy.
+     * @param mode How the threshold is computed.
+     * @param value The parameter of the mode.
+     */
+    event ThresholdPolicyUpdated(ThresholdMode mode, uint256 value);
+
+    /**
+     * @dev Emitted when the owner changes the vote weight of a guardian.
+     * @param guardianHash The hash of the guardian address.
+     * @param weight The new vote weight.
+     */
+    event GuardianWeightUpdated(bytes32 indexed guardianHash, uint256 weight);
+
+    /**
+     * @dev Emitted when the guardians open a social recovery.
+     * @param newOwner The proposed owner of the account.
+     * @param executableAt The time from which the recovery can be executed.
+     */
+    event RecoveryProposed(address indexed newOwner, uint256 executableAt);
+
+    /**
+     * @dev Emitted when a guardian votes to freeze the account.
+     * @param guardian The guardian, or holder of the DNS NFT of guardians, that voted.
+     * @param votes The votes of the round so far.
+     * @param threshold The votes the freeze needs.
+     */
+    event FreezeVoted(address indexed guardian, uint256 votes, uint256 threshold);
+
+    /**
+     * @dev Emitted when the votes of the guardians freeze the account.
+     * @param guardian The guardian whose vote froze the account.
+     * @param frozenUntil The time the freeze ends, unless a recovery ends it first.
+     */
+    event AccountFrozen(address indexed guardian, uint256 frozenUntil);
+
+    /**
+     * @dev The length of the array does not match the expected length.
+     */
+    error ArrayLengthMismatch();
+
+    /**
+     * @dev The new owner is not a valid owner (e.g., `address(0)`, the
+     * account itself, or the current owner).
+     */
+    error InvalidOwner(address owner);
+
+    /**
+     * @dev The guardian is listed more than once in the recovery.
+     */
+    error DuplicateGuardian(address guardian);
+
+    /**
+     * @dev The threshold policy is malformed (e.g., a percentage above 100).
+     */
+    error InvalidThresholdPolicy(ThresholdMode mode, uint256 value);
+
+    /**
+     * @dev The guardian weight is out of bounds.
+     */
+    error InvalidGuardianWeight(bytes32 guardianHash, uint256 weight);
+
+    /**
+     * @dev The guardians cannot reach the threshold with their votes.
+     */
+    error UnreachableThreshold(uint256 threshold, uint256 votes);
+
+    /**
+     * @dev The signer of a recovery is not a guardian, nor holds the DNS NFT of one.
+     */
+    error UnregisteredGuardian(address guardian);
+
+    /**
+     * @dev The valid signatures of a recovery do not reach the threshold.
+     */
+    error InsufficientRecoveryVotes(uint256 threshold, uint256 votes);
+
+    /**
+     * @dev There is no pending social recovery.
+     */
+    error NoPendingRecovery();
+
+    /**
+     * @dev The timelock of the pending social recovery has not passed yet.
+     */
+    error RecoveryNotReady(uint256 executableAt);
+
+    /**
+     * @dev The pending social recovery was not executed in time.
+     */
+    error RecoveryExpired(uint256 expiredAt);
+
+    /**
+     * @dev The caller is not authorized.
+     */
+    error NotAuthorized(address caller);
+
+    /**
+     * @dev The account cannot be frozen again before the time given.
+     */
+    error FreezeCooldown(uint256 availableAt);
+
+    /**
+     * @notice Resolves a guardian to the address that votes for it.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param guardian The hash of the guardian address, or of the DNS NFT ID.
+     * @return The guardian address, or the current holder of the DNS NFT
+     * (zero if the guardian is not registered or the NFT no longer exists).
+     */
+    function resolveGuardian(
+        GuardianStorage storage self,
+        IERC721 dns,
+        bytes32 guardian
+    ) public view returns (address) {
+        if (!self.guardians[guardian]) {
+            return address(0);
+        }
+        Guardian memory record = self.records[guardian];
+        if (record.source == GuardianSource.Address) {
+            return record.guardian;
+        }
+        try dns.ownerOf(record.tokenId) returns (address holder) {
+            return holder;
+        } catch {
+            return address(0);
+        }
+    }
+
+    /**
+     * @notice Lists the registered guardians, in registration order
+     * (removals move the last guardian into the removed one's place).
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @return guardians_ The registered guardians, with DNS NFTs resolved to their current holder.
+     */
+    function getGuardians(
+        GuardianStorage storage self,
+        IERC721 dns
+    ) external view returns (Guardian[] memory guardians_) {
+        uint256 length = self.hashes.length();
+        guardians_ = new Guardian[](length);
+        for (uint256 i = 0; i < length; i++) {
+            bytes32 guardian_hash = self.hashes.at(i);
+            guardians_[i] = self.records[guardian_hash];
+            guardians_[i].guardian = resolveGuardian(self, dns, guardian_hash);
+        }
+    }
+
+    /**
+     * @notice Counts the votes a signer holds in a social recovery.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param signer The address of the signer.
+     * @return votes_ The number of guardians the signer resolves to (by address, or holding their DNS NFT),
+     * or their total weight with the `Weighted` policy.
+     */
+    function getGuardianVotes(
+        GuardianStorage storage self,
+        IERC721 dns,
+        address signer
+    ) public view returns (uint256 votes_) {
+        if (signer == address(0)) {
+            return 0;
+        }
+        bool weighted = self.thresholdPolicy.mode == ThresholdMode.Weighted;
+        uint256 length = self.hashes.length();
+        for (uint256 i = 0; i < length; i++) {
+            bytes32 guardian_hash = self.hashes.at(i);
+            if (resolveGuardian(self, dns, guardian_hash) == signer) {
+                votes_ += weighted ? getGuardianWeight(self, guardian_hash) : 1;
+            }
+        }
+    }
+
+    /**
+     * @notice Retrieves the vote weight of a guardian.
+     * @param guardian The address hash of the guardian.
+     * @return The vote weight (zero if the guardian is not registered).
+     */
+    function getGuardianWeight(
+        GuardianStorage storage self,
+        bytes32 guardian
+    ) public view returns (uint256) {
+        if (!self.guardians[guardian]) {
+            return 0;
+        }
+        uint256 weight = self.weights[guardian];
+        return weight == 0 ? 1 : weight;
+    }
+
+    /**
+     * @notice Proposes the recovery the guardians signed, replacing the pending one.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param messageHash The hash of the recovery request.
+     * @param owner The current owner of the account.
+     * @param newOwner The proposed owner.
+     * @param delay The recovery timelock.
+     * @param guardians Guardians' addresses, each listed once.
+     * @param signatures Guardians' signatures.
+     * @dev The votes of the guardians whose signature is valid must reach the threshold.
+     */
+    function proposeRecovery(
+        GuardianStorage storage self,
+        IERC721 dns,
+        bytes32 messageHash,
+        address owner,
+        address newOwner,
+        uint256 delay,
+        address[] memory guardians,
+        bytes[] memory signatures
+    ) external {
+        uint256 votes = _countRecoveryVotes(
+            self,
+            dns,
+            messageHash,
+            guardians,
+            signatures
+        );
+        if (votes < self.threshold) {
+            revert InsufficientRecoveryVotes(self.threshold, votes);
+        }
+
+        if (
+            newOwner == owner ||
+            newOwner == address(0) ||
+            newOwner == address(this)
+        ) {
+            revert InvalidOwner(newOwner);
+        }
+        uint256 executable_at = block.timestamp + delay;
+        self.pendingRecovery = PendingRecovery({
+            newOwner: newOwner,
+            executableAt: uint64(executable_at)
+        });
+        emit RecoveryProposed(newOwner, executable_at);
+    }
+
+    /**
+     * @notice Closes the pending recovery for its execution.
+     * @param expiry The time the recovery can be executed for once its timelock passes.
+     * @return newOwner_ The owner the recovery hands the account to.
+     */
+    function executeRecovery(
+        GuardianStorage storage self,
+        uint256 expiry
+    ) external returns (address newOwner_) {
+        PendingRecovery memory recovery = self.pendingRecovery;
+        if (recovery.newOwner == address(0)) {
+            revert NoPendingRecovery();
+        }
+        if (block.timestamp < recovery.executableAt) {
+            revert RecoveryNotReady(recovery.executableAt);
+        }
+        uint256 expired_at = uint256(recovery.executableAt) + expiry;
+        if (block.timestamp > expired_at) {
+            revert RecoveryExpired(expired_at);
+        }
+        delete self.pendingRecovery;
+        return recovery.newOwner;
+    }
+
+    /**
+     * @notice Counts the votes of the guardians that signed a recovery request.
+     * @return votes_ The votes of the guardians whose signature is valid.
+     * @dev Reverts if a signer is not a guardian, is listed twice, or has no signature.
+     */
+    function _countRecoveryVotes(
+        GuardianStorage storage self,
+        IERC721 dns,
+        bytes32 messageHash,
+        address[] memory guardians,
+        bytes[] memory signatures
+    ) private view returns (uint256 votes_) {
+        /**
+         * @dev Count the number of guardians.
+         */
+        uint256 guardian_amount = guardians.length;
+        if (signatures.length != guardian_amount) {
+            revert ArrayLengthMismatch();
+        }
+
+        for (uint256 i = 0; i < guardian_amount; i++) {
+            address guardian = guardians[i];
+
+            /**
+             * @dev Verify that the guardian is valid.
+             * The signer must be a registered guardian or hold the DNS NFT of one.
+             */
+            uint256 votes = getGuardianVotes(self, dns, guardian);
+            if (votes == 0) {
+                revert UnregisteredGuardian(guardian);
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (guardians[j] == guardian) {
+                    revert DuplicateGuardian(guardian);
+                }
+            }
+
+            /**
+             * @dev Verify the guardian's signature.
+             */
+            bytes memory signature = signatures[i];
+            if (
+                SignatureChecker.isValidSignatureNow(
+                    guardian,
+                    messageHash,
+                    signature
+                )
+            ) {
+                /**
+                 * @notice The guardian is authenticated.
+                 * @dev Adds its vote to the number of verified guardians.
+                 */
+                votes_ = votes_.add(votes);
+            }
+        }
+    }
+
+    /**
+     * @notice Retrieves the votes a freeze needs and the votes of the current round.
+     * @param window The time the votes of a round count for, from its first vote.
+     * @return threshold_ The owner-set freeze threshold, at least one and at most the recovery threshold.
+     * @return votes_ The votes cast in the round (zero once its window has passed).
+     */
+    function getFreezeVotes(
+        GuardianStorage storage self,
+        FreezeVotes storage freeze,
+        uint256 window
+    ) internal view returns (uint256 threshold_, uint256 votes_) {
+        threshold_ = freeze.threshold < self.threshold
+            ? freeze.threshold
+            : self.threshold;
+        if (threshold_ == 0) {
+            threshold_ = 1;
+        }
+        if (block.timestamp < freeze.openedAt + window) {
+            votes_ = freeze.votes;
+        }
+    }
+
+    /**
+     * @notice Casts the votes of a guardian to freeze the account, and freezes it once they reach
+     * the freeze threshold.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param voter The guardian, or holder of the DNS NFT of guardians.
+     * @param frozenUntil The end of the previous freeze.
+     * @param period The time the votes of a round count for from its first vote, the freeze
+     * lasts on top of the recovery timelock, and spaces out freezes.
+     * @param delay The recovery timelock.
+     * @return frozenUntil_ The end of the new freeze, or zero if the votes do not reach the threshold yet.
+     * @dev Each guardian the voter resolves to votes once per round, so a guardian cannot
+     * vote again by moving its DNS NFT. A freeze closes the round.
+     */
+    function voteFreeze(
+        GuardianStorage storage self,
+        FreezeVotes storage freeze,
+        IERC721 dns,
+        address voter,
+        uint256 frozenUntil,
+        uint256 period,
+        uint256 delay
+    ) external returns (uint256 frozenUntil_) {
+        if (block.timestamp < frozenUntil + period) {
+            revert FreezeCooldown(frozenUntil + period);
+        }
+        (uint256 threshold, uint256 votes) = getFreezeVotes(
+            self,
+            freeze,
+            period
+        );
+        if (block.timestamp >= freeze.openedAt + period) {
+            freeze.round += 1;
+            freeze.openedAt = block.timestamp;
+        }
+        uint256 round = freeze.round;
+        bool weighted = self.thresholdPolicy.mode == ThresholdMode.Weighted;
+        bool registered;
+        uint256 cast;
+        uint256 length = self.hashes.length();
+        for (uint256 i = 0; i < length; i++) {
+            bytes32 guardian_hash = self.hashes.at(i);
+            if (resolveGuardian(self, dns, guardian_hash) != voter) {
+                continue;
+            }
+            registered = true;
+            if (freeze.voted[guardian_hash] != round) {
+                freeze.voted[guardian_hash] = round;
+                cast += weighted ? getGuardianWeight(self, guardian_hash) : 1;
+            }
+        }
+        if (!registered) {
+            revert NotAuthorized(voter);
+        }
+        if (cast == 0) {
+            revert DuplicateGuardian(voter);
+        }
+        votes += cast;
+        freeze.votes = votes;
+        emit FreezeVoted(voter, votes, threshold);
+        if (votes >= threshold) {
+            delete freeze.openedAt;
+            frozenUntil_ = block.timestamp + period + delay;
+            emit AccountFrozen(voter, frozenUntil_);
+        }
+    }
+
+    /**
+     * @notice Sets the threshold policy.
+     * @param mode How the threshold is computed.
+     * @param value The parameter of the mode: zero for `Majority`, a number of guardians for `Fixed`,
+     * a percentage between 1 and 100 for `Percentage`, and a weight for `Weighted`.
+     * @dev The registered guardians must be able to reach the resulting threshold.
+     */
+    function setThresholdPolicy(
+        GuardianStorage storage self,
+        ThresholdMode mode,
+        uint256 value
+    ) external {
+        if (
+            (mode == ThresholdMode.Majority && value != 0) ||
+            (mode != ThresholdMode.Majority && value == 0) ||
+            (mode == ThresholdMode.Percentage && value > 100)
+        ) {
+            revert InvalidThresholdPolicy(mode, value);
+        }
+        self.thresholdPolicy = ThresholdPolicy(mode, value);
+        emit ThresholdPolicyUpdated(mode, value);
+        _updateGuardianThreshold(self, self.count);
+    }
+
+    /**
+     * @notice Sets the vote weight of registered guardians, used by the `Weighted` policy.
+     * @param guardiansHash List of social-recovery guardians per address hash.
+     * @param weights The vote weights, between 1 and `MAX_GUARDIAN_WEIGHT`.
+     */
+    function setGuardianWeights(
+        GuardianStorage storage self,
+        bytes32[] memory guardiansHash,
+        uint256[] memory weights
+    ) external {
+        if (guardiansHash.length != weights.length) {
+            revert ArrayLengthMismatch();
+        }
+        uint256 extra_weight = self.extraWeight;
+        for (uint256 i = 0; i < guardiansHash.length; i++) {
+            bytes32 guardian = guardiansHash[i];
+            uint256 weight = weights[i];
+            require(
+                self.guardians[guardian],
+                "Account: Unregistered guardian."
+            );
+            if (weight == 0 || weight > MAX_GUARDIAN_WEIGHT) {
+                revert InvalidGuardianWeight(guardian, weight);
+            }
+            extra_weight =
+                extra_weight +
+                weight -
+                getGuardianWeight(self, guardian);
+            self.weights[guardian] = weight;
+            emit GuardianWeightUpdated(guardian, weight);
+        }
+        self.extraWeight = extra_weight;
+        _updateGuardianThreshold(self, self.count);
+    }
+
+    /**
+     * @notice Adds new guardians to the account.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param owner The owner of the account, which cannot be a guardian.
+     * @param guardiansAddr The addresses of the social-recovery guardians.
+     * @param guardiansId The NFT IDs of the social-recovery guardians.
+     * @dev The guardians must be unique, not null and not the owner.
+     * The threshold is checked once both lists are added.
+     */
+    function addGuardians(
+        GuardianStorage storage self,
+        IERC721 dns,
+        address owner,
+        address[] memory guardiansAddr,
+        uint256[] memory guardiansId
+    ) external {
+        _setupGuardiansByAddr(self, owner, guardiansAddr);
+        _setupGuardiansById(self, dns, owner, guardiansId);
+        _updateGuardianThreshold(self, self.count);
+    }
+
+    /**
+     * @notice Removes guardians from the account.
+     * @param guardiansHash List of social-recovery guardians per address hash.
+     * @dev The guardians must be valid.
+     * The remaining guardians must be able to reach the threshold of the policy.
+     */
+    function removeGuardians(
+        GuardianStorage storage self,
+        bytes32[] memory guardiansHash
+    ) external {
+        /**
+         * @dev Count the number of guardians to remove.
+         */
+        uint256 outcoming = guardiansHash.length;
+
+        /**
+         * @dev Account the registered guardians
+         */
+        uint256 guardian_count = self.count;
+
+        /**
+         * @dev Account the guardians that pass the checks
+         */
+        for (uint256 i = 0; i < outcoming; i++) {
+            bytes32 guardian = guardiansHash[i];
+
+            /**
+             * @dev Verify that the guardian is valid.
+             * A guardian must be registered.
+             */
+            require(
+                self.guardians[guardian],
+                "Account: Unregistered guardian."
+            );
+
+            /**
+             * @dev Remove guardian from guardians map.
+             */
+            _removeGuardian(self, guardian);
+            /**
+             * @dev Decrease the number of guardians by one.
+             */
+            guardian_count = guardian_count.sub(1);
+        }
+        self.count = guardian_count;
+        _updateGuardianThreshold(self, guardian_count);
+    }
+
+    /**
+     * @notice Updates the guardians' threshold following the threshold policy.
+     * @param guardianCount The number of registered guardians.
+     * @dev Reverts if the guardians could not reach the new threshold,
+     * so that the account can always be recovered once it has guardians.
+     */
+    function _updateGuardianThreshold(
+        GuardianStorage storage self,
+        uint256 guardianCount
+    ) private {
+        ThresholdPolicy memory policy = self.thresholdPolicy;
+        uint256 threshold;
+        uint256 votes = guardianCount;
+        if (policy.mode == ThresholdMode.Majority) {
+            threshold = guardianCount / 2 + 1;
+            // Requires the threshold to be at least 3, or every guardian if there are fewer.
+            uint256 minimum = guardianCount < 3 ? guardianCount : 3;
+            if (threshold < minimum) {
+                threshold = minimum;
+            }
+        } else if (policy.mode == ThresholdMode.Percentage) {
+            threshold = (guardianCount * policy.value + 99) / 100;
+        } else {
+            threshold = policy.value;
+            if (policy.mode == ThresholdMode.Weighted) {
+                votes = self.count + self.extraWeight;
+            }
+        }
+        if (threshold == 0) {
+            threshold = 1;
+        }
+        if (guardianCount != 0 && threshold > votes) {
+            revert UnreachableThreshold(threshold, votes);
+        }
+        self.threshold = threshold;
+        emit GuardiansUpdated(address(this), threshold);
+    }
+
+    /**
+     * @notice Registers a guardian that passed the checks.
+     * @param guardianHash The hash of the guardian address.
+     * @param source Whether the guardian is registered by address or by DNS NFT ID.
+     * @param guardian The address of the guardian.
+     * @param tokenId The DNS NFT ID of the guardian (zero if registered by address).
+     */
+    function _addGuardian(
+        GuardianStorage storage self,
+        bytes32 guardianHash,
+        GuardianSource source,
+        address guardian,
+        uint256 tokenId
+    ) private {
+        self.guardians[guardianHash] = true;
+        self.hashes.add(guardianHash);
+        self.records[guardianHash] = Guardian(
+            guardianHash,
+            source,
+            guardian,
+            tokenId
+        );
+        emit GuardianAdded(guardianHash, source, guardian, tokenId);
+    }
+
+    /**
+     * @notice Unregisters a guardian.
+     * @param guardianHash The hash of the guardian address.
+     */
+    function _removeGuardian(
+        GuardianStorage storage self,
+        bytes32 guardianHash
+    ) private {
+        Guardian memory record = self.records[guardianHash];
+        self.extraWeight -= getGuardianWeight(self, guardianHash) - 1;
+        delete self.weights[guardianHash];
+        delete self.guardians[guardianHash];
+        self.hashes.remove(guardianHash);
+        delete self.records[guardianHash];
+        emit GuardianRemoved(
+            guardianHash,
+            record.source,
+            record.guardian,
+            record.tokenId
+        );
+    }
+
+    /**
+     * @notice Setup function that sets initial guardians by address.
+     * @param owner The owner of the account.
+     * @param guardiansAddr List of social-recovery guardians per address.
+     * @dev The guardians must be unique, not null and not the owner.
+     */
+    function _setupGuardiansByAddr(
+        GuardianStorage storage self,
+        address owner,
+        address[] memory guardiansAddr
+    ) private {
+        /**
+         * @dev Count the number of incoming guardians
+         */
+        uint256 incoming = guardiansAddr.length;
+
+        /**
+         * @dev Account the registered guardians
+         */
+        uint256 guardian_count = self.count;
+
+        /**
+         * @dev Account the new guardians that pass the checks
+         */
+        for (uint256 i = 0; i < incoming; i++) {
+            address guardian = guardiansAddr[i];
+
+            /**
+             * @dev Calculate the hash of the guardian address.
+             */
+            bytes32 guardian_hash = keccak256(abi.encodePacked(guardian));
+
+            /**
+             * @dev Verify that the guardian is valid.
+             */
+            _checkNewGuardian(self, guardian_hash, guardian, owner);
+
+            /**
+             * @dev The guardian is approved.
+             * Add one to the number of guardians.
+             * Save the guardian in the guardians map.
+             */
+            guardian_count = guardian_count.add(1);
+            _addGuardian(
+                self,
+                guardian_hash,
+                GuardianSource.Address,
+                guardian,
+                0
+            );
+        }
+        self.count = guardian_count;
+    }
+
+    /**
+     * @dev Verifies that a new guardian is valid.
+     * A guardian cannot be repeated.
+     * A guardian cannot be null.
+     * A guardian cannot be the owner.
+     */
+    function _checkNewGuardian(
+        GuardianStorage storage self,
+        bytes32 guardian_hash,
+        address guardian,
+        address owner
+    ) private view {
+        require(
+            !self.guardians[guardian_hash],
+            "Account: A guardian cannot be repeated."
+        );
+        require(guardian != address(0), "Account: A guardian cannot be null.");
+        require(
+            guardian != owner,
+            "Account: A guardian cannot be the account owner."
+        );
+    }
+
+    /**
+     * @notice Setup function that sets initial guardians.
+     * @param dns The DNS contract that resolves guardians by NFT ID.
+     * @param owner The owner of the account.
+     * @param guardiansId List of social-recovery guardians by NFT ID.
+     * @dev The guardians are stored by the hash of their NFT ID and resolved with `ownerOf`
+     * at recovery time, so they follow the NFT when it changes hands.
+     * The NFTs must be unique, exist and not be held by the owner.
+     */
+    function _setupGuardiansById(
+        GuardianStorage storage self,
+        IERC721 dns,
+        address owner,
+        uint256[] memory guardiansId
+    ) private {
+        /**
+         * @dev Counts the number of incoming guardians.
+         */
+        uint256 incoming = guardiansId.length;
+
+        /**
+         * @dev Accounts for the registered guardians.
+         */
+        uint256 guardian_count = self.count;
+
+        /**
+         * @dev Accounts for the new guardians that pass the checks.
+         */
+        for (uint256 i = 0; i < incoming; i++) {
+            uint256 guardian_id = guardiansId[i];
+            /**
+             * @dev Fetches the owner address with ownerOf
+             */
+            address guardian = dns.ownerOf(guardian_id);
+
+            /**
+             * @dev Calculates the hash of the guardian NFT ID
+             */
+            bytes32 guardian_hash = keccak256(abi.encodePacked(guardian_id));
+
+            /**
+             * @dev Verifies that the guardian is valid
+             */
+            _checkNewGuardian(self, guardian_hash, guardian, owner);
+
+            /**
+             * @notice The guardian is approved.
+             * @dev Adds one to the number of guardians.
+             * @dev Saves the guardian in the guardians map.
+             */
+            guardian_count = guardian_count.add(1);
+            _addGuardian(
+                self,
+                guardian_hash,
+                GuardianSource.DnsToken,
+                guardian,
+                guardian_id
+            );
+        }
+        self.count = guardian_count;
+    }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Modules of the account
+/// @notice The interfaces of the modules a `TyronSSIAccount` owner can install, in the spirit of ERC-7579.
+//         Validators sign user operations and messages for the account, executors run calls through `execute`
+//         and `executeBatch`, and fallback handlers answer the functions the account does not implement.
+//         A module is a contract shared by every account that installs it, and keeps the state of each account
+//         under the account's address.
+
+import {UserOperation} from "@account-abstraction/contracts/interfaces/UserOperation.sol";
+
+/**
+ * @dev The module types, numbered as in ERC-7579.
+ */
+uint256 constant MODULE_TYPE_VALIDATOR = 1;
+uint256 constant MODULE_TYPE_EXECUTOR = 2;
+uint256 constant MODULE_TYPE_FALLBACK = 3;
+
+/**
+ * @notice A module that can be installed on an account.
+ */
+interface IModule {
+    /**
+     * @notice Called by the account when the module is installed.
+     * @param data The module's initialization data, e.g. its settings for the account.
+     */
+    function onInstall(bytes calldata data) external;
+
+    /**
+     * @notice Called by the account when the module is uninstalled.
+     * @param data The module's deinitialization data.
+     * @dev The account removes the module even if this call reverts.
+     */
+    function onUninstall(bytes calldata data) external;
+
+    /**
+     * @notice Whether the module can be installed as the given type.
+     */
+    function isModuleType(uint256 moduleTypeId) external view returns (bool);
+}
+
+/**
+ * @notice A module that signs for the account.
+ * @dev Its validation runs under the ERC-4337 bundler rules, so it may only
+ * read its own storage keyed by the account's address.
+ */
+interface IValidatorModule is IModule {
+    /**
+     * @notice Validates a user operation whose signature is
+     * `abi.encodePacked(VALIDATOR_SIGNATURE_MAGIC, validator, signature)`.
+     * @param userOp The user operation, with the full signature.
+     * @param userOpHash The hash the signature covers.
+     * @return validationData Zero, or `SIG_VALIDATION_FAILED`, or packed validity times.
+     */
+    function validateUserOp(
+        UserOperation calldata userOp,
+        bytes32 userOpHash
+    ) external returns (uint256 validationData);
+
+    /**
+     * @notice Validates an ERC-1271 signature of the account.
+     * @param sender The caller of `isValidSignature`.
+     * @param hash The account's message hash of the digest.
+     * @param signature The validator's part of the signature.
+     * @return The ERC-1271 magic value if the signature is valid.
+     */
+    function isValidSignatureWithSender(
+        address sender,
+        bytes32 hash,
+        bytes calldata signature
+    ) external view returns (bytes4);
+}
+
+/**
+ * @notice Base of fallback handlers, which the account calls with the
+ * original caller appended to the calldata (as in ERC-2771).
+ */
+abstract contract FallbackHandler is IModule {
+    /**
+     * @inheritdoc IModule
+     */
+    function isModuleType(
+        uint256 moduleTypeId
+    ) external pure virtual returns (bool) {
+        return moduleTypeId == MODULE_TYPE_FALLBACK;
+    }
+
+    /**
+     * @dev The caller of the account, appended by the account's fallback.
+     */
+    function _accountSender() internal pure returns (address sender) {
+        return address(bytes20(msg.data[msg.data.length - 20:]));
+    }
+}
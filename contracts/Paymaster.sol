@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Verifying paymaster
+/// @notice This contract pays for the user operations of TyronSSI accounts that a sponsor approved off-chain,
+//         so that new users can act before they hold any native token.
+//         The sponsor signs each operation with a validity window. A sponsored operation counts against the gas
+//         quota of its account, while an operation with a token price is charged in that ERC20 instead.
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {BasePaymaster, IEntryPoint, UserOperation} from "@account-abstraction/contracts/core/BasePaymaster.sol";
+import {_packValidationData} from "@account-abstraction/contracts/core/Helpers.sol";
+
+/**
+ * @notice A paymaster shared by every account of a network.
+ * @dev `paymasterAndData` is `abi.encodePacked(paymaster, abi.encode(validUntil, validAfter, token, price), signature)`,
+ * where `signature` is the sponsor's "Ethereum Signed Message" of `getHash`. The token is zero for a sponsored
+ * operation; otherwise the account pays `actualGasCost * price / 1e18` of the token after its operation.
+ * Bundlers require the paymaster to be staked, as it reads its settings and uses `postOp`.
+ */
+contract TyronVerifyingPaymaster is BasePaymaster {
+    using ECDSA for bytes32;
+    using SafeERC20 for IERC20;
+
+    // @dev The token price is given per 1e18 wei of gas.
+    uint256 public constant PRICE_DENOMINATOR = 1e18;
+
+    uint256 internal constant _TERMS_OFFSET = 20;
+    uint256 internal constant _SIGNATURE_OFFSET = 148;
+
+    /**
+     * @notice The key that approves user operations.
+     */
+    address public sponsor;
+
+    /**
+     * @notice The gas cost (in wei) the paymaster sponsors per account, unless the account has its own quota.
+     */
+    uint256 public defaultQuota;
+
+    mapping(address => uint256) internal _quotas;
+    mapping(address => uint256) internal _sponsoredCost;
+
+    /**
+     * @dev Emitted when the owner changes the sponsor.
+     */
+    event SponsorUpdated(address sponsor);
+
+    /**
+     * @dev Emitted when the owner sets the default quota, or the quota of an account (zero for the default).
+     */
+    event QuotaUpdated(address indexed account, uint256 quota);
+
+    /**
+     * @dev Emitted after each operation the paymaster paid for.
+     * @param account The account of the operation.
+     * @param token The token charged, zero for a sponsored operation.
+     * @param actualGasCost The gas cost paid by the paymaster.
+     * @param charge The amount of the token charged to the account.
+     */
+    event UserOperationSponsored(
+        address indexed account,
+        address indexed token,
+        uint256 actualGasCost,
+        uint256 charge
+    );
+
+    /**
+     * @dev The operation would exceed the gas quota of its account.
+     */
+    error QuotaExceeded(address account, uint256 sponsoredCost, uint256 quota);
+
+    /**
+     * @dev The account has not approved, or does not hold, the most the operation could be charged.
+     */
+    error InsufficientTokenAllowance(address token, uint256 maxCharge);
+
+    /**
+     * @dev `paymasterAndData` is too short to carry the terms and a signature.
+     */
+    error InvalidPaymasterData();
+
+    constructor(
+        IEntryPoint anEntryPoint,
+        address aSponsor,
+        uint256 aDefaultQuota
+    ) BasePaymaster(anEntryPoint) {
+        sponsor = aSponsor;
+        defaultQuota = aDefaultQuota;
+    }
+
+    /**
+     * @notice Changes the sponsor, invalidating the operations the previous one approved.
+     */
+    function setSponsor(address aSponsor) external onlyOwner {
+        sponsor = aSponsor;
+        emit SponsorUpdated(aSponsor);
+    }
+
+    function setDefaultQuota(uint256 quota) external onlyOwner {
+        defaultQuota = quota;
+        emit QuotaUpdated(address(0), quota);
+    }
+
+    /**
+     * @notice Sets the quota of an account, or zero for the default one.
+     * @dev Raising the quota of an account above its sponsored cost gives it a new allowance.
+     */
+    function setQuota(address account, uint256 quota) external onlyOwner {
+        _quotas[account] = quota;
+        emit QuotaUpdated(account, quota);
+    }
+
+    /**
+     * @notice Withdraws the tokens charged to accounts.
+     */
+    function withdrawToken(
+        IERC20 token,
+        address to,
+        uint256 amount
+    ) external onlyOwner {
+        token.safeTransfer(to, amount);
+    }
+
+    function quotaOf(address account) public view returns (uint256) {
+        uint256 quota = _quotas[account];
+        return quota == 0 ? defaultQuota : quota;
+    }
+
+    /**
+     * @notice The gas cost the paymaster sponsored for an account so far, including the most its
+     * operations being executed can cost.
+     */
+    function sponsoredCostOf(address account) external view returns (uint256) {
+        return _sponsoredCost[account];
+    }
+
+    /**
+     * @notice The hash the sponsor signs, covering every field of the operation but `paymasterAndData`
+     * and `signature`, and the terms of the sponsorship.
+     */
+    function getHash(
+        UserOperation calldata userOp,
+        uint48 validUntil,
+        uint48 validAfter,
+        address token,
+        uint256 price
+    ) public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    userOp.sender,
+                    userOp.nonce,
+                    keccak256(userOp.initCode),
+                    keccak256(userOp.callData),
+                    userOp.callGasLimit,
+                    userOp.verificationGasLimit,
+                    userOp.preVerificationGas,
+                    userOp.maxFeePerGas,
+                    userOp.maxPriorityFeePerGas,
+                    block.chainid,
+                    address(this),
+                    validUntil,
+                    validAfter,
+                    token,
+                    price
+                )
+            );
+    }
+
+    /**
+     * @notice Splits `paymasterAndData` into the terms of the sponsorship and the sponsor's signature.
+     */
+    function parsePaymasterAndData(
+        bytes calldata paymasterAndData
+    )
+        public
+        pure
+        returns (
+            uint48 validUntil,
+            uint48 validAfter,
+            address token,
+            uint256 price,
+            bytes calldata signature
+        )
+    {
+        if (paymasterAndData.length < _SIGNATURE_OFFSET) {
+            revert InvalidPaymasterData();
+        }
+        (validUntil, validAfter, token, price) = abi.decode(
+            paymasterAndData[_TERMS_OFFSET:_SIGNATURE_OFFSET],
+            (uint48, uint48, address, uint256)
+        );
+        signature = paymasterAndData[_SIGNATURE_OFFSET:];
+    }
+
+    /**
+     * @dev Checks the sponsor's signature, then the quota of a sponsored operation or the allowance of a
+     * charged one. A wrong signature fails the validation without reverting, as ERC-4337 requires.
+     * A sponsored operation reserves `maxCost` of the quota until `_postOp` settles its actual cost,
+     * so that the operations of a bundle cannot together exceed the quota.
+     */
+    function _validatePaymasterUserOp(
+        UserOperation calldata userOp,
+        bytes32,
+        uint256 maxCost
+    ) internal override returns (bytes memory context, uint256 validationData) {
+        (
+            uint48 validUntil,
+            uint48 validAfter,
+            address token,
+            uint256 price,
+            bytes calldata signature
+        ) = parsePaymasterAndData(userOp.paymasterAndData);
+        (address recovered, ECDSA.RecoverError error) = getHash(
+            userOp,
+            validUntil,
+            validAfter,
+            token,
+            price
+        ).toEthSignedMessageHash().tryRecover(signature);
+        if (error != ECDSA.RecoverError.NoError || recovered != sponsor) {
+            return ("", _packValidationData(true, validUntil, validAfter));
+        }
+
+        address account = userOp.sender;
+        if (token == address(0)) {
+            uint256 spent = _sponsoredCost[account];
+            uint256 quota = quotaOf(account);
+            if (spent + maxCost > quota) {
+                revert QuotaExceeded(account, spent, quota);
+            }
+            _sponsoredCost[account] = spent + maxCost;
+        } else {
+            uint256 max_charge = (maxCost * price) / PRICE_DENOMINATOR;
+            if (
+                IERC20(token).allowance(account, address(this)) < max_charge ||
+                IERC20(token).balanceOf(account) < max_charge
+            ) {
+                revert InsufficientTokenAllowance(token, max_charge);
+            }
+        }
+        return (
+            abi.encode(account, token, price, maxCost),
+            _packValidationData(false, validUntil, validAfter)
+        );
+    }
+
+    /**
+     * @dev Settles the actual cost of a sponsored operation against its reservation, or charges the
+     * token. After a failed `postOp` (`postOpReverted`), the operation's calls and the first `postOp`
+     * are undone, so the cost is settled or the charge is taken again.
+     * `actualGasCost` leaves out the gas of `postOp` itself, which the paymaster's deposit covers.
+     */
+    function _postOp(
+        PostOpMode,
+        bytes calldata context,
+        uint256 actualGasCost
+    ) internal override {
+        (
+            address account,
+            address token,
+            uint256 price,
+            uint256 maxCost
+        ) = abi.decode(context, (address, address, uint256, uint256));
+        uint256 charge;
+        if (token == address(0)) {
+            _sponsoredCost[account] =
+                _sponsoredCost[account] +
+                actualGasCost -
+                maxCost;
+        } else {
+            charge = (actualGasCost * price) / PRICE_DENOMINATOR;
+            IERC20(token).safeTransferFrom(account, address(this), charge);
+        }
+        emit UserOperationSponsored(account, token, actualGasCost, charge);
+    }
+}
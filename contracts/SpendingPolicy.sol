@@ -0,0 +1,504 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Spending policy of self-sovereign identity accounts
+/// @notice This contract limits what TyronSSI accounts send and call.
+//         Each account configures its own daily limits per asset, target allowlist and blocked selectors.
+//         Changes that tighten a policy apply at once, while changes that loosen it wait for `POLICY_DELAY`.
+
+/**
+ * @notice The hook a `TyronSSIAccount` calls before each of its calls.
+ */
+interface ITyronSpendingPolicy {
+    /**
+     * @notice Checks a call of the sender against its policy and accounts for what it spends.
+     * @dev Reverts if the policy does not allow the call.
+     */
+    function checkCall(
+        address target,
+        uint256 value,
+        bytes calldata data
+    ) external;
+}
+
+/**
+ * @notice A singleton policy engine: the policy of an account is keyed by its
+ * address, and only the account itself (`msg.sender`) can change it, e.g.
+ * through `execute`.
+ * @dev Native value is spent under asset `address(0)`. ERC20 amounts are
+ * decoded from `transfer`, `transferFrom`, `approve` and `increaseAllowance`
+ * calldata and spent under the token; other calls to a limited token revert.
+ * Spends are summed by the hour, and a spend counts against its limit for the
+ * next full `LIMIT_WINDOW`, so no 24 hours spend more than the limit (a spend
+ * can count for up to an hour longer).
+ */
+contract TyronSpendingPolicy is ITyronSpendingPolicy {
+    /**
+     * @dev The time a loosening change waits before it can be applied.
+     */
+    uint256 public constant POLICY_DELAY = 2 days;
+    uint256 public constant LIMIT_WINDOW = 1 days;
+    uint256 public constant LIMIT_BUCKET = 1 hours;
+
+    // bytes4(keccak256("transfer(address,uint256)"))
+    bytes4 internal constant _TRANSFER_SELECTOR = 0xa9059cbb;
+    // bytes4(keccak256("approve(address,uint256)"))
+    bytes4 internal constant _APPROVE_SELECTOR = 0x095ea7b3;
+    // bytes4(keccak256("transferFrom(address,address,uint256)"))
+    bytes4 internal constant _TRANSFER_FROM_SELECTOR = 0x23b872dd;
+    // bytes4(keccak256("increaseAllowance(address,uint256)"))
+    bytes4 internal constant _INCREASE_ALLOWANCE_SELECTOR = 0x39509351;
+    // bytes4(keccak256("decreaseAllowance(address,uint256)"))
+    bytes4 internal constant _DECREASE_ALLOWANCE_SELECTOR = 0xa457c2d7;
+
+    /**
+     * @dev A daily limit of an asset.
+     * @param enabled Whether the asset is limited.
+     * @param amount The amount that can be spent per window.
+     */
+    struct DailyLimit {
+        bool enabled;
+        uint256 amount;
+    }
+
+    /**
+     * @dev An amount a batch spends of an asset.
+     */
+    struct Spend {
+        address asset;
+        uint256 amount;
+    }
+
+    mapping(address => mapping(address => DailyLimit)) internal _limits;
+    // @dev What each account spent of each asset, by `LIMIT_BUCKET`.
+    mapping(address => mapping(address => mapping(uint256 => uint256)))
+        internal _spent;
+    mapping(address => bool) internal _allowlistEnabled;
+    mapping(address => mapping(address => bool)) internal _allowedTargets;
+    mapping(address => mapping(bytes4 => bool)) internal _blockedSelectors;
+    // @dev The time each scheduled change of an account becomes applicable, by change ID.
+    mapping(address => mapping(bytes32 => uint256)) internal _scheduledChanges;
+
+    /**
+     * @dev Emitted when an account sets the daily limit of an asset.
+     */
+    event DailyLimitUpdated(
+        address indexed account,
+        address indexed asset,
+        bool enabled,
+        uint256 amount
+    );
+
+    /**
+     * @dev Emitted when an account turns its target allowlist on or off.
+     */
+    event AllowlistUpdated(address indexed account, bool enabled);
+
+    /**
+     * @dev Emitted when an account allows or disallows a target.
+     */
+    event TargetAllowedUpdated(
+        address indexed account,
+        address indexed target,
+        bool allowed
+    );
+
+    /**
+     * @dev Emitted when an account blocks or unblocks a selector.
+     */
+    event SelectorBlockedUpdated(
+        address indexed account,
+        bytes4 indexed selector,
+        bool blocked
+    );
+
+    /**
+     * @dev Emitted when an account schedules a loosening change, which it
+     * applies by making the same call again from `applicableAt`.
+     * @param changeId The hash of the change, as returned by `getChangeId`.
+     * @param data The calldata of the change.
+     */
+    event PolicyChangeScheduled(
+        address indexed account,
+        bytes32 indexed changeId,
+        uint256 applicableAt,
+        bytes data
+    );
+
+    /**
+     * @dev Emitted when an account cancels a scheduled change.
+     */
+    event PolicyChangeCancelled(
+        address indexed account,
+        bytes32 indexed changeId
+    );
+
+    /**
+     * @dev The target is not on the allowlist of the account.
+     */
+    error TargetNotAllowed(address target);
+
+    /**
+     * @dev The selector is blocked by the account.
+     */
+    error SelectorBlocked(address target, bytes4 selector);
+
+    /**
+     * @dev The call would spend more of an asset than what is left of its daily limit.
+     */
+    error DailyLimitExceeded(address asset, uint256 amount, uint256 remaining);
+
+    /**
+     * @dev The call to a limited token is not one whose amount the policy can decode.
+     */
+    error UnknownTokenCall(address token, bytes4 selector);
+
+    /**
+     * @dev The scheduled change cannot be applied yet.
+     */
+    error PolicyChangeNotReady(bytes32 changeId, uint256 applicableAt);
+
+    /**
+     * @dev The change is not scheduled.
+     */
+    error PolicyChangeNotScheduled(bytes32 changeId);
+
+    /**
+     * @inheritdoc ITyronSpendingPolicy
+     * @dev Calls to the account itself and to this contract are always allowed.
+     */
+    function checkCall(
+        address target,
+        uint256 value,
+        bytes calldata data
+    ) external {
+        if (target == msg.sender || target == address(this)) {
+            return;
+        }
+        _checkTarget(msg.sender, target, bytes4(data));
+        if (value != 0) {
+            _spend(msg.sender, address(0), value);
+        }
+        uint256 amount = _tokenAmount(msg.sender, target, data);
+        if (amount != 0) {
+            _spend(msg.sender, target, amount);
+        }
+    }
+
+    /**
+     * @notice Checks whether a sequence of calls of an account would pass its
+     * policy, without spending anything.
+     * @dev Reverts with the first violation, like `checkCall` would.
+     * @param account The account making the calls.
+     * @param targets The targets of the calls.
+     * @param values The native value of the calls.
+     * @param data The calldata of the calls.
+     */
+    function previewCalls(
+        address account,
+        address[] calldata targets,
+        uint256[] calldata values,
+        bytes[] calldata data
+    ) external view {
+        Spend[] memory spends = new Spend[](targets.length * 2);
+        uint256 count;
+        for (uint256 i = 0; i < targets.length; i++) {
+            address target = targets[i];
+            if (target == account || target == address(this)) {
+                continue;
+            }
+            _checkTarget(account, target, bytes4(data[i]));
+            count = _addSpend(spends, count, address(0), values[i]);
+            count = _addSpend(
+                spends,
+                count,
+                target,
+                _tokenAmount(account, target, data[i])
+            );
+        }
+        for (uint256 i = 0; i < count; i++) {
+            uint256 remaining = getRemainingDailyLimit(
+                account,
+                spends[i].asset
+            );
+            if (spends[i].amount > remaining) {
+                revert DailyLimitExceeded(
+                    spends[i].asset,
+                    spends[i].amount,
+                    remaining
+                );
+            }
+        }
+    }
+
+    /**
+     * @notice Sets the daily limit of an asset (`address(0)` for native value).
+     * @dev Raising a limit is a loosening change.
+     */
+    function setDailyLimit(address asset, uint256 amount) external {
+        DailyLimit storage limit = _limits[msg.sender][asset];
+        if (limit.enabled && amount > limit.amount && !_schedule()) {
+            return;
+        }
+        limit.enabled = true;
+        limit.amount = amount;
+        emit DailyLimitUpdated(msg.sender, asset, true, amount);
+    }
+
+    /**
+     * @notice Removes the daily limit of an asset, a loosening change.
+     */
+    function removeDailyLimit(address asset) external {
+        if (!_schedule()) {
+            return;
+        }
+        delete _limits[msg.sender][asset];
+        emit DailyLimitUpdated(msg.sender, asset, false, 0);
+    }
+
+    /**
+     * @notice Turns the target allowlist on or off.
+     * @dev Turning it off is a loosening change.
+     */
+    function setAllowlistEnabled(bool enabled) external {
+        if (!enabled && !_schedule()) {
+            return;
+        }
+        _allowlistEnabled[msg.sender] = enabled;
+        emit AllowlistUpdated(msg.sender, enabled);
+    }
+
+    /**
+     * @notice Adds a target to the allowlist or removes it.
+     * @dev Adding a target is a loosening change.
+     */
+    function setTargetAllowed(address target, bool allowed) external {
+        if (allowed && !_schedule()) {
+            return;
+        }
+        _allowedTargets[msg.sender][target] = allowed;
+        emit TargetAllowedUpdated(msg.sender, target, allowed);
+    }
+
+    /**
+     * @notice Blocks or unblocks a selector on every target (the zero selector
+     * stands for calls without calldata).
+     * @dev Unblocking a selector is a loosening change.
+     */
+    function setSelectorBlocked(bytes4 selector, bool blocked) external {
+        if (!blocked && !_schedule()) {
+            return;
+        }
+        _blockedSelectors[msg.sender][selector] = blocked;
+        emit SelectorBlockedUpdated(msg.sender, selector, blocked);
+    }
+
+    /**
+     * @notice Cancels a scheduled change of the sender.
+     * @param changeId The ID of the change, from `getChangeId`.
+     */
+    function cancelChange(bytes32 changeId) external {
+        if (_scheduledChanges[msg.sender][changeId] == 0) {
+            revert PolicyChangeNotScheduled(changeId);
+        }
+        delete _scheduledChanges[msg.sender][changeId];
+        emit PolicyChangeCancelled(msg.sender, changeId);
+    }
+
+    /**
+     * @notice Retrieves the daily limit of an asset for an account.
+     * @return enabled_ Whether the asset is limited.
+     * @return amount_ The amount that can be spent per window.
+     * @return spent_ The amount spent in the current window.
+     * @return frees_at_ The time the oldest spend of the window stops counting (zero if nothing was spent in it).
+     */
+    function getDailyLimit(
+        address account,
+        address asset
+    )
+        external
+        view
+        returns (
+            bool enabled_,
+            uint256 amount_,
+            uint256 spent_,
+            uint256 frees_at_
+        )
+    {
+        DailyLimit memory limit = _limits[account][asset];
+        (spent_, frees_at_) = _windowSpent(account, asset);
+        return (limit.enabled, limit.amount, spent_, frees_at_);
+    }
+
+    /**
+     * @notice What an account can still spend of an asset in the current
+     * window (`type(uint256).max` if the asset is not limited).
+     */
+    function getRemainingDailyLimit(
+        address account,
+        address asset
+    ) public view returns (uint256) {
+        DailyLimit memory limit = _limits[account][asset];
+        if (!limit.enabled) {
+            return type(uint256).max;
+        }
+        (uint256 spent, ) = _windowSpent(account, asset);
+        return limit.amount > spent ? limit.amount - spent : 0;
+    }
+
+    function isAllowlistEnabled(address account) external view returns (bool) {
+        return _allowlistEnabled[account];
+    }
+
+    function isTargetAllowed(
+        address account,
+        address target
+    ) external view returns (bool) {
+        return _allowedTargets[account][target];
+    }
+
+    function isSelectorBlocked(
+        address account,
+        bytes4 selector
+    ) external view returns (bool) {
+        return _blockedSelectors[account][selector];
+    }
+
+    /**
+     * @notice The ID of a change: the hash of the calldata that makes it.
+     */
+    function getChangeId(bytes calldata data) external pure returns (bytes32) {
+        return keccak256(data);
+    }
+
+    /**
+     * @notice The time a scheduled change of an account becomes applicable (zero if it is not scheduled).
+     */
+    function getScheduledChange(
+        address account,
+        bytes32 changeId
+    ) external view returns (uint256) {
+        return _scheduledChanges[account][changeId];
+    }
+
+    /**
+     * @dev Schedules the current call as a loosening change, or consumes its
+     * schedule once `POLICY_DELAY` has passed.
+     * @return True if the change can be applied now.
+     */
+    function _schedule() internal returns (bool) {
+        bytes32 changeId = keccak256(msg.data);
+        uint256 applicableAt = _scheduledChanges[msg.sender][changeId];
+        if (applicableAt == 0) {
+            applicableAt = block.timestamp + POLICY_DELAY;
+            _scheduledChanges[msg.sender][changeId] = applicableAt;
+            emit PolicyChangeScheduled(
+                msg.sender,
+                changeId,
+                applicableAt,
+                msg.data
+            );
+            return false;
+        }
+        if (block.timestamp < applicableAt) {
+            revert PolicyChangeNotReady(changeId, applicableAt);
+        }
+        delete _scheduledChanges[msg.sender][changeId];
+        return true;
+    }
+
+    function _checkTarget(
+        address account,
+        address target,
+        bytes4 selector
+    ) internal view {
+        if (_allowlistEnabled[account] && !_allowedTargets[account][target]) {
+            revert TargetNotAllowed(target);
+        }
+        if (_blockedSelectors[account][selector]) {
+            revert SelectorBlocked(target, selector);
+        }
+    }
+
+    function _spend(address account, address asset, uint256 amount) internal {
+        if (!_limits[account][asset].enabled) {
+            return;
+        }
+        uint256 remaining = getRemainingDailyLimit(account, asset);
+        if (amount > remaining) {
+            revert DailyLimitExceeded(asset, amount, remaining);
+        }
+        _spent[account][asset][block.timestamp / LIMIT_BUCKET] += amount;
+    }
+
+    /**
+     * @dev The sum of the buckets of the current window: the current bucket and
+     * the `LIMIT_WINDOW` before it.
+     * @return spent The amount spent in the window.
+     * @return freesAt The end of the window of its oldest spend (zero if there is none).
+     */
+    function _windowSpent(
+        address account,
+        address asset
+    ) internal view returns (uint256 spent, uint256 freesAt) {
+        uint256 current = block.timestamp / LIMIT_BUCKET;
+        uint256 buckets = LIMIT_WINDOW / LIMIT_BUCKET;
+        mapping(uint256 => uint256) storage spentIn = _spent[account][asset];
+        for (uint256 bucket = current - buckets; bucket <= current; bucket++) {
+            uint256 amount = spentIn[bucket];
+            if (amount != 0 && spent == 0) {
+                freesAt = (bucket + buckets + 1) * LIMIT_BUCKET;
+            }
+            spent += amount;
+        }
+    }
+
+    /**
+     * @dev The ERC20 amount of `transfer`, `transferFrom`, `approve` and
+     * `increaseAllowance` calldata to a token the account limits (zero for
+     * other targets and for `decreaseAllowance`).
+     */
+    function _tokenAmount(
+        address account,
+        address token,
+        bytes calldata data
+    ) internal view returns (uint256) {
+        if (!_limits[account][token].enabled || data.length == 0) {
+            return 0;
+        }
+        bytes4 selector = bytes4(data);
+        if (
+            (selector == _TRANSFER_SELECTOR ||
+                selector == _APPROVE_SELECTOR ||
+                selector == _INCREASE_ALLOWANCE_SELECTOR) && data.length >= 68
+        ) {
+            return uint256(bytes32(data[36:68]));
+        }
+        if (selector == _TRANSFER_FROM_SELECTOR && data.length >= 100) {
+            return uint256(bytes32(data[68:100]));
+        }
+        if (selector == _DECREASE_ALLOWANCE_SELECTOR) {
+            return 0;
+        }
+        revert UnknownTokenCall(token, selector);
+    }
+
+    function _addSpend(
+        Spend[] memory spends,
+        uint256 count,
+        address asset,
+        uint256 amount
+    ) internal pure returns (uint256) {
+        if (amount == 0) {
+            return count;
+        }
+        for (uint256 i = 0; i < count; i++) {
+            if (spends[i].asset == asset) {
+                spends[i].amount += amount;
+                return count;
+            }
+        }
+        spends[count] = Spend(asset, amount);
+        return count + 1;
+    }
+}
@@ -0,0 +1,350 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: WebAuthn verifier of passkey signatures
+/// @notice This contract verifies WebAuthn assertions of P-256 passkeys, e.g. from a phone or a security key.
+//         The verification is written in Solidity, so it runs on any EVM network without the P-256 precompile.
+
+/**
+ * @notice The verifier a `TyronSSIAccount` calls to check passkey signatures.
+ */
+interface IWebAuthnVerifier {
+    /**
+     * @notice Checks a WebAuthn assertion over a challenge.
+     * @param challenge The challenge the assertion must sign, e.g. a user operation hash.
+     * @param signature The ABI-encoded `WebAuthn.Assertion`.
+     * @param x The x coordinate of the P-256 public key.
+     * @param y The y coordinate of the P-256 public key.
+     */
+    function verify(
+        bytes32 challenge,
+        bytes calldata signature,
+        uint256 x,
+        uint256 y
+    ) external view returns (bool);
+}
+
+/**
+ * @notice ECDSA verification on the NIST P-256 curve (secp256r1).
+ * @dev Points are added in Jacobian coordinates, and `u1·G + u2·Q` is
+ * computed in a single pass (Shamir's trick). Inverses use the `modexp`
+ * precompile.
+ */
+library P256 {
+    uint256 internal constant P =
+        0xFFFFFFFF00000001000000000000000000000000FFFFFFFFFFFFFFFFFFFFFFFF;
+    uint256 internal constant A =
+        0xFFFFFFFF00000001000000000000000000000000FFFFFFFFFFFFFFFFFFFFFFFC;
+    uint256 internal constant B =
+        0x5AC635D8AA3A93E7B3EBBD55769886BC651D06B0CC53B0F63BCE3C3E27D2604B;
+    uint256 internal constant GX =
+        0x6B17D1F2E12C4247F8BCE6E563A440F277037D812DEB33A0F4A13945D898C296;
+    uint256 internal constant GY =
+        0x4FE342E2FE1A7F9B8EE7EB4A7C0F9E162BCE33576B315ECECBB6406837BF51F5;
+    uint256 internal constant N =
+        0xFFFFFFFF00000000FFFFFFFFFFFFFFFFBCE6FAADA7179E84F3B9CAC2FC632551;
+
+    /**
+     * @notice Verifies the signature `(r, s)` of a message hash by the public key `(x, y)`.
+     */
+    function verify(
+        bytes32 hash,
+        uint256 r,
+        uint256 s,
+        uint256 x,
+        uint256 y
+    ) internal view returns (bool) {
+        if (r == 0 || r >= N || s == 0 || s >= N || !isOnCurve(x, y)) {
+            return false;
+        }
+        uint256 w = _inverse(s, N);
+        (uint256[3] memory px, uint256[3] memory py) = _table(x, y);
+        (uint256 rx, uint256 ry, uint256 rz) = _shamir(
+            mulmod(uint256(hash), w, N),
+            mulmod(r, w, N),
+            px,
+            py
+        );
+        if (rz == 0) {
+            return false;
+        }
+        (rx, ) = _toAffine(rx, ry, rz);
+        return rx % N == r;
+    }
+
+    /**
+     * @notice Whether `(x, y)` is a point of the curve (other than the point at infinity).
+     */
+    function isOnCurve(uint256 x, uint256 y) internal pure returns (bool) {
+        if (x >= P || y >= P || (x == 0 && y == 0)) {
+            return false;
+        }
+        uint256 lhs = mulmod(y, y, P);
+        uint256 rhs = addmod(
+            addmod(mulmod(mulmod(x, x, P), x, P), mulmod(A, x, P), P),
+            B,
+            P
+        );
+        return lhs == rhs;
+    }
+
+    /**
+     * @dev The affine points added by `_shamir`: G, Q and G + Q (zero if G + Q is the point at infinity).
+     */
+    function _table(
+        uint256 x,
+        uint256 y
+    ) private view returns (uint256[3] memory px, uint256[3] memory py) {
+        px[0] = GX;
+        py[0] = GY;
+        px[1] = x;
+        py[1] = y;
+        (uint256 gqX, uint256 gqY, uint256 gqZ) = _add(GX, GY, 1, x, y);
+        if (gqZ != 0) {
+            (px[2], py[2]) = _toAffine(gqX, gqY, gqZ);
+        }
+    }
+
+    /**
+     * @dev Computes u1·G + u2·Q in Jacobian coordinates, one bit of both scalars at a time.
+     */
+    function _shamir(
+        uint256 u1,
+        uint256 u2,
+        uint256[3] memory px,
+        uint256[3] memory py
+    ) private pure returns (uint256 rx, uint256 ry, uint256 rz) {
+        for (uint256 bit = 256; bit > 0; ) {
+            unchecked {
+                --bit;
+            }
+            (rx, ry, rz) = _double(rx, ry, rz);
+            uint256 index = ((u1 >> bit) & 1) | (((u2 >> bit) & 1) << 1);
+            if (index != 0 && (px[index - 1] != 0 || py[index - 1] != 0)) {
+                (rx, ry, rz) = _add(rx, ry, rz, px[index - 1], py[index - 1]);
+            }
+        }
+    }
+
+    /**
+     * @dev Doubles a point in Jacobian coordinates (`z == 0` is the point at infinity).
+     */
+    function _double(
+        uint256 x,
+        uint256 y,
+        uint256 z
+    ) private pure returns (uint256, uint256, uint256) {
+        if (z == 0 || y == 0) {
+            return (0, 0, 0);
+        }
+        uint256 zz = mulmod(z, z, P);
+        // @dev m = 3·(x - z²)·(x + z²), as a = -3.
+        uint256 m = mulmod(
+            3,
+            mulmod(addmod(x, P - zz, P), addmod(x, zz, P), P),
+            P
+        );
+        uint256 yy = mulmod(y, y, P);
+        uint256 s = mulmod(4, mulmod(x, yy, P), P);
+        uint256 x3 = addmod(mulmod(m, m, P), P - mulmod(2, s, P), P);
+        uint256 y3 = addmod(
+            mulmod(m, addmod(s, P - x3, P), P),
+            P - mulmod(8, mulmod(yy, yy, P), P),
+            P
+        );
+        return (x3, y3, mulmod(2, mulmod(y, z, P), P));
+    }
+
+    /**
+     * @dev Adds an affine point `(x2, y2)` to a point in Jacobian coordinates.
+     */
+    function _add(
+        uint256 x1,
+        uint256 y1,
+        uint256 z1,
+        uint256 x2,
+        uint256 y2
+    ) private pure returns (uint256 x3, uint256 y3, uint256 z3) {
+        if (z1 == 0) {
+            return (x2, y2, 1);
+        }
+        uint256 zz = mulmod(z1, z1, P);
+        // @dev h and r start as x2·z1² and y2·z1³, the second point scaled to z1.
+        uint256 h = mulmod(x2, zz, P);
+        uint256 r = mulmod(y2, mulmod(zz, z1, P), P);
+        if (h == x1) {
+            return r == y1 ? _double(x1, y1, z1) : (0, 0, 0);
+        }
+        h = addmod(h, P - x1, P);
+        r = addmod(r, P - y1, P);
+        uint256 hh = mulmod(h, h, P);
+        uint256 hhh = mulmod(hh, h, P);
+        // @dev hh becomes x1·h².
+        hh = mulmod(x1, hh, P);
+        x3 = addmod(
+            addmod(mulmod(r, r, P), P - hhh, P),
+            P - mulmod(2, hh, P),
+            P
+        );
+        y3 = addmod(
+            mulmod(r, addmod(hh, P - x3, P), P),
+            P - mulmod(y1, hhh, P),
+            P
+        );
+        z3 = mulmod(h, z1, P);
+    }
+
+    function _toAffine(
+        uint256 x,
+        uint256 y,
+        uint256 z
+    ) private view returns (uint256, uint256) {
+        uint256 zInv = _inverse(z, P);
+        uint256 zInv2 = mulmod(zInv, zInv, P);
+        return (mulmod(x, zInv2, P), mulmod(y, mulmod(zInv2, zInv, P), P));
+    }
+
+    /**
+     * @dev The inverse of `a` modulo the prime `m`, i.e. a^(m-2) mod m.
+     */
+    function _inverse(uint256 a, uint256 m) private view returns (uint256) {
+        (bool success, bytes memory result) = address(0x05).staticcall(
+            abi.encode(32, 32, 32, a, m - 2, m)
+        );
+        require(success, "P256: modexp failed.");
+        return abi.decode(result, (uint256));
+    }
+}
+
+/**
+ * @notice Verification of WebAuthn assertions (`navigator.credentials.get`).
+ * @dev Follows the WebAuthn Level 2 steps that matter on-chain: the client
+ * data is a `webauthn.get` over the expected challenge, the user was present,
+ * and the authenticator signed `authenticatorData || sha256(clientDataJSON)`.
+ * The origin and RP ID are not checked, as any passkey the owner registered
+ * may sign for the account.
+ */
+library WebAuthn {
+    /**
+     * @dev A WebAuthn assertion.
+     * @param authenticatorData The authenticator data, starting with the RP ID hash and the flags.
+     * @param clientDataJSON The client data, as serialized by the browser.
+     * @param challengeIndex The index of `"challenge":"` in `clientDataJSON`.
+     * @param typeIndex The index of `"type":"webauthn.get"` in `clientDataJSON`.
+     * @param r The r value of the P-256 signature.
+     * @param s The s value of the P-256 signature.
+     */
+    struct Assertion {
+        bytes authenticatorData;
+        string clientDataJSON;
+        uint256 challengeIndex;
+        uint256 typeIndex;
+        uint256 r;
+        uint256 s;
+    }
+
+    // @dev The "user present" flag of the authenticator data.
+    bytes1 internal constant _FLAG_USER_PRESENT = 0x01;
+    bytes internal constant _TYPE_GET = '"type":"webauthn.get"';
+    bytes internal constant _BASE64URL =
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+    /**
+     * @notice Verifies an assertion of the passkey `(x, y)` over a challenge.
+     */
+    function verify(
+        bytes32 challenge,
+        Assertion memory assertion,
+        uint256 x,
+        uint256 y
+    ) internal view returns (bool) {
+        bytes memory authenticatorData = assertion.authenticatorData;
+        if (
+            authenticatorData.length < 37 ||
+            (authenticatorData[32] & _FLAG_USER_PRESENT) == 0
+        ) {
+            return false;
+        }
+        bytes memory clientData = bytes(assertion.clientDataJSON);
+        if (
+            !_contains(clientData, assertion.typeIndex, _TYPE_GET) ||
+            !_contains(
+                clientData,
+                assertion.challengeIndex,
+                abi.encodePacked(
+                    '"challenge":"',
+                    encodeChallenge(challenge),
+                    '"'
+                )
+            )
+        ) {
+            return false;
+        }
+        bytes32 hash = sha256(
+            abi.encodePacked(authenticatorData, sha256(clientData))
+        );
+        return P256.verify(hash, assertion.r, assertion.s, x, y);
+    }
+
+    /**
+     * @notice Encodes a challenge the way browsers put it in the client data:
+     * base64url without padding (43 characters).
+     */
+    function encodeChallenge(
+        bytes32 challenge
+    ) internal pure returns (bytes memory encoded) {
+        encoded = new bytes(43);
+        uint256 value = uint256(challenge);
+        // @dev 256 bits are 42 groups of 6 bits plus 4 bits, padded with two zero bits.
+        for (uint256 i = 0; i < 42; i++) {
+            encoded[i] = _BASE64URL[(value >> (250 - i * 6)) & 0x3f];
+        }
+        encoded[42] = _BASE64URL[(value & 0xf) << 2];
+    }
+
+    function _contains(
+        bytes memory data,
+        uint256 index,
+        bytes memory expected
+    ) private pure returns (bool) {
+        if (index + expected.length > data.length) {
+            return false;
+        }
+        for (uint256 i = 0; i < expected.length; i++) {
+            if (data[index + i] != expected[i]) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
+
+/**
+ * @notice A stateless `IWebAuthnVerifier`, deployed once per network and shared by every account.
+ */
+contract TyronWebAuthnVerifier is IWebAuthnVerifier {
+    /**
+     * @inheritdoc IWebAuthnVerifier
+     */
+    function verify(
+        bytes32 challenge,
+        bytes calldata signature,
+        uint256 x,
+        uint256 y
+    ) external view returns (bool) {
+        return
+            WebAuthn.verify(
+                challenge,
+                abi.decode(signature, (WebAuthn.Assertion)),
+                x,
+                y
+            );
+    }
+
+    /**
+     * @notice Whether `(x, y)` is a valid P-256 public key.
+     */
+    function isValidKey(uint256 x, uint256 y) external pure returns (bool) {
+        return P256.isOnCurve(x, y);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+import {IModule, MODULE_TYPE_EXECUTOR} from "../Modules.sol";
+import {TyronSSIAccount} from "../Account.sol";
+
+/**
+ * @dev An executor module that runs any call on the accounts that install it,
+ * and records the data of their install hooks.
+ */
+contract ExecutorMock is IModule {
+    mapping(address => bytes) public installData;
+
+    function run(
+        TyronSSIAccount account,
+        address target,
+        uint256 value,
+        bytes calldata data
+    ) external {
+        account.execute(target, value, data);
+    }
+
+    function onInstall(bytes calldata data) external {
+        installData[msg.sender] = data;
+    }
+
+    function onUninstall(bytes calldata) external {
+        delete installData[msg.sender];
+    }
+
+    function isModuleType(uint256 moduleTypeId) external pure returns (bool) {
+        return moduleTypeId == MODULE_TYPE_EXECUTOR;
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+import {FallbackHandler} from "../Modules.sol";
+
+/**
+ * @dev A fallback handler that reports who called the account, and reverts
+ * in its uninstall hook.
+ */
+contract FallbackHandlerMock is FallbackHandler {
+    mapping(address => bytes) public installData;
+
+    function whoami() external view returns (address account, address caller) {
+        return (msg.sender, _accountSender());
+    }
+
+    function onInstall(bytes calldata data) external {
+        installData[msg.sender] = data;
+    }
+
+    function onUninstall(bytes calldata) external pure {
+        revert("FallbackHandlerMock: cannot uninstall");
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+import {UserOperation} from "@account-abstraction/contracts/interfaces/UserOperation.sol";
+import {IValidatorModule, MODULE_TYPE_VALIDATOR} from "../Modules.sol";
+
+/**
+ * @dev A validator module that breaks the bundler rules: it accepts any
+ * signature before a deadline read with `TIMESTAMP`, and counts its checks in
+ * storage that is not keyed by the account.
+ */
+contract TimestampValidatorMock is IValidatorModule {
+    mapping(address => uint256) public deadlines;
+    uint256 public checks;
+
+    function validateUserOp(
+        UserOperation calldata,
+        bytes32
+    ) external returns (uint256) {
+        checks++;
+        return block.timestamp <= deadlines[msg.sender] ? 0 : 1;
+    }
+
+    function isValidSignatureWithSender(
+        address,
+        bytes32,
+        bytes calldata
+    ) external view returns (bytes4) {
+        return
+            block.timestamp <= deadlines[msg.sender]
+                ? bytes4(0x1626ba7e)
+                : bytes4(0xffffffff);
+    }
+
+    function onInstall(bytes calldata data) external {
+        deadlines[msg.sender] = abi.decode(data, (uint256));
+    }
+
+    function onUninstall(bytes calldata) external {
+        delete deadlines[msg.sender];
+    }
+
+    function isModuleType(uint256 moduleTypeId) external pure returns (bool) {
+        return moduleTypeId == MODULE_TYPE_VALIDATOR;
+    }
+}
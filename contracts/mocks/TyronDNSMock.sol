@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @dev A stand-in for the Tyron DNS NFT on local networks: anyone can mint,
+ * so guardians registered by NFT ID can be set up in tests.
+ */
+contract TyronDNSMock is ERC721 {
+    constructor() ERC721("Tyron DNS", "DNS") {}
+
+    function mint(address to, uint256 tokenId) external {
+        _mint(to, tokenId);
+    }
+
+    function burn(uint256 tokenId) external {
+        require(
+            _isApprovedOrOwner(msg.sender, tokenId),
+            "TyronDNSMock: caller is not the token owner"
+        );
+        _burn(tokenId);
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+import {TyronSSIAccount} from "../Account.sol";
+
+/**
+ * @dev A second version of the account for upgrade tests: it appends a state
+ * variable and sets it up in a versioned migration.
+ */
+contract TyronSSIAccountV2Mock is TyronSSIAccount {
+    uint256 internal _migratedValue;
+
+    constructor(
+        address dns,
+        address anEntryPoint
+    ) TyronSSIAccount(dns, anEntryPoint) {}
+
+    function migrateToV2(uint256 value) external reinitializer(2) {
+        _migratedValue = value;
+    }
+
+    function migratedValue() external view returns (uint256) {
+        return _migratedValue;
+    }
+}
+
+/**
+ * @dev Declares a state variable ahead of the account's own state.
+ */
+contract ShiftedStorageMock {
+    uint256 internal _shifted;
+}
+
+/**
+ * @dev A second version of the account whose guardians storage is shifted by
+ * one slot, which the upgrade script must refuse.
+ */
+contract TyronSSIAccountShiftedMock is ShiftedStorageMock, TyronSSIAccount {
+    constructor(
+        address dns,
+        address anEntryPoint
+    ) TyronSSIAccount(dns, anEntryPoint) {}
+}
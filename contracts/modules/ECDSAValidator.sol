@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: ECDSA validator module
+/// @notice A validator module that lets a second ECDSA key sign for the account, e.g. a hardware wallet kept
+//         next to the owner's key. The key of each account is kept under the account's address.
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {UserOperation} from "@account-abstraction/contracts/interfaces/UserOperation.sol";
+import {IModule, IValidatorModule, MODULE_TYPE_VALIDATOR} from "../Modules.sol";
+
+contract TyronECDSAValidator is IValidatorModule {
+    using ECDSA for bytes32;
+
+    /**
+     * @notice The key that signs for each account.
+     */
+    mapping(address => address) public signers;
+
+    /**
+     * @dev Emitted when an account sets or removes its key.
+     * @param account The account.
+     * @param signer The key (zero if removed).
+     */
+    event SignerUpdated(address indexed account, address signer);
+
+    /**
+     * @dev The key is the zero address.
+     */
+    error InvalidSigner();
+
+    /**
+     * @inheritdoc IValidatorModule
+     * @dev The validator's part of the signature is an ECDSA signature of the
+     * user operation hash with an "Ethereum Signed Message" envelope, like the owner's.
+     */
+    function validateUserOp(
+        UserOperation calldata userOp,
+        bytes32 userOpHash
+    ) external view returns (uint256) {
+        (address recovered, ECDSA.RecoverError error) = userOpHash
+            .toEthSignedMessageHash()
+            .tryRecover(userOp.signature[24:]);
+        return
+            error == ECDSA.RecoverError.NoError &&
+                recovered == signers[msg.sender]
+                ? 0
+                : 1;
+    }
+
+    /**
+     * @inheritdoc IValidatorModule
+     */
+    function isValidSignatureWithSender(
+        address,
+        bytes32 hash,
+        bytes calldata signature
+    ) external view returns (bytes4) {
+        (address recovered, ECDSA.RecoverError error) = hash.tryRecover(
+            signature
+        );
+        return
+            error == ECDSA.RecoverError.NoError &&
+                recovered == signers[msg.sender]
+                ? bytes4(0x1626ba7e)
+                : bytes4(0xffffffff);
+    }
+
+    /**
+     * @notice Sets the key of the calling account.
+     * @param data `abi.encode(signer)`.
+     */
+    function onInstall(bytes calldata data) external {
+        address signer = abi.decode(data, (address));
+        if (signer == address(0)) {
+            revert InvalidSigner();
+        }
+        signers[msg.sender] = signer;
+        emit SignerUpdated(msg.sender, signer);
+    }
+
+    /**
+     * @notice Removes the key of the calling account.
+     */
+    function onUninstall(bytes calldata) external {
+        delete signers[msg.sender];
+        emit SignerUpdated(msg.sender, address(0));
+    }
+
+    /**
+     * @inheritdoc IModule
+     */
+    function isModuleType(uint256 moduleTypeId) external pure returns (bool) {
+        return moduleTypeId == MODULE_TYPE_VALIDATOR;
+    }
+}
@@ -0,0 +1,425 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.21;
+
+/// @title Tyron SSI: Inheritance module
+/// @notice An executor module that hands an inactive account to its beneficiaries, as a dead man's switch.
+//         The owner sets the beneficiaries and an inactivity period. Once the owner has not acted
+//         for that period, a beneficiary opens a claim, which the owner can cancel during the challenge period.
+//         After it, the beneficiary takes over the ownership of the account or sweeps its assets.
+//         The policy of each account is kept under the account's address.
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {IModule, MODULE_TYPE_EXECUTOR} from "../Modules.sol";
+import {TyronSSIAccount} from "../Account.sol";
+
+contract TyronInheritanceModule is IModule {
+    /**
+     * @dev The shortest inactivity period, so that a busy owner is not mistaken for an absent one.
+     */
+    uint256 public constant MIN_INACTIVITY_PERIOD = 30 days;
+    /**
+     * @dev The shortest challenge period, which gives the owner time to cancel a claim.
+     */
+    uint256 public constant MIN_CHALLENGE_PERIOD = 1 days;
+
+    /**
+     * @dev The inheritance policy of an account.
+     * @param beneficiaries The addresses that can claim the account.
+     * @param inactivityPeriod The time without activity of the owner after which a claim can be opened.
+     * @param challengePeriod The time the owner has to cancel a claim.
+     * @param updatedAt The last time the account set its policy or cancelled a claim, which counts
+     * as activity of the owner.
+     */
+    struct Policy {
+        address[] beneficiaries;
+        uint256 inactivityPeriod;
+        uint256 challengePeriod;
+        uint256 updatedAt;
+    }
+
+    /**
+     * @dev A claim of a beneficiary, which stays open until the owner is active again.
+     */
+    struct Claim {
+        address beneficiary;
+        uint256 openedAt;
+    }
+
+    mapping(address => Policy) internal _policies;
+    mapping(address => Claim) internal _claims;
+
+    /**
+     * @dev Emitted when an account sets its policy.
+     */
+    event PolicyUpdated(
+        address indexed account,
+        address[] beneficiaries,
+        uint256 inactivityPeriod,
+        uint256 challengePeriod
+    );
+
+    /**
+     * @dev Emitted when an account removes its policy by uninstalling the module.
+     */
+    event PolicyRemoved(address indexed account);
+
+    /**
+     * @dev Emitted when a beneficiary claims an inactive account.
+     * @param executableAt The end of the challenge period.
+     */
+    event ClaimOpened(
+        address indexed account,
+        address indexed beneficiary,
+        uint256 executableAt
+    );
+
+    /**
+     * @dev Emitted when an account cancels the claim of a beneficiary.
+     */
+    event ClaimCancelled(address indexed account, address indexed beneficiary);
+
+    /**
+     * @dev Emitted when a beneficiary takes over the ownership of an account, which it then accepts
+     * with `acceptOwnership`.
+     */
+    event OwnershipClaimed(
+        address indexed account,
+        address indexed beneficiary
+    );
+
+    /**
+     * @dev Emitted when a beneficiary sweeps the assets of an account.
+     */
+    event AssetsSwept(address indexed account, address indexed beneficiary);
+
+    /**
+     * @dev The beneficiaries or periods of a policy are not valid.
+     */
+    error InvalidPolicy(uint256 inactivityPeriod, uint256 challengePeriod);
+
+    /**
+     * @dev A beneficiary is null, repeated or the account itself.
+     */
+    error InvalidBeneficiary(address beneficiary);
+
+    /**
+     * @dev The account has no policy.
+     */
+    error NoPolicy(address account);
+
+    /**
+     * @dev The caller is not a beneficiary of the account, or not the one whose claim is open.
+     */
+    error NotBeneficiary(address account, address caller);
+
+    /**
+     * @dev The owner of the account was active too recently to claim it.
+     */
+    error OwnerActive(uint256 inactiveAt);
+
+    /**
+     * @dev The account is already claimed.
+     */
+    error ClaimPending(address beneficiary, uint256 executableAt);
+
+    /**
+     * @dev The account has no open claim.
+     */
+    error NoClaim(address account);
+
+    /**
+     * @dev The challenge period of the claim has not ended.
+     */
+    error ClaimNotReady(uint256 executableAt);
+
+    /**
+     * @dev The arrays of ERC721 tokens and IDs differ in length.
+     */
+    error ArrayLengthMismatch();
+
+    /**
+     * @notice Sets the policy of the calling account.
+     * @param data `abi.encode(beneficiaries, inactivityPeriod, challengePeriod)`.
+     */
+    function onInstall(bytes calldata data) external {
+        (
+            address[] memory beneficiaries,
+            uint256 inactivity_period,
+            uint256 challenge_period
+        ) = abi.decode(data, (address[], uint256, uint256));
+        _setPolicy(beneficiaries, inactivity_period, challenge_period);
+    }
+
+    /**
+     * @notice Removes the policy and the claim of the calling account.
+     */
+    function onUninstall(bytes calldata) external {
+        delete _policies[msg.sender];
+        delete _claims[msg.sender];
+        emit PolicyRemoved(msg.sender);
+    }
+
+    /**
+     * @inheritdoc IModule
+     */
+    function isModuleType(uint256 moduleTypeId) external pure returns (bool) {
+        return moduleTypeId == MODULE_TYPE_EXECUTOR;
+    }
+
+    /**
+     * @notice Replaces the policy of the calling account, which cancels its claim.
+     * @param beneficiaries The addresses that can claim the account, at least one.
+     * @param inactivityPeriod At least `MIN_INACTIVITY_PERIOD`.
+     * @param challengePeriod At least `MIN_CHALLENGE_PERIOD`.
+     */
+    function setPolicy(
+        address[] calldata beneficiaries,
+        uint256 inactivityPeriod,
+        uint256 challengePeriod
+    ) external {
+        _requirePolicy(msg.sender);
+        _setPolicy(beneficiaries, inactivityPeriod, challengePeriod);
+    }
+
+    /**
+     * @notice Cancels the claim of the calling account, e.g. through `execute` by its owner.
+     * @dev Any activity of the owner voids the claim already, this also clears it.
+     */
+    function cancelClaim() external {
+        _requirePolicy(msg.sender);
+        Claim memory claim = _claims[msg.sender];
+        if (claim.openedAt == 0) {
+            revert NoClaim(msg.sender);
+        }
+        delete _claims[msg.sender];
+        _policies[msg.sender].updatedAt = block.timestamp;
+        emit ClaimCancelled(msg.sender, claim.beneficiary);
+    }
+
+    /**
+     * @notice Claims an account whose owner has been inactive for its inactivity period.
+     * @param account The account, of which the caller is a beneficiary.
+     */
+    function openClaim(address account) external {
+        Policy storage policy = _requirePolicy(account);
+        if (!isBeneficiary(account, msg.sender)) {
+            revert NotBeneficiary(account, msg.sender);
+        }
+        (address beneficiary, uint256 executable_at) = getClaim(account);
+        if (beneficiary != address(0)) {
+            revert ClaimPending(beneficiary, executable_at);
+        }
+        uint256 inactive_at = getInactiveAt(account);
+        if (block.timestamp < inactive_at) {
+            revert OwnerActive(inactive_at);
+        }
+        _claims[account] = Claim(msg.sender, block.timestamp);
+        emit ClaimOpened(
+            account,
+            msg.sender,
+            block.timestamp + policy.challengePeriod
+        );
+    }
+
+    /**
+     * @notice Makes the claimant the pending owner of the account, once the challenge period
+     * has passed. The claimant then calls `acceptOwnership` on the account, and its first
+     * calls as owner close the claim.
+     * @param account The account claimed by the caller.
+     */
+    function claimOwnership(address account) external {
+        _requireExecutableClaim(account);
+        TyronSSIAccount(payable(account)).execute(
+            account,
+            0,
+            abi.encodeCall(TyronSSIAccount.transferOwnership, (msg.sender))
+        );
+        emit OwnershipClaimed(account, msg.sender);
+    }
+
+    /**
+     * @notice Sends the native balance and the given tokens of the account to the claimant,
+     * once the challenge period has passed. The claim stays open for later sweeps.
+     * @param account The account claimed by the caller.
+     * @param erc20Tokens ERC20 tokens, whose whole balance is sent.
+     * @param erc721Tokens ERC721 tokens, sent with the IDs of the same index.
+     * @param erc721Ids The IDs of the ERC721 tokens.
+     * @dev The calls run through `executeBatch`, so the spending policy of the account applies.
+     */
+    function sweep(
+        address account,
+        address[] calldata erc20Tokens,
+        address[] calldata erc721Tokens,
+        uint256[] calldata erc721Ids
+    ) external {
+        _requireExecutableClaim(account);
+        if (erc721Tokens.length != erc721Ids.length) {
+            revert ArrayLengthMismatch();
+        }
+        uint256 length = 1 + erc20Tokens.length + erc721Tokens.length;
+        address[] memory dest = new address[](length);
+        uint256[] memory value = new uint256[](length);
+        bytes[] memory func = new bytes[](length);
+
+        dest[0] = msg.sender;
+        value[0] = account.balance;
+        for (uint256 i = 0; i < erc20Tokens.length; i++) {
+            dest[1 + i] = erc20Tokens[i];
+            func[1 + i] = abi.encodeCall(
+                IERC20.transfer,
+                (msg.sender, IERC20(erc20Tokens[i]).balanceOf(account))
+            );
+        }
+        uint256 offset = 1 + erc20Tokens.length;
+        for (uint256 i = 0; i < erc721Tokens.length; i++) {
+            dest[offset + i] = erc721Tokens[i];
+            func[offset + i] = abi.encodeCall(
+                IERC721.transferFrom,
+                (account, msg.sender, erc721Ids[i])
+            );
+        }
+        TyronSSIAccount(payable(account)).executeBatch(dest, value, func);
+        emit AssetsSwept(account, msg.sender);
+    }
+
+    /**
+     * @notice The policy of an account.
+     * @return beneficiaries_ The beneficiaries, empty if the account has no policy.
+     * @return inactivity_period_ The inactivity period.
+     * @return challenge_period_ The challenge period.
+     */
+    function getPolicy(
+        address account
+    )
+        external
+        view
+        returns (
+            address[] memory beneficiaries_,
+            uint256 inactivity_period_,
+            uint256 challenge_period_
+        )
+    {
+        Policy storage policy = _policies[account];
+        return (
+            policy.beneficiaries,
+            policy.inactivityPeriod,
+            policy.challengePeriod
+        );
+    }
+
+    function isBeneficiary(
+        address account,
+        address beneficiary
+    ) public view returns (bool) {
+        address[] storage beneficiaries = _policies[account].beneficiaries;
+        for (uint256 i = 0; i < beneficiaries.length; i++) {
+            if (beneficiaries[i] == beneficiary) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @notice The last activity of the owner: the last calls it executed on the account, directly or
+     * with a user operation, or the last change of the policy or cancelled claim.
+     */
+    function getLastActivity(address account) public view returns (uint256) {
+        uint256 executed_at = TyronSSIAccount(payable(account))
+            .getLastActivity();
+        uint256 updated_at = _policies[account].updatedAt;
+        return executed_at > updated_at ? executed_at : updated_at;
+    }
+
+    /**
+     * @notice The time from which a beneficiary can claim the account, unless its owner is active again.
+     */
+    function getInactiveAt(address account) public view returns (uint256) {
+        return
+            getLastActivity(account) + _policies[account].inactivityPeriod;
+    }
+
+    /**
+     * @notice The open claim of an account.
+     * @return beneficiary_ The claimant, zero if there is no claim or the owner was active since.
+     * @return executable_at_ The end of the challenge period.
+     */
+    function getClaim(
+        address account
+    ) public view returns (address beneficiary_, uint256 executable_at_) {
+        Claim memory claim = _claims[account];
+        if (
+            claim.openedAt == 0 || getLastActivity(account) >= claim.openedAt
+        ) {
+            return (address(0), 0);
+        }
+        return (
+            claim.beneficiary,
+            claim.openedAt + _policies[account].challengePeriod
+        );
+    }
+
+    function _setPolicy(
+        address[] memory beneficiaries,
+        uint256 inactivity_period,
+        uint256 challenge_period
+    ) internal {
+        if (
+            beneficiaries.length == 0 ||
+            inactivity_period < MIN_INACTIVITY_PERIOD ||
+            challenge_period < MIN_CHALLENGE_PERIOD
+        ) {
+            revert InvalidPolicy(inactivity_period, challenge_period);
+        }
+        for (uint256 i = 0; i < beneficiaries.length; i++) {
+            address beneficiary = beneficiaries[i];
+            if (beneficiary == address(0) || beneficiary == msg.sender) {
+                revert InvalidBeneficiary(beneficiary);
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (beneficiaries[j] == beneficiary) {
+                    revert InvalidBeneficiary(beneficiary);
+                }
+            }
+        }
+        _policies[msg.sender] = Policy(
+            beneficiaries,
+            inactivity_period,
+            challenge_period,
+            block.timestamp
+        );
+        delete _claims[msg.sender];
+        emit PolicyUpdated(
+            msg.sender,
+            beneficiaries,
+            inactivity_period,
+            challenge_period
+        );
+    }
+
+    function _requirePolicy(
+        address account
+    ) internal view returns (Policy storage policy) {
+        policy = _policies[account];
+        if (policy.beneficiaries.length == 0) {
+            revert NoPolicy(account);
+        }
+    }
+
+    /**
+     * @dev Requires the caller's claim of the account to be past its challenge period.
+     */
+    function _requireExecutableClaim(address account) internal view {
+        (address beneficiary, uint256 executable_at) = getClaim(account);
+        if (beneficiary == address(0)) {
+            revert NoClaim(account);
+        }
+        if (beneficiary != msg.sender) {
+            revert NotBeneficiary(account, msg.sender);
+        }
+        if (block.timestamp < executable_at) {
+            revert ClaimNotReady(executable_at);
+        }
+    }
+}
@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys a mock Tyron DNS NFT for local networks, where the real one does not exist.
+const DnsModule = buildModule("DnsModule", (m) => {
+  const dns = m.contract("TyronDNSMock", []);
+
+  return { dns };
+});
+
+export default DnsModule;
@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys the ECDSA validator module, shared by every account of a network.
+const ECDSAValidatorModule = buildModule("ECDSAValidatorModule", (m) => {
+  const ecdsaValidator = m.contract("TyronECDSAValidator", []);
+
+  return { ecdsaValidator };
+});
+
+export default ECDSAValidatorModule;
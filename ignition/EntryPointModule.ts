@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys an ERC-4337 EntryPoint for local networks, where the canonical one does not exist.
+const EntryPointModule = buildModule("EntryPointModule", (m) => {
+  const entryPoint = m.contract("EntryPoint", []);
+
+  return { entryPoint };
+});
+
+export default EntryPointModule;
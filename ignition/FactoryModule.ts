@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+import { ENTRY_POINT_V06 } from "../scripts/utils/networks";
+
+// @notice The `dns` parameter is required: use `LocalFactoryModule` on local networks.
+const FactoryModule = buildModule("FactoryModule", (m) => {
+  const dns = m.getParameter<string>("dns");
+  const anEntryPoint = m.getParameter("anEntryPoint", ENTRY_POINT_V06);
+  const guardians = m.library("TyronGuardians");
+  const implementation = m.contract("TyronSSIAccount", [dns, anEntryPoint], {
+    libraries: { TyronGuardians: guardians },
+  });
+  const factory = m.contract("TyronSSIAccountFactory", [implementation]);
+
+  return { implementation, factory };
+});
+
+export default FactoryModule;
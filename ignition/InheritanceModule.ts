@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys the inheritance module, shared by every account of a network.
+const InheritanceModule = buildModule("InheritanceModule", (m) => {
+  const inheritance = m.contract("TyronInheritanceModule", []);
+
+  return { inheritance };
+});
+
+export default InheritanceModule;
@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+import DnsModule from "./DnsModule";
+import EntryPointModule from "./EntryPointModule";
+
+// @notice Deploys the account implementation and factory on a local network,
+// wired to a mock Tyron DNS NFT and a fresh EntryPoint.
+const LocalFactoryModule = buildModule("LocalFactoryModule", (m) => {
+  const { dns } = m.useModule(DnsModule);
+  const { entryPoint } = m.useModule(EntryPointModule);
+
+  const guardians = m.library("TyronGuardians");
+  const implementation = m.contract("TyronSSIAccount", [dns, entryPoint], {
+    libraries: { TyronGuardians: guardians },
+  });
+  const factory = m.contract("TyronSSIAccountFactory", [implementation]);
+
+  return { dns, entryPoint, implementation, factory };
+});
+
+export default LocalFactoryModule;
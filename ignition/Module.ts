@@ -1,27 +1,25 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition";
+import FactoryModule from "./FactoryModule";
 
+// @notice Deploys an account behind an ERC-1967 proxy, through the factory.
 const Module = buildModule("Module", (m) => {
-  const CustomSlotIni = m.contract("CustomSlotIni", []);
+  const { factory } = m.useModule(FactoryModule);
 
-  const addresses = ["0x1c61dE56e7b39efaCfEcE6fEDa5807dcDFBaB7c6"];
+  const addresses: string[] = [];
   const guardiansAddr = m.getParameter("guardiansAddr", addresses);
-  const dns = m.getParameter(
-    "dns",
-    "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789",
-  );
-  const ids: any[] = [];
+  const ids: bigint[] = [];
   const guardiansId = m.getParameter("guardiansId", ids);
+  const salt = m.getParameter("salt", 0n);
 
-  const anEntryPoint = m.getParameter(
-    "anEntryPoint",
-    "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789",
-  );
-  const contract = m.contract("TyronSSIAccount", [
+  const owner = m.getAccount(0);
+  const created = m.call(factory, "createAccount", [
+    owner,
     guardiansAddr,
-    dns,
     guardiansId,
-    anEntryPoint,
+    salt,
   ]);
+  const address = m.readEventArgument(created, "AccountCreated", "account");
+  const contract = m.contractAt("TyronSSIAccount", address);
 
   return {
     contract,
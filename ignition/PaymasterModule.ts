@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+import { ENTRY_POINT_V06 } from "../scripts/utils/networks";
+
+// @notice The `sponsor` parameter is required. The paymaster must then be funded
+// (`deposit`) and staked (`addStake`) by its owner before bundlers accept it.
+const PaymasterModule = buildModule("PaymasterModule", (m) => {
+  const anEntryPoint = m.getParameter("anEntryPoint", ENTRY_POINT_V06);
+  const sponsor = m.getParameter<string>("sponsor");
+  // @dev 0.01 ETH of gas per account.
+  const defaultQuota = m.getParameter("defaultQuota", 10n ** 16n);
+  const paymaster = m.contract("TyronVerifyingPaymaster", [
+    anEntryPoint,
+    sponsor,
+    defaultQuota,
+  ]);
+
+  return { paymaster };
+});
+
+export default PaymasterModule;
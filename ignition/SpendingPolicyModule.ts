@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys the spending policy engine, shared by every account of a network.
+const SpendingPolicyModule = buildModule("SpendingPolicyModule", (m) => {
+  const spendingPolicy = m.contract("TyronSpendingPolicy", []);
+
+  return { spendingPolicy };
+});
+
+export default SpendingPolicyModule;
@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition";
+
+// @notice Deploys the WebAuthn verifier of passkey owners, shared by every account of a network.
+const WebAuthnVerifierModule = buildModule("WebAuthnVerifierModule", (m) => {
+  const webAuthnVerifier = m.contract("TyronWebAuthnVerifier", []);
+
+  return { webAuthnVerifier };
+});
+
+export default WebAuthnVerifierModule;
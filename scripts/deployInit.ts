@@ -1,14 +1,19 @@
 import { ethers } from "hardhat";
+import { loadAccountParams } from "./utils/accountParams";
+import { requireManifest } from "./utils/manifest";
 
+// @notice Deploys the legacy, non-upgradeable `AccountInit`, e.g.
+// PARAMS=account.yaml npx hardhat run --network localhost scripts/deployInit.ts
+// The DNS defaults to the one of the chain's deployment manifest.
 async function main() {
-  const addresses = ["0xC68d43b78b5B720b0A1392269aFaC939DDfA40EE"];
-  const dns = "0xC68d43b78b5B720b0A1392269aFaC939DDfA40EE";
-  const ids: any[] = [];
+  const params = loadAccountParams({ params: process.env.PARAMS });
+  const { chainId } = await ethers.provider.getNetwork();
+  const dns = params.dns ?? requireManifest(chainId).dns;
 
   const contract = await ethers.deployContract("AccountInit", [
-    addresses,
+    params.guardians,
     dns,
-    ids,
+    params.guardianIds,
   ]);
   await contract.waitForDeployment();
 
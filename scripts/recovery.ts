@@ -0,0 +1,59 @@
+import hre, { ethers } from "hardhat";
+import path from "path";
+import { LocalBundler, TyronAccount } from "../sdk";
+import {
+  RecoveryCoordinator,
+  createRecoveryServer,
+  directSubmitter,
+  userOpSubmitter,
+} from "./utils/recovery";
+import { splitList } from "./utils/admin";
+import { manifestDir } from "./utils/deploy";
+
+// @notice Runs the recovery coordination service, submitting recoveries with
+// the network's signer, e.g.
+// npx hardhat run scripts/recovery.ts --network localhost
+// RECOVERY_PORT (3002), RECOVERY_STORE (deployments/recovery/<chainId>.json),
+// RECOVERY_TTL in seconds (7 days) and RECOVERY_ACCOUNTS (comma-separated)
+// are optional. With RECOVERY_RELAYER, recoveries are sent as user operations
+// of that account, which the signer owns, instead of transactions.
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+  const relayer = process.env.RECOVERY_RELAYER;
+  let submit = directSubmitter(signer);
+  if (relayer) {
+    const account = TyronAccount.connect(relayer, signer);
+    if ((await account.owner()) !== signer.address) {
+      throw new Error(`${signer.address} is not the owner of ${relayer}.`);
+    }
+    submit = userOpSubmitter(
+      new LocalBundler(await account.entryPoint(), signer),
+      relayer,
+      signer,
+    );
+  }
+  const accounts = splitList(process.env.RECOVERY_ACCOUNTS);
+
+  const file =
+    process.env.RECOVERY_STORE ??
+    path.join(manifestDir(hre), "recovery", `${chainId}.json`);
+  const coordinator = await RecoveryCoordinator.open(ethers.provider, file, {
+    submit,
+    ttl: process.env.RECOVERY_TTL
+      ? BigInt(process.env.RECOVERY_TTL)
+      : undefined,
+    accounts: accounts.length > 0 ? accounts : undefined,
+  });
+  const port = Number(process.env.RECOVERY_PORT ?? 3002);
+  createRecoveryServer(coordinator).listen(port, () =>
+    console.log(`Recovery service listening on port ${port}, state in ${file}`),
+  );
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
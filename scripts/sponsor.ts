@@ -0,0 +1,58 @@
+import { ethers } from "hardhat";
+import { parseEther } from "ethers";
+import { TyronPaymaster } from "../sdk";
+import { createSponsorServer } from "./utils/sponsor";
+import { splitList } from "./utils/admin";
+
+// @notice Runs the sponsor service of a paymaster, signing with the network's
+// signer, which must be the paymaster's sponsor, e.g.
+// PAYMASTER=0x... SPONSOR_MAX_COST=0.01 npx hardhat run scripts/sponsor.ts --network localhost
+// SPONSOR_PORT (3001), SPONSOR_VALIDITY in seconds (600), SPONSOR_ACCOUNTS
+// (comma-separated) and SPONSOR_TOKEN with SPONSOR_TOKEN_PRICE (per 1e18 wei
+// of gas) are optional.
+async function main() {
+  const [sponsor] = await ethers.getSigners();
+  const address = process.env.PAYMASTER;
+  if (!address) {
+    throw new Error("PAYMASTER is required.");
+  }
+  const paymaster = TyronPaymaster.connect(address, sponsor);
+  if ((await paymaster.sponsor()) !== sponsor.address) {
+    throw new Error(
+      `${sponsor.address} is not the sponsor of paymaster ${address}.`,
+    );
+  }
+  const token = process.env.SPONSOR_TOKEN;
+  const price = process.env.SPONSOR_TOKEN_PRICE;
+  if (token && !price) {
+    throw new Error("SPONSOR_TOKEN_PRICE is required with SPONSOR_TOKEN.");
+  }
+  const accounts = splitList(process.env.SPONSOR_ACCOUNTS);
+
+  const server = createSponsorServer({
+    paymaster,
+    sponsor,
+    entryPoint: await paymaster.contract.entryPoint(),
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    policy: {
+      validity: Number(process.env.SPONSOR_VALIDITY ?? 600),
+      maxCost: process.env.SPONSOR_MAX_COST
+        ? parseEther(process.env.SPONSOR_MAX_COST)
+        : undefined,
+      accounts: accounts.length > 0 ? accounts : undefined,
+      token:
+        token && price ? { address: token, price: BigInt(price) } : undefined,
+    },
+  });
+  const port = Number(process.env.SPONSOR_PORT ?? 3001);
+  server.listen(port, () =>
+    console.log(`Sponsor service of ${address} listening on port ${port}`),
+  );
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
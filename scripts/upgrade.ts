@@ -0,0 +1,43 @@
+import hre, { ethers } from "hardhat";
+import { findAccount, requireManifest, writeManifest } from "./utils/manifest";
+import { manifestDir } from "./utils/deploy";
+import { upgradeAccount } from "./utils/upgrade";
+
+// @notice Upgrades an account, e.g.
+// CONTRACT=TyronSSIAccountV2 MIGRATION=migrateToV2 MIGRATION_ARGS='[1]' npx hardhat run scripts/upgrade.ts
+// ACCOUNT defaults to the latest account of the chain's deployment manifest.
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const contract = process.env.CONTRACT;
+  if (!contract) {
+    throw new Error("CONTRACT is required.");
+  }
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifest = requireManifest(chainId, manifestDir(hre));
+  const deployment = findAccount(manifest, process.env.ACCOUNT);
+  const account = deployment.address;
+
+  const result = await upgradeAccount(hre, signer, {
+    account,
+    contract,
+    storageLayouts: manifest.storageLayouts,
+    migration: process.env.MIGRATION,
+    migrationArgs: JSON.parse(process.env.MIGRATION_ARGS ?? "[]"),
+  });
+  deployment.implementation = result.implementation;
+  manifest.storageLayouts = {
+    ...manifest.storageLayouts,
+    [result.implementation]: result.storageLayout,
+  };
+  writeManifest(manifest, manifestDir(hre));
+  console.log(
+    `Account ${account} upgraded from ${result.previousImplementation} to ${result.implementation} (version ${result.version})`,
+  );
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
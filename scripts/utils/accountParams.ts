@@ -0,0 +1,94 @@
+import { readFileSync } from "fs";
+import { load } from "js-yaml";
+
+/**
+ * @notice Parameters of a `tyron:deploy` run, read from a JSON/YAML file and
+ * overridden by CLI flags.
+ * @dev `owner` defaults to the deployer. `dns` and `entryPoint` default to
+ * the manifest, then to the network registry.
+ */
+export interface AccountParams {
+  owner?: string;
+  guardians: string[];
+  guardianIds: bigint[];
+  salt: bigint;
+  dns?: string;
+  entryPoint?: string;
+}
+
+/**
+ * @notice The raw `tyron:deploy` flags, as comma-separated strings.
+ */
+export interface AccountParamFlags {
+  params?: string;
+  owner?: string;
+  guardians?: string;
+  guardianIds?: string;
+  salt?: string;
+  dns?: string;
+  entryPoint?: string;
+}
+
+function list(value: unknown, name: string): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item !== "");
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`\`${name}\` must be a list.`);
+  }
+  return value;
+}
+
+// @dev YAML reads unquoted `0x...` values as numbers, which cannot be addresses.
+function address(value: unknown, name: string): string {
+  if (typeof value !== "string") {
+    throw new Error(
+      `\`${name}\` must be an address string (quote it in YAML).`,
+    );
+  }
+  return value;
+}
+
+function optionalAddress(value: unknown, name: string): string | undefined {
+  return value === undefined ? undefined : address(value, name);
+}
+
+/**
+ * @notice Reads account parameters from a `.json`, `.yaml` or `.yml` file.
+ */
+export function readAccountParams(file: string): Record<string, unknown> {
+  const content = readFileSync(file, "utf8");
+  const params = file.endsWith(".json") ? JSON.parse(content) : load(content);
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    throw new Error(`${file} must contain a mapping of account parameters.`);
+  }
+  return params as Record<string, unknown>;
+}
+
+/**
+ * @notice Merges the parameters file with the CLI flags, which take precedence.
+ */
+export function loadAccountParams(flags: AccountParamFlags): AccountParams {
+  const file = flags.params ? readAccountParams(flags.params) : {};
+  const pick = (name: keyof AccountParamFlags) =>
+    flags[name] !== undefined ? flags[name] : file[name];
+
+  return {
+    owner: optionalAddress(pick("owner"), "owner"),
+    guardians: list(pick("guardians"), "guardians").map((guardian) =>
+      address(guardian, "guardians"),
+    ),
+    guardianIds: list(pick("guardianIds"), "guardianIds").map((id) =>
+      BigInt(id as string),
+    ),
+    salt: BigInt((pick("salt") as string | undefined) ?? 0),
+    dns: optionalAddress(pick("dns"), "dns"),
+    entryPoint: optionalAddress(pick("entryPoint"), "entryPoint"),
+  };
+}
@@ -0,0 +1,218 @@
+import { Provider, getAddress } from "ethers";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import path from "path";
+import {
+  AccountActivity,
+  fetchAccountActivity,
+  formatActivityCsv,
+} from "../../sdk";
+
+export const ACTIVITY_STORE_VERSION = 1;
+
+/**
+ * @notice The state of an `ActivityIndexer`, saved as JSON after each range
+ * of blocks so that it resumes where it stopped.
+ * @dev `syncedHash` is the hash of `syncedBlock` when it was indexed: a
+ * different hash on the chain means a reorg.
+ */
+export interface ActivityStore {
+  version: number;
+  chainId: string;
+  entryPoint: string;
+  accounts: string[];
+  fromBlock: number;
+  syncedBlock: number;
+  syncedHash?: string;
+  entries: AccountActivity[];
+}
+
+export interface ActivityIndexerOptions {
+  accounts: string[];
+  entryPoint: string;
+  // @dev The first block to index, e.g. the block of the accounts' deployment.
+  fromBlock: number;
+  // @dev Blocks below the head left out, to avoid most reorgs.
+  confirmations?: number;
+  // @dev The number of blocks read per `eth_getLogs` request.
+  batchSize?: number;
+}
+
+/**
+ * @notice The changes of a sync.
+ */
+export interface ActivitySyncResult {
+  added: number;
+  // @dev The entries dropped by a reorg.
+  removed: number;
+  syncedBlock: number;
+}
+
+function sameAccounts(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((account) => b.includes(account));
+}
+
+/**
+ * @notice Follows the activity of accounts and keeps their timeline in a
+ * JSON file.
+ * @dev Opening a store with other accounts or another EntryPoint indexes it
+ * again from `fromBlock`.
+ */
+export class ActivityIndexer {
+  readonly provider: Provider;
+  readonly file: string;
+  readonly confirmations: number;
+  readonly batchSize: number;
+  private store: ActivityStore;
+
+  private constructor(
+    provider: Provider,
+    file: string,
+    store: ActivityStore,
+    options: ActivityIndexerOptions,
+  ) {
+    this.provider = provider;
+    this.file = file;
+    this.store = store;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+  }
+
+  static async open(
+    provider: Provider,
+    file: string,
+    options: ActivityIndexerOptions,
+  ): Promise<ActivityIndexer> {
+    const { chainId } = await provider.getNetwork();
+    const accounts = options.accounts.map((account) => getAddress(account));
+    const entryPoint = getAddress(options.entryPoint);
+    let store: ActivityStore | undefined = existsSync(file)
+      ? JSON.parse(readFileSync(file, "utf8"))
+      : undefined;
+    if (store && store.chainId !== chainId.toString()) {
+      throw new Error(
+        `${file} indexes chain ${store.chainId}, not chain ${chainId}.`,
+      );
+    }
+    if (
+      !store ||
+      store.version !== ACTIVITY_STORE_VERSION ||
+      store.entryPoint !== entryPoint ||
+      store.fromBlock !== options.fromBlock ||
+      !sameAccounts(store.accounts, accounts)
+    ) {
+      store = {
+        version: ACTIVITY_STORE_VERSION,
+        chainId: chainId.toString(),
+        entryPoint,
+        accounts,
+        fromBlock: options.fromBlock,
+        syncedBlock: options.fromBlock - 1,
+        entries: [],
+      };
+    }
+    return new ActivityIndexer(provider, file, store, options);
+  }
+
+  get entries(): AccountActivity[] {
+    return [...this.store.entries];
+  }
+
+  get syncedBlock(): number {
+    return this.store.syncedBlock;
+  }
+
+  /**
+   * @notice Indexes the blocks up to `toBlock` (the head minus the
+   * confirmations by default), after undoing the entries of a reorg.
+   */
+  async sync(toBlock?: number): Promise<ActivitySyncResult> {
+    const removed = await this.rollbackReorg();
+    const head =
+      toBlock ?? (await this.provider.getBlockNumber()) - this.confirmations;
+    let added = 0;
+    while (this.store.syncedBlock < head) {
+      const from = this.store.syncedBlock + 1;
+      const to = Math.min(head, from + this.batchSize - 1);
+      const block = await this.provider.getBlock(to);
+      const entries = await fetchAccountActivity(
+        this.provider,
+        this.store.accounts,
+        this.store.entryPoint,
+        from,
+        to,
+      );
+      this.store.entries.push(...entries);
+      this.store.syncedBlock = to;
+      this.store.syncedHash = block!.hash!;
+      added += entries.length;
+      this.save();
+    }
+    return { added, removed, syncedBlock: this.store.syncedBlock };
+  }
+
+  /**
+   * @notice Finds the last indexed block still on the chain and drops the
+   * entries after it.
+   * @return The number of entries dropped.
+   */
+  private async rollbackReorg(): Promise<number> {
+    const { syncedBlock, syncedHash } = this.store;
+    if (!syncedHash || (await this.isCanonical(syncedBlock, syncedHash))) {
+      return 0;
+    }
+    let forkBlock = this.store.fromBlock - 1;
+    let forkHash: string | undefined;
+    const entries = this.store.entries;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const { blockNumber, blockHash } = entries[i];
+      if (
+        (i === entries.length - 1 ||
+          entries[i + 1].blockNumber !== blockNumber) &&
+        (await this.isCanonical(blockNumber, blockHash))
+      ) {
+        forkBlock = blockNumber;
+        forkHash = blockHash;
+        break;
+      }
+    }
+    const kept = entries.filter(({ blockNumber }) => blockNumber <= forkBlock);
+    const removed = entries.length - kept.length;
+    this.store.entries = kept;
+    this.store.syncedBlock = forkBlock;
+    this.store.syncedHash = forkHash;
+    this.save();
+    return removed;
+  }
+
+  private async isCanonical(blockNumber: number, hash: string) {
+    const block = await this.provider.getBlock(blockNumber);
+    return block?.hash === hash;
+  }
+
+  /**
+   * @notice Exports the timeline, optionally of one account.
+   */
+  export(format: "json" | "csv", account?: string): string {
+    const entries = account
+      ? this.store.entries.filter(
+          (entry) => entry.account === getAddress(account),
+        )
+      : this.store.entries;
+    return format === "csv"
+      ? formatActivityCsv(entries)
+      : `${JSON.stringify(entries, null, 2)}\n`;
+  }
+
+  private save() {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, `${JSON.stringify(this.store, null, 2)}\n`);
+    renameSync(temporary, this.file);
+  }
+}
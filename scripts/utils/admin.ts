@@ -0,0 +1,175 @@
+import { BigNumberish, ContractRunner } from "ethers";
+import { readFileSync } from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  Call,
+  TyronAccount,
+  executeBatchArgs,
+  hashGuardians,
+  hashTokenGuardian,
+  withDecodedErrors,
+} from "../../sdk";
+import { manifestDir } from "./deploy";
+import { findAccount, requireManifest } from "./manifest";
+
+/**
+ * @notice A state-changing call to the account, which admin tasks either
+ * send or simulate.
+ */
+export interface AccountCall {
+  // @dev The function name, or its signature for overloaded functions.
+  method: string;
+  args: unknown[];
+  value?: bigint;
+}
+
+export type AccountCallOutcome =
+  | { status: "simulated"; gas: bigint }
+  | { status: "reverted"; error: Error }
+  | { status: "sent"; hash: string; gasUsed: bigint };
+
+/**
+ * @notice Connects to the account given by `address`, or to the latest
+ * account of the chain's deployment manifest.
+ */
+export async function resolveAccount(
+  hre: HardhatRuntimeEnvironment,
+  runner: ContractRunner,
+  address?: string,
+): Promise<TyronAccount> {
+  if (address) {
+    return TyronAccount.connect(address, runner);
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const manifest = requireManifest(chainId, manifestDir(hre));
+  return TyronAccount.connect(findAccount(manifest).address, runner);
+}
+
+/**
+ * @notice Sends the call, or only simulates it with `dryRun`.
+ * @dev The call is always simulated first. Reverts are decoded; in a dry run
+ * they are returned instead of thrown.
+ */
+export async function runAccountCall(
+  account: TyronAccount,
+  call: AccountCall,
+  dryRun: boolean = false,
+): Promise<AccountCallOutcome> {
+  const method = account.contract.getFunction(call.method);
+  const args = [...call.args, { value: call.value ?? 0n }];
+  let gas: bigint;
+  try {
+    gas = await withDecodedErrors(() => method.estimateGas(...args));
+  } catch (error) {
+    if (dryRun) {
+      return { status: "reverted", error: error as Error };
+    }
+    throw error;
+  }
+  if (dryRun) {
+    return { status: "simulated", gas };
+  }
+  const tx = await withDecodedErrors(() => method.send(...args));
+  const receipt = (await tx.wait())!;
+  return { status: "sent", hash: tx.hash, gasUsed: receipt.gasUsed };
+}
+
+/**
+ * @notice Describes the outcome of an admin call for the task output.
+ */
+export function formatOutcome(
+  call: AccountCall,
+  outcome: AccountCallOutcome,
+): string {
+  switch (outcome.status) {
+    case "simulated":
+      return `Dry run: ${call.method} would succeed (${outcome.gas} gas).`;
+    case "reverted":
+      return `Dry run: ${call.method} would revert with ${outcome.error.message}`;
+    case "sent":
+      return `${call.method} sent in ${outcome.hash} (${outcome.gasUsed} gas).`;
+  }
+}
+
+export function addGuardiansCall(
+  guardians: string[],
+  guardianIds: BigNumberish[] = [],
+): AccountCall {
+  return { method: "addGuardians", args: [guardians, guardianIds] };
+}
+
+/**
+ * @notice Removes guardians given their plain addresses and DNS NFT IDs.
+ */
+export function removeGuardiansCall(
+  guardians: string[],
+  guardianIds: BigNumberish[] = [],
+): AccountCall {
+  return {
+    method: "removeGuardians",
+    args: [
+      [...hashGuardians(guardians), ...guardianIds.map(hashTokenGuardian)],
+    ],
+  };
+}
+
+/**
+ * @notice `execute` for a single call, `executeBatch` otherwise.
+ */
+export function executeCall(calls: Call[]): AccountCall {
+  if (calls.length === 0) {
+    throw new Error("There are no calls to execute.");
+  }
+  if (calls.length === 1 && !calls[0].allowFailure) {
+    const [call] = calls;
+    return {
+      method: "execute",
+      args: [call.target, call.value ?? 0n, call.data ?? "0x"],
+    };
+  }
+  const { fragment, args } = executeBatchArgs(calls);
+  return { method: fragment, args };
+}
+
+// @dev A call as written in a call file, checked by `readCallFile`.
+interface CallFileEntry {
+  target?: unknown;
+  value?: string | number;
+  data?: string;
+  allowFailure?: boolean;
+}
+
+/**
+ * @notice Reads the calls of `tyron:execute` from a JSON file: a list (or
+ * `{ "calls": [...] }`) of `{ target, value?, data?, allowFailure? }`, with
+ * `value` in wei.
+ */
+export function readCallFile(file: string): Call[] {
+  const content: CallFileEntry[] | { calls?: CallFileEntry[] } | null =
+    JSON.parse(readFileSync(file, "utf8"));
+  const calls = Array.isArray(content) ? content : content?.calls;
+  if (!Array.isArray(calls)) {
+    throw new Error(`${file} must contain a list of calls.`);
+  }
+  return calls.map((call, i) => {
+    if (typeof call?.target !== "string") {
+      throw new Error(`Call ${i} of ${file} has no target.`);
+    }
+    return {
+      target: call.target,
+      value: call.value === undefined ? undefined : BigInt(call.value),
+      data: call.data,
+      allowFailure: call.allowFailure,
+    };
+  });
+}
+
+/**
+ * @notice Splits a comma-separated task flag.
+ */
+export function splitList(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
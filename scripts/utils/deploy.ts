@@ -0,0 +1,190 @@
+import { Signer, getAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+import { TyronAccount, TyronAccountFactory, deployEntryPoint } from "../../sdk";
+import { AccountParams } from "./accountParams";
+import {
+  AccountDeployment,
+  DEFAULT_MANIFEST_DIR,
+  DeploymentManifest,
+  readManifest,
+  writeManifest,
+} from "./manifest";
+import { TYRON_NETWORKS, isLocalNetwork } from "./networks";
+import { getStorageLayout, saveStorageLayout } from "./storageLayout";
+
+export interface DeployResult {
+  manifest: DeploymentManifest;
+  account: AccountDeployment;
+  // @dev Where the manifest was written.
+  file: string;
+}
+
+/**
+ * @notice The manifest directory of the project.
+ */
+export function manifestDir(hre: HardhatRuntimeEnvironment): string {
+  return path.join(hre.config.paths.root, DEFAULT_MANIFEST_DIR);
+}
+
+async function hasCode(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+): Promise<boolean> {
+  return (
+    address !== undefined &&
+    (await hre.ethers.provider.getCode(address)) !== "0x"
+  );
+}
+
+/**
+ * @notice Picks the address of a contract from the parameters, then the
+ * manifest, then the network registry.
+ * @dev Manifest addresses without code are skipped, as local chains are reset.
+ * On local networks, `deployLocal` deploys the contract if none is set.
+ */
+async function resolveAddress(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  sources: { param?: string; manifest?: string; registry?: string },
+  deployLocal: () => Promise<string>,
+): Promise<string> {
+  const manifest = (await hasCode(hre, sources.manifest))
+    ? sources.manifest
+    : undefined;
+  const address = sources.param ?? manifest ?? sources.registry;
+  if (address !== undefined) {
+    if (!(await hasCode(hre, address))) {
+      throw new Error(
+        `The ${name} ${address} has no code on ${hre.network.name}.`,
+      );
+    }
+    return getAddress(address);
+  }
+  if (!isLocalNetwork(hre.network.name)) {
+    throw new Error(
+      `Set the ${name} address for ${hre.network.name} in the parameters or the network registry.`,
+    );
+  }
+  const deployed = await deployLocal();
+  console.log(`${name} deployed to: ${deployed}`);
+  return deployed;
+}
+
+/**
+ * @notice Deploys an account through the factory and records it in the
+ * manifest of the chain.
+ * @dev The EntryPoint, DNS, implementation and factory of the manifest are
+ * reused when they still match; anything missing is deployed.
+ */
+export async function deployTyron(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  params: AccountParams,
+  dir: string = manifestDir(hre),
+): Promise<DeployResult> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  // @dev A manifest whose factory has no code is left over from a reset local chain.
+  let previous = readManifest(chainId, dir);
+  if (previous && !(await hasCode(hre, previous.factory))) {
+    previous = undefined;
+  }
+  const registry = TYRON_NETWORKS[hre.network.name];
+
+  const entryPoint = await resolveAddress(
+    hre,
+    "EntryPoint",
+    {
+      param: params.entryPoint,
+      manifest: previous?.entryPoint,
+      registry: registry?.entryPoint,
+    },
+    async () =>
+      deployEntryPoint(signer, await hre.artifacts.readArtifact("EntryPoint")),
+  );
+  const dns = await resolveAddress(
+    hre,
+    "DNS",
+    { param: params.dns, manifest: previous?.dns, registry: registry?.dns },
+    async () => {
+      const mock = await hre.ethers.deployContract("TyronDNSMock", signer);
+      await mock.waitForDeployment();
+      return mock.getAddress();
+    },
+  );
+
+  // @dev The implementation and factory are bound to the DNS and EntryPoint.
+  let implementation = previous?.implementation;
+  let factory = previous?.factory;
+  let storageLayouts = previous?.storageLayouts;
+  const reusable =
+    previous?.entryPoint === entryPoint &&
+    previous?.dns === dns &&
+    (await hasCode(hre, implementation));
+  if (!reusable) {
+    implementation = await TyronAccount.deployImplementation(
+      signer,
+      await hre.artifacts.readArtifact("TyronSSIAccount"),
+      {
+        dns,
+        entryPoint,
+        libraries: await TyronAccount.deployLibraries(signer, {
+          TyronGuardians: await hre.artifacts.readArtifact("TyronGuardians"),
+        }),
+      },
+    );
+    console.log(`Implementation deployed to: ${implementation}`);
+    storageLayouts = {
+      ...storageLayouts,
+      [implementation]: saveStorageLayout(
+        await getStorageLayout(hre, "TyronSSIAccount"),
+      ),
+    };
+    factory = (
+      await TyronAccountFactory.deploy(
+        signer,
+        await hre.artifacts.readArtifact("TyronSSIAccountFactory"),
+        implementation,
+      )
+    ).address;
+    console.log(`Factory deployed to: ${factory}`);
+  }
+
+  const owner = getAddress(params.owner ?? (await signer.getAddress()));
+  const address = await TyronAccountFactory.connect(
+    factory!,
+    signer,
+  ).createAccount({
+    owner,
+    guardians: params.guardians,
+    guardianIds: params.guardianIds,
+    salt: params.salt,
+  });
+  console.log(`Account deployed to: ${address}`);
+
+  const account: AccountDeployment = {
+    address,
+    owner,
+    guardians: params.guardians.map((guardian) => getAddress(guardian)),
+    guardianIds: params.guardianIds.map(String),
+    salt: params.salt.toString(),
+    implementation: implementation!,
+    factory: factory!,
+  };
+  const manifest: DeploymentManifest = {
+    chainId: Number(chainId),
+    network: hre.network.name,
+    entryPoint,
+    dns,
+    implementation: implementation!,
+    factory: factory!,
+    accounts: [
+      ...(previous?.accounts ?? []).filter(
+        (deployment) => deployment.address !== address,
+      ),
+      account,
+    ],
+    storageLayouts,
+  };
+  return { manifest, account, file: writeManifest(manifest, dir) };
+}
@@ -0,0 +1,109 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { SavedStorageVariable } from "./storageLayout";
+
+/**
+ * @notice An account deployed through the factory.
+ * @dev Big numbers are kept as decimal strings so the manifest stays plain JSON.
+ */
+export interface AccountDeployment {
+  address: string;
+  owner: string;
+  guardians: string[];
+  guardianIds: string[];
+  salt: string;
+  implementation: string;
+  factory: string;
+}
+
+/**
+ * @notice The contracts deployed on a chain, written by `tyron:deploy` to
+ * `deployments/<chainId>.json` and read by the other tasks and scripts.
+ */
+export interface DeploymentManifest {
+  chainId: number;
+  network: string;
+  entryPoint: string;
+  dns: string;
+  implementation: string;
+  factory: string;
+  accounts: AccountDeployment[];
+  // @dev The storage layout of each implementation at deploy time, by address, for upgrades to check.
+  storageLayouts?: Record<string, SavedStorageVariable[]>;
+}
+
+// @dev Relative to the project root.
+export const DEFAULT_MANIFEST_DIR = "deployments";
+
+export function manifestPath(
+  chainId: bigint | number,
+  dir: string = DEFAULT_MANIFEST_DIR,
+): string {
+  return path.join(dir, `${chainId}.json`);
+}
+
+/**
+ * @return The manifest of the chain, or `undefined` if nothing was deployed yet.
+ */
+export function readManifest(
+  chainId: bigint | number,
+  dir?: string,
+): DeploymentManifest | undefined {
+  const file = manifestPath(chainId, dir);
+  if (!existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(file, "utf8"));
+}
+
+/**
+ * @notice Reads the manifest of the chain, failing if there is none.
+ */
+export function requireManifest(
+  chainId: bigint | number,
+  dir?: string,
+): DeploymentManifest {
+  const manifest = readManifest(chainId, dir);
+  if (!manifest) {
+    throw new Error(
+      `No deployment manifest at ${manifestPath(
+        chainId,
+        dir,
+      )}: run tyron:deploy first.`,
+    );
+  }
+  return manifest;
+}
+
+export function writeManifest(
+  manifest: DeploymentManifest,
+  dir?: string,
+): string {
+  const file = manifestPath(manifest.chainId, dir);
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`);
+  return file;
+}
+
+/**
+ * @notice Finds an account of the manifest, defaulting to the latest one.
+ */
+export function findAccount(
+  manifest: DeploymentManifest,
+  address?: string,
+): AccountDeployment {
+  const account = address
+    ? manifest.accounts.find(
+        (deployment) =>
+          deployment.address.toLowerCase() === address.toLowerCase(),
+      )
+    : manifest.accounts.at(-1);
+  if (!account) {
+    throw new Error(
+      address
+        ? `Account ${address} is not in the manifest of chain ${manifest.chainId}.`
+        : `No account in the manifest of chain ${manifest.chainId}.`,
+    );
+  }
+  return account;
+}
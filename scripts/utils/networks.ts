@@ -0,0 +1,78 @@
+import { NetworksUserConfig } from "hardhat/types";
+
+// @dev The canonical ERC-4337 v0.6 EntryPoint, deployed at the same address on public networks.
+export const ENTRY_POINT_V06 = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+
+/**
+ * @notice A network the account can be deployed to.
+ * @dev `url` is overridden by `<envPrefix>_RPC_URL`, and the signer key is read
+ * from `<envPrefix>_PRIVATE_KEY` or `DEPLOYER_PRIVATE_KEY`. Addresses left out
+ * must be passed to `tyron:deploy`, or are deployed on local networks.
+ */
+export interface TyronNetwork {
+  chainId: number;
+  url: string;
+  envPrefix: string;
+  entryPoint?: string;
+  dns?: string;
+}
+
+export const TYRON_NETWORKS: Record<string, TyronNetwork> = {
+  localhost: {
+    chainId: 31337,
+    url: "http://127.0.0.1:8545",
+    envPrefix: "LOCALHOST",
+  },
+  zkEVM: {
+    chainId: 1442,
+    url: "https://rpc.public.zkevm-test.net",
+    envPrefix: "ZKEVM",
+    entryPoint: ENTRY_POINT_V06,
+  },
+  zkEVMMainnet: {
+    chainId: 1101,
+    url: "https://zkevm-rpc.com",
+    envPrefix: "ZKEVM_MAINNET",
+    entryPoint: ENTRY_POINT_V06,
+  },
+  sepolia: {
+    chainId: 11155111,
+    url: "https://rpc.sepolia.org",
+    envPrefix: "SEPOLIA",
+    entryPoint: ENTRY_POINT_V06,
+  },
+};
+
+/**
+ * @notice Networks on which missing contracts (EntryPoint, DNS) are deployed
+ * instead of being required.
+ */
+export function isLocalNetwork(name: string): boolean {
+  return name === "hardhat" || name === "localhost";
+}
+
+/**
+ * @notice The Hardhat `networks` config of the registry, with signer keys
+ * taken from the environment.
+ * @dev Networks without a key get no accounts, except `localhost`, which
+ * keeps the node's unlocked accounts.
+ */
+export function networksConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): NetworksUserConfig {
+  const networks: NetworksUserConfig = {};
+  for (const [name, network] of Object.entries(TYRON_NETWORKS)) {
+    const key =
+      env[`${network.envPrefix}_PRIVATE_KEY`] ?? env.DEPLOYER_PRIVATE_KEY;
+    networks[name] = {
+      url: env[`${network.envPrefix}_RPC_URL`] ?? network.url,
+      chainId: network.chainId,
+      ...(key
+        ? { accounts: [key] }
+        : name === "localhost"
+        ? {}
+        : { accounts: [] }),
+    };
+  }
+  return networks;
+}
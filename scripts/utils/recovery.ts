@@ -0,0 +1,528 @@
+import { Interface, Provider, Signer, getAddress } from "ethers";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import path from "path";
+import {
+  ACCOUNT_ABI,
+  CoordinatedRecovery,
+  DEFAULT_RECOVERY_REQUEST_TTL,
+  LocalBundler,
+  RecoveryBundle,
+  RecoveryVerificationError,
+  TyronAccount,
+  accountDomain,
+  bundleRecovery,
+  decodeAccountError,
+  encodeRecoveryMessage,
+  isValidGuardianSignature,
+  prepareRecovery,
+  recoveryDigest,
+  verifyRecoveryBundle,
+} from "../../sdk";
+
+const accountInterface = new Interface(ACCOUNT_ABI);
+
+export const RECOVERY_STORE_VERSION = 1;
+
+/**
+ * @notice The requests of a `RecoveryCoordinator`, saved as JSON after each
+ * change so that the service can restart without losing signatures.
+ */
+export interface RecoveryStore {
+  version: number;
+  chainId: string;
+  requests: CoordinatedRecovery[];
+}
+
+/**
+ * @notice Sends `socialRecovery` with the bundled signatures.
+ * @return The hash of the transaction.
+ */
+export type RecoverySubmitter = (
+  account: string,
+  bundle: RecoveryBundle,
+) => Promise<string>;
+
+/**
+ * @notice Submits recoveries in transactions of `signer`, who pays their gas.
+ */
+export function directSubmitter(signer: Signer): RecoverySubmitter {
+  return async (account, bundle) => {
+    const tx = await TyronAccount.connect(account, signer).socialRecovery(
+      bundle,
+    );
+    await tx.wait();
+    return tx.hash;
+  };
+}
+
+/**
+ * @notice Submits recoveries in user operations of a relayer account (e.g.
+ * the service's own `TyronSSIAccount`), signed by its owner, as anyone can
+ * call `socialRecovery`.
+ */
+export function userOpSubmitter(
+  bundler: LocalBundler,
+  sender: string,
+  owner: Signer,
+): RecoverySubmitter {
+  return async (account, bundle) => {
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender,
+        calls: [
+          {
+            target: account,
+            data: accountInterface.encodeFunctionData("socialRecovery", [
+              bundle.newOwner,
+              bundle.deadline,
+              bundle.guardians,
+              bundle.signatures,
+            ]),
+          },
+        ],
+      },
+      owner,
+    );
+    const { success, revertReason, receipt } =
+      await bundler.sendUserOperation(op);
+    if (!success) {
+      throw new Error(
+        decodeAccountError(revertReason ?? "0x")?.message ??
+          `The user operation reverted: ${revertReason}`,
+      );
+    }
+    return receipt.hash;
+  };
+}
+
+/**
+ * @notice Thrown for requests the service refuses, with the HTTP status it
+ * answers.
+ */
+export class RecoveryServiceError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+    this.name = "RecoveryServiceError";
+  }
+}
+
+export interface RecoveryCoordinatorOptions {
+  // @dev Submits a recovery once its signatures reach the threshold; the
+  // service only collects signatures if unset.
+  submit?: RecoverySubmitter;
+  // @dev How long guardian signatures stay valid, in seconds.
+  ttl?: bigint;
+  // @dev The accounts to serve; every account if unset.
+  accounts?: string[];
+}
+
+/**
+ * @notice Collects the guardian signatures of recoveries and submits them.
+ * @dev Every change is checked against the account: the signer must be a
+ * guardian (`isGuardian`, or the holder of a DNS NFT guardian), its signature
+ * must verify against the account's `getMessageHash`, and the votes are
+ * counted with the account's threshold (`getGuardianParams`). Changes run one
+ * at a time, so that a recovery is submitted once.
+ */
+export class RecoveryCoordinator {
+  readonly provider: Provider;
+  readonly file: string;
+  private readonly options: RecoveryCoordinatorOptions;
+  private store: RecoveryStore;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    provider: Provider,
+    file: string,
+    store: RecoveryStore,
+    options: RecoveryCoordinatorOptions,
+  ) {
+    this.provider = provider;
+    this.file = file;
+    this.store = store;
+    this.options = options;
+  }
+
+  static async open(
+    provider: Provider,
+    file: string,
+    options: RecoveryCoordinatorOptions = {},
+  ): Promise<RecoveryCoordinator> {
+    const { chainId } = await provider.getNetwork();
+    const store: RecoveryStore = existsSync(file)
+      ? JSON.parse(readFileSync(file, "utf8"))
+      : {
+          version: RECOVERY_STORE_VERSION,
+          chainId: chainId.toString(),
+          requests: [],
+        };
+    if (store.version !== RECOVERY_STORE_VERSION) {
+      throw new Error(
+        `${file} has version ${store.version}, not ${RECOVERY_STORE_VERSION}.`,
+      );
+    }
+    if (store.chainId !== chainId.toString()) {
+      throw new Error(
+        `${file} coordinates chain ${store.chainId}, not chain ${chainId}.`,
+      );
+    }
+    return new RecoveryCoordinator(provider, file, store, options);
+  }
+
+  /**
+   * @notice The requests, optionally of one account, refreshed from the chain.
+   */
+  async list(account?: string): Promise<CoordinatedRecovery[]> {
+    return this.run(async () => {
+      const requests = account
+        ? this.store.requests.filter(
+            (request) => request.account === getAddress(account),
+          )
+        : this.store.requests;
+      for (const request of requests) {
+        await this.refresh(request);
+      }
+      this.save();
+      return requests.map((request) => ({ ...request }));
+    });
+  }
+
+  async get(id: string): Promise<CoordinatedRecovery> {
+    return this.run(async () => {
+      const request = this.find(id);
+      await this.refresh(request);
+      this.save();
+      return { ...request };
+    });
+  }
+
+  /**
+   * @notice Opens a recovery of `account` to `newOwner` with the account's
+   * current recovery nonce, or returns the open one with the same new owner.
+   */
+  async openRequest(
+    account: string,
+    newOwner: string,
+  ): Promise<CoordinatedRecovery> {
+    return this.run(async () => {
+      const address = getAddress(account);
+      const owner = getAddress(newOwner);
+      if (
+        this.options.accounts &&
+        !this.options.accounts.some((served) => getAddress(served) === address)
+      ) {
+        throw new RecoveryServiceError(
+          `The account ${address} is not served.`,
+          403,
+        );
+      }
+      if ((await this.provider.getCode(address)) === "0x") {
+        throw new RecoveryServiceError(`${address} is not deployed.`);
+      }
+      const contract = TyronAccount.connect(address, this.provider);
+      if (owner === (await contract.owner()) || owner === address) {
+        throw new RecoveryServiceError(`${owner} cannot own ${address}.`);
+      }
+
+      for (const request of this.store.requests) {
+        if (request.account === address && request.status === "open") {
+          await this.refresh(request);
+          if (request.status === "open" && request.newOwner === owner) {
+            this.save();
+            return { ...request };
+          }
+        }
+      }
+
+      const domain = await accountDomain(contract);
+      const recovery = await prepareRecovery(
+        contract,
+        owner,
+        this.options.ttl ?? DEFAULT_RECOVERY_REQUEST_TTL,
+      );
+      const message = encodeRecoveryMessage(domain, recovery);
+      const digest = recoveryDigest(domain, recovery);
+      const onChain = await contract.contract.getMessageHash(message);
+      if (digest !== onChain) {
+        throw new RecoveryServiceError(
+          `The recovery digest ${digest} does not match the account's ${onChain}.`,
+        );
+      }
+      const request: CoordinatedRecovery = {
+        id: digest,
+        account: address,
+        chainId: domain.chainId.toString(),
+        newOwner: owner,
+        nonce: recovery.nonce.toString(),
+        deadline: recovery.deadline.toString(),
+        message,
+        digest,
+        status: "open",
+        signatures: [],
+        threshold: "0",
+        votes: "0",
+        remaining: "0",
+      };
+      await this.refresh(request);
+      this.store.requests.push(request);
+      this.save();
+      return { ...request };
+    });
+  }
+
+  /**
+   * @notice Adds the signature of a guardian, replacing its previous one,
+   * and submits the recovery once the threshold is reached.
+   */
+  async addSignature(
+    id: string,
+    guardian: string,
+    signature: string,
+  ): Promise<CoordinatedRecovery> {
+    return this.run(async () => {
+      const request = this.find(id);
+      await this.refresh(request);
+      this.assertOpen(request);
+      const signer = getAddress(guardian);
+      const account = TyronAccount.connect(request.account, this.provider);
+      if (
+        !(await account.isGuardian(signer)) &&
+        (await account.getGuardianVotes(signer)) === 0n
+      ) {
+        throw new RecoveryServiceError(
+          `${signer} is not a guardian of ${request.account}.`,
+          403,
+        );
+      }
+      const digest = await account.contract.getMessageHash(request.message);
+      if (
+        !(await isValidGuardianSignature(
+          this.provider,
+          signer,
+          digest,
+          signature,
+        ))
+      ) {
+        throw new RecoveryServiceError(
+          `The signature of ${signer} does not match the recovery.`,
+        );
+      }
+      request.signatures = [
+        ...request.signatures.filter(
+          (entry) => getAddress(entry.guardian) !== signer,
+        ),
+        { guardian: signer, signature },
+      ];
+      await this.refresh(request);
+      if (request.remaining === "0") {
+        await this.submitRequest(request);
+      }
+      this.save();
+      return { ...request };
+    });
+  }
+
+  /**
+   * @notice Submits a recovery that reached the threshold, e.g. again after
+   * a failed submission.
+   */
+  async submit(id: string): Promise<CoordinatedRecovery> {
+    return this.run(async () => {
+      const request = this.find(id);
+      await this.refresh(request);
+      this.assertOpen(request);
+      if (request.remaining !== "0") {
+        throw new RecoveryServiceError(
+          `The recovery needs ${request.remaining} more guardian votes.`,
+          409,
+        );
+      }
+      await this.submitRequest(request);
+      this.save();
+      return { ...request };
+    });
+  }
+
+  private async submitRequest(request: CoordinatedRecovery) {
+    if (!this.options.submit) {
+      return;
+    }
+    const account = TyronAccount.connect(request.account, this.provider);
+    const bundle = bundleRecovery(
+      {
+        newOwner: request.newOwner,
+        nonce: BigInt(request.nonce),
+        deadline: BigInt(request.deadline),
+      },
+      request.signatures,
+    );
+    try {
+      await verifyRecoveryBundle(account, bundle);
+      request.transactionHash = await this.options.submit(
+        request.account,
+        bundle,
+      );
+      request.status = "submitted";
+      delete request.error;
+    } catch (error) {
+      request.error = (error as Error).message;
+      if (error instanceof RecoveryVerificationError) {
+        throw new RecoveryServiceError(request.error, 409);
+      }
+    }
+  }
+
+  /**
+   * @notice Marks the request stale once it cannot pass anymore and updates
+   * its votes.
+   */
+  private async refresh(request: CoordinatedRecovery) {
+    if (request.status !== "open") {
+      return;
+    }
+    const account = TyronAccount.connect(request.account, this.provider);
+    const block = await this.provider.getBlock("latest");
+    if (
+      (await account.getRecoveryNonce()).toString() !== request.nonce ||
+      BigInt(block!.timestamp) > BigInt(request.deadline)
+    ) {
+      request.status = "stale";
+      return;
+    }
+    const { threshold, votes, remaining } = await account.getRecoveryProgress(
+      request.signatures.map(({ guardian }) => guardian),
+    );
+    request.threshold = threshold.toString();
+    request.votes = votes.toString();
+    request.remaining = remaining.toString();
+  }
+
+  private find(id: string): CoordinatedRecovery {
+    const request = this.store.requests.find((entry) => entry.id === id);
+    if (!request) {
+      throw new RecoveryServiceError(`Unknown recovery ${id}.`, 404);
+    }
+    return request;
+  }
+
+  private assertOpen(request: CoordinatedRecovery) {
+    if (request.status !== "open") {
+      throw new RecoveryServiceError(
+        `The recovery ${request.id} is ${request.status}.`,
+        409,
+      );
+    }
+  }
+
+  private run<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(change);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private save() {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, `${JSON.stringify(this.store, null, 2)}\n`);
+    renameSync(temporary, this.file);
+  }
+}
+
+async function readBody(
+  request: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  let body = "";
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  const content: unknown = body ? JSON.parse(body) : {};
+  if (typeof content !== "object" || content === null) {
+    throw new RecoveryServiceError("The body must be a JSON object.");
+  }
+  return content as Record<string, unknown>;
+}
+
+function bodyString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string") {
+    throw new RecoveryServiceError(`\`${field}\` must be a string.`);
+  }
+  return value;
+}
+
+function reply(response: ServerResponse, status: number, payload: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+/**
+ * @notice The HTTP API of a recovery coordinator:
+ * - `POST /recoveries` with `{ account, newOwner }` opens a recovery;
+ * - `GET /recoveries?account=0x..` lists the recoveries;
+ * - `GET /recoveries/<id>` returns a recovery with the digest to sign;
+ * - `POST /recoveries/<id>/signatures` with `{ guardian, signature }` adds a
+ * guardian signature;
+ * - `POST /recoveries/<id>/submit` retries the submission.
+ * @dev Errors are answered as `{ error }` with a 4xx status.
+ */
+export function createRecoveryServer(coordinator: RecoveryCoordinator): Server {
+  return createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const [collection, id, action] = url.pathname.split("/").slice(1);
+      if (collection !== "recoveries") {
+        throw new RecoveryServiceError(`Unknown route ${url.pathname}.`, 404);
+      }
+      if (request.method === "GET" && !id) {
+        const account = url.searchParams.get("account") ?? undefined;
+        reply(response, 200, await coordinator.list(account));
+      } else if (request.method === "GET" && !action) {
+        reply(response, 200, await coordinator.get(id));
+      } else if (request.method === "POST" && !id) {
+        const body = await readBody(request);
+        reply(
+          response,
+          201,
+          await coordinator.openRequest(
+            bodyString(body, "account"),
+            bodyString(body, "newOwner"),
+          ),
+        );
+      } else if (request.method === "POST" && action === "signatures") {
+        const body = await readBody(request);
+        reply(
+          response,
+          200,
+          await coordinator.addSignature(
+            id,
+            bodyString(body, "guardian"),
+            bodyString(body, "signature"),
+          ),
+        );
+      } else if (request.method === "POST" && action === "submit") {
+        reply(response, 200, await coordinator.submit(id));
+      } else {
+        throw new RecoveryServiceError(
+          `Unknown route ${request.method} ${url.pathname}.`,
+          404,
+        );
+      }
+    } catch (error) {
+      reply(
+        response,
+        error instanceof RecoveryServiceError ? error.status : 400,
+        { error: (error as Error).message },
+      );
+    }
+  });
+}
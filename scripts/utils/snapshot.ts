@@ -0,0 +1,224 @@
+import { JsonRpcApiProvider, Signer } from "ethers";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+import {
+  AccountSnapshot,
+  GuardianSnapshot,
+  SnapshotDifference,
+  TyronAccount,
+  diffAccountSnapshot,
+  exportAccountSnapshot,
+  guardianSnapshotHash,
+  parseAccountSnapshot,
+  snapshotThresholdPolicy,
+} from "../../sdk";
+import {
+  AccountCall,
+  AccountCallOutcome,
+  addGuardiansCall,
+  removeGuardiansCall,
+  runAccountCall,
+} from "./admin";
+import { deployTyron, manifestDir } from "./deploy";
+
+export function readSnapshot(file: string): AccountSnapshot {
+  return parseAccountSnapshot(JSON.parse(readFileSync(file, "utf8")));
+}
+
+export function writeSnapshot(snapshot: AccountSnapshot, file: string): string {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+  return file;
+}
+
+function splitGuardians(guardians: GuardianSnapshot[]) {
+  return {
+    addresses: guardians.flatMap((guardian) =>
+      guardian.source === "Address" ? [guardian.guardian] : [],
+    ),
+    ids: guardians.flatMap((guardian) =>
+      guardian.source === "DnsToken" ? [BigInt(guardian.tokenId)] : [],
+    ),
+  };
+}
+
+function weightsCall(
+  guardians: { guardian: GuardianSnapshot; weight: bigint }[],
+): AccountCall[] {
+  return guardians.length === 0
+    ? []
+    : [
+        {
+          method: "setGuardianWeights",
+          args: [
+            guardians.map(({ guardian }) => guardianSnapshotHash(guardian)),
+            guardians.map(({ weight }) => weight),
+          ],
+        },
+      ];
+}
+
+/**
+ * @notice The calls that bring an account from its live state to a snapshot.
+ * @dev The order keeps the threshold reachable at every step: guardians are
+ * added and weights raised before the policy changes, and weights lowered and
+ * guardians removed after. The deposit is only topped up, and the ownership
+ * transfer comes last, as the new owner still has to accept it. The EntryPoint
+ * and DNS are bound to the implementation and are left as they are.
+ */
+export function reconcileCalls(
+  snapshot: AccountSnapshot,
+  live: AccountSnapshot,
+): AccountCall[] {
+  const liveGuardians = new Map(
+    live.guardians.map((guardian) => [
+      guardianSnapshotHash(guardian),
+      guardian,
+    ]),
+  );
+  const added = snapshot.guardians.filter(
+    (guardian) => !liveGuardians.has(guardianSnapshotHash(guardian)),
+  );
+  const removed = live.guardians.filter(
+    (guardian) =>
+      !snapshot.guardians.some(
+        (expected) =>
+          guardianSnapshotHash(expected) === guardianSnapshotHash(guardian),
+      ),
+  );
+  const reweighted = snapshot.guardians.map((guardian) => ({
+    guardian,
+    weight: BigInt(guardian.weight),
+    previous: BigInt(
+      liveGuardians.get(guardianSnapshotHash(guardian))?.weight ?? "1",
+    ),
+  }));
+
+  const calls: AccountCall[] = [];
+  if (added.length > 0) {
+    const { addresses, ids } = splitGuardians(added);
+    calls.push(addGuardiansCall(addresses, ids));
+  }
+  calls.push(
+    ...weightsCall(
+      reweighted.filter(({ weight, previous }) => weight > previous),
+    ),
+  );
+  const policy = snapshotThresholdPolicy(snapshot);
+  if (
+    snapshot.threshold.mode !== live.threshold.mode ||
+    snapshot.threshold.value !== live.threshold.value
+  ) {
+    calls.push({
+      method: "setThresholdPolicy",
+      args: [policy.mode, policy.value],
+    });
+  }
+  calls.push(
+    ...weightsCall(
+      reweighted.filter(({ weight, previous }) => weight < previous),
+    ),
+  );
+  if (removed.length > 0) {
+    const { addresses, ids } = splitGuardians(removed);
+    calls.push(removeGuardiansCall(addresses, ids));
+  }
+  const deposit = BigInt(snapshot.deposit) - BigInt(live.deposit);
+  if (deposit > 0n) {
+    calls.push({ method: "addDeposit", args: [], value: deposit });
+  }
+  if (snapshot.owner !== live.owner) {
+    calls.push({ method: "transferOwnership", args: [snapshot.owner] });
+  }
+  return calls;
+}
+
+export interface SnapshotPlan {
+  differences: SnapshotDifference[];
+  calls: AccountCall[];
+}
+
+/**
+ * @notice Compares an account with a snapshot and lists the calls that
+ * reconcile it.
+ */
+export async function planSnapshot(
+  account: TyronAccount,
+  snapshot: AccountSnapshot,
+): Promise<SnapshotPlan> {
+  const live = await exportAccountSnapshot(account);
+  return {
+    differences: diffAccountSnapshot(snapshot, live),
+    calls: reconcileCalls(snapshot, live),
+  };
+}
+
+/**
+ * @notice Deploys an account equivalent to a snapshot on the network of `hre`,
+ * with the snapshot's guardians.
+ * @dev The account is owned by `signer`, so that it can set the rest of the
+ * state, and is transferred to the snapshot's owner by `reconcileCalls`.
+ */
+export async function deploySnapshot(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  snapshot: AccountSnapshot,
+  salt: bigint = 0n,
+  dir: string = manifestDir(hre),
+): Promise<TyronAccount> {
+  const { addresses, ids } = splitGuardians(snapshot.guardians);
+  const { account } = await deployTyron(
+    hre,
+    signer,
+    {
+      owner: await signer.getAddress(),
+      guardians: addresses,
+      guardianIds: ids,
+      salt,
+    },
+    dir,
+  );
+  return TyronAccount.connect(account.address, signer);
+}
+
+/**
+ * @notice Sends the calls of a plan in order, or simulates them with `dryRun`.
+ * @dev A dry run sends each call on an `evm_snapshot` of the chain, so that
+ * the next call is simulated on the state the previous ones leave, and then
+ * reverts to the snapshot. On networks without snapshots, e.g. live networks,
+ * only the first call is simulated, as the next ones depend on it. Either way,
+ * the run stops at the first revert.
+ */
+export async function applySnapshotPlan(
+  account: TyronAccount,
+  plan: SnapshotPlan,
+  dryRun: boolean = false,
+): Promise<{ call: AccountCall; outcome: AccountCallOutcome }[]> {
+  const provider = account.contract.runner?.provider;
+  const rpc =
+    dryRun && provider && "send" in provider
+      ? (provider as JsonRpcApiProvider)
+      : undefined;
+  const snapshot: string | undefined = await rpc
+    ?.send("evm_snapshot", [])
+    .catch(() => undefined);
+  const outcomes = [];
+  try {
+    for (const [i, call] of plan.calls.entries()) {
+      const outcome = await runAccountCall(account, call, dryRun);
+      outcomes.push({ call, outcome });
+      if (outcome.status === "reverted" || (dryRun && !snapshot)) {
+        break;
+      }
+      if (dryRun && i < plan.calls.length - 1) {
+        await runAccountCall(account, call);
+      }
+    }
+  } finally {
+    if (snapshot) {
+      await rpc!.send("evm_revert", [snapshot]);
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,178 @@
+import { Signer, getAddress } from "ethers";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import {
+  SponsorshipTerms,
+  TyronPaymaster,
+  UserOperation,
+  fromRpcUserOp,
+  signSponsorship,
+} from "../../sdk";
+
+/**
+ * @notice What the sponsor service approves.
+ */
+export interface SponsorPolicy {
+  // @dev How long a sponsorship stays valid, in seconds.
+  validity: number;
+  // @dev The largest gas cost (in wei) an operation may reach.
+  maxCost?: bigint;
+  // @dev The accounts to serve; every account if unset.
+  accounts?: string[];
+  // @dev Charges this ERC20, at `price` per 1e18 wei of gas, instead of sponsoring.
+  token?: { address: string; price: bigint };
+  // @dev An extra check, e.g. of the calls, or of a sponsorship code in the request context.
+  allow?: (
+    op: UserOperation,
+    context: Record<string, unknown>,
+  ) => boolean | Promise<boolean>;
+}
+
+export interface SponsorServiceOptions {
+  paymaster: TyronPaymaster;
+  // @dev The paymaster's `sponsor` key.
+  sponsor: Signer;
+  entryPoint: string;
+  chainId: bigint;
+  policy: SponsorPolicy;
+}
+
+/**
+ * @notice Thrown when the policy refuses a user operation.
+ */
+export class SponsorRejectedError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "SponsorRejectedError";
+  }
+}
+
+/**
+ * @notice The most an operation can cost: the EntryPoint reserves its
+ * verification gas three times with a paymaster (account validation,
+ * paymaster validation and `postOp`).
+ */
+export function maxUserOpCost(op: UserOperation): bigint {
+  return (
+    (op.callGasLimit + op.verificationGasLimit * 3n + op.preVerificationGas) *
+    op.maxFeePerGas
+  );
+}
+
+/**
+ * @notice Applies the policy to a user operation and, if it passes, signs
+ * its `paymasterAndData`.
+ * @dev The validity window starts at the latest block, so that it follows
+ * the chain's clock rather than the service's.
+ */
+export async function sponsorUserOp(
+  options: SponsorServiceOptions,
+  op: UserOperation,
+  context: Record<string, unknown> = {},
+): Promise<{ paymasterAndData: string; terms: SponsorshipTerms }> {
+  const { policy, paymaster } = options;
+  if (
+    policy.accounts &&
+    !policy.accounts.some((account) => getAddress(account) === op.sender)
+  ) {
+    throw new SponsorRejectedError(`The account ${op.sender} is not served.`);
+  }
+  const cost = maxUserOpCost(op);
+  if (policy.maxCost !== undefined && cost > policy.maxCost) {
+    throw new SponsorRejectedError(
+      `The operation may cost ${cost} wei, above the limit of ${policy.maxCost}.`,
+    );
+  }
+  if (!policy.token) {
+    const remaining = await paymaster.remainingQuota(op.sender);
+    if (cost > remaining) {
+      throw new SponsorRejectedError(
+        `The operation may cost ${cost} wei, above the remaining quota of ${remaining}.`,
+      );
+    }
+  }
+  if (policy.allow && !(await policy.allow(op, context))) {
+    throw new SponsorRejectedError("The policy refuses the operation.");
+  }
+
+  const block = await paymaster.contract.runner?.provider?.getBlock("latest");
+  if (!block) {
+    throw new Error("TyronPaymaster: a provider is required.");
+  }
+  const terms: SponsorshipTerms = {
+    validAfter: block.timestamp,
+    validUntil: block.timestamp + policy.validity,
+    token: policy.token?.address,
+    price: policy.token?.price,
+  };
+  return {
+    paymasterAndData: await signSponsorship(
+      options.sponsor,
+      op,
+      paymaster.address,
+      options.chainId,
+      terms,
+    ),
+    terms,
+  };
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  return body;
+}
+
+function reply(response: ServerResponse, payload: unknown) {
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+/**
+ * @notice A JSON-RPC sponsor service answering the ERC-7677
+ * `pm_getPaymasterData` method with `{ paymasterAndData }`.
+ * @dev Params are `[userOp, entryPoint, chainId, context]`. Refused
+ * operations get a JSON-RPC error with the policy's reason.
+ */
+export function createSponsorServer(options: SponsorServiceOptions): Server {
+  return createServer(async (request, response) => {
+    let id: unknown = null;
+    try {
+      const call = JSON.parse(await readBody(request));
+      id = call.id ?? null;
+      if (call.method !== "pm_getPaymasterData") {
+        reply(response, {
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32601, message: `Unknown method ${call.method}.` },
+        });
+        return;
+      }
+      const [op, entryPoint, chainId, context] = call.params ?? [];
+      if (
+        getAddress(entryPoint) !== getAddress(options.entryPoint) ||
+        BigInt(chainId) !== options.chainId
+      ) {
+        throw new SponsorRejectedError(
+          `Only EntryPoint ${options.entryPoint} on chain ${options.chainId} is served.`,
+        );
+      }
+      const { paymasterAndData } = await sponsorUserOp(
+        options,
+        fromRpcUserOp(op),
+        context ?? {},
+      );
+      reply(response, { jsonrpc: "2.0", id, result: { paymasterAndData } });
+    } catch (error) {
+      reply(response, {
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: error instanceof SponsorRejectedError ? -32000 : -32602,
+          message: (error as Error).message,
+        },
+      });
+    }
+  });
+}
@@ -0,0 +1,219 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * @notice A state variable of a contract's (non-namespaced) storage layout.
+ */
+export interface StorageVariable {
+  contract: string;
+  label: string;
+  slot: bigint;
+  offset: number;
+  type: string;
+  numberOfBytes: bigint;
+}
+
+/**
+ * @notice A `StorageVariable` as saved in the deployment manifest, with its
+ * big numbers as decimal strings.
+ */
+export interface SavedStorageVariable {
+  contract: string;
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  numberOfBytes: string;
+}
+
+interface SolcStorageEntry {
+  contract?: string;
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface SolcStorageLayout {
+  storage: SolcStorageEntry[];
+  types: Record<
+    string,
+    { label: string; numberOfBytes: string; members?: SolcStorageEntry[] }
+  > | null;
+}
+
+/**
+ * @notice Thrown when a new implementation would corrupt the storage of the
+ * accounts upgraded to it.
+ */
+export class StorageLayoutError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Incompatible storage layout:\n  ${problems.join("\n  ")}`);
+    this.name = "StorageLayoutError";
+    this.problems = problems;
+  }
+}
+
+/**
+ * @notice Reads the storage layout of a compiled contract from its build info.
+ * @dev Requires `storageLayout` in the compiler's output selection.
+ */
+export async function getStorageLayout(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+): Promise<StorageVariable[]> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`,
+  );
+  // @dev Hardhat's compiler output types leave out `storageLayout`.
+  const output = buildInfo?.output.contracts[artifact.sourceName][
+    artifact.contractName
+  ] as { storageLayout?: SolcStorageLayout } | undefined;
+  const layout = output?.storageLayout;
+  if (!layout) {
+    throw new Error(`The storage layout of ${contractName} was not compiled.`);
+  }
+  return layout.storage.flatMap((variable) =>
+    flattenVariable(layout, variable.contract!, variable, "", 0n),
+  );
+}
+
+/**
+ * @dev Lists the members of struct variables as variables of their own, so
+ * that grouping state variables in a struct of the same layout is compatible.
+ */
+function flattenVariable(
+  layout: SolcStorageLayout,
+  contract: string,
+  variable: SolcStorageEntry,
+  prefix: string,
+  baseSlot: bigint,
+): StorageVariable[] {
+  const type = layout.types![variable.type];
+  const label = prefix + variable.label;
+  const slot = baseSlot + BigInt(variable.slot);
+  if (type.members) {
+    return type.members.flatMap((member) =>
+      flattenVariable(layout, contract, member, `${label}.`, slot),
+    );
+  }
+  return [
+    {
+      contract,
+      label,
+      slot,
+      offset: variable.offset,
+      type: type.label,
+      numberOfBytes: BigInt(type.numberOfBytes),
+    },
+  ];
+}
+
+export function saveStorageLayout(
+  layout: StorageVariable[],
+): SavedStorageVariable[] {
+  return layout.map((variable) => ({
+    ...variable,
+    slot: variable.slot.toString(),
+    numberOfBytes: variable.numberOfBytes.toString(),
+  }));
+}
+
+export function loadStorageLayout(
+  saved: SavedStorageVariable[],
+): StorageVariable[] {
+  return saved.map((variable) => ({
+    ...variable,
+    slot: BigInt(variable.slot),
+    numberOfBytes: BigInt(variable.numberOfBytes),
+  }));
+}
+
+/**
+ * @notice Finds the storage layout saved for a deployed implementation.
+ * @param layouts The saved layouts by implementation address, e.g. `DeploymentManifest.storageLayouts`.
+ * @dev Throws if none was saved: the compiled sources may have changed since
+ * the implementation was deployed, so they cannot stand for its layout.
+ */
+export function findStorageLayout(
+  layouts: Record<string, SavedStorageVariable[]> | undefined,
+  implementation: string,
+): StorageVariable[] {
+  const saved = Object.entries(layouts ?? {}).find(
+    ([address]) => address.toLowerCase() === implementation.toLowerCase(),
+  )?.[1];
+  if (!saved) {
+    throw new Error(
+      `No storage layout was saved for the implementation ${implementation}.`,
+    );
+  }
+  return loadStorageLayout(saved);
+}
+
+/**
+ * @notice Lists the changes of `next` that are incompatible with `previous`:
+ * every previous variable must keep its slot, offset and type. Variables can
+ * be renamed, and new ones can only be appended.
+ */
+export function compareStorageLayouts(
+  previous: StorageVariable[],
+  next: StorageVariable[],
+): string[] {
+  const problems: string[] = [];
+  for (const variable of previous) {
+    const match = next.find(
+      (candidate) =>
+        candidate.slot === variable.slot &&
+        candidate.offset === variable.offset,
+    );
+    const position = `slot ${variable.slot}, offset ${variable.offset}`;
+    if (!match) {
+      problems.push(
+        `\`${variable.label}\` (${position}) was removed or moved.`,
+      );
+    } else if (
+      match.type !== variable.type ||
+      match.numberOfBytes !== variable.numberOfBytes
+    ) {
+      problems.push(
+        `\`${variable.label}\` (${position}) changed from \`${variable.type}\` to \`${match.label}\` of type \`${match.type}\`.`,
+      );
+    }
+  }
+
+  const end = previous.reduce(
+    (max, variable) =>
+      variable.slot + (variable.numberOfBytes + 31n) / 32n > max
+        ? variable.slot + (variable.numberOfBytes + 31n) / 32n
+        : max,
+    0n,
+  );
+  for (const variable of next) {
+    const known = previous.some(
+      (candidate) =>
+        candidate.slot === variable.slot &&
+        candidate.offset === variable.offset,
+    );
+    if (!known && variable.slot < end) {
+      problems.push(
+        `\`${variable.label}\` (slot ${variable.slot}, offset ${variable.offset}) was inserted before the end of the previous layout.`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * @notice Throws a `StorageLayoutError` if `next` cannot replace `previous`.
+ */
+export function assertStorageLayoutCompatible(
+  previous: StorageVariable[],
+  next: StorageVariable[],
+): void {
+  const problems = compareStorageLayouts(previous, next);
+  if (problems.length > 0) {
+    throw new StorageLayoutError(problems);
+  }
+}
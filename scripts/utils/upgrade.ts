@@ -0,0 +1,110 @@
+import { Signer } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { TyronAccount } from "../../sdk";
+import {
+  SavedStorageVariable,
+  assertStorageLayoutCompatible,
+  findStorageLayout,
+  getStorageLayout,
+  saveStorageLayout,
+} from "./storageLayout";
+
+export interface UpgradeOptions {
+  // @dev The address of the account (its proxy).
+  account: string;
+  // @dev The contract name of the new implementation.
+  contract: string;
+  // @dev The saved storage layouts by implementation, e.g. `DeploymentManifest.storageLayouts`.
+  storageLayouts?: Record<string, SavedStorageVariable[]>;
+  // @dev A `reinitializer(n)` function of the new implementation, run with `migrationArgs`.
+  migration?: string;
+  migrationArgs?: unknown[];
+}
+
+export interface UpgradeResult {
+  implementation: string;
+  previousImplementation: string;
+  version: bigint;
+  // @dev The storage layout of the new implementation, to save with its address.
+  storageLayout: SavedStorageVariable[];
+}
+
+/**
+ * @notice Deploys the libraries a contract links, by name.
+ */
+async function deployLibraries(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  contractName: string,
+): Promise<Record<string, string>> {
+  const { linkReferences } = await hre.artifacts.readArtifact(contractName);
+  const libraries: Record<string, string> = {};
+  for (const references of Object.values(linkReferences)) {
+    for (const name of Object.keys(references)) {
+      const library = await hre.ethers.deployContract(name, signer);
+      await library.waitForDeployment();
+      libraries[name] = await library.getAddress();
+    }
+  }
+  return libraries;
+}
+
+/**
+ * @notice Deploys a new implementation of an account and upgrades the
+ * account to it, running the migration if there is one.
+ * @dev Refuses the upgrade if the storage layout of the new implementation is
+ * incompatible with the one saved for the current implementation, or if none
+ * was saved. `signer` must be the account owner.
+ */
+export async function upgradeAccount(
+  hre: HardhatRuntimeEnvironment,
+  signer: Signer,
+  options: UpgradeOptions,
+): Promise<UpgradeResult> {
+  const account = TyronAccount.connect(options.account, signer);
+  const previousImplementation = await account.implementation();
+  const previousVersion = await account.getInitializedVersion();
+
+  const storageLayout = await getStorageLayout(hre, options.contract);
+  assertStorageLayoutCompatible(
+    findStorageLayout(options.storageLayouts, previousImplementation),
+    storageLayout,
+  );
+
+  const implementation = await hre.ethers.deployContract(
+    options.contract,
+    [await account.dns(), await account.entryPoint()],
+    { signer, libraries: await deployLibraries(hre, signer, options.contract) },
+  );
+  await implementation.waitForDeployment();
+
+  if (options.migration) {
+    const data = implementation.interface.encodeFunctionData(
+      options.migration,
+      options.migrationArgs ?? [],
+    );
+    // @dev Simulates the migration first, so that a failing one is not sent.
+    await account.contract.upgradeToAndCall.staticCall(
+      implementation.target,
+      data,
+    );
+    await (
+      await account.contract.upgradeToAndCall(implementation.target, data)
+    ).wait();
+  } else {
+    await (await account.contract.upgradeTo(implementation.target)).wait();
+  }
+
+  const version = await account.getInitializedVersion();
+  if (options.migration && version <= previousVersion) {
+    throw new Error(
+      `The migration ${options.migration} did not run a reinitializer: the account is still at version ${version}.`,
+    );
+  }
+  return {
+    implementation: await implementation.getAddress(),
+    previousImplementation,
+    version,
+    storageLayout: saveStorageLayout(storageLayout),
+  };
+}
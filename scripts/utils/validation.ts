@@ -0,0 +1,434 @@
+import {
+  Interface,
+  Provider,
+  dataLength,
+  dataSlice,
+  getAddress,
+  keccak256,
+  toBeHex,
+  zeroPadValue,
+} from "ethers";
+import { ENTRY_POINT_ABI, UserOperation, getUserOpHash } from "../../sdk";
+
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+/**
+ * @notice Opcodes the bundler rules (ERC-7562) ban during validation, as
+ * their result can change between simulation and inclusion. `GAS` is only
+ * allowed right before a call, `CREATE2` only once, by the factory, and
+ * `BALANCE` and `SELFBALANCE` only in the phase of a staked entity.
+ */
+export const BANNED_OPCODES = [
+  "GASPRICE",
+  "GASLIMIT",
+  "DIFFICULTY",
+  "PREVRANDAO",
+  "TIMESTAMP",
+  "BASEFEE",
+  "BLOCKHASH",
+  "NUMBER",
+  "SELFBALANCE",
+  "BALANCE",
+  "ORIGIN",
+  "COINBASE",
+  "CREATE",
+  "SELFDESTRUCT",
+] as const;
+
+// @dev Slots `keccak256(sender || x) + n` are associated with the sender for n up to this.
+const ASSOCIATED_SLOT_RANGE = 128n;
+
+const CALL_OPCODES = ["CALL", "CALLCODE", "DELEGATECALL", "STATICCALL"];
+
+// @dev The banned opcodes a staked entity may use.
+const STAKED_OPCODES = ["BALANCE", "SELFBALANCE"];
+
+/**
+ * @notice The phases of `simulateValidation`, which the EntryPoint separates
+ * with `NUMBER` markers.
+ */
+export type ValidationPhase = "factory" | "account" | "paymaster";
+
+const PHASES: ValidationPhase[] = ["factory", "account", "paymaster"];
+
+/**
+ * @notice A breach of the bundler rules during validation.
+ * @dev `address` is the contract whose code ran the opcode, or whose storage
+ * was accessed, with `slot`.
+ */
+export interface ValidationViolation {
+  phase: ValidationPhase;
+  rule: "opcode" | "storage";
+  opcode: string;
+  address: string;
+  slot?: string;
+  message: string;
+}
+
+/**
+ * @notice The outcome of the simulated validation of a user operation.
+ * @dev `failure` is the reason the EntryPoint rejected the operation, e.g.
+ * "AA24 signature error", in which case the validation data is missing.
+ * `validUntil` is 2^48 - 1 for operations without expiry. `gasUsed` is the
+ * gas of the calls of each phase, including the account's `validateUserOp`.
+ */
+export interface ValidationReport {
+  userOpHash: string;
+  failure?: string;
+  sigFailed?: boolean;
+  validAfter?: bigint;
+  validUntil?: bigint;
+  aggregator?: string;
+  preOpGas?: bigint;
+  prefund?: bigint;
+  gasUsed: Record<ValidationPhase, bigint>;
+  violations: ValidationViolation[];
+  valid: boolean;
+}
+
+/**
+ * @notice A provider that answers `debug_traceCall`, e.g. the Hardhat
+ * network's or a node with the debug namespace.
+ */
+export interface TracingProvider extends Provider {
+  send(method: string, params: unknown[]): Promise<unknown>;
+}
+
+interface StructLog {
+  op: string;
+  gas: number;
+  depth: number;
+  stack?: string[];
+  memory?: string[];
+}
+
+interface CallTrace {
+  failed: boolean;
+  returnValue: string;
+  structLogs: StructLog[];
+}
+
+// @dev A call frame of the trace. Delegate calls share the storage of their
+// caller, and the address of a created contract is only known once its
+// constructor returns.
+interface Frame {
+  code?: string;
+  storage: { address?: string };
+}
+
+interface StakeInfo {
+  stake: bigint;
+  unstakeDelaySec: bigint;
+}
+
+/**
+ * @notice Runs `simulateValidation` for a user operation with
+ * `debug_traceCall`, and checks the validation of the factory, the account
+ * and the paymaster against the bundler rules.
+ * @dev The checks cover banned opcodes and storage access: each entity may
+ * use the storage of the sender, the slots associated with the sender (the
+ * sender's address, or `keccak256(sender || x) + n`), and its own storage if
+ * it is staked. A staked entity may also read the storage of contracts that
+ * are not entities, e.g. the token allowance an ERC20 paymaster checks. The
+ * EntryPoint's own code and storage are left out.
+ */
+export async function simulateUserOpValidation(
+  provider: TracingProvider,
+  entryPoint: string,
+  op: UserOperation,
+): Promise<ValidationReport> {
+  const trace = (await provider.send("debug_traceCall", [
+    {
+      to: entryPoint,
+      data: entryPointInterface.encodeFunctionData("simulateValidation", [op]),
+    },
+    "latest",
+    { disableStorage: true },
+  ])) as CallTrace;
+  const { chainId } = await provider.getNetwork();
+  const report: ValidationReport = {
+    userOpHash: getUserOpHash(op, entryPoint, chainId),
+    gasUsed: { factory: 0n, account: 0n, paymaster: 0n },
+    violations: [],
+    valid: false,
+  };
+
+  const returnValue = trace.returnValue.startsWith("0x")
+    ? trace.returnValue
+    : `0x${trace.returnValue}`;
+  const result =
+    dataLength(returnValue) >= 4
+      ? entryPointInterface.parseError(returnValue)
+      : null;
+  let stakes: Partial<Record<ValidationPhase, StakeInfo>> = {};
+  if (
+    result?.name === "ValidationResult" ||
+    result?.name === "ValidationResultWithAggregation"
+  ) {
+    const { returnInfo } = result.args;
+    report.sigFailed = returnInfo.sigFailed;
+    report.validAfter = returnInfo.validAfter;
+    report.validUntil = returnInfo.validUntil;
+    report.preOpGas = returnInfo.preOpGas;
+    report.prefund = returnInfo.prefund;
+    if (result.name === "ValidationResultWithAggregation") {
+      report.aggregator = result.args.aggregatorInfo.aggregator;
+    }
+    stakes = {
+      factory: result.args.factoryInfo,
+      account: result.args.senderInfo,
+      paymaster: result.args.paymasterInfo,
+    };
+  } else if (result?.name === "FailedOp") {
+    report.failure = result.args.reason;
+  } else {
+    report.failure = trace.failed
+      ? `simulateValidation reverted with ${returnValue}`
+      : `simulateValidation returned, so ${entryPoint} is not an EntryPoint`;
+  }
+
+  const entities: Record<ValidationPhase, string | undefined> = {
+    factory: entityOf(op.initCode),
+    account: getAddress(op.sender),
+    paymaster: entityOf(op.paymasterAndData),
+  };
+  lintTrace(trace.structLogs, {
+    entryPoint: getAddress(entryPoint),
+    entities,
+    stakes,
+    report,
+  });
+  report.valid =
+    report.failure === undefined &&
+    !report.sigFailed &&
+    report.violations.length === 0;
+  return report;
+}
+
+/**
+ * @notice Prints a report for the console.
+ */
+export function formatValidationReport(
+  op: UserOperation,
+  report: ValidationReport,
+): string {
+  const lines = [
+    `User operation ${report.userOpHash} of ${op.sender}`,
+    report.failure
+      ? `Validation failed: ${report.failure}`
+      : `Signature ${report.sigFailed ? "invalid" : "valid"}, valid after ${
+          report.validAfter
+        } until ${report.validUntil}${
+          report.aggregator ? `, aggregated by ${report.aggregator}` : ""
+        }`,
+  ];
+  if (report.preOpGas !== undefined) {
+    lines.push(
+      `Pre-operation gas ${report.preOpGas}, prefund ${report.prefund} wei`,
+    );
+  }
+  lines.push(
+    `Validation gas: account ${report.gasUsed.account} of ${op.verificationGasLimit}, factory ${report.gasUsed.factory}, paymaster ${report.gasUsed.paymaster}`,
+  );
+  if (report.violations.length === 0) {
+    lines.push("No bundler rule violations.");
+  }
+  for (const violation of report.violations) {
+    lines.push(`[${violation.phase}] ${violation.message}`);
+  }
+  return lines.join("\n");
+}
+
+function entityOf(data: string): string | undefined {
+  return dataLength(data) >= 20
+    ? getAddress(dataSlice(data, 0, 20))
+    : undefined;
+}
+
+// @dev The stack top is the last item of a struct log's stack.
+function stackItem(log: StructLog, fromTop: number): bigint {
+  const stack = log.stack ?? [];
+  return BigInt(`0x${stack[stack.length - 1 - fromTop] ?? "0"}`);
+}
+
+function toAddress(value: bigint): string {
+  return getAddress(toBeHex(value & ((1n << 160n) - 1n), 20));
+}
+
+function readMemory(log: StructLog, offset: bigint, size: bigint): string {
+  const memory = (log.memory ?? []).join("");
+  const start = Number(offset) * 2;
+  return `0x${memory
+    .slice(start, start + Number(size) * 2)
+    .padEnd(Number(size) * 2, "0")}`;
+}
+
+function lintTrace(
+  logs: StructLog[],
+  context: {
+    entryPoint: string;
+    entities: Record<ValidationPhase, string | undefined>;
+    stakes: Partial<Record<ValidationPhase, StakeInfo>>;
+    report: ValidationReport;
+  },
+) {
+  const { entryPoint, entities, stakes, report } = context;
+  const sender = entities.account!;
+  const senderWord = zeroPadValue(sender, 32).toLowerCase();
+  const associated: bigint[] = [];
+  const accesses: {
+    phase: ValidationPhase;
+    opcode: string;
+    storage: Frame["storage"];
+    slot: bigint;
+  }[] = [];
+  const staked = (name: ValidationPhase) => (stakes[name]?.stake ?? 0n) > 0n;
+  const found = new Map<string, ValidationViolation>();
+  const violate = (violation: ValidationViolation) => {
+    const key = `${violation.phase}:${violation.rule}:${violation.address}:${violation.opcode}:${violation.slot}`;
+    if (!found.has(key)) {
+      found.set(key, violation);
+    }
+  };
+
+  const frames: Frame[] = [
+    { code: entryPoint, storage: { address: entryPoint } },
+  ];
+  let pending: Frame | undefined;
+  let phase = 0;
+  let creates = 0;
+  let call: { gas: number; phase: number } | undefined;
+
+  logs.forEach((log, i) => {
+    // @dev A frame starts when the depth grows after a call, and ends when it shrinks.
+    if (log.depth > frames.length && pending) {
+      frames.push(pending);
+    }
+    while (log.depth < frames.length) {
+      const created = frames.pop()!;
+      if (created.code === undefined && log.stack?.length) {
+        created.code = created.storage.address = toAddress(stackItem(log, 0));
+      }
+    }
+    pending = undefined;
+    const frame = frames[frames.length - 1];
+
+    if (log.depth === 1) {
+      if (call) {
+        report.gasUsed[PHASES[call.phase]] += BigInt(call.gas - log.gas);
+        call = undefined;
+      }
+      if (log.op === "NUMBER") {
+        phase = Math.min(phase + 1, PHASES.length - 1);
+      }
+    }
+    const name = PHASES[phase];
+
+    if (CALL_OPCODES.includes(log.op)) {
+      const target = toAddress(stackItem(log, 1));
+      pending =
+        log.op === "DELEGATECALL" || log.op === "CALLCODE"
+          ? { code: target, storage: frame.storage }
+          : { code: target, storage: { address: target } };
+    } else if (log.op === "CREATE" || log.op === "CREATE2") {
+      pending = { storage: {} };
+    }
+    // @dev The EntryPoint's calls to itself, e.g. `getUserOpHash`, are not part of a phase.
+    if (log.depth === 1) {
+      if (pending && pending.code !== entryPoint) {
+        call = { gas: log.gas, phase };
+      }
+      return;
+    }
+    if (frame.code === entryPoint) {
+      return;
+    }
+
+    const address = frame.code ?? "a contract being created";
+    if (
+      (BANNED_OPCODES as readonly string[]).includes(log.op) &&
+      !(STAKED_OPCODES.includes(log.op) && staked(name))
+    ) {
+      violate({
+        phase: name,
+        rule: "opcode",
+        opcode: log.op,
+        address,
+        message: `${address} uses the banned opcode ${log.op}.`,
+      });
+    } else if (
+      log.op === "GAS" &&
+      !CALL_OPCODES.includes(logs[i + 1]?.op ?? "")
+    ) {
+      violate({
+        phase: name,
+        rule: "opcode",
+        opcode: log.op,
+        address,
+        message: `${address} uses GAS other than right before a call.`,
+      });
+    } else if (log.op === "CREATE2" && (name !== "factory" || ++creates > 1)) {
+      violate({
+        phase: name,
+        rule: "opcode",
+        opcode: log.op,
+        address,
+        message: `${address} uses CREATE2 other than to deploy the sender.`,
+      });
+    } else if (log.op === "SHA3" || log.op === "KECCAK256") {
+      const size = stackItem(log, 1);
+      const input = readMemory(log, stackItem(log, 0), size);
+      if (size >= 32n && dataSlice(input, 0, 32) === senderWord) {
+        associated.push(BigInt(keccak256(input)));
+      }
+    } else if (log.op === "SLOAD" || log.op === "SSTORE") {
+      accesses.push({
+        phase: name,
+        opcode: log.op,
+        storage: frame.storage,
+        slot: stackItem(log, 0),
+      });
+    }
+  });
+
+  // @dev Checked once the trace is read, as slots can be hashed after they are used.
+  const senderSlot = BigInt(sender);
+  for (const { phase: name, opcode, storage, slot } of accesses) {
+    const address = storage.address ?? "a contract being created";
+    if (
+      address === sender ||
+      address === entryPoint ||
+      slot === senderSlot ||
+      associated.some(
+        (base) => slot >= base && slot - base <= ASSOCIATED_SLOT_RANGE,
+      )
+    ) {
+      continue;
+    }
+    const entity = Object.values(entities).includes(address);
+    if (
+      staked(name) &&
+      (address === entities[name] || (!entity && opcode === "SLOAD"))
+    ) {
+      continue;
+    }
+    violate({
+      phase: name,
+      rule: "storage",
+      opcode,
+      address,
+      slot: toBeHex(slot, 32),
+      message:
+        address === entities[name]
+          ? `The ${name} ${address} uses its own storage (${toBeHex(
+              slot,
+              32,
+            )}) without a stake.`
+          : `${opcode} of slot ${toBeHex(
+              slot,
+              32,
+            )} of ${address}, which is not associated with the sender.`,
+    });
+  }
+  report.violations = [...found.values()];
+}
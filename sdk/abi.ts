@@ -0,0 +1,339 @@
+/**
+ * @notice Human-readable ABI of `TyronSSIAccount` (contracts/Account.sol).
+ * @dev Kept in sync by hand so the SDK does not depend on compiled artifacts.
+ */
+export const ACCOUNT_ABI = [
+  "constructor(address dns, address anEntryPoint)",
+  "function initialize(address anOwner, address[] guardiansAddr, uint256[] guardiansId)",
+  "function getInitializedVersion() view returns (uint64)",
+  "function dns() view returns (address)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function upgradeTo(address newImplementation)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+
+  "function owner() view returns (address)",
+  "function pendingOwner() view returns (address)",
+  "function transferOwnership(address newOwner)",
+  "function acceptOwnership()",
+
+  "function domainSeparator() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function encodeMessageData(bytes message) view returns (bytes)",
+  "function getMessageHash(bytes message) view returns (bytes32)",
+  "function isValidSignature(bytes32 digest, bytes signature) view returns (bytes4)",
+
+  "function entryPoint() view returns (address)",
+  "function getNonce() view returns (uint256)",
+  "function addDeposit() payable",
+  "function getDeposit() view returns (uint256)",
+  "function withdrawDepositTo(address withdrawAddress, uint256 amount)",
+
+  "function execute(address dest, uint256 value, bytes func)",
+  "function executeBatch(address[] dest, bytes[] func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func, bool[] allowFailure) returns (bool[] success, bytes[] results)",
+
+  "function isGuardian(bytes32 guardian) view returns (bool)",
+  "function getGuardians() view returns (tuple(bytes32 guardianHash, uint8 source, address guardian, uint256 tokenId)[] guardians_)",
+  "function resolveGuardian(bytes32 guardian) view returns (address)",
+  "function getGuardianVotes(address signer) view returns (uint256 votes_)",
+  "function getGuardianParams() view returns (uint256 guardian_count_, uint256 guardian_threshold_)",
+  "function addGuardians(address[] guardiansAddr, uint256[] guardiansId)",
+  "function removeGuardians(bytes32[] guardiansHash)",
+  "function getThresholdPolicy() view returns (uint8 mode_, uint256 value_)",
+  "function setThresholdPolicy(uint8 mode, uint256 value)",
+  "function getGuardianWeight(bytes32 guardian) view returns (uint256)",
+  "function getGuardianTotalWeight() view returns (uint256)",
+  "function setGuardianWeights(bytes32[] guardiansHash, uint256[] weights)",
+  "function MAX_GUARDIAN_WEIGHT() view returns (uint256)",
+  "function socialRecovery(address newOwner, uint256 deadline, address[] guardians, bytes[] signatures)",
+  "function cancelRecovery()",
+  "function executeRecovery()",
+  "function getPendingRecovery() view returns (address new_owner_, uint256 executable_at_)",
+  "function getRecoveryNonce() view returns (uint256)",
+  "function getRecoveryDelay() view returns (uint256)",
+  "function setRecoveryDelay(uint256 delay)",
+  "function RECOVERY_EXPIRY() view returns (uint256)",
+  "function freeze()",
+  "function setFreezeThreshold(uint256 threshold)",
+  "function getFreeze() view returns (uint256 frozenUntil, uint256 threshold, uint256 votes)",
+  "function getLastActivity() view returns (uint256)",
+  // Session keys
+  "function createSession(address key, uint48 validAfter, uint48 validUntil, uint256 valueLimit, address[] targets, bytes4[] selectors)",
+  "function revokeSession(address key)",
+  "function getSession(address key) view returns (uint48 valid_after_, uint48 valid_until_, uint256 value_limit_, uint256 value_spent_, bool active_)",
+  "function isSessionCallAllowed(address key, address target, bytes4 selector) view returns (bool)",
+  "function SESSION_SIGNATURE_MAGIC() view returns (bytes4)",
+  // Spending policy
+  "function setSpendingPolicy(address policy)",
+  "function applySpendingPolicy()",
+  "function getSpendingPolicy() view returns (address policy_, address scheduled_policy_, uint256 applicable_at_)",
+  "function SPENDING_POLICY_DELAY() view returns (uint256)",
+  "function scheduleUpgrade(address newImplementation)",
+  "function getScheduledUpgrade() view returns (address implementation_, uint256 applicable_at_)",
+  // Passkey
+  "function setPasskey(uint256 x, uint256 y, address verifier)",
+  "function getPasskey() view returns (uint256 x_, uint256 y_, address verifier_)",
+  "function PASSKEY_SIGNATURE_MAGIC() view returns (bytes4)",
+  // Modules
+  "function installModule(uint256 moduleTypeId, address module, bytes initData)",
+  "function uninstallModule(uint256 moduleTypeId, address module, bytes deInitData)",
+  "function isModuleInstalled(uint256 moduleTypeId, address module, bytes additionalContext) view returns (bool)",
+  "function VALIDATOR_SIGNATURE_MAGIC() view returns (bytes4)",
+
+  "event GuardiansUpdated(address indexed account, uint256 indexed threshold)",
+  "event GuardianAdded(bytes32 indexed guardianHash, uint8 source, address guardian, uint256 tokenId)",
+  "event GuardianRemoved(bytes32 indexed guardianHash, uint8 source, address guardian, uint256 tokenId)",
+  "event ThresholdPolicyUpdated(uint8 mode, uint256 value)",
+  "event GuardianWeightUpdated(bytes32 indexed guardianHash, uint256 weight)",
+  "event RecoveryProposed(address indexed newOwner, uint256 executableAt)",
+  "event RecoveryCancelled(address indexed newOwner)",
+  "event RecoveryExecuted(address indexed previousOwner, address indexed newOwner)",
+  "event RecoveryDelayUpdated(uint256 delay)",
+  "event AccountFrozen(address indexed guardian, uint256 frozenUntil)",
+  "event FreezeVoted(address indexed guardian, uint256 votes, uint256 threshold)",
+  "event FreezeThresholdUpdated(uint256 threshold)",
+  "event SessionCreated(address indexed key, uint48 validAfter, uint48 validUntil, uint256 valueLimit, address[] targets, bytes4[] selectors)",
+  "event SessionRevoked(address indexed key)",
+  "event SpendingPolicyUpdated(address indexed policy)",
+  "event SpendingPolicyScheduled(address indexed policy, uint256 applicableAt)",
+  "event UpgradeScheduled(address indexed implementation, uint256 applicableAt)",
+  "event PasskeyUpdated(uint256 x, uint256 y, address verifier)",
+  "event ModuleInstalled(uint256 moduleTypeId, address module)",
+  "event ModuleUninstalled(uint256 moduleTypeId, address module)",
+  "event ModuleUninstallFailed(uint256 moduleTypeId, address module)",
+  "event FallbackHandlerUpdated(bytes4 indexed selector, address handler)",
+  "event BatchCallExecuted(uint256 index, address indexed target, bool success, bytes result)",
+  "event LightAccountInitialized(address indexed entryPoint, address indexed owner)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event Initialized(uint64 version)",
+  "event Upgraded(address indexed implementation)",
+
+  "error ArrayLengthMismatch()",
+  "error InvalidOwner(address owner)",
+  "error NotAuthorized(address caller)",
+  "error NoPendingRecovery()",
+  "error RecoveryNotReady(uint256 executableAt)",
+  "error RecoveryExpired(uint256 expiredAt)",
+  "error RecoveryRequestExpired(uint256 deadline)",
+  "error DuplicateGuardian(address guardian)",
+  "error InvalidRecoveryDelay(uint256 delay)",
+  "error InvalidThresholdPolicy(uint8 mode, uint256 value)",
+  "error InvalidGuardianWeight(bytes32 guardianHash, uint256 weight)",
+  "error UnreachableThreshold(uint256 threshold, uint256 votes)",
+  "error UnregisteredGuardian(address guardian)",
+  "error InsufficientRecoveryVotes(uint256 threshold, uint256 votes)",
+  "error InvalidSession(address key)",
+  "error SessionNotActive(address key)",
+  "error SessionCallNotAllowed(address key, address target, bytes4 selector)",
+  "error SessionValueExceeded(address key, uint256 value, uint256 remaining)",
+  "error SpendingPolicyNotReady(uint256 applicableAt)",
+  "error EntryPointWithdrawal(bytes4 selector)",
+  "error UpgradeNotReady(address implementation, uint256 applicableAt)",
+  "error InvalidPasskey(uint256 x, uint256 y)",
+  "error InvalidModule(uint256 moduleTypeId, address module)",
+  "error ModuleNotInstalled(uint256 moduleTypeId, address module)",
+  "error NoFallbackHandler(bytes4 selector)",
+  "error Frozen(uint256 frozenUntil)",
+  "error FreezeCooldown(uint256 availableAt)",
+  // @dev Raised by the spending policy and bubbled up by the account.
+  "error TargetNotAllowed(address target)",
+  "error SelectorBlocked(address target, bytes4 selector)",
+  "error DailyLimitExceeded(address asset, uint256 amount, uint256 remaining)",
+  "error UnknownTokenCall(address token, bytes4 selector)",
+  "error PolicyChangeNotReady(bytes32 changeId, uint256 applicableAt)",
+  "error PolicyChangeNotScheduled(bytes32 changeId)",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+] as const;
+
+/**
+ * @notice The token functions encoded by `BatchBuilder`.
+ */
+export const TOKEN_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+] as const;
+
+/**
+ * @notice Constructor of OpenZeppelin's `ERC1967Proxy`.
+ */
+export const ERC1967_PROXY_ABI = [
+  "constructor(address implementation, bytes data) payable",
+] as const;
+
+const USER_OPERATION_TUPLE =
+  "tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)";
+// @dev The results of `simulateValidation`.
+const RETURN_INFO_TUPLE =
+  "tuple(uint256 preOpGas, uint256 prefund, bool sigFailed, uint48 validAfter, uint48 validUntil, bytes paymasterContext)";
+const STAKE_INFO_TUPLE = "tuple(uint256 stake, uint256 unstakeDelaySec)";
+
+/**
+ * @notice Human-readable ABI of the ERC-4337 v0.6 `EntryPoint` functions used by the SDK.
+ */
+export const ENTRY_POINT_ABI = [
+  `function handleOps(${USER_OPERATION_TUPLE}[] ops, address beneficiary)`,
+  `function getUserOpHash(${USER_OPERATION_TUPLE} userOp) view returns (bytes32)`,
+  "function getNonce(address sender, uint192 key) view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function depositTo(address account) payable",
+  `function simulateValidation(${USER_OPERATION_TUPLE} userOp)`,
+
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+  "event AccountDeployed(bytes32 indexed userOpHash, address indexed sender, address factory, address paymaster)",
+  "event Deposited(address indexed account, uint256 totalDeposit)",
+  "event Withdrawn(address indexed account, address withdrawAddress, uint256 amount)",
+
+  "error FailedOp(uint256 opIndex, string reason)",
+  `error ValidationResult(${RETURN_INFO_TUPLE} returnInfo, ${STAKE_INFO_TUPLE} senderInfo, ${STAKE_INFO_TUPLE} factoryInfo, ${STAKE_INFO_TUPLE} paymasterInfo)`,
+  `error ValidationResultWithAggregation(${RETURN_INFO_TUPLE} returnInfo, ${STAKE_INFO_TUPLE} senderInfo, ${STAKE_INFO_TUPLE} factoryInfo, ${STAKE_INFO_TUPLE} paymasterInfo, tuple(address aggregator, ${STAKE_INFO_TUPLE} stakeInfo) aggregatorInfo)`,
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronSpendingPolicy` (contracts/SpendingPolicy.sol).
+ */
+export const SPENDING_POLICY_ABI = [
+  "function POLICY_DELAY() view returns (uint256)",
+  "function LIMIT_WINDOW() view returns (uint256)",
+  "function LIMIT_BUCKET() view returns (uint256)",
+  "function checkCall(address target, uint256 value, bytes data)",
+  "function previewCalls(address account, address[] targets, uint256[] values, bytes[] data) view",
+  "function setDailyLimit(address asset, uint256 amount)",
+  "function removeDailyLimit(address asset)",
+  "function setAllowlistEnabled(bool enabled)",
+  "function setTargetAllowed(address target, bool allowed)",
+  "function setSelectorBlocked(bytes4 selector, bool blocked)",
+  "function cancelChange(bytes32 changeId)",
+  "function getDailyLimit(address account, address asset) view returns (bool enabled_, uint256 amount_, uint256 spent_, uint256 frees_at_)",
+  "function getRemainingDailyLimit(address account, address asset) view returns (uint256)",
+  "function isAllowlistEnabled(address account) view returns (bool)",
+  "function isTargetAllowed(address account, address target) view returns (bool)",
+  "function isSelectorBlocked(address account, bytes4 selector) view returns (bool)",
+  "function getChangeId(bytes data) pure returns (bytes32)",
+  "function getScheduledChange(address account, bytes32 changeId) view returns (uint256)",
+
+  "event DailyLimitUpdated(address indexed account, address indexed asset, bool enabled, uint256 amount)",
+  "event AllowlistUpdated(address indexed account, bool enabled)",
+  "event TargetAllowedUpdated(address indexed account, address indexed target, bool allowed)",
+  "event SelectorBlockedUpdated(address indexed account, bytes4 indexed selector, bool blocked)",
+  "event PolicyChangeScheduled(address indexed account, bytes32 indexed changeId, uint256 applicableAt, bytes data)",
+  "event PolicyChangeCancelled(address indexed account, bytes32 indexed changeId)",
+
+  "error TargetNotAllowed(address target)",
+  "error SelectorBlocked(address target, bytes4 selector)",
+  "error DailyLimitExceeded(address asset, uint256 amount, uint256 remaining)",
+  "error UnknownTokenCall(address token, bytes4 selector)",
+  "error PolicyChangeNotReady(bytes32 changeId, uint256 applicableAt)",
+  "error PolicyChangeNotScheduled(bytes32 changeId)",
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronWebAuthnVerifier` (contracts/WebAuthn.sol).
+ */
+export const WEBAUTHN_VERIFIER_ABI = [
+  "function verify(bytes32 challenge, bytes signature, uint256 x, uint256 y) view returns (bool)",
+  "function isValidKey(uint256 x, uint256 y) pure returns (bool)",
+] as const;
+
+/**
+ * @notice Human-readable ABI of the `IModule` interface (contracts/Modules.sol).
+ */
+export const MODULE_ABI = [
+  "function onInstall(bytes data)",
+  "function onUninstall(bytes data)",
+  "function isModuleType(uint256 moduleTypeId) view returns (bool)",
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronECDSAValidator` (contracts/modules/ECDSAValidator.sol).
+ */
+export const ECDSA_VALIDATOR_ABI = [
+  ...MODULE_ABI,
+  "function signers(address account) view returns (address)",
+  "event SignerUpdated(address indexed account, address signer)",
+  "error InvalidSigner()",
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronInheritanceModule` (contracts/modules/InheritanceModule.sol).
+ */
+export const INHERITANCE_MODULE_ABI = [
+  ...MODULE_ABI,
+  "function MIN_INACTIVITY_PERIOD() view returns (uint256)",
+  "function MIN_CHALLENGE_PERIOD() view returns (uint256)",
+  "function setPolicy(address[] beneficiaries, uint256 inactivityPeriod, uint256 challengePeriod)",
+  "function cancelClaim()",
+  "function openClaim(address account)",
+  "function claimOwnership(address account)",
+  "function sweep(address account, address[] erc20Tokens, address[] erc721Tokens, uint256[] erc721Ids)",
+  "function getPolicy(address account) view returns (address[] beneficiaries_, uint256 inactivity_period_, uint256 challenge_period_)",
+  "function isBeneficiary(address account, address beneficiary) view returns (bool)",
+  "function getLastActivity(address account) view returns (uint256)",
+  "function getInactiveAt(address account) view returns (uint256)",
+  "function getClaim(address account) view returns (address beneficiary_, uint256 executable_at_)",
+
+  "event PolicyUpdated(address indexed account, address[] beneficiaries, uint256 inactivityPeriod, uint256 challengePeriod)",
+  "event PolicyRemoved(address indexed account)",
+  "event ClaimOpened(address indexed account, address indexed beneficiary, uint256 executableAt)",
+  "event ClaimCancelled(address indexed account, address indexed beneficiary)",
+  "event OwnershipClaimed(address indexed account, address indexed beneficiary)",
+  "event AssetsSwept(address indexed account, address indexed beneficiary)",
+
+  "error InvalidPolicy(uint256 inactivityPeriod, uint256 challengePeriod)",
+  "error InvalidBeneficiary(address beneficiary)",
+  "error NoPolicy(address account)",
+  "error NotBeneficiary(address account, address caller)",
+  "error OwnerActive(uint256 inactiveAt)",
+  "error ClaimPending(address beneficiary, uint256 executableAt)",
+  "error NoClaim(address account)",
+  "error ClaimNotReady(uint256 executableAt)",
+  "error ArrayLengthMismatch()",
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronVerifyingPaymaster` (contracts/Paymaster.sol).
+ */
+export const PAYMASTER_ABI = [
+  "constructor(address anEntryPoint, address aSponsor, uint256 aDefaultQuota)",
+  "function PRICE_DENOMINATOR() view returns (uint256)",
+  "function entryPoint() view returns (address)",
+  "function owner() view returns (address)",
+  "function sponsor() view returns (address)",
+  "function defaultQuota() view returns (uint256)",
+  "function setSponsor(address aSponsor)",
+  "function setDefaultQuota(uint256 quota)",
+  "function setQuota(address account, uint256 quota)",
+  "function withdrawToken(address token, address to, uint256 amount)",
+  "function quotaOf(address account) view returns (uint256)",
+  "function sponsoredCostOf(address account) view returns (uint256)",
+  `function getHash(${USER_OPERATION_TUPLE} userOp, uint48 validUntil, uint48 validAfter, address token, uint256 price) view returns (bytes32)`,
+  "function parsePaymasterAndData(bytes paymasterAndData) pure returns (uint48 validUntil, uint48 validAfter, address token, uint256 price, bytes signature)",
+  "function deposit() payable",
+  "function getDeposit() view returns (uint256)",
+  "function withdrawTo(address withdrawAddress, uint256 amount)",
+  "function addStake(uint32 unstakeDelaySec) payable",
+
+  "event SponsorUpdated(address sponsor)",
+  "event QuotaUpdated(address indexed account, uint256 quota)",
+  "event UserOperationSponsored(address indexed account, address indexed token, uint256 actualGasCost, uint256 charge)",
+
+  "error QuotaExceeded(address account, uint256 sponsoredCost, uint256 quota)",
+  "error InsufficientTokenAllowance(address token, uint256 maxCharge)",
+  "error InvalidPaymasterData()",
+] as const;
+
+/**
+ * @notice Human-readable ABI of `TyronSSIAccountFactory` (contracts/AccountFactory.sol).
+ */
+export const FACTORY_ABI = [
+  "constructor(address anAccountImplementation)",
+  "function accountImplementation() view returns (address)",
+  "function entryPoint() view returns (address)",
+  "function createAccount(address owner, address[] guardiansAddr, uint256[] guardiansId, uint256 salt) returns (address ret)",
+  "function getAddress(address owner, address[] guardiansAddr, uint256[] guardiansId, uint256 salt) view returns (address)",
+  "event AccountCreated(address indexed account, address indexed owner, uint256 salt)",
+] as const;
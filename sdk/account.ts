@@ -0,0 +1,709 @@
+import {
+  BigNumberish,
+  BytesLike,
+  Contract,
+  ContractFactory,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+  Signer,
+  ZeroAddress,
+  dataSlice,
+  getAddress,
+} from "ethers";
+import { ACCOUNT_ABI, ERC1967_PROXY_ABI } from "./abi";
+import { BatchCallResult, batchCallResult } from "./batch";
+import { Call, executeBatchArgs } from "./calls";
+import { withDecodedErrors } from "./errors";
+import {
+  GuardianRecord,
+  GuardianSource,
+  hashGuardian,
+  hashGuardians,
+  hashTokenGuardian,
+} from "./guardians";
+import { ModuleInstallation, encodeModuleData } from "./modules";
+import { RecoveryBundle } from "./recovery";
+import { SessionPermissions, SessionState, toSelector } from "./session";
+import { PasskeyPublicKey } from "./webauthn";
+import { RecoveryProgress, ThresholdMode, ThresholdPolicy } from "./threshold";
+
+/**
+ * @notice Constructor arguments of the `TyronSSIAccount` implementation.
+ */
+export interface AccountImplementationParams {
+  dns: string;
+  entryPoint: string;
+  libraries: AccountLibraries;
+}
+
+/**
+ * @notice The libraries the `TyronSSIAccount` implementation links, by name.
+ */
+export interface AccountLibraries {
+  TyronGuardians: string;
+}
+
+/**
+ * @notice Arguments of `TyronSSIAccount.initialize`, plus the implementation
+ * behind the account's proxy.
+ */
+export interface AccountDeployParams {
+  implementation: string;
+  // @dev Defaults to the deployer.
+  owner?: string;
+  guardians?: string[];
+  guardianIds?: BigNumberish[];
+}
+
+/**
+ * @notice The compiled bytecode of a contract, e.g. as returned by
+ * `hre.artifacts.readArtifact("TyronSSIAccount")`.
+ */
+export interface BytecodeArtifact {
+  bytecode: string;
+  // @dev The positions of the library addresses in `bytecode`, by source and library name.
+  linkReferences?: Record<
+    string,
+    Record<string, { start: number; length: number }[]>
+  >;
+}
+
+/**
+ * @notice Fills the library addresses in the bytecode of an artifact.
+ * @dev Throws if a library the artifact links is missing.
+ */
+function linkBytecode(
+  artifact: BytecodeArtifact,
+  libraries: Record<string, string>,
+): string {
+  let bytecode = artifact.bytecode;
+  for (const references of Object.values(artifact.linkReferences ?? {})) {
+    for (const [name, positions] of Object.entries(references)) {
+      const library = libraries[name];
+      if (library === undefined) {
+        throw new Error(`The library ${name} is not deployed.`);
+      }
+      const address = getAddress(library).slice(2).toLowerCase();
+      for (const { start, length } of positions) {
+        const offset = 2 + start * 2;
+        bytecode =
+          bytecode.slice(0, offset) +
+          address +
+          bytecode.slice(offset + length * 2);
+      }
+    }
+  }
+  return bytecode;
+}
+
+export interface GuardianParams {
+  count: bigint;
+  threshold: bigint;
+}
+
+/**
+ * @notice A social recovery waiting for its timelock.
+ * @dev `expiresAt` is the last time `executeRecovery` can be called.
+ */
+export interface PendingRecovery {
+  newOwner: string;
+  executableAt: bigint;
+  expiresAt: bigint;
+}
+
+/**
+ * @notice The guardian freeze of an account (`getFreeze`).
+ * @dev `frozenUntil` stays set after the freeze ends, and is 0 if the account
+ * was never frozen or was recovered since. `votes` are those of the current
+ * round towards the next freeze, which happens once they reach `threshold`.
+ */
+export interface FreezeState {
+  frozen: boolean;
+  frozenUntil: bigint;
+  threshold: bigint;
+  votes: bigint;
+}
+
+/**
+ * @notice The spending policy of an account (`getSpendingPolicy`).
+ */
+export interface SpendingPolicyState {
+  // @dev `ZeroAddress` if the account has no policy.
+  policy: string;
+  scheduledPolicy?: string;
+  applicableAt?: bigint;
+}
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+export const ERC1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * @notice Typed client of a deployed `TyronSSIAccount`.
+ * Reverts are rethrown as `TyronAccountError` when they can be decoded.
+ */
+export class TyronAccount {
+  readonly address: string;
+  readonly contract: Contract;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, ACCOUNT_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): TyronAccount {
+    return new TyronAccount(address, runner);
+  }
+
+  /**
+   * @notice Deploys the libraries of the account implementation, which every
+   * implementation can link.
+   * @param artifacts The compiled libraries, e.g. `hre.artifacts.readArtifact("TyronGuardians")`.
+   */
+  static async deployLibraries(
+    signer: Signer,
+    artifacts: Record<keyof AccountLibraries, BytecodeArtifact>,
+  ): Promise<AccountLibraries> {
+    const factory = new ContractFactory(
+      [],
+      artifacts.TyronGuardians.bytecode,
+      signer,
+    );
+    const guardians = await factory.deploy();
+    await guardians.waitForDeployment();
+    return { TyronGuardians: await guardians.getAddress() };
+  }
+
+  /**
+   * @notice Deploys an account implementation, which can back many accounts.
+   * @param artifact The compiled `TyronSSIAccount`.
+   */
+  static async deployImplementation(
+    signer: Signer,
+    artifact: BytecodeArtifact,
+    params: AccountImplementationParams,
+  ): Promise<string> {
+    const factory = new ContractFactory(
+      ACCOUNT_ABI,
+      linkBytecode(artifact, { ...params.libraries }),
+      signer,
+    );
+    const contract = await factory.deploy(params.dns, params.entryPoint);
+    await contract.waitForDeployment();
+    return contract.getAddress();
+  }
+
+  /**
+   * @notice Deploys a new account behind an ERC-1967 proxy, owned by `signer`
+   * unless `params.owner` is set.
+   * @param proxyArtifact The compiled `ERC1967Proxy`.
+   */
+  static async deploy(
+    signer: Signer,
+    proxyArtifact: BytecodeArtifact,
+    params: AccountDeployParams,
+  ): Promise<TyronAccount> {
+    const factory = new ContractFactory(
+      ERC1967_PROXY_ABI,
+      proxyArtifact.bytecode,
+      signer,
+    );
+    const initializeCall = new Interface(ACCOUNT_ABI).encodeFunctionData(
+      "initialize",
+      [
+        params.owner ?? (await signer.getAddress()),
+        params.guardians ?? [],
+        params.guardianIds ?? [],
+      ],
+    );
+    const contract = await withDecodedErrors(() =>
+      factory.deploy(params.implementation, initializeCall),
+    );
+    await contract.waitForDeployment();
+    return new TyronAccount(await contract.getAddress(), signer);
+  }
+
+  /**
+   * @notice Returns a client for the same account with another runner,
+   * e.g. the pending owner accepting the ownership.
+   */
+  connect(runner: ContractRunner): TyronAccount {
+    return new TyronAccount(this.address, runner);
+  }
+
+  async owner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  async pendingOwner(): Promise<string> {
+    return this.contract.pendingOwner();
+  }
+
+  async entryPoint(): Promise<string> {
+    return this.contract.entryPoint();
+  }
+
+  async dns(): Promise<string> {
+    return this.contract.dns();
+  }
+
+  /**
+   * @notice The implementation behind the account's ERC-1967 proxy.
+   */
+  async implementation(): Promise<string> {
+    const slot = await this.contract.runner!.provider!.getStorage(
+      this.address,
+      ERC1967_IMPLEMENTATION_SLOT,
+    );
+    return getAddress(dataSlice(slot, 12));
+  }
+
+  async getInitializedVersion(): Promise<bigint> {
+    return this.contract.getInitializedVersion();
+  }
+
+  /**
+   * @notice The account's next user operation nonce in the EntryPoint.
+   */
+  async getNonce(): Promise<bigint> {
+    return this.contract.getNonce();
+  }
+
+  async isGuardian(guardian: string): Promise<boolean> {
+    return this.contract.isGuardian(hashGuardian(guardian));
+  }
+
+  /**
+   * @notice Lists the registered guardians with their source.
+   */
+  async getGuardians(): Promise<GuardianRecord[]> {
+    const guardians: [string, bigint, string, bigint][] =
+      await this.contract.getGuardians();
+    return guardians.map(([guardianHash, source, guardian, tokenId]) => ({
+      guardianHash,
+      source: Number(source) as GuardianSource,
+      guardian,
+      tokenId,
+    }));
+  }
+
+  async getGuardianParams(): Promise<GuardianParams> {
+    const [count, threshold] = await this.contract.getGuardianParams();
+    return { count, threshold };
+  }
+
+  /**
+   * @notice The votes an address holds in a recovery: the guardians it is
+   * registered as or whose DNS NFT it holds (weighted with the `Weighted` policy).
+   */
+  async getGuardianVotes(signer: string): Promise<bigint> {
+    return this.contract.getGuardianVotes(signer);
+  }
+
+  async getThresholdPolicy(): Promise<ThresholdPolicy> {
+    const [mode, value] = await this.contract.getThresholdPolicy();
+    return { mode: Number(mode) as ThresholdMode, value };
+  }
+
+  /**
+   * @notice Sets the threshold policy. The account rejects policies its
+   * guardians could not reach (`UnreachableThreshold`).
+   */
+  async setThresholdPolicy(
+    policy: ThresholdPolicy,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.setThresholdPolicy(policy.mode, policy.value),
+    );
+  }
+
+  /**
+   * @notice The vote weight of a guardian, given its plain address
+   * (zero if it is not a guardian).
+   */
+  async getGuardianWeight(guardian: string): Promise<bigint> {
+    return this.contract.getGuardianWeight(hashGuardian(guardian));
+  }
+
+  async getGuardianTotalWeight(): Promise<bigint> {
+    return this.contract.getGuardianTotalWeight();
+  }
+
+  /**
+   * @notice Sets the vote weights of guardians given their plain addresses.
+   */
+  async setGuardianWeights(
+    guardians: string[],
+    weights: BigNumberish[],
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.setGuardianWeights(hashGuardians(guardians), weights),
+    );
+  }
+
+  /**
+   * @notice Counts the votes of the given guardians under the active policy,
+   * e.g. to show how many signatures a recovery still needs. Duplicates and
+   * addresses that are not guardians are ignored.
+   */
+  async getRecoveryProgress(guardians: string[]): Promise<RecoveryProgress> {
+    const { threshold } = await this.getGuardianParams();
+    let votes = 0n;
+    for (const guardian of new Set(guardians.map((g) => getAddress(g)))) {
+      votes += await this.getGuardianVotes(guardian);
+    }
+    const remaining = votes >= threshold ? 0n : threshold - votes;
+    return { threshold, votes, remaining };
+  }
+
+  async addGuardians(
+    guardians: string[],
+    guardianIds: BigNumberish[] = [],
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.addGuardians(guardians, guardianIds),
+    );
+  }
+
+  /**
+   * @notice Removes guardians given their plain addresses and DNS NFT IDs.
+   */
+  async removeGuardians(
+    guardians: string[],
+    guardianIds: BigNumberish[] = [],
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.removeGuardians([
+        ...hashGuardians(guardians),
+        ...guardianIds.map(hashTokenGuardian),
+      ]),
+    );
+  }
+
+  async transferOwnership(
+    newOwner: string,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.transferOwnership(newOwner));
+  }
+
+  async acceptOwnership(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.acceptOwnership());
+  }
+
+  /**
+   * @notice Submits guardian signatures collected with `bundleRecovery`,
+   * which opens a timelocked recovery.
+   */
+  async socialRecovery(
+    bundle: RecoveryBundle,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.socialRecovery(
+        bundle.newOwner,
+        bundle.deadline,
+        bundle.guardians,
+        bundle.signatures,
+      ),
+    );
+  }
+
+  /**
+   * @notice The pending recovery, or `undefined` if there is none.
+   */
+  async getPendingRecovery(): Promise<PendingRecovery | undefined> {
+    const [newOwner, executableAt] = await this.contract.getPendingRecovery();
+    if (newOwner === ZeroAddress) {
+      return undefined;
+    }
+    const expiry: bigint = await this.contract.RECOVERY_EXPIRY();
+    return { newOwner, executableAt, expiresAt: executableAt + expiry };
+  }
+
+  /**
+   * @notice The nonce guardians sign in the next recovery request.
+   */
+  async getRecoveryNonce(): Promise<bigint> {
+    return this.contract.getRecoveryNonce();
+  }
+
+  async getRecoveryDelay(): Promise<bigint> {
+    return this.contract.getRecoveryDelay();
+  }
+
+  async setRecoveryDelay(
+    delay: BigNumberish,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setRecoveryDelay(delay));
+  }
+
+  /**
+   * @notice Lets the owner veto the pending recovery.
+   */
+  async cancelRecovery(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.cancelRecovery());
+  }
+
+  /**
+   * @notice Rotates the owner once the recovery timelock has passed.
+   * Anyone can call it.
+   */
+  async executeRecovery(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.executeRecovery());
+  }
+
+  /**
+   * @notice Votes to freeze the account, e.g. when the owner key leaks, until
+   * the freeze expires or a recovery is executed.
+   * @dev The runner must be a guardian. The account is frozen once the votes
+   * of the guardians reach the freeze threshold within `FREEZE_PERIOD`.
+   */
+  async freeze(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.freeze());
+  }
+
+  /**
+   * @notice Sets the votes a freeze needs (0 counts as 1), capped by the
+   * recovery threshold.
+   */
+  async setFreezeThreshold(
+    threshold: BigNumberish,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setFreezeThreshold(threshold));
+  }
+
+  /**
+   * @notice Whether the account is frozen at the latest block, and the votes
+   * towards the next freeze.
+   */
+  async getFreeze(): Promise<FreezeState> {
+    const [frozenUntil, threshold, votes]: bigint[] =
+      await this.contract.getFreeze();
+    const block = await this.contract.runner!.provider!.getBlock("latest");
+    return {
+      frozen: BigInt(block!.timestamp) < frozenUntil,
+      frozenUntil,
+      threshold,
+      votes,
+    };
+  }
+
+  /**
+   * @notice The last time the owner or its passkey authorized an action,
+   * directly or with a user operation (0 if it never did). Session keys and
+   * modules do not count.
+   */
+  async getLastActivity(): Promise<bigint> {
+    return this.contract.getLastActivity();
+  }
+
+  /**
+   * @notice Registers a session key, replacing its previous session.
+   * @dev Selectors can be given as function signatures or 4-byte hex strings.
+   */
+  async createSession(
+    key: string,
+    permissions: SessionPermissions,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.createSession(
+        key,
+        permissions.validAfter,
+        permissions.validUntil,
+        permissions.valueLimit,
+        permissions.targets,
+        permissions.selectors.map(toSelector),
+      ),
+    );
+  }
+
+  async revokeSession(key: string): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.revokeSession(key));
+  }
+
+  async getSession(key: string): Promise<SessionState> {
+    const [validAfter, validUntil, valueLimit, valueSpent, active] =
+      await this.contract.getSession(key);
+    return { validAfter, validUntil, valueLimit, valueSpent, active };
+  }
+
+  async isSessionCallAllowed(
+    key: string,
+    target: string,
+    selector: string,
+  ): Promise<boolean> {
+    return this.contract.isSessionCallAllowed(
+      key,
+      target,
+      toSelector(selector),
+    );
+  }
+
+  /**
+   * @notice The spending policy of the account and its scheduled replacement.
+   * @dev `scheduledPolicy` is set only while a change is scheduled.
+   */
+  async getSpendingPolicy(): Promise<SpendingPolicyState> {
+    const [policy, scheduledPolicy, applicableAt] =
+      await this.contract.getSpendingPolicy();
+    return applicableAt === 0n
+      ? { policy }
+      : { policy, scheduledPolicy, applicableAt };
+  }
+
+  /**
+   * @notice Installs a spending policy, or schedules its replacement
+   * (`ZeroAddress` to remove it) if the account already has one.
+   */
+  async setSpendingPolicy(
+    policy: string,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setSpendingPolicy(policy));
+  }
+
+  async applySpendingPolicy(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.applySpendingPolicy());
+  }
+
+  /**
+   * @notice Schedules an upgrade, which `upgradeTo` and `upgradeToAndCall`
+   * require after `SPENDING_POLICY_DELAY` while the account has a policy.
+   */
+  async scheduleUpgrade(
+    implementation: string,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.scheduleUpgrade(implementation),
+    );
+  }
+
+  /**
+   * @notice The scheduled upgrade, or `undefined` if there is none.
+   */
+  async getScheduledUpgrade(): Promise<
+    { implementation: string; applicableAt: bigint } | undefined
+  > {
+    const [implementation, applicableAt] =
+      await this.contract.getScheduledUpgrade();
+    return applicableAt === 0n ? undefined : { implementation, applicableAt };
+  }
+
+  /**
+   * @notice Registers the passkey that signs for the owner.
+   * @param verifier A deployed `TyronWebAuthnVerifier`.
+   */
+  async setPasskey(
+    key: PasskeyPublicKey,
+    verifier: string,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.setPasskey(key.x, key.y, verifier),
+    );
+  }
+
+  async removePasskey(): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.setPasskey(0n, 0n, ZeroAddress),
+    );
+  }
+
+  /**
+   * @notice The passkey that signs for the owner, or `undefined` if there is
+   * none (passkeys are removed when the owner changes).
+   */
+  async getPasskey(): Promise<
+    (PasskeyPublicKey & { verifier: string }) | undefined
+  > {
+    const [x, y, verifier] = await this.contract.getPasskey();
+    return verifier === ZeroAddress ? undefined : { x, y, verifier };
+  }
+
+  /**
+   * @notice Installs a module, calling its `onInstall` with `data`.
+   */
+  async installModule(
+    installation: ModuleInstallation,
+    data: BytesLike = "0x",
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.installModule(
+        installation.type,
+        installation.module,
+        encodeModuleData(installation, data),
+      ),
+    );
+  }
+
+  /**
+   * @notice Uninstalls a module, calling its `onUninstall` with `data`.
+   */
+  async uninstallModule(
+    installation: ModuleInstallation,
+    data: BytesLike = "0x",
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.uninstallModule(
+        installation.type,
+        installation.module,
+        encodeModuleData(installation, data),
+      ),
+    );
+  }
+
+  async isModuleInstalled(installation: ModuleInstallation): Promise<boolean> {
+    return this.contract.isModuleInstalled(
+      installation.type,
+      installation.module,
+      installation.selector ? encodeModuleData(installation) : "0x",
+    );
+  }
+
+  async execute(call: Call): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.execute(call.target, call.value ?? 0n, call.data ?? "0x"),
+    );
+  }
+
+  /**
+   * @notice Executes the calls in order, reverting all of them if a call
+   * fails, unless it sets `allowFailure`.
+   * @dev The results of a batch with `allowFailure` calls are read from the
+   * receipt with `parseBatchResults`.
+   */
+  async executeBatch(calls: Call[]): Promise<ContractTransactionResponse> {
+    const { fragment, args } = executeBatchArgs(calls);
+    return withDecodedErrors(() => this.contract[fragment](...args));
+  }
+
+  /**
+   * @notice Simulates a batch with the runner's address and returns the
+   * result of each call, without sending it.
+   * @dev The runner must be allowed to execute, e.g. the owner.
+   */
+  async previewBatch(calls: Call[]): Promise<BatchCallResult[]> {
+    const { fragment, args } = executeBatchArgs(calls, true);
+    const [success, results] = await withDecodedErrors(() =>
+      this.contract[fragment].staticCall(...args),
+    );
+    return calls.map((call, i) =>
+      batchCallResult(i, call.target, success[i], results[i]),
+    );
+  }
+
+  async getDeposit(): Promise<bigint> {
+    return this.contract.getDeposit();
+  }
+
+  async addDeposit(amount: bigint): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.addDeposit({ value: amount }));
+  }
+
+  async withdrawDepositTo(
+    withdrawAddress: string,
+    amount: bigint,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() =>
+      this.contract.withdrawDepositTo(withdrawAddress, amount),
+    );
+  }
+}
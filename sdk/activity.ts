@@ -0,0 +1,255 @@
+import { Interface, Log, LogDescription, Provider, getAddress } from "ethers";
+import { ACCOUNT_ABI, ENTRY_POINT_ABI } from "./abi";
+import { decodeExecuteCalls } from "./calls";
+import { UserOperation } from "./userop";
+
+const accountInterface = new Interface(ACCOUNT_ABI);
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+/**
+ * @notice The account events of the timeline.
+ */
+export const ACCOUNT_ACTIVITY_EVENTS = [
+  "Initialized",
+  "LightAccountInitialized",
+  "OwnershipTransferStarted",
+  "OwnershipTransferred",
+  "GuardiansUpdated",
+] as const;
+
+/**
+ * @notice The kinds of timeline entries: the account events, and the
+ * EntryPoint's `UserOperationEvent` (as `UserOperation`), `Deposited` and
+ * `Withdrawn` for the account.
+ */
+export type AccountActivityKind =
+  | (typeof ACCOUNT_ACTIVITY_EVENTS)[number]
+  | "UserOperation"
+  | "Deposited"
+  | "Withdrawn";
+
+/**
+ * @notice A call of a user operation, with its value as a decimal string.
+ */
+export interface ActivityCall {
+  target: string;
+  value: string;
+  data: string;
+  allowFailure?: boolean;
+}
+
+/**
+ * @notice An entry of the timeline of an account.
+ * @dev Plain JSON: integers are decimal strings. `calls` are decoded from the
+ * `execute`/`executeBatch` calldata of a user operation sent with `handleOps`,
+ * and are `undefined` when the operation called another function or came
+ * through another contract.
+ */
+export interface AccountActivity {
+  account: string;
+  kind: AccountActivityKind;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | boolean>;
+  calls?: ActivityCall[];
+}
+
+function plainArgs(parsed: LogDescription): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value = parsed.args[i];
+    args[input.name] =
+      typeof value === "boolean"
+        ? value
+        : typeof value === "bigint"
+        ? value.toString()
+        : String(value);
+  });
+  return args;
+}
+
+function addressTopic(address: string): string {
+  return `0x${getAddress(address).slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+/**
+ * @notice Decodes the calls of the user operation of `sender` with `nonce` in
+ * a `handleOps` transaction.
+ */
+export function decodeUserOperationCalls(
+  handleOpsData: string,
+  sender: string,
+  nonce: bigint,
+): ActivityCall[] | undefined {
+  let parsed;
+  try {
+    parsed = entryPointInterface.parseTransaction({ data: handleOpsData });
+  } catch {
+    return undefined;
+  }
+  if (parsed?.name !== "handleOps") {
+    return undefined;
+  }
+  // @dev The decoded structs also read by name, as `UserOperation` fields.
+  const ops: UserOperation[] = parsed.args.ops;
+  const op = ops.find(
+    (op) => getAddress(op.sender) === getAddress(sender) && op.nonce === nonce,
+  );
+  return decodeExecuteCalls(op?.callData ?? "0x")?.map((call) => ({
+    target: getAddress(call.target),
+    value: (call.value ?? 0n).toString(),
+    data: call.data ?? "0x",
+    ...(call.allowFailure === undefined
+      ? {}
+      : { allowFailure: call.allowFailure }),
+  }));
+}
+
+/**
+ * @notice Reads and decodes the activity of accounts between two blocks, in
+ * chain order.
+ * @param entryPoint The EntryPoint the accounts use.
+ */
+export async function fetchAccountActivity(
+  provider: Provider,
+  accounts: string[],
+  entryPoint: string,
+  fromBlock: number,
+  toBlock: number,
+): Promise<AccountActivity[]> {
+  if (accounts.length === 0 || fromBlock > toBlock) {
+    return [];
+  }
+  const senders = accounts.map(addressTopic);
+  const accountTopics = ACCOUNT_ACTIVITY_EVENTS.map(
+    (name) => accountInterface.getEvent(name)!.topicHash,
+  );
+  const [userOperation, deposited, withdrawn] = [
+    "UserOperationEvent",
+    "Deposited",
+    "Withdrawn",
+  ].map((name) => entryPointInterface.getEvent(name)!.topicHash);
+
+  const [accountLogs, operationLogs, depositLogs] = await Promise.all([
+    provider.getLogs({
+      address: accounts,
+      topics: [accountTopics],
+      fromBlock,
+      toBlock,
+    }),
+    provider.getLogs({
+      address: entryPoint,
+      topics: [userOperation, null, senders],
+      fromBlock,
+      toBlock,
+    }),
+    provider.getLogs({
+      address: entryPoint,
+      topics: [[deposited, withdrawn], senders],
+      fromBlock,
+      toBlock,
+    }),
+  ]);
+  const logs = [...accountLogs, ...operationLogs, ...depositLogs].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.index - b.index,
+  );
+
+  const timestamps = new Map<number, Promise<number>>();
+  const transactions = new Map<string, Promise<string>>();
+  const timestampOf = (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) {
+      timestamps.set(
+        blockNumber,
+        provider.getBlock(blockNumber).then((block) => block!.timestamp),
+      );
+    }
+    return timestamps.get(blockNumber)!;
+  };
+  const inputOf = (hash: string) => {
+    if (!transactions.has(hash)) {
+      transactions.set(
+        hash,
+        provider.getTransaction(hash).then((tx) => tx?.data ?? "0x"),
+      );
+    }
+    return transactions.get(hash)!;
+  };
+
+  return Promise.all(
+    logs.map(async (log: Log): Promise<AccountActivity> => {
+      const fromAccount = getAddress(log.address) !== getAddress(entryPoint);
+      const parsed = (
+        fromAccount ? accountInterface : entryPointInterface
+      ).parseLog({ topics: [...log.topics], data: log.data })!;
+      const args = plainArgs(parsed);
+      const entry: AccountActivity = {
+        account: fromAccount
+          ? getAddress(log.address)
+          : getAddress(parsed.args.sender ?? parsed.args.account),
+        kind:
+          parsed.name === "UserOperationEvent"
+            ? "UserOperation"
+            : (parsed.name as AccountActivityKind),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: await timestampOf(log.blockNumber),
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      };
+      if (parsed.name === "UserOperationEvent") {
+        entry.calls = decodeUserOperationCalls(
+          await inputOf(log.transactionHash),
+          entry.account,
+          parsed.args.nonce,
+        );
+      }
+      return entry;
+    }),
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * @notice Exports a timeline as CSV, one row per entry.
+ * @dev `args` are written as `name=value` pairs and `calls` as
+ * `target:value:selector`, separated by spaces.
+ */
+export function formatActivityCsv(entries: AccountActivity[]): string {
+  const header = [
+    "date",
+    "blockNumber",
+    "transactionHash",
+    "logIndex",
+    "account",
+    "kind",
+    "args",
+    "calls",
+  ];
+  const rows = entries.map((entry) => [
+    new Date(entry.timestamp * 1000).toISOString(),
+    String(entry.blockNumber),
+    entry.transactionHash,
+    String(entry.logIndex),
+    entry.account,
+    entry.kind,
+    Object.entries(entry.args)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(" "),
+    (entry.calls ?? [])
+      .map(
+        ({ target, value, data }) => `${target}:${value}:${data.slice(0, 10)}`,
+      )
+      .join(" "),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n")
+    .concat("\n");
+}
@@ -0,0 +1,173 @@
+import {
+  BigNumberish,
+  Interface,
+  TransactionReceipt,
+  getAddress,
+} from "ethers";
+import { ACCOUNT_ABI, TOKEN_ABI } from "./abi";
+import { Call, encodeExecuteBatch } from "./calls";
+import { TyronAccountError, decodeAccountError } from "./errors";
+
+const accountInterface = new Interface(ACCOUNT_ABI);
+const tokenInterface = new Interface(TOKEN_ABI);
+
+const RESULTS_FRAGMENT = "executeBatch(address[],uint256[],bytes[],bool[])";
+
+/**
+ * @notice The outcome of a call of a batch executed with results.
+ * @dev `result` is the data returned by the call, or its revert data, which
+ * `error` decodes when it can.
+ */
+export interface BatchCallResult {
+  index: number;
+  target: string;
+  success: boolean;
+  result: string;
+  error?: TyronAccountError;
+}
+
+export interface BatchCallOptions {
+  // @dev Lets the call fail without reverting the batch.
+  allowFailure?: boolean;
+}
+
+/**
+ * @notice The result of the call at `index` of a batch.
+ */
+export function batchCallResult(
+  index: number,
+  target: string,
+  success: boolean,
+  result: string,
+): BatchCallResult {
+  return {
+    index,
+    target: getAddress(target),
+    success,
+    result,
+    error: success ? undefined : decodeAccountError(result),
+  };
+}
+
+/**
+ * @notice Builds a batch of native transfers and token calls for the account.
+ * @dev The batch runs with `TyronAccount.executeBatch(builder.calls)`, or in a
+ * user operation with `callData: builder.encode()`.
+ */
+export class BatchBuilder {
+  private readonly entries: Call[] = [];
+
+  get calls(): Call[] {
+    return [...this.entries];
+  }
+
+  add(call: Call): this {
+    this.entries.push(call);
+    return this;
+  }
+
+  native(to: string, value: bigint, options: BatchCallOptions = {}): this {
+    return this.add({ target: to, value, ...options });
+  }
+
+  erc20Transfer(
+    token: string,
+    to: string,
+    amount: BigNumberish,
+    options: BatchCallOptions = {},
+  ): this {
+    return this.add({
+      target: token,
+      data: tokenInterface.encodeFunctionData("transfer", [to, amount]),
+      ...options,
+    });
+  }
+
+  erc20Approve(
+    token: string,
+    spender: string,
+    amount: BigNumberish,
+    options: BatchCallOptions = {},
+  ): this {
+    return this.add({
+      target: token,
+      data: tokenInterface.encodeFunctionData("approve", [spender, amount]),
+      ...options,
+    });
+  }
+
+  /**
+   * @notice Adds a `safeTransferFrom` of an ERC721 token, e.g. from the account.
+   */
+  erc721Transfer(
+    token: string,
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    options: BatchCallOptions = {},
+  ): this {
+    return this.add({
+      target: token,
+      data: tokenInterface.encodeFunctionData("safeTransferFrom", [
+        from,
+        to,
+        tokenId,
+      ]),
+      ...options,
+    });
+  }
+
+  /**
+   * @notice Encodes the batch as `executeBatch` calldata.
+   * @param withResults Uses the overload that returns and emits the result of
+   * each call, even if every call is required.
+   */
+  encode(withResults?: boolean): string {
+    if (this.entries.length === 0) {
+      throw new Error("BatchBuilder: the batch is empty.");
+    }
+    return encodeExecuteBatch(this.entries, withResults);
+  }
+}
+
+/**
+ * @notice Decodes the data returned by the `executeBatch` overload with
+ * results, e.g. from a `staticCall`.
+ * @param calls The calls of the batch, for their targets.
+ */
+export function decodeBatchResults(
+  calls: Call[],
+  data: string,
+): BatchCallResult[] {
+  const [success, results] = accountInterface.decodeFunctionResult(
+    RESULTS_FRAGMENT,
+    data,
+  );
+  return calls.map((call, i) =>
+    batchCallResult(i, call.target, success[i], results[i]),
+  );
+}
+
+/**
+ * @notice Reads the results of the batches an account executed in a
+ * transaction from its `BatchCallExecuted` events, in order.
+ */
+export function parseBatchResults(
+  receipt: TransactionReceipt,
+  account: string,
+): BatchCallResult[] {
+  return receipt.logs.flatMap((log) => {
+    if (getAddress(log.address) !== getAddress(account)) {
+      return [];
+    }
+    const parsed = accountInterface.parseLog({
+      topics: [...log.topics],
+      data: log.data,
+    });
+    if (parsed?.name !== "BatchCallExecuted") {
+      return [];
+    }
+    const { index, target, success, result } = parsed.args;
+    return [batchCallResult(Number(index), target, success, result)];
+  });
+}
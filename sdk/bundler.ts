@@ -0,0 +1,260 @@
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionReceipt,
+  Interface,
+  Signer,
+  getAddress,
+} from "ethers";
+import { ENTRY_POINT_ABI } from "./abi";
+import { BytecodeArtifact } from "./account";
+import { revertDataOf } from "./errors";
+import { signValidatorUserOp } from "./modules";
+import { PaymasterDataSource } from "./paymaster";
+import { signSessionUserOp } from "./session";
+import {
+  PASSKEY_VERIFICATION_GAS_LIMIT,
+  WebAuthnSigner,
+  signPasskeyUserOp,
+} from "./webauthn";
+import {
+  UserOperation,
+  UserOperationRequest,
+  buildUserOp,
+  getUserOpHash,
+  signUserOp,
+} from "./userop";
+
+const entryPointInterface = new Interface(ENTRY_POINT_ABI);
+
+/**
+ * @notice The outcome of a user operation included by `handleOps`.
+ */
+export interface UserOperationReceipt {
+  userOpHash: string;
+  sender: string;
+  nonce: bigint;
+  success: boolean;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  // @dev The revert data of the account call, if it failed.
+  revertReason?: string;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * @notice Thrown when the EntryPoint rejects a user operation during
+ * validation (`FailedOp`), e.g. "AA24 signature error".
+ */
+export class FailedOpError extends Error {
+  readonly opIndex: bigint;
+  readonly reason: string;
+
+  constructor(opIndex: bigint, reason: string) {
+    super(`FailedOp(${opIndex}, "${reason}")`);
+    this.name = "FailedOpError";
+    this.opIndex = opIndex;
+    this.reason = reason;
+  }
+}
+
+/**
+ * @notice Deploys an EntryPoint, e.g. from
+ * `hre.artifacts.readArtifact("EntryPoint")`, for local networks.
+ */
+export async function deployEntryPoint(
+  signer: Signer,
+  artifact: BytecodeArtifact,
+): Promise<string> {
+  const factory = new ContractFactory(
+    ENTRY_POINT_ABI,
+    artifact.bytecode,
+    signer,
+  );
+  const entryPoint = await factory.deploy();
+  await entryPoint.waitForDeployment();
+  return entryPoint.getAddress();
+}
+
+/**
+ * @notice A minimal in-process bundler: it submits user operations to the
+ * EntryPoint's `handleOps` from its own signer, which collects the fees.
+ */
+export class LocalBundler {
+  readonly entryPointAddress: string;
+  readonly entryPoint: Contract;
+
+  constructor(
+    entryPointAddress: string,
+    readonly signer: Signer,
+  ) {
+    this.entryPointAddress = getAddress(entryPointAddress);
+    this.entryPoint = new Contract(
+      this.entryPointAddress,
+      ENTRY_POINT_ABI,
+      signer,
+    );
+  }
+
+  async chainId(): Promise<bigint> {
+    return (await this.signer.provider!.getNetwork()).chainId;
+  }
+
+  async buildUserOp(request: UserOperationRequest): Promise<UserOperation> {
+    return buildUserOp(this.entryPointAddress, this.signer, request);
+  }
+
+  /**
+   * @notice Builds and signs a user operation with the account owner's key.
+   */
+  async buildSignedUserOp(
+    request: UserOperationRequest,
+    owner: Signer,
+  ): Promise<UserOperation> {
+    const op = await this.buildUserOp(request);
+    return signUserOp(op, owner, this.entryPointAddress, await this.chainId());
+  }
+
+  /**
+   * @notice Builds a user operation paid by a paymaster, e.g. with the
+   * `paymasterAndData` of a sponsor service (`sponsorService`), and signs it
+   * with the account owner's key.
+   */
+  async buildSponsoredUserOp(
+    request: UserOperationRequest,
+    owner: Signer,
+    paymaster: PaymasterDataSource,
+  ): Promise<UserOperation> {
+    const op = await this.buildUserOp(request);
+    return signUserOp(
+      { ...op, paymasterAndData: await paymaster(op) },
+      owner,
+      this.entryPointAddress,
+      await this.chainId(),
+    );
+  }
+
+  /**
+   * @notice Builds and signs a user operation with a session key of the account.
+   */
+  async buildSessionUserOp(
+    request: UserOperationRequest,
+    sessionKey: Signer,
+  ): Promise<UserOperation> {
+    const op = await this.buildUserOp(request);
+    return signSessionUserOp(
+      op,
+      sessionKey,
+      this.entryPointAddress,
+      await this.chainId(),
+    );
+  }
+
+  /**
+   * @notice Builds a user operation signed through an ECDSA validator module.
+   */
+  async buildValidatorUserOp(
+    request: UserOperationRequest,
+    validator: string,
+    signer: Signer,
+  ): Promise<UserOperation> {
+    const op = await this.buildUserOp(request);
+    return signValidatorUserOp(
+      op,
+      validator,
+      signer,
+      this.entryPointAddress,
+      await this.chainId(),
+    );
+  }
+
+  /**
+   * @notice Builds and signs a user operation with the owner's passkey,
+   * with enough verification gas for the P-256 verifier.
+   */
+  async buildPasskeyUserOp(
+    request: UserOperationRequest,
+    passkey: WebAuthnSigner,
+  ): Promise<UserOperation> {
+    const op = await this.buildUserOp({
+      verificationGasLimit: PASSKEY_VERIFICATION_GAS_LIMIT,
+      ...request,
+    });
+    return signPasskeyUserOp(
+      op,
+      passkey,
+      this.entryPointAddress,
+      await this.chainId(),
+    );
+  }
+
+  async getUserOpHash(op: UserOperation): Promise<string> {
+    return getUserOpHash(op, this.entryPointAddress, await this.chainId());
+  }
+
+  async sendUserOperation(op: UserOperation): Promise<UserOperationReceipt> {
+    const [receipt] = await this.handleOps([op]);
+    return receipt;
+  }
+
+  /**
+   * @notice Submits a bundle and returns one receipt per user operation.
+   * @dev Validation failures are rethrown as `FailedOpError`.
+   */
+  async handleOps(ops: UserOperation[]): Promise<UserOperationReceipt[]> {
+    const beneficiary = await this.signer.getAddress();
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      const tx = await this.entryPoint.handleOps(ops, beneficiary);
+      receipt = await tx.wait();
+    } catch (error) {
+      throw decodeFailedOp(error) ?? error;
+    }
+
+    const revertReasons = new Map<string, string>();
+    const results: UserOperationReceipt[] = [];
+    for (const log of receipt!.logs) {
+      if (log.address !== this.entryPointAddress) {
+        continue;
+      }
+      const parsed = entryPointInterface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (parsed?.name === "UserOperationRevertReason") {
+        revertReasons.set(parsed.args.userOpHash, parsed.args.revertReason);
+      }
+      if (parsed?.name === "UserOperationEvent") {
+        results.push({
+          userOpHash: parsed.args.userOpHash,
+          sender: parsed.args.sender,
+          nonce: parsed.args.nonce,
+          success: parsed.args.success,
+          actualGasCost: parsed.args.actualGasCost,
+          actualGasUsed: parsed.args.actualGasUsed,
+          receipt: receipt!,
+        });
+      }
+    }
+    for (const result of results) {
+      result.revertReason = revertReasons.get(result.userOpHash);
+    }
+    return results;
+  }
+}
+
+function decodeFailedOp(error: unknown): FailedOpError | undefined {
+  const data = revertDataOf(error);
+  if (!data) {
+    return undefined;
+  }
+  try {
+    const parsed = entryPointInterface.parseError(data);
+    if (parsed?.name === "FailedOp") {
+      return new FailedOpError(parsed.args.opIndex, parsed.args.reason);
+    }
+  } catch {
+    // Not an EntryPoint error.
+  }
+  return undefined;
+}
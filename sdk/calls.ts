@@ -0,0 +1,113 @@
+import { Interface } from "ethers";
+import { ACCOUNT_ABI } from "./abi";
+
+const accountInterface = new Interface(ACCOUNT_ABI);
+
+/**
+ * @notice A call made by the account on behalf of its owner.
+ */
+export interface Call {
+  target: string;
+  value?: bigint;
+  data?: string;
+  // @dev Lets the call fail without reverting its batch (see `executeBatchArgs`).
+  allowFailure?: boolean;
+}
+
+/**
+ * @notice The `executeBatch` overload and arguments for a list of calls.
+ */
+export interface ExecuteBatchArgs {
+  fragment:
+    | "executeBatch(address[],bytes[])"
+    | "executeBatch(address[],uint256[],bytes[])"
+    | "executeBatch(address[],uint256[],bytes[],bool[])";
+  args: unknown[];
+}
+
+/**
+ * @notice Picks the `executeBatch` overload for a list of calls: the
+ * `(dest, func)` one unless one of the calls sends value, and the
+ * `(dest, value, func, allowFailure)` one, which returns and emits the
+ * result of each call, if one of them may fail or `withResults` is set.
+ */
+export function executeBatchArgs(
+  calls: Call[],
+  withResults: boolean = calls.some((call) => call.allowFailure),
+): ExecuteBatchArgs {
+  const dest = calls.map((call) => call.target);
+  const func = calls.map((call) => call.data ?? "0x");
+  if (withResults) {
+    return {
+      fragment: "executeBatch(address[],uint256[],bytes[],bool[])",
+      args: [
+        dest,
+        calls.map((call) => call.value ?? 0n),
+        func,
+        calls.map((call) => call.allowFailure ?? false),
+      ],
+    };
+  }
+  if (calls.some((call) => (call.value ?? 0n) > 0n)) {
+    const value = calls.map((call) => call.value ?? 0n);
+    return {
+      fragment: "executeBatch(address[],uint256[],bytes[])",
+      args: [dest, value, func],
+    };
+  }
+  return { fragment: "executeBatch(address[],bytes[])", args: [dest, func] };
+}
+
+/**
+ * @notice Encodes a single call as `execute(dest, value, func)` calldata.
+ */
+export function encodeExecute(call: Call): string {
+  return accountInterface.encodeFunctionData("execute", [
+    call.target,
+    call.value ?? 0n,
+    call.data ?? "0x",
+  ]);
+}
+
+/**
+ * @notice Encodes a list of calls as `executeBatch` calldata.
+ */
+export function encodeExecuteBatch(
+  calls: Call[],
+  withResults?: boolean,
+): string {
+  const { fragment, args } = executeBatchArgs(calls, withResults);
+  return accountInterface.encodeFunctionData(fragment, args);
+}
+
+/**
+ * @notice Decodes `execute` or `executeBatch` calldata (any overload) into
+ * the calls of the account.
+ * @return The calls, or `undefined` for calldata of another function.
+ */
+export function decodeExecuteCalls(callData: string): Call[] | undefined {
+  let parsed;
+  try {
+    parsed = accountInterface.parseTransaction({ data: callData });
+  } catch {
+    return undefined;
+  }
+  if (parsed?.name === "execute") {
+    const [target, value, data] = parsed.args;
+    return [{ target, value, data }];
+  }
+  if (parsed?.name !== "executeBatch") {
+    return undefined;
+  }
+  const { dest, func } = parsed.args;
+  const value: bigint[] | undefined =
+    parsed.fragment.inputs.length > 2 ? parsed.args.value : undefined;
+  const allowFailure: boolean[] | undefined =
+    parsed.fragment.inputs.length > 3 ? parsed.args.allowFailure : undefined;
+  return dest.map((target: string, i: number) => ({
+    target,
+    value: value?.[i] ?? 0n,
+    data: func[i],
+    ...(allowFailure ? { allowFailure: allowFailure[i] } : {}),
+  }));
+}
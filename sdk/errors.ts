@@ -0,0 +1,153 @@
+import { Interface, isHexString } from "ethers";
+import { ACCOUNT_ABI } from "./abi";
+
+const accountInterface = new Interface(ACCOUNT_ABI);
+
+/**
+ * @notice Custom errors declared by `TyronSSIAccount`, plus the generic
+ * `Error(string)` used by its `require` statements.
+ */
+export type AccountErrorName =
+  | "ArrayLengthMismatch"
+  | "InvalidOwner"
+  | "NotAuthorized"
+  | "NoPendingRecovery"
+  | "RecoveryNotReady"
+  | "RecoveryExpired"
+  | "RecoveryRequestExpired"
+  | "DuplicateGuardian"
+  | "InvalidRecoveryDelay"
+  | "InvalidThresholdPolicy"
+  | "InvalidGuardianWeight"
+  | "UnreachableThreshold"
+  | "UnregisteredGuardian"
+  | "InsufficientRecoveryVotes"
+  | "InvalidSession"
+  | "SessionNotActive"
+  | "SessionCallNotAllowed"
+  | "SessionValueExceeded"
+  | "SpendingPolicyNotReady"
+  | "EntryPointWithdrawal"
+  | "UpgradeNotReady"
+  | "InvalidPasskey"
+  | "InvalidModule"
+  | "ModuleNotInstalled"
+  | "NoFallbackHandler"
+  | "Frozen"
+  | "FreezeCooldown"
+  | "TargetNotAllowed"
+  | "SelectorBlocked"
+  | "DailyLimitExceeded"
+  | "UnknownTokenCall"
+  | "PolicyChangeNotReady"
+  | "PolicyChangeNotScheduled"
+  | "InvalidInitialization"
+  | "NotInitializing"
+  | "Error";
+
+/**
+ * @notice A decoded revert of a `TyronSSIAccount` call.
+ */
+export class TyronAccountError extends Error {
+  readonly errorName: AccountErrorName;
+  readonly args: unknown[];
+  readonly cause: unknown;
+
+  constructor(errorName: AccountErrorName, args: unknown[], cause: unknown) {
+    super(
+      errorName === "Error"
+        ? String(args[0])
+        : `${errorName}(${args.map(String).join(", ")})`,
+    );
+    this.name = "TyronAccountError";
+    this.errorName = errorName;
+    this.args = args;
+    this.cause = cause;
+  }
+}
+
+/**
+ * @notice Decodes raw revert data returned by the account.
+ * @return The decoded error, or `undefined` if the data is not recognised.
+ */
+export function decodeAccountError(
+  data: string,
+  cause?: unknown,
+): TyronAccountError | undefined {
+  if (!data || data === "0x") {
+    return undefined;
+  }
+  try {
+    const parsed = accountInterface.parseError(data);
+    if (parsed) {
+      return new TyronAccountError(
+        parsed.name as AccountErrorName,
+        [...parsed.args],
+        cause,
+      );
+    }
+  } catch {
+    // Falls through to the standard `Error(string)` decoding.
+  }
+  try {
+    const [reason] = Interface.from(["error Error(string)"]).decodeErrorResult(
+      "Error",
+      data,
+    );
+    return new TyronAccountError("Error", [reason], cause);
+  } catch {
+    return undefined;
+  }
+}
+
+// @dev The fields through which ethers and Hardhat nest the error of a call.
+interface NestedError {
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  cause?: unknown;
+}
+
+/**
+ * @notice Finds the revert data of a failed call, whether it was raised by
+ * ethers (`CALL_EXCEPTION`) or by the Hardhat provider.
+ */
+export function revertDataOf(error: unknown): string | undefined {
+  let current = error;
+  for (
+    let depth = 0;
+    typeof current === "object" && current !== null && depth < 4;
+    depth++
+  ) {
+    const { data, error, info, cause } = current as NestedError;
+    if (typeof data === "string" && isHexString(data)) {
+      return data;
+    }
+    if (
+      typeof data === "object" &&
+      data !== null &&
+      "data" in data &&
+      typeof data.data === "string" &&
+      isHexString(data.data)
+    ) {
+      return data.data;
+    }
+    current = error ?? info?.error ?? cause;
+  }
+  return undefined;
+}
+
+/**
+ * @notice Runs `action` and rethrows call exceptions as `TyronAccountError`
+ * whenever the revert data can be decoded.
+ */
+export async function withDecodedErrors<T>(
+  action: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    const data = revertDataOf(error);
+    throw (data && decodeAccountError(data, error)) || error;
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  AbiCoder,
+  BigNumberish,
+  Contract,
+  ContractFactory,
+  ContractRunner,
+  Interface,
+  Signer,
+  concat,
+  getCreate2Address,
+  keccak256,
+  toBeHex,
+  zeroPadValue,
+} from "ethers";
+import { ACCOUNT_ABI, FACTORY_ABI } from "./abi";
+import { BytecodeArtifact } from "./account";
+import { withDecodedErrors } from "./errors";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * @notice The values an account address is derived from.
+ */
+export interface CounterfactualAccountParams {
+  owner: string;
+  guardians?: string[];
+  guardianIds?: BigNumberish[];
+  salt?: BigNumberish;
+}
+
+function createAccountArgs(params: CounterfactualAccountParams) {
+  return [
+    params.owner,
+    params.guardians ?? [],
+    params.guardianIds ?? [],
+    params.salt ?? 0n,
+  ];
+}
+
+/**
+ * @notice Computes an account address offline, the same way as
+ * `TyronSSIAccountFactory.getAddress`.
+ * @param implementation The factory's `accountImplementation`.
+ * @param proxyArtifact The compiled `ERC1967Proxy`.
+ */
+export function computeAccountAddress(
+  factory: string,
+  implementation: string,
+  proxyArtifact: BytecodeArtifact,
+  params: CounterfactualAccountParams,
+): string {
+  const initializeCall = new Interface(ACCOUNT_ABI).encodeFunctionData(
+    "initialize",
+    [params.owner, params.guardians ?? [], params.guardianIds ?? []],
+  );
+  const constructorArgs = abiCoder.encode(
+    ["address", "bytes"],
+    [implementation, initializeCall],
+  );
+  return getCreate2Address(
+    factory,
+    zeroPadValue(toBeHex(params.salt ?? 0n), 32),
+    keccak256(concat([proxyArtifact.bytecode, constructorArgs])),
+  );
+}
+
+/**
+ * @notice Client of a deployed `TyronSSIAccountFactory`.
+ */
+export class TyronAccountFactory {
+  readonly address: string;
+  readonly contract: Contract;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, FACTORY_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): TyronAccountFactory {
+    return new TyronAccountFactory(address, runner);
+  }
+
+  /**
+   * @param implementation The account implementation behind every proxy.
+   */
+  static async deploy(
+    signer: Signer,
+    artifact: BytecodeArtifact,
+    implementation: string,
+  ): Promise<TyronAccountFactory> {
+    const factory = new ContractFactory(FACTORY_ABI, artifact.bytecode, signer);
+    const contract = await factory.deploy(implementation);
+    await contract.waitForDeployment();
+    return new TyronAccountFactory(await contract.getAddress(), signer);
+  }
+
+  async accountImplementation(): Promise<string> {
+    return this.contract.accountImplementation();
+  }
+
+  async entryPoint(): Promise<string> {
+    return this.contract.entryPoint();
+  }
+
+  /**
+   * @notice The address the account has, or will have once created.
+   */
+  async getAddress(params: CounterfactualAccountParams): Promise<string> {
+    return this.contract.getFunction("getAddress")(
+      ...createAccountArgs(params),
+    );
+  }
+
+  async isDeployed(params: CounterfactualAccountParams): Promise<boolean> {
+    return this.hasCode(await this.getAddress(params));
+  }
+
+  /**
+   * @notice Deploys the account on first use and returns its address.
+   * @dev Does not send a transaction if the account already exists.
+   */
+  async createAccount(params: CounterfactualAccountParams): Promise<string> {
+    const address = await this.getAddress(params);
+    if (await this.hasCode(address)) {
+      return address;
+    }
+    const tx = await withDecodedErrors(() =>
+      this.contract.createAccount(...createAccountArgs(params)),
+    );
+    await tx.wait();
+    return address;
+  }
+
+  /**
+   * @notice The `initCode` of a user operation that deploys the account.
+   */
+  initCode(params: CounterfactualAccountParams): string {
+    return concat([
+      this.address,
+      this.contract.interface.encodeFunctionData(
+        "createAccount",
+        createAccountArgs(params),
+      ),
+    ]);
+  }
+
+  private async hasCode(address: string): Promise<boolean> {
+    return (await this.contract.runner!.provider!.getCode(address)) !== "0x";
+  }
+}
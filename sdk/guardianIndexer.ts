@@ -0,0 +1,76 @@
+import { EventLog } from "ethers";
+import { TyronAccount } from "./account";
+import { GuardianRecord, GuardianSource } from "./guardians";
+
+/**
+ * @notice A guardian rebuilt from the account's logs.
+ */
+export interface IndexedGuardian extends GuardianRecord {
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * @notice Rebuilds the current guardian set of an account from its
+ * `GuardianAdded` and `GuardianRemoved` events.
+ * @dev Removals are replayed like the account's `EnumerableSet` (the last
+ * guardian takes the removed one's place), so the result is in the same
+ * order as `getGuardians()`. Guardians registered by DNS NFT ID are resolved
+ * to the NFT's current holder, like `getGuardians()` does.
+ */
+export async function indexGuardians(
+  account: TyronAccount,
+  fromBlock: number = 0,
+  toBlock?: number,
+): Promise<IndexedGuardian[]> {
+  const contract = account.contract;
+  const [added, removed] = await Promise.all([
+    contract.queryFilter(contract.filters.GuardianAdded(), fromBlock, toBlock),
+    contract.queryFilter(
+      contract.filters.GuardianRemoved(),
+      fromBlock,
+      toBlock,
+    ),
+  ]);
+  const logs = [...added, ...removed]
+    .filter((log): log is EventLog => log instanceof EventLog)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const guardians: IndexedGuardian[] = [];
+  const positions = new Map<string, number>();
+  for (const log of logs) {
+    const guardianHash: string = log.args.guardianHash;
+    if (log.eventName === "GuardianAdded") {
+      positions.set(guardianHash, guardians.length);
+      guardians.push({
+        guardianHash,
+        source: Number(log.args.source) as GuardianSource,
+        guardian: log.args.guardian,
+        tokenId: log.args.tokenId,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+      continue;
+    }
+    const position = positions.get(guardianHash);
+    if (position === undefined) {
+      continue;
+    }
+    const last = guardians.pop()!;
+    if (position < guardians.length) {
+      guardians[position] = last;
+      positions.set(last.guardianHash, position);
+    }
+    positions.delete(guardianHash);
+  }
+  await Promise.all(
+    guardians
+      .filter(({ source }) => source === GuardianSource.DnsToken)
+      .map(async (guardian) => {
+        guardian.guardian = await contract.resolveGuardian(
+          guardian.guardianHash,
+        );
+      }),
+  );
+  return guardians;
+}
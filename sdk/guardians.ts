@@ -0,0 +1,45 @@
+import { BigNumberish, solidityPackedKeccak256 } from "ethers";
+
+/**
+ * @notice Where a guardian was registered from (`TyronSSIAccount.GuardianSource`).
+ */
+export enum GuardianSource {
+  Address = 0,
+  DnsToken = 1,
+}
+
+/**
+ * @notice A registered guardian (`TyronSSIAccount.Guardian`).
+ * @dev `tokenId` is zero for guardians registered by address. Guardians
+ * registered by DNS NFT ID are hashed with `hashTokenGuardian`, and `guardian`
+ * is the current holder of the NFT (zero if it was burned).
+ */
+export interface GuardianRecord {
+  guardianHash: string;
+  source: GuardianSource;
+  guardian: string;
+  tokenId: bigint;
+}
+
+/**
+ * @notice Hashes a guardian address the same way the account does,
+ * i.e. `keccak256(abi.encodePacked(guardian))`.
+ */
+export function hashGuardian(guardian: string): string {
+  return solidityPackedKeccak256(["address"], [guardian]);
+}
+
+/**
+ * @notice Hashes a guardian DNS NFT ID the same way the account does,
+ * i.e. `keccak256(abi.encodePacked(tokenId))`.
+ */
+export function hashTokenGuardian(tokenId: BigNumberish): string {
+  return solidityPackedKeccak256(["uint256"], [tokenId]);
+}
+
+/**
+ * @notice Hashes a list of guardian addresses, keeping their order.
+ */
+export function hashGuardians(guardians: string[]): string[] {
+  return guardians.map(hashGuardian);
+}
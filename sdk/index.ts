@@ -0,0 +1,21 @@
+export * from "./abi";
+export * from "./account";
+export * from "./activity";
+export * from "./batch";
+export * from "./bundler";
+export * from "./calls";
+export * from "./errors";
+export * from "./factory";
+export * from "./guardianIndexer";
+export * from "./guardians";
+export * from "./inheritance";
+export * from "./messages";
+export * from "./modules";
+export * from "./paymaster";
+export * from "./recovery";
+export * from "./session";
+export * from "./snapshot";
+export * from "./spendingPolicy";
+export * from "./threshold";
+export * from "./userop";
+export * from "./webauthn";
@@ -0,0 +1,204 @@
+import {
+  AbiCoder,
+  BigNumberish,
+  Contract,
+  ContractFactory,
+  ContractRunner,
+  ContractTransactionResponse,
+  Signer,
+  ZeroAddress,
+} from "ethers";
+import { INHERITANCE_MODULE_ABI } from "./abi";
+import { BytecodeArtifact } from "./account";
+import { Call } from "./calls";
+import { ModuleInstallation, ModuleType } from "./modules";
+
+/**
+ * @notice The inheritance policy of an account (`TyronInheritanceModule.getPolicy`).
+ * @dev Periods are in seconds.
+ */
+export interface InheritancePolicy {
+  beneficiaries: string[];
+  inactivityPeriod: bigint;
+  challengePeriod: bigint;
+}
+
+/**
+ * @notice An ERC721 token of an account to sweep.
+ */
+export interface InheritedNft {
+  token: string;
+  tokenId: BigNumberish;
+}
+
+/**
+ * @notice Where an account stands with its inheritance policy, at the latest block.
+ * @dev `inactive` tells whether a beneficiary can open a claim, unless one
+ * is open already. `claim` is `undefined` when no claim is open, including
+ * when the owner was active since a claim was opened.
+ */
+export interface InheritanceStatus {
+  lastActivity: bigint;
+  inactiveAt: bigint;
+  inactive: boolean;
+  claim?: {
+    beneficiary: string;
+    executableAt: bigint;
+    executable: boolean;
+  };
+}
+
+/**
+ * @notice Encodes a policy as the data of `installModule`.
+ */
+export function encodeInheritancePolicy(policy: InheritancePolicy): string {
+  return AbiCoder.defaultAbiCoder().encode(
+    ["address[]", "uint256", "uint256"],
+    [policy.beneficiaries, policy.inactivityPeriod, policy.challengePeriod],
+  );
+}
+
+/**
+ * @notice Client of a deployed `TyronInheritanceModule`.
+ * @dev The policy of an account can only be changed by the account itself,
+ * so the owner's setters return calls for `TyronAccount.execute`. Claims are
+ * sent by the beneficiary the client is connected with.
+ */
+export class TyronInheritanceModule {
+  readonly address: string;
+  readonly contract: Contract;
+  /**
+   * @notice The module as an executor, for `TyronAccount.installModule`
+   * with `encodeInheritancePolicy(policy)` as data.
+   */
+  readonly installation: ModuleInstallation;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, INHERITANCE_MODULE_ABI, runner);
+    this.installation = { type: ModuleType.Executor, module: address };
+  }
+
+  static connect(
+    address: string,
+    runner: ContractRunner,
+  ): TyronInheritanceModule {
+    return new TyronInheritanceModule(address, runner);
+  }
+
+  /**
+   * @notice Returns a client for the same module with another runner, e.g.
+   * a beneficiary.
+   */
+  connect(runner: ContractRunner): TyronInheritanceModule {
+    return new TyronInheritanceModule(this.address, runner);
+  }
+
+  /**
+   * @notice Deploys the module, which can serve every account of a network.
+   * @param artifact The compiled `TyronInheritanceModule`.
+   */
+  static async deploy(
+    signer: Signer,
+    artifact: BytecodeArtifact,
+  ): Promise<TyronInheritanceModule> {
+    const factory = new ContractFactory(
+      INHERITANCE_MODULE_ABI,
+      artifact.bytecode,
+      signer,
+    );
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    return new TyronInheritanceModule(await contract.getAddress(), signer);
+  }
+
+  setPolicy(policy: InheritancePolicy): Call {
+    return this.call("setPolicy", [
+      policy.beneficiaries,
+      policy.inactivityPeriod,
+      policy.challengePeriod,
+    ]);
+  }
+
+  /**
+   * @notice Clears the open claim. Any call the owner executes voids it too.
+   */
+  cancelClaim(): Call {
+    return this.call("cancelClaim", []);
+  }
+
+  /**
+   * @notice The policy of the account, or `undefined` if it has none.
+   */
+  async getPolicy(account: string): Promise<InheritancePolicy | undefined> {
+    const [beneficiaries, inactivityPeriod, challengePeriod] =
+      await this.contract.getPolicy(account);
+    if (beneficiaries.length === 0) {
+      return undefined;
+    }
+    return {
+      beneficiaries: [...beneficiaries],
+      inactivityPeriod,
+      challengePeriod,
+    };
+  }
+
+  async getStatus(account: string): Promise<InheritanceStatus> {
+    const [lastActivity, inactiveAt, [beneficiary, executableAt], block] =
+      await Promise.all([
+        this.contract.getLastActivity(account),
+        this.contract.getInactiveAt(account),
+        this.contract.getClaim(account),
+        this.contract.runner!.provider!.getBlock("latest"),
+      ]);
+    const now = BigInt(block!.timestamp);
+    return {
+      lastActivity,
+      inactiveAt,
+      inactive: now >= inactiveAt,
+      claim:
+        beneficiary === ZeroAddress
+          ? undefined
+          : { beneficiary, executableAt, executable: now >= executableAt },
+    };
+  }
+
+  /**
+   * @notice Claims the inactive account for the connected beneficiary.
+   */
+  async openClaim(account: string): Promise<ContractTransactionResponse> {
+    return this.contract.openClaim(account);
+  }
+
+  /**
+   * @notice Makes the claimant the pending owner of the account, which it
+   * then accepts with `TyronAccount.acceptOwnership`.
+   */
+  async claimOwnership(account: string): Promise<ContractTransactionResponse> {
+    return this.contract.claimOwnership(account);
+  }
+
+  /**
+   * @notice Sends the native balance, the whole balance of the ERC20 tokens
+   * and the ERC721 tokens of the account to the claimant.
+   */
+  async sweep(
+    account: string,
+    erc20Tokens: string[] = [],
+    nfts: InheritedNft[] = [],
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.sweep(
+      account,
+      erc20Tokens,
+      nfts.map(({ token }) => token),
+      nfts.map(({ tokenId }) => tokenId),
+    );
+  }
+
+  private call(method: string, args: unknown[]): Call {
+    return {
+      target: this.address,
+      data: this.contract.interface.encodeFunctionData(method, args),
+    };
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  AbiCoder,
+  BytesLike,
+  Contract,
+  Provider,
+  Signer,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  concat,
+  hashMessage,
+  keccak256,
+  toUtf8Bytes,
+} from "ethers";
+import { ACCOUNT_ABI } from "./abi";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+// keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)")
+export const DOMAIN_SEPARATOR_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)",
+  ),
+);
+
+// keccak256("LightAccountMessage(bytes message)")
+export const LA_MSG_TYPEHASH = keccak256(
+  toUtf8Bytes("LightAccountMessage(bytes message)"),
+);
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+export const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+/**
+ * @notice The EIP-712 types of the messages the account's owner signs.
+ */
+export const LIGHT_ACCOUNT_MESSAGE_TYPES: Record<string, TypedDataField[]> = {
+  LightAccountMessage: [{ name: "message", type: "bytes" }],
+};
+
+/**
+ * @notice The values the account binds its message hashes to.
+ */
+export interface AccountDomain {
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+/**
+ * @notice The account's EIP-712 domain, as returned by `eip712Domain()`.
+ */
+export function accountTypedDataDomain(domain: AccountDomain): TypedDataDomain {
+  return {
+    name: "TyronSSIAccount",
+    version: "1",
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+/**
+ * @notice Mirrors `TyronSSIAccount.domainSeparator()`.
+ */
+export function domainSeparator(domain: AccountDomain): string {
+  return TypedDataEncoder.hashDomain(accountTypedDataDomain(domain));
+}
+
+/**
+ * @notice Mirrors `TyronSSIAccount.encodeMessageData(message)`.
+ */
+export function encodeMessageData(
+  domain: AccountDomain,
+  message: BytesLike,
+): string {
+  const messageHash = keccak256(
+    abiCoder.encode(
+      ["bytes32", "bytes32"],
+      [LA_MSG_TYPEHASH, keccak256(message)],
+    ),
+  );
+  return concat(["0x1901", domainSeparator(domain), messageHash]);
+}
+
+/**
+ * @notice Mirrors `TyronSSIAccount.getMessageHash(message)`.
+ */
+export function getMessageHash(
+  domain: AccountDomain,
+  message: BytesLike,
+): string {
+  return keccak256(encodeMessageData(domain, message));
+}
+
+/**
+ * @notice Signs a digest for the account's `isValidSignature` with the
+ * owner's key. The owner signs the typed data
+ * `LightAccountMessage { message: abi.encode(digest) }` in the account's
+ * domain, which wallets display with `eth_signTypedData_v4`.
+ * @param digest The hash a dapp checks, e.g. `hashMessage(siweMessage)`.
+ */
+export async function signAccountDigest(
+  owner: Signer,
+  domain: AccountDomain,
+  digest: BytesLike,
+): Promise<string> {
+  return owner.signTypedData(
+    accountTypedDataDomain(domain),
+    LIGHT_ACCOUNT_MESSAGE_TYPES,
+    { message: abiCoder.encode(["bytes32"], [digest]) },
+  );
+}
+
+/**
+ * @notice Signs an EIP-191 message (`personal_sign`), e.g. a
+ * "Sign-In with Ethereum" message, on behalf of the account.
+ */
+export async function signAccountMessage(
+  owner: Signer,
+  domain: AccountDomain,
+  message: string | Uint8Array,
+): Promise<string> {
+  return signAccountDigest(owner, domain, hashMessage(message));
+}
+
+/**
+ * @notice Signs a dapp's EIP-712 typed data on behalf of the account.
+ */
+export async function signAccountTypedData(
+  owner: Signer,
+  domain: AccountDomain,
+  typedDomain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>,
+): Promise<string> {
+  return signAccountDigest(
+    owner,
+    domain,
+    TypedDataEncoder.hash(typedDomain, types, value),
+  );
+}
+
+/**
+ * @notice Verifies an account signature the way a dapp does: by calling the
+ * account's ERC-1271 `isValidSignature`. Reverts and accounts that are not
+ * deployed count as invalid signatures.
+ */
+export async function verifyAccountSignature(
+  provider: Provider,
+  account: string,
+  digest: BytesLike,
+  signature: BytesLike,
+): Promise<boolean> {
+  try {
+    const result = await new Contract(
+      account,
+      ACCOUNT_ABI,
+      provider,
+    ).isValidSignature(digest, signature);
+    return result === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @notice Verifies the account signature of an EIP-191 message, e.g. to
+ * check a "Sign-In with Ethereum" login.
+ */
+export async function verifyAccountMessage(
+  provider: Provider,
+  account: string,
+  message: string | Uint8Array,
+  signature: BytesLike,
+): Promise<boolean> {
+  return verifyAccountSignature(
+    provider,
+    account,
+    hashMessage(message),
+    signature,
+  );
+}
+
+/**
+ * @notice Verifies the account signature of EIP-712 typed data.
+ */
+export async function verifyAccountTypedData(
+  provider: Provider,
+  account: string,
+  typedDomain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>,
+  signature: BytesLike,
+): Promise<boolean> {
+  return verifyAccountSignature(
+    provider,
+    account,
+    TypedDataEncoder.hash(typedDomain, types, value),
+    signature,
+  );
+}
@@ -0,0 +1,180 @@
+import {
+  BytesLike,
+  EventLog,
+  Signer,
+  ZeroAddress,
+  concat,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+} from "ethers";
+import { TyronAccount } from "./account";
+import { toSelector } from "./session";
+import { UserOperation, getUserOpHash } from "./userop";
+
+/**
+ * @notice The module types of `Modules.sol`, numbered as in ERC-7579.
+ */
+export enum ModuleType {
+  Validator = 1,
+  Executor = 2,
+  Fallback = 3,
+}
+
+/**
+ * @notice Prefix of the signatures made through a validator module
+ * (`TyronSSIAccount.VALIDATOR_SIGNATURE_MAGIC`).
+ */
+export const VALIDATOR_SIGNATURE_MAGIC = "0x7a11da70";
+
+/**
+ * @notice A module of an account.
+ * @dev `selector` is the function a fallback handler answers, e.g.
+ * `"onTokenTransfer(address,uint256,bytes)"` or its 4-byte selector.
+ */
+export interface ModuleInstallation {
+  type: ModuleType;
+  module: string;
+  selector?: string;
+}
+
+/**
+ * @notice A module installed on an account, rebuilt from its logs.
+ */
+export interface InstalledModule extends ModuleInstallation {
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * @notice Encodes the data of `installModule`/`uninstallModule`: fallback
+ * handlers are prefixed with their selector.
+ */
+export function encodeModuleData(
+  installation: Pick<ModuleInstallation, "type" | "selector">,
+  data: BytesLike = "0x",
+): string {
+  if (installation.type !== ModuleType.Fallback) {
+    return concat([data]);
+  }
+  if (!installation.selector) {
+    throw new Error("Modules: a fallback handler needs a selector.");
+  }
+  return concat([toSelector(installation.selector), data]);
+}
+
+/**
+ * @notice Encodes a signature made through a validator module.
+ */
+export function encodeValidatorSignature(
+  validator: string,
+  signature: BytesLike,
+): string {
+  return concat([VALIDATOR_SIGNATURE_MAGIC, getAddress(validator), signature]);
+}
+
+/**
+ * @notice Splits a validator signature, or returns `undefined` if the
+ * signature was made by another signer.
+ */
+export function decodeValidatorSignature(
+  signature: string,
+): { validator: string; signature: string } | undefined {
+  if (
+    dataLength(signature) < 24 ||
+    dataSlice(signature, 0, 4) !== VALIDATOR_SIGNATURE_MAGIC
+  ) {
+    return undefined;
+  }
+  return {
+    validator: getAddress(dataSlice(signature, 4, 24)),
+    signature: dataSlice(signature, 24),
+  };
+}
+
+/**
+ * @notice Signs a user operation with the key of an ECDSA validator module
+ * (`TyronECDSAValidator`), which checks it like an owner signature.
+ */
+export async function signValidatorUserOp(
+  op: UserOperation,
+  validator: string,
+  signer: Signer,
+  entryPoint: string,
+  chainId: bigint,
+): Promise<UserOperation> {
+  const userOpHash = getUserOpHash(op, entryPoint, chainId);
+  const signature = await signer.signMessage(getBytes(userOpHash));
+  return { ...op, signature: encodeValidatorSignature(validator, signature) };
+}
+
+/**
+ * @notice Lists the modules installed on an account, from its
+ * `ModuleInstalled`, `ModuleUninstalled` and `FallbackHandlerUpdated` events.
+ * @dev Every module found is checked with `isModuleInstalled`, so the result
+ * matches the account's registry, in the order the modules were installed.
+ */
+export async function listModules(
+  account: TyronAccount,
+  fromBlock: number = 0,
+  toBlock?: number,
+): Promise<InstalledModule[]> {
+  const contract = account.contract;
+  const [installed, uninstalled, handlers] = await Promise.all([
+    contract.queryFilter(
+      contract.filters.ModuleInstalled(),
+      fromBlock,
+      toBlock,
+    ),
+    contract.queryFilter(
+      contract.filters.ModuleUninstalled(),
+      fromBlock,
+      toBlock,
+    ),
+    contract.queryFilter(
+      contract.filters.FallbackHandlerUpdated(),
+      fromBlock,
+      toBlock,
+    ),
+  ]);
+  const logs = [...installed, ...uninstalled, ...handlers]
+    .filter((log): log is EventLog => log instanceof EventLog)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const modules = new Map<string, InstalledModule>();
+  for (const log of logs) {
+    const found = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+    if (log.eventName === "FallbackHandlerUpdated") {
+      const selector: string = log.args.selector;
+      modules.delete(`fallback:${selector}`);
+      if (log.args.handler !== ZeroAddress) {
+        modules.set(`fallback:${selector}`, {
+          type: ModuleType.Fallback,
+          module: log.args.handler,
+          selector,
+          ...found,
+        });
+      }
+      continue;
+    }
+    const type = Number(log.args.moduleTypeId) as ModuleType;
+    if (type === ModuleType.Fallback) {
+      continue;
+    }
+    const key = `${type}:${log.args.module}`;
+    modules.delete(key);
+    if (log.eventName === "ModuleInstalled") {
+      modules.set(key, { type, module: log.args.module, ...found });
+    }
+  }
+
+  const candidates = [...modules.values()];
+  const active = await Promise.all(
+    candidates.map((module) => account.isModuleInstalled(module)),
+  );
+  return candidates.filter((_, i) => active[i]);
+}
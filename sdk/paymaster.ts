@@ -0,0 +1,326 @@
+import {
+  AbiCoder,
+  BytesLike,
+  Contract,
+  ContractFactory,
+  ContractRunner,
+  ContractTransactionResponse,
+  FetchRequest,
+  Signer,
+  ZeroAddress,
+  concat,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+  keccak256,
+  toQuantity,
+} from "ethers";
+import { PAYMASTER_ABI } from "./abi";
+import { BytecodeArtifact } from "./account";
+import { withDecodedErrors } from "./errors";
+import { UserOperation } from "./userop";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * @notice The token price of `TyronVerifyingPaymaster` is given per 1e18 wei of gas.
+ */
+export const PAYMASTER_PRICE_DENOMINATOR = 10n ** 18n;
+
+// @dev The paymaster address and `abi.encode(validUntil, validAfter, token, price)`.
+const TERMS_LENGTH = 20 + 128;
+
+/**
+ * @notice What a sponsor approves a user operation for.
+ * @dev Times are in seconds, and `validUntil` is zero for no expiry. Without
+ * a `token`, the paymaster pays from the account's quota; with one, the
+ * account is charged `actualGasCost * price / 1e18` of it.
+ */
+export interface SponsorshipTerms {
+  validUntil: number;
+  validAfter: number;
+  token?: string;
+  price?: bigint;
+}
+
+/**
+ * @notice Mirrors `TyronVerifyingPaymaster.getHash`, which the sponsor signs.
+ */
+export function getSponsorshipHash(
+  op: UserOperation,
+  paymaster: string,
+  chainId: bigint,
+  terms: SponsorshipTerms,
+): string {
+  return keccak256(
+    abiCoder.encode(
+      [
+        "address",
+        "uint256",
+        "bytes32",
+        "bytes32",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "uint256",
+        "address",
+        "uint48",
+        "uint48",
+        "address",
+        "uint256",
+      ],
+      [
+        op.sender,
+        op.nonce,
+        keccak256(op.initCode),
+        keccak256(op.callData),
+        op.callGasLimit,
+        op.verificationGasLimit,
+        op.preVerificationGas,
+        op.maxFeePerGas,
+        op.maxPriorityFeePerGas,
+        chainId,
+        paymaster,
+        terms.validUntil,
+        terms.validAfter,
+        terms.token ?? ZeroAddress,
+        terms.price ?? 0n,
+      ],
+    ),
+  );
+}
+
+export function encodePaymasterAndData(
+  paymaster: string,
+  terms: SponsorshipTerms,
+  signature: BytesLike,
+): string {
+  return concat([
+    getAddress(paymaster),
+    abiCoder.encode(
+      ["uint48", "uint48", "address", "uint256"],
+      [
+        terms.validUntil,
+        terms.validAfter,
+        terms.token ?? ZeroAddress,
+        terms.price ?? 0n,
+      ],
+    ),
+    signature,
+  ]);
+}
+
+/**
+ * @notice Splits the `paymasterAndData` of `TyronVerifyingPaymaster`, or
+ * returns `undefined` if it is too short.
+ */
+export function decodePaymasterAndData(
+  paymasterAndData: string,
+):
+  | { paymaster: string; terms: SponsorshipTerms; signature: string }
+  | undefined {
+  if (dataLength(paymasterAndData) < TERMS_LENGTH) {
+    return undefined;
+  }
+  const [validUntil, validAfter, token, price] = abiCoder.decode(
+    ["uint48", "uint48", "address", "uint256"],
+    dataSlice(paymasterAndData, 20, TERMS_LENGTH),
+  );
+  return {
+    paymaster: getAddress(dataSlice(paymasterAndData, 0, 20)),
+    terms: {
+      validUntil: Number(validUntil),
+      validAfter: Number(validAfter),
+      token,
+      price,
+    },
+    signature: dataSlice(paymasterAndData, TERMS_LENGTH),
+  };
+}
+
+/**
+ * @notice Signs the sponsorship of a user operation with the sponsor's key.
+ * @dev The operation must have its final gas fields, and its account signs
+ * it afterwards, as the user operation hash covers `paymasterAndData`.
+ * @return The operation's `paymasterAndData`.
+ */
+export async function signSponsorship(
+  sponsor: Signer,
+  op: UserOperation,
+  paymaster: string,
+  chainId: bigint,
+  terms: SponsorshipTerms,
+): Promise<string> {
+  const hash = getSponsorshipHash(op, paymaster, chainId, terms);
+  return encodePaymasterAndData(
+    paymaster,
+    terms,
+    await sponsor.signMessage(getBytes(hash)),
+  );
+}
+
+/**
+ * @notice Provides the `paymasterAndData` of a user operation, e.g. from a
+ * sponsor service.
+ */
+export type PaymasterDataSource = (op: UserOperation) => Promise<string>;
+
+/**
+ * @notice Encodes a user operation for JSON-RPC, with hex quantities.
+ */
+export function toRpcUserOp(op: UserOperation): Record<string, string> {
+  return {
+    sender: op.sender,
+    nonce: toQuantity(op.nonce),
+    initCode: op.initCode,
+    callData: op.callData,
+    callGasLimit: toQuantity(op.callGasLimit),
+    verificationGasLimit: toQuantity(op.verificationGasLimit),
+    preVerificationGas: toQuantity(op.preVerificationGas),
+    maxFeePerGas: toQuantity(op.maxFeePerGas),
+    maxPriorityFeePerGas: toQuantity(op.maxPriorityFeePerGas),
+    paymasterAndData: op.paymasterAndData,
+    signature: op.signature,
+  };
+}
+
+/**
+ * @notice Decodes a user operation received over JSON-RPC.
+ */
+export function fromRpcUserOp(op: Record<string, string>): UserOperation {
+  return {
+    sender: getAddress(op.sender),
+    nonce: BigInt(op.nonce),
+    initCode: op.initCode ?? "0x",
+    callData: op.callData,
+    callGasLimit: BigInt(op.callGasLimit),
+    verificationGasLimit: BigInt(op.verificationGasLimit),
+    preVerificationGas: BigInt(op.preVerificationGas),
+    maxFeePerGas: BigInt(op.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas),
+    paymasterAndData: op.paymasterAndData ?? "0x",
+    signature: op.signature ?? "0x",
+  };
+}
+
+/**
+ * @notice Asks a sponsor service for the `paymasterAndData` of user
+ * operations, with the ERC-7677 `pm_getPaymasterData` method.
+ * @param context Passed to the service's policy, e.g. a sponsorship code.
+ * @dev Rejections are thrown with the service's message.
+ */
+export function sponsorService(
+  url: string,
+  entryPoint: string,
+  chainId: bigint,
+  context: Record<string, unknown> = {},
+): PaymasterDataSource {
+  let id = 0;
+  return async (op) => {
+    const request = new FetchRequest(url);
+    request.body = {
+      jsonrpc: "2.0",
+      id: ++id,
+      method: "pm_getPaymasterData",
+      params: [toRpcUserOp(op), entryPoint, toQuantity(chainId), context],
+    };
+    const response = (await request.send()).bodyJson;
+    if (response.error) {
+      throw new Error(`Sponsor: ${response.error.message}`);
+    }
+    return response.result.paymasterAndData;
+  };
+}
+
+/**
+ * @notice Client of a deployed `TyronVerifyingPaymaster`.
+ */
+export class TyronPaymaster {
+  readonly address: string;
+  readonly contract: Contract;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, PAYMASTER_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): TyronPaymaster {
+    return new TyronPaymaster(address, runner);
+  }
+
+  /**
+   * @param artifact The compiled `TyronVerifyingPaymaster`.
+   * @param params `defaultQuota` is the gas cost (in wei) sponsored per account.
+   */
+  static async deploy(
+    signer: Signer,
+    artifact: BytecodeArtifact,
+    params: { entryPoint: string; sponsor: string; defaultQuota: bigint },
+  ): Promise<TyronPaymaster> {
+    const factory = new ContractFactory(
+      PAYMASTER_ABI,
+      artifact.bytecode,
+      signer,
+    );
+    const contract = await factory.deploy(
+      params.entryPoint,
+      params.sponsor,
+      params.defaultQuota,
+    );
+    await contract.waitForDeployment();
+    return new TyronPaymaster(await contract.getAddress(), signer);
+  }
+
+  async sponsor(): Promise<string> {
+    return this.contract.sponsor();
+  }
+
+  async quotaOf(account: string): Promise<bigint> {
+    return this.contract.quotaOf(account);
+  }
+
+  async sponsoredCostOf(account: string): Promise<bigint> {
+    return this.contract.sponsoredCostOf(account);
+  }
+
+  /**
+   * @notice The gas cost the paymaster still sponsors for an account.
+   */
+  async remainingQuota(account: string): Promise<bigint> {
+    const [quota, spent] = await Promise.all([
+      this.quotaOf(account),
+      this.sponsoredCostOf(account),
+    ]);
+    return quota > spent ? quota - spent : 0n;
+  }
+
+  async getDeposit(): Promise<bigint> {
+    return this.contract.getDeposit();
+  }
+
+  /**
+   * @notice Funds the paymaster's EntryPoint deposit, which pays for the
+   * operations it accepts.
+   */
+  async deposit(amount: bigint): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.deposit({ value: amount }));
+  }
+
+  async setQuota(
+    account: string,
+    quota: bigint,
+  ): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setQuota(account, quota));
+  }
+
+  async setDefaultQuota(quota: bigint): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setDefaultQuota(quota));
+  }
+
+  async setSponsor(sponsor: string): Promise<ContractTransactionResponse> {
+    return withDecodedErrors(() => this.contract.setSponsor(sponsor));
+  }
+}
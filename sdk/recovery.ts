@@ -0,0 +1,412 @@
+import {
+  AbiCoder,
+  Contract,
+  ContractRunner,
+  FetchRequest,
+  Signer,
+  getAddress,
+  recoverAddress,
+} from "ethers";
+import { TyronAccount } from "./account";
+import {
+  AccountDomain,
+  LIGHT_ACCOUNT_MESSAGE_TYPES,
+  accountTypedDataDomain,
+  getMessageHash,
+} from "./messages";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * @notice Signs raw digests, for guardians that cannot sign typed data, as
+ * `socialRecovery` checks guardian signatures with
+ * `SignatureChecker.isValidSignatureNow` (no "Ethereum Signed Message"
+ * envelope).
+ */
+export interface DigestSigner {
+  getAddress(): Promise<string>;
+  signDigest(digest: string): Promise<string>;
+}
+
+export type GuardianSigner = Signer | DigestSigner;
+
+export interface GuardianSignature {
+  guardian: string;
+  signature: string;
+}
+
+/**
+ * @notice The recovery the guardians sign (`TyronSSIAccount.RecoveryRequest`,
+ * whose chain ID comes from the account's domain).
+ * @param nonce The account's recovery nonce (`getRecoveryNonce`).
+ * @param deadline The time, in seconds, until which the signatures are valid.
+ */
+export interface RecoveryRequest {
+  newOwner: string;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/**
+ * @notice The arguments of
+ * `socialRecovery(newOwner, deadline, guardians, signatures)`, where
+ * `signatures[i]` is the signature of `guardians[i]`.
+ */
+export interface RecoveryBundle extends RecoveryRequest {
+  guardians: string[];
+  signatures: string[];
+}
+
+// @dev How long guardian signatures stay valid by default.
+export const DEFAULT_RECOVERY_REQUEST_TTL = 7n * 24n * 60n * 60n;
+
+/**
+ * @notice Thrown when a recovery bundle would not pass `socialRecovery`.
+ */
+export class RecoveryVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecoveryVerificationError";
+  }
+}
+
+/**
+ * @notice Encodes the recovery message, i.e.
+ * `abi.encode(RecoveryRequest(newOwner, nonce, deadline, block.chainid))`.
+ */
+export function encodeRecoveryMessage(
+  domain: AccountDomain,
+  request: RecoveryRequest,
+): string {
+  return abiCoder.encode(
+    ["address", "uint256", "uint256", "uint256"],
+    [request.newOwner, request.nonce, request.deadline, domain.chainId],
+  );
+}
+
+/**
+ * @notice The digest guardians sign to hand the account over to `request.newOwner`.
+ */
+export function recoveryDigest(
+  domain: AccountDomain,
+  request: RecoveryRequest,
+): string {
+  return getMessageHash(domain, encodeRecoveryMessage(domain, request));
+}
+
+/**
+ * @notice Prepares the next recovery request of the account, valid for `ttl`
+ * seconds from the latest block.
+ */
+export async function prepareRecovery(
+  account: TyronAccount,
+  newOwner: string,
+  ttl = DEFAULT_RECOVERY_REQUEST_TTL,
+): Promise<RecoveryRequest> {
+  const block = await account.contract.runner?.provider?.getBlock("latest");
+  if (!block) {
+    throw new Error("TyronAccount: a provider is required.");
+  }
+  return {
+    newOwner: getAddress(newOwner),
+    nonce: await account.getRecoveryNonce(),
+    deadline: BigInt(block.timestamp) + ttl,
+  };
+}
+
+/**
+ * @notice Reads the account's domain from its runner's network.
+ */
+export async function accountDomain(
+  account: TyronAccount,
+): Promise<AccountDomain> {
+  const provider = account.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("TyronAccount: a provider is required.");
+  }
+  const { chainId } = await provider.getNetwork();
+  return { chainId, verifyingContract: account.address };
+}
+
+/**
+ * @notice Signs the recovery with a guardian key, as the typed data
+ * `LightAccountMessage { message: encodeRecoveryMessage(domain, request) }`
+ * in the account's domain, which wallets display with `eth_signTypedData_v4`.
+ * @dev A `DigestSigner` signs `recoveryDigest` instead, the hash of the same
+ * typed data.
+ */
+export async function signRecovery(
+  guardian: GuardianSigner,
+  domain: AccountDomain,
+  request: RecoveryRequest,
+): Promise<GuardianSignature> {
+  if ("signDigest" in guardian) {
+    return {
+      guardian: await guardian.getAddress(),
+      signature: await guardian.signDigest(recoveryDigest(domain, request)),
+    };
+  }
+  return {
+    guardian: await guardian.getAddress(),
+    signature: await guardian.signTypedData(
+      accountTypedDataDomain(domain),
+      LIGHT_ACCOUNT_MESSAGE_TYPES,
+      { message: encodeRecoveryMessage(domain, request) },
+    ),
+  };
+}
+
+/**
+ * @notice Packages guardian signatures as `socialRecovery` expects them.
+ * @dev A guardian that signed more than once is only kept once.
+ */
+export function bundleRecovery(
+  request: RecoveryRequest,
+  signatures: GuardianSignature[],
+): RecoveryBundle {
+  const bundle: RecoveryBundle = {
+    newOwner: request.newOwner,
+    nonce: request.nonce,
+    deadline: request.deadline,
+    guardians: [],
+    signatures: [],
+  };
+  const seen = new Set<string>();
+  for (const { guardian, signature } of signatures) {
+    const address = getAddress(guardian);
+    if (seen.has(address)) {
+      continue;
+    }
+    seen.add(address);
+    bundle.guardians.push(address);
+    bundle.signatures.push(signature);
+  }
+  return bundle;
+}
+
+/**
+ * @notice Checks a recovery bundle against the deployed account before it is
+ * sent: the nonce must be current and the deadline ahead, the local digest
+ * must match `getMessageHash`, every guardian must be registered, listed once
+ * and have signed it, and the threshold must be reached.
+ */
+export async function verifyRecoveryBundle(
+  account: TyronAccount,
+  bundle: RecoveryBundle,
+): Promise<void> {
+  if (bundle.guardians.length !== bundle.signatures.length) {
+    throw new RecoveryVerificationError(
+      "The number of guardians and signatures does not match.",
+    );
+  }
+  const nonce = await account.getRecoveryNonce();
+  if (bundle.nonce !== nonce) {
+    throw new RecoveryVerificationError(
+      `The recovery nonce ${bundle.nonce} is not the account's ${nonce}.`,
+    );
+  }
+  const block = await account.contract.runner?.provider?.getBlock("latest");
+  if (block && BigInt(block.timestamp) > bundle.deadline) {
+    throw new RecoveryVerificationError(
+      `The recovery request expired at ${bundle.deadline}.`,
+    );
+  }
+  const domain = await accountDomain(account);
+  const digest = recoveryDigest(domain, bundle);
+  const onChain = await account.contract.getMessageHash(
+    encodeRecoveryMessage(domain, bundle),
+  );
+  if (digest !== onChain) {
+    throw new RecoveryVerificationError(
+      `The recovery digest ${digest} does not match the account's ${onChain}.`,
+    );
+  }
+
+  const runner = account.contract.runner!;
+  const seen = new Set<string>();
+  for (let i = 0; i < bundle.guardians.length; i++) {
+    const guardian = bundle.guardians[i];
+    if (seen.has(getAddress(guardian))) {
+      throw new RecoveryVerificationError(`${guardian} is listed twice.`);
+    }
+    seen.add(getAddress(guardian));
+    if ((await account.getGuardianVotes(guardian)) === 0n) {
+      throw new RecoveryVerificationError(`${guardian} is not a guardian.`);
+    }
+    if (
+      !(await isValidGuardianSignature(
+        runner,
+        guardian,
+        digest,
+        bundle.signatures[i],
+      ))
+    ) {
+      throw new RecoveryVerificationError(
+        `The signature of guardian ${guardian} is invalid.`,
+      );
+    }
+  }
+
+  const { votes, threshold } = await account.getRecoveryProgress(
+    bundle.guardians,
+  );
+  if (votes < threshold) {
+    throw new RecoveryVerificationError(
+      `${votes} guardian votes do not reach the threshold of ${threshold}.`,
+    );
+  }
+}
+
+/**
+ * @notice Off-chain equivalent of `SignatureChecker.isValidSignatureNow`, as
+ * `socialRecovery` checks guardian signatures.
+ */
+export async function isValidGuardianSignature(
+  runner: ContractRunner,
+  signer: string,
+  digest: string,
+  signature: string,
+): Promise<boolean> {
+  const code = await runner.provider!.getCode(signer);
+  if (code === "0x") {
+    try {
+      return recoverAddress(digest, signature) === getAddress(signer);
+    } catch {
+      return false;
+    }
+  }
+  const wallet = new Contract(
+    signer,
+    [
+      "function isValidSignature(bytes32 digest, bytes signature) view returns (bytes4)",
+    ],
+    runner,
+  );
+  try {
+    return (await wallet.isValidSignature(digest, signature)) === "0x1626ba7e";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @notice A recovery request of a coordination service
+ * (`scripts/utils/recovery.ts`), as stored and served.
+ * @dev Plain JSON: integers are decimal strings. Guardians sign `digest`, the
+ * account's `getMessageHash(message)`. `threshold`, `votes` and `remaining`
+ * count the votes of the guardians that signed when the request was last read.
+ * A request is `stale` once its deadline passed or the account's recovery
+ * nonce moved on.
+ */
+export interface CoordinatedRecovery {
+  id: string;
+  account: string;
+  chainId: string;
+  newOwner: string;
+  nonce: string;
+  deadline: string;
+  message: string;
+  digest: string;
+  status: "open" | "submitted" | "stale";
+  signatures: GuardianSignature[];
+  threshold: string;
+  votes: string;
+  remaining: string;
+  transactionHash?: string;
+  // @dev Why the last submission failed.
+  error?: string;
+}
+
+/**
+ * @notice Client of a recovery coordination service, for the owner who opens
+ * a recovery and the guardians who sign it.
+ */
+export class RecoveryServiceClient {
+  constructor(readonly url: string) {}
+
+  private async send<T>(route: string, body?: unknown): Promise<T> {
+    const request = new FetchRequest(`${this.url}${route}`);
+    if (body !== undefined) {
+      request.body = body;
+    }
+    const response = await request.send();
+    const payload: unknown = response.bodyJson;
+    if (!response.ok()) {
+      const error =
+        typeof payload === "object" && payload !== null && "error" in payload
+          ? payload.error
+          : undefined;
+      throw new Error(
+        `Recovery service: ${
+          typeof error === "string" ? error : response.statusMessage
+        }`,
+      );
+    }
+    return payload as T;
+  }
+
+  /**
+   * @notice Opens a recovery of `account` to `newOwner`, or returns the open
+   * one with the same new owner.
+   */
+  async open(account: string, newOwner: string): Promise<CoordinatedRecovery> {
+    return this.send<CoordinatedRecovery>("/recoveries", { account, newOwner });
+  }
+
+  async get(id: string): Promise<CoordinatedRecovery> {
+    return this.send<CoordinatedRecovery>(`/recoveries/${id}`);
+  }
+
+  async list(account?: string): Promise<CoordinatedRecovery[]> {
+    return this.send<CoordinatedRecovery[]>(
+      account ? `/recoveries?account=${getAddress(account)}` : "/recoveries",
+    );
+  }
+
+  async submitSignature(
+    id: string,
+    signature: GuardianSignature,
+  ): Promise<CoordinatedRecovery> {
+    return this.send<CoordinatedRecovery>(
+      `/recoveries/${id}/signatures`,
+      signature,
+    );
+  }
+
+  /**
+   * @notice Retries the submission of a recovery that reached the threshold.
+   */
+  async submit(id: string): Promise<CoordinatedRecovery> {
+    return this.send<CoordinatedRecovery>(`/recoveries/${id}/submit`, {});
+  }
+
+  /**
+   * @notice Signs a recovery with a guardian key and submits the signature.
+   * @dev The digest is computed locally from the request, so that the
+   * guardian does not sign whatever the service asks for.
+   */
+  async sign(
+    id: string,
+    guardian: GuardianSigner,
+  ): Promise<CoordinatedRecovery> {
+    const recovery = await this.get(id);
+    const domain: AccountDomain = {
+      chainId: BigInt(recovery.chainId),
+      verifyingContract: recovery.account,
+    };
+    const request: RecoveryRequest = {
+      newOwner: recovery.newOwner,
+      nonce: BigInt(recovery.nonce),
+      deadline: BigInt(recovery.deadline),
+    };
+    if (recoveryDigest(domain, request) !== recovery.digest) {
+      throw new RecoveryVerificationError(
+        `The digest ${recovery.digest} does not match the recovery of ${recovery.account}.`,
+      );
+    }
+    return this.submitSignature(
+      id,
+      await signRecovery(guardian, domain, request),
+    );
+  }
+}
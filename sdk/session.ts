@@ -0,0 +1,99 @@
+import {
+  Signer,
+  concat,
+  dataLength,
+  dataSlice,
+  getAddress,
+  getBytes,
+  id,
+  isHexString,
+} from "ethers";
+import { UserOperation, getUserOpHash } from "./userop";
+
+/**
+ * @notice Prefix of the user operation signatures made by a session key
+ * (`TyronSSIAccount.SESSION_SIGNATURE_MAGIC`).
+ */
+export const SESSION_SIGNATURE_MAGIC = "0x5e55104e";
+
+// @dev Magic (4 bytes), session key (20 bytes) and ECDSA signature (65 bytes).
+const SESSION_SIGNATURE_LENGTH = 89;
+
+/**
+ * @notice What a session key can do (`TyronSSIAccount.createSession`).
+ * @dev Times are in seconds. Leave `selectors` empty to allow any function of
+ * the targets; plain transfers have the zero selector `0x00000000`.
+ * The value of a user operation counts against `valueLimit` once the operation
+ * is validated, even if its execution then reverts.
+ */
+export interface SessionPermissions {
+  validAfter: bigint;
+  validUntil: bigint;
+  valueLimit: bigint;
+  targets: string[];
+  selectors: string[];
+}
+
+/**
+ * @notice A registered session key (`TyronSSIAccount.getSession`).
+ * @dev `active` is false once the session is revoked or the owner changes.
+ */
+export interface SessionState {
+  validAfter: bigint;
+  validUntil: bigint;
+  valueLimit: bigint;
+  valueSpent: bigint;
+  active: boolean;
+}
+
+/**
+ * @notice The selector of a function signature, e.g. `"transfer(address,uint256)"`.
+ * Selectors given as 4-byte hex strings are returned as they are.
+ */
+export function toSelector(fragment: string): string {
+  return isHexString(fragment, 4) ? fragment : id(fragment).slice(0, 10);
+}
+
+/**
+ * @notice Encodes a user operation signature made by a session key.
+ */
+export function encodeSessionSignature(key: string, signature: string): string {
+  return concat([SESSION_SIGNATURE_MAGIC, getAddress(key), signature]);
+}
+
+/**
+ * @notice Splits a session signature, or returns `undefined` if the
+ * signature was made by the owner.
+ */
+export function decodeSessionSignature(
+  signature: string,
+): { key: string; signature: string } | undefined {
+  if (
+    dataLength(signature) !== SESSION_SIGNATURE_LENGTH ||
+    dataSlice(signature, 0, 4) !== SESSION_SIGNATURE_MAGIC
+  ) {
+    return undefined;
+  }
+  return {
+    key: getAddress(dataSlice(signature, 4, 24)),
+    signature: dataSlice(signature, 24),
+  };
+}
+
+/**
+ * @notice Signs a user operation with a session key. The account checks the
+ * calls against the session permissions during validation.
+ */
+export async function signSessionUserOp(
+  op: UserOperation,
+  sessionKey: Signer,
+  entryPoint: string,
+  chainId: bigint,
+): Promise<UserOperation> {
+  const userOpHash = getUserOpHash(op, entryPoint, chainId);
+  const signature = await sessionKey.signMessage(getBytes(userOpHash));
+  return {
+    ...op,
+    signature: encodeSessionSignature(await sessionKey.getAddress(), signature),
+  };
+}
@@ -0,0 +1,309 @@
+import { getAddress } from "ethers";
+import { TyronAccount } from "./account";
+import { GuardianSource, hashGuardian, hashTokenGuardian } from "./guardians";
+import { ThresholdMode, ThresholdPolicy } from "./threshold";
+
+/**
+ * @notice The version of the snapshot format, bumped on breaking changes.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * @notice A guardian of a snapshot: an address, or a DNS NFT ID whose holder
+ * may differ between networks.
+ */
+export type GuardianSnapshot = (
+  | { source: "Address"; guardian: string }
+  | { source: "DnsToken"; tokenId: string }
+) & { weight: string };
+
+/**
+ * @notice The state of an account that can be replicated on another network.
+ * @dev Big numbers are kept as decimal strings so the snapshot stays plain
+ * JSON, like the deployment manifest. `entryPoint` and `dns` are bound to the
+ * implementation, so they are compared but never changed.
+ */
+export interface AccountSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  chainId: number;
+  account: string;
+  blockNumber: number;
+  owner: string;
+  entryPoint: string;
+  dns: string;
+  guardians: GuardianSnapshot[];
+  threshold: { mode: keyof typeof ThresholdMode; value: string };
+  // @dev The EntryPoint deposit, in wei.
+  deposit: string;
+}
+
+/**
+ * @notice A field where a snapshot and an account differ.
+ * @dev `snapshot` or `live` is undefined for a guardian only one side has.
+ */
+export interface SnapshotDifference {
+  field: "owner" | "entryPoint" | "dns" | "guardian" | "threshold" | "deposit";
+  snapshot?: string;
+  live?: string;
+}
+
+/**
+ * @notice The hash the account registers a snapshot guardian under.
+ */
+export function guardianSnapshotHash(guardian: GuardianSnapshot): string {
+  return guardian.source === "Address"
+    ? hashGuardian(guardian.guardian)
+    : hashTokenGuardian(guardian.tokenId);
+}
+
+/**
+ * @notice The threshold policy of a snapshot.
+ */
+export function snapshotThresholdPolicy(
+  snapshot: AccountSnapshot,
+): ThresholdPolicy {
+  return {
+    mode: ThresholdMode[snapshot.threshold.mode],
+    value: BigInt(snapshot.threshold.value),
+  };
+}
+
+/**
+ * @notice Reads the replicable state of an account.
+ */
+export async function exportAccountSnapshot(
+  account: TyronAccount,
+): Promise<AccountSnapshot> {
+  const provider = account.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("TyronAccount: a provider is required.");
+  }
+  const [{ chainId }, blockNumber] = await Promise.all([
+    provider.getNetwork(),
+    provider.getBlockNumber(),
+  ]);
+  const records = await account.getGuardians();
+  const guardians = await Promise.all(
+    records.map(async (record): Promise<GuardianSnapshot> => {
+      const weight = (
+        await account.contract.getGuardianWeight(record.guardianHash)
+      ).toString();
+      return record.source === GuardianSource.DnsToken
+        ? { source: "DnsToken", tokenId: record.tokenId.toString(), weight }
+        : { source: "Address", guardian: record.guardian, weight };
+    }),
+  );
+  const policy = await account.getThresholdPolicy();
+
+  return {
+    version: SNAPSHOT_VERSION,
+    chainId: Number(chainId),
+    account: account.address,
+    blockNumber,
+    owner: await account.owner(),
+    entryPoint: await account.entryPoint(),
+    dns: await account.dns(),
+    guardians,
+    threshold: {
+      mode: ThresholdMode[policy.mode] as keyof typeof ThresholdMode,
+      value: policy.value.toString(),
+    },
+    deposit: (await account.getDeposit()).toString(),
+  };
+}
+
+function snapshotAddress(value: unknown, name: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`The snapshot's \`${name}\` must be an address.`);
+  }
+  return getAddress(value);
+}
+
+function snapshotNumber(value: unknown, name: string): string {
+  if (
+    (typeof value !== "string" && typeof value !== "number") ||
+    !/^\d+$/.test(String(value))
+  ) {
+    throw new Error(`The snapshot's \`${name}\` must be a decimal number.`);
+  }
+  return String(value);
+}
+
+function isThresholdModeName(
+  mode: unknown,
+): mode is keyof typeof ThresholdMode {
+  return (
+    typeof mode === "string" &&
+    typeof ThresholdMode[mode as keyof typeof ThresholdMode] === "number"
+  );
+}
+
+// @dev A snapshot as read from JSON, before `parseAccountSnapshot` checks its fields.
+interface UncheckedSnapshot {
+  version?: unknown;
+  chainId?: unknown;
+  account?: unknown;
+  blockNumber?: unknown;
+  owner?: unknown;
+  entryPoint?: unknown;
+  dns?: unknown;
+  guardians?: unknown;
+  threshold?: { mode?: unknown; value?: unknown } | null;
+  deposit?: unknown;
+}
+
+interface UncheckedGuardianSnapshot {
+  source?: unknown;
+  guardian?: unknown;
+  tokenId?: unknown;
+  weight?: unknown;
+}
+
+/**
+ * @notice Validates a snapshot read from JSON, normalizing its addresses.
+ */
+export function parseAccountSnapshot(content: unknown): AccountSnapshot {
+  const snapshot = content as UncheckedSnapshot | null;
+  if (typeof snapshot !== "object" || snapshot === null) {
+    throw new Error("The snapshot must be a JSON object.");
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${snapshot.version}: expected ${SNAPSHOT_VERSION}.`,
+    );
+  }
+  if (!Array.isArray(snapshot.guardians)) {
+    throw new Error("The snapshot's `guardians` must be a list.");
+  }
+  const mode = snapshot.threshold?.mode;
+  if (!isThresholdModeName(mode)) {
+    throw new Error(`Unknown threshold mode ${mode} in the snapshot.`);
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    chainId: Number(snapshotNumber(snapshot.chainId, "chainId")),
+    account: snapshotAddress(snapshot.account, "account"),
+    blockNumber: Number(snapshotNumber(snapshot.blockNumber, "blockNumber")),
+    owner: snapshotAddress(snapshot.owner, "owner"),
+    entryPoint: snapshotAddress(snapshot.entryPoint, "entryPoint"),
+    dns: snapshotAddress(snapshot.dns, "dns"),
+    guardians: snapshot.guardians.map(
+      (
+        guardian: UncheckedGuardianSnapshot | null,
+        i: number,
+      ): GuardianSnapshot => {
+        const weight = snapshotNumber(guardian?.weight ?? "1", "weight");
+        switch (guardian?.source) {
+          case "Address":
+            return {
+              source: "Address",
+              guardian: snapshotAddress(guardian.guardian, `guardians[${i}]`),
+              weight,
+            };
+          case "DnsToken":
+            return {
+              source: "DnsToken",
+              tokenId: snapshotNumber(guardian.tokenId, `guardians[${i}]`),
+              weight,
+            };
+          default:
+            throw new Error(
+              `Unknown source ${guardian?.source} of guardian ${i} in the snapshot.`,
+            );
+        }
+      },
+    ),
+    threshold: {
+      mode,
+      value: snapshotNumber(snapshot.threshold?.value, "threshold.value"),
+    },
+    deposit: snapshotNumber(snapshot.deposit, "deposit"),
+  };
+}
+
+function describeGuardian(guardian: GuardianSnapshot): string {
+  const name =
+    guardian.source === "Address"
+      ? guardian.guardian
+      : `DNS #${guardian.tokenId}`;
+  return guardian.weight === "1" ? name : `${name} (weight ${guardian.weight})`;
+}
+
+/**
+ * @notice Compares a snapshot with the live state of an account, e.g. one
+ * exported from the same account or from its replica on another network.
+ * @dev Guardians are matched by address or DNS NFT ID; one whose weight
+ * changed is listed once, with both weights.
+ */
+export function diffAccountSnapshot(
+  snapshot: AccountSnapshot,
+  live: AccountSnapshot,
+): SnapshotDifference[] {
+  const differences: SnapshotDifference[] = [];
+  for (const field of ["owner", "entryPoint", "dns"] as const) {
+    if (snapshot[field] !== live[field]) {
+      differences.push({
+        field,
+        snapshot: snapshot[field],
+        live: live[field],
+      });
+    }
+  }
+
+  const liveGuardians = new Map(
+    live.guardians.map((guardian) => [
+      guardianSnapshotHash(guardian),
+      guardian,
+    ]),
+  );
+  for (const guardian of snapshot.guardians) {
+    const hash = guardianSnapshotHash(guardian);
+    const match = liveGuardians.get(hash);
+    liveGuardians.delete(hash);
+    if (match?.weight !== guardian.weight) {
+      differences.push({
+        field: "guardian",
+        snapshot: describeGuardian(guardian),
+        live: match && describeGuardian(match),
+      });
+    }
+  }
+  for (const guardian of liveGuardians.values()) {
+    differences.push({ field: "guardian", live: describeGuardian(guardian) });
+  }
+
+  const policy = (state: AccountSnapshot) =>
+    `${state.threshold.mode} (${state.threshold.value})`;
+  if (policy(snapshot) !== policy(live)) {
+    differences.push({
+      field: "threshold",
+      snapshot: policy(snapshot),
+      live: policy(live),
+    });
+  }
+  if (snapshot.deposit !== live.deposit) {
+    differences.push({
+      field: "deposit",
+      snapshot: snapshot.deposit,
+      live: live.deposit,
+    });
+  }
+  return differences;
+}
+
+/**
+ * @notice Describes a difference for the task output, e.g.
+ * `+ guardian 0x..` or `~ threshold Majority (0) -> Fixed (2)`.
+ */
+export function formatSnapshotDifference(
+  difference: SnapshotDifference,
+): string {
+  if (difference.live === undefined) {
+    return `+ ${difference.field} ${difference.snapshot}`;
+  }
+  if (difference.snapshot === undefined) {
+    return `- ${difference.field} ${difference.live}`;
+  }
+  return `~ ${difference.field} ${difference.live} -> ${difference.snapshot}`;
+}
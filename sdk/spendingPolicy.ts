@@ -0,0 +1,216 @@
+import {
+  BigNumberish,
+  Contract,
+  ContractFactory,
+  ContractRunner,
+  Signer,
+  ZeroAddress,
+  keccak256,
+} from "ethers";
+import { SPENDING_POLICY_ABI } from "./abi";
+import { BytecodeArtifact, TyronAccount } from "./account";
+import { Call } from "./calls";
+import { TyronAccountError, decodeAccountError, revertDataOf } from "./errors";
+import { toSelector } from "./session";
+
+/**
+ * @notice The asset daily limits of native value are set for.
+ */
+export const NATIVE_ASSET = ZeroAddress;
+
+/**
+ * @notice The daily limit of an asset (`TyronSpendingPolicy.getDailyLimit`).
+ * @dev `spent` sums the last `LIMIT_WINDOW`, and `freesAt` is when its oldest
+ * spend stops counting (zero when nothing was spent in the window).
+ */
+export interface DailyLimitState {
+  enabled: boolean;
+  amount: bigint;
+  spent: bigint;
+  freesAt: bigint;
+}
+
+/**
+ * @notice Whether planned calls would pass a spending policy, and the
+ * violation (e.g. `DailyLimitExceeded`) if they would not.
+ */
+export type SpendingPolicyPreview =
+  | { allowed: true }
+  | { allowed: false; error: TyronAccountError };
+
+/**
+ * @notice Client of a deployed `TyronSpendingPolicy`.
+ * @dev The policy of an account can only be changed by the account itself,
+ * so the setters return calls for `TyronAccount.execute`/`executeBatch`.
+ * Loosening changes are scheduled by their first call and applied by the
+ * same call once `POLICY_DELAY` has passed.
+ */
+export class TyronSpendingPolicy {
+  readonly address: string;
+  readonly contract: Contract;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.contract = new Contract(address, SPENDING_POLICY_ABI, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): TyronSpendingPolicy {
+    return new TyronSpendingPolicy(address, runner);
+  }
+
+  /**
+   * @notice Deploys a policy engine, which can serve every account of a network.
+   * @param artifact The compiled `TyronSpendingPolicy`.
+   */
+  static async deploy(
+    signer: Signer,
+    artifact: BytecodeArtifact,
+  ): Promise<TyronSpendingPolicy> {
+    const factory = new ContractFactory(
+      SPENDING_POLICY_ABI,
+      artifact.bytecode,
+      signer,
+    );
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    return new TyronSpendingPolicy(await contract.getAddress(), signer);
+  }
+
+  setDailyLimit(asset: string, amount: BigNumberish): Call {
+    return this.call("setDailyLimit", [asset, amount]);
+  }
+
+  removeDailyLimit(asset: string): Call {
+    return this.call("removeDailyLimit", [asset]);
+  }
+
+  setAllowlistEnabled(enabled: boolean): Call {
+    return this.call("setAllowlistEnabled", [enabled]);
+  }
+
+  setTargetAllowed(target: string, allowed: boolean): Call {
+    return this.call("setTargetAllowed", [target, allowed]);
+  }
+
+  /**
+   * @param selector A function signature or a 4-byte selector
+   * (`0x00000000` for calls without calldata).
+   */
+  setSelectorBlocked(selector: string, blocked: boolean): Call {
+    return this.call("setSelectorBlocked", [toSelector(selector), blocked]);
+  }
+
+  /**
+   * @notice Cancels the scheduled change made by `change`.
+   */
+  cancelChange(change: Call): Call {
+    return this.call("cancelChange", [changeIdOf(change)]);
+  }
+
+  /**
+   * @notice The time a change of the account can be applied, or `undefined`
+   * if it is not scheduled.
+   */
+  async getScheduledChange(
+    account: string,
+    change: Call,
+  ): Promise<bigint | undefined> {
+    const applicableAt = await this.contract.getScheduledChange(
+      account,
+      changeIdOf(change),
+    );
+    return applicableAt === 0n ? undefined : applicableAt;
+  }
+
+  async getDailyLimit(
+    account: string,
+    asset: string,
+  ): Promise<DailyLimitState> {
+    const [enabled, amount, spent, freesAt] = await this.contract.getDailyLimit(
+      account,
+      asset,
+    );
+    return { enabled, amount, spent, freesAt };
+  }
+
+  /**
+   * @notice What the account can still spend of the asset in the last 24 hours
+   * (`MaxUint256` if it is not limited).
+   */
+  async getRemainingDailyLimit(
+    account: string,
+    asset: string,
+  ): Promise<bigint> {
+    return this.contract.getRemainingDailyLimit(account, asset);
+  }
+
+  async isAllowlistEnabled(account: string): Promise<boolean> {
+    return this.contract.isAllowlistEnabled(account);
+  }
+
+  async isTargetAllowed(account: string, target: string): Promise<boolean> {
+    return this.contract.isTargetAllowed(account, target);
+  }
+
+  async isSelectorBlocked(account: string, selector: string): Promise<boolean> {
+    return this.contract.isSelectorBlocked(account, toSelector(selector));
+  }
+
+  /**
+   * @notice Predicts whether the account could make the calls now, e.g.
+   * before a batch is signed.
+   */
+  async previewCalls(
+    account: string,
+    calls: Call[],
+  ): Promise<SpendingPolicyPreview> {
+    try {
+      await this.contract.previewCalls(
+        account,
+        calls.map((call) => call.target),
+        calls.map((call) => call.value ?? 0n),
+        calls.map((call) => call.data ?? "0x"),
+      );
+      return { allowed: true };
+    } catch (error) {
+      const data = revertDataOf(error);
+      const decoded = data && decodeAccountError(data, error);
+      if (!decoded) {
+        throw error;
+      }
+      return { allowed: false, error: decoded };
+    }
+  }
+
+  private call(method: string, args: unknown[]): Call {
+    return {
+      target: this.address,
+      data: this.contract.interface.encodeFunctionData(method, args),
+    };
+  }
+}
+
+/**
+ * @notice The ID of a policy change: the hash of its calldata.
+ */
+export function changeIdOf(change: Call): string {
+  return keccak256(change.data ?? "0x");
+}
+
+/**
+ * @notice Predicts whether the account's current spending policy allows the
+ * calls. Accounts without a policy allow everything.
+ */
+export async function previewSpendingPolicy(
+  account: TyronAccount,
+  calls: Call[],
+): Promise<SpendingPolicyPreview> {
+  const { policy } = await account.getSpendingPolicy();
+  if (policy === ZeroAddress) {
+    return { allowed: true };
+  }
+  return TyronSpendingPolicy.connect(
+    policy,
+    account.contract.runner!,
+  ).previewCalls(account.address, calls);
+}
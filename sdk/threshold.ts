@@ -0,0 +1,71 @@
+/**
+ * @notice How an account computes its recovery threshold
+ * (`TyronSSIAccount.ThresholdMode`).
+ */
+export enum ThresholdMode {
+  // @dev Half plus one of the guardians, at least 3 (or all of them if there are fewer).
+  Majority = 0,
+  // @dev `value` guardians.
+  Fixed = 1,
+  // @dev `value` percent of the guardians, rounded up.
+  Percentage = 2,
+  // @dev Guardians vote with their weight and `value` is the weight required.
+  Weighted = 3,
+}
+
+/**
+ * @notice The threshold policy of an account (`TyronSSIAccount.ThresholdPolicy`).
+ */
+export interface ThresholdPolicy {
+  mode: ThresholdMode;
+  value: bigint;
+}
+
+/**
+ * @notice How far a set of guardian signatures is from the threshold.
+ * @dev Votes are weights with the `Weighted` policy and guardians otherwise.
+ */
+export interface RecoveryProgress {
+  threshold: bigint;
+  votes: bigint;
+  remaining: bigint;
+}
+
+/**
+ * @notice Mirrors `_updateGuardianThreshold`, e.g. to preview a policy before
+ * setting it.
+ * @param count The number of guardians.
+ * @param totalWeight The total weight of the guardians (used by `Weighted`).
+ * @return The threshold, or `undefined` if the guardians could not reach it
+ * (the account rejects such policies).
+ */
+export function computeThreshold(
+  policy: ThresholdPolicy,
+  count: bigint,
+  totalWeight: bigint = count,
+): bigint | undefined {
+  let threshold: bigint;
+  let votes = count;
+  switch (policy.mode) {
+    case ThresholdMode.Majority: {
+      threshold = count / 2n + 1n;
+      const minimum = count < 3n ? count : 3n;
+      if (threshold < minimum) {
+        threshold = minimum;
+      }
+      break;
+    }
+    case ThresholdMode.Percentage:
+      threshold = (count * policy.value + 99n) / 100n;
+      break;
+    default:
+      threshold = policy.value;
+      if (policy.mode === ThresholdMode.Weighted) {
+        votes = totalWeight;
+      }
+  }
+  if (threshold === 0n) {
+    threshold = 1n;
+  }
+  return count !== 0n && threshold > votes ? undefined : threshold;
+}
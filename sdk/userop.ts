@@ -0,0 +1,181 @@
+import {
+  AbiCoder,
+  Contract,
+  ContractRunner,
+  Signer,
+  getBytes,
+  keccak256,
+} from "ethers";
+import { ENTRY_POINT_ABI } from "./abi";
+import { Call, encodeExecute, encodeExecuteBatch } from "./calls";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * @notice An ERC-4337 v0.6 user operation.
+ */
+export interface UserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  paymasterAndData: string;
+  signature: string;
+}
+
+/**
+ * @notice What a user operation should do, plus optional field overrides.
+ * Either `calls` (encoded as `execute` or `executeBatch`) or raw `callData`.
+ */
+export interface UserOperationRequest extends Partial<UserOperation> {
+  sender: string;
+  calls?: Call[];
+}
+
+export const DEFAULT_CALL_GAS_LIMIT = 200_000n;
+export const DEFAULT_VERIFICATION_GAS_LIMIT = 150_000n;
+// @dev Deploying the account from `initCode` is paid by the verification gas.
+export const DEFAULT_DEPLOYMENT_GAS_LIMIT = 3_000_000n;
+export const DEFAULT_PRE_VERIFICATION_GAS = 50_000n;
+
+// @dev A 65-byte signature that `_validateSignature` rejects without reverting (its `s` is out of range).
+export const DUMMY_SIGNATURE = "0x" + "ff".repeat(64) + "1c";
+
+/**
+ * @notice Encodes the calls of a user operation for the account.
+ */
+export function encodeCalls(calls: Call[]): string {
+  return calls.length === 1 && !calls[0].allowFailure
+    ? encodeExecute(calls[0])
+    : encodeExecuteBatch(calls);
+}
+
+/**
+ * @notice Builds an unsigned user operation. The nonce is read from the
+ * EntryPoint, and the call gas is estimated when the account is deployed.
+ */
+export async function buildUserOp(
+  entryPoint: string,
+  runner: ContractRunner,
+  request: UserOperationRequest,
+): Promise<UserOperation> {
+  const provider = runner.provider;
+  if (!provider) {
+    throw new Error("UserOperation: a provider is required.");
+  }
+  const { calls, ...fields } = request;
+  const callData = fields.callData ?? encodeCalls(calls ?? []);
+  const initCode = fields.initCode ?? "0x";
+  const deployed = (await provider.getCode(request.sender)) !== "0x";
+
+  const nonce =
+    fields.nonce ??
+    (await new Contract(entryPoint, ENTRY_POINT_ABI, runner).getNonce(
+      request.sender,
+      0,
+    ));
+
+  let callGasLimit = fields.callGasLimit;
+  if (callGasLimit === undefined) {
+    callGasLimit = deployed
+      ? ((await provider.estimateGas({
+          from: entryPoint,
+          to: request.sender,
+          data: callData,
+        })) *
+          12n) /
+        10n
+      : DEFAULT_CALL_GAS_LIMIT;
+  }
+
+  let { maxFeePerGas, maxPriorityFeePerGas } = fields;
+  if (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined) {
+    const feeData = await provider.getFeeData();
+    maxFeePerGas ??= feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    maxPriorityFeePerGas ??= feeData.maxPriorityFeePerGas ?? maxFeePerGas;
+  }
+
+  return {
+    sender: request.sender,
+    nonce,
+    initCode,
+    callData,
+    callGasLimit,
+    verificationGasLimit:
+      fields.verificationGasLimit ??
+      (initCode === "0x"
+        ? DEFAULT_VERIFICATION_GAS_LIMIT
+        : DEFAULT_DEPLOYMENT_GAS_LIMIT),
+    preVerificationGas:
+      fields.preVerificationGas ?? DEFAULT_PRE_VERIFICATION_GAS,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    paymasterAndData: fields.paymasterAndData ?? "0x",
+    signature: fields.signature ?? DUMMY_SIGNATURE,
+  };
+}
+
+/**
+ * @notice Mirrors `EntryPoint.getUserOpHash(userOp)`.
+ */
+export function getUserOpHash(
+  op: UserOperation,
+  entryPoint: string,
+  chainId: bigint,
+): string {
+  const packed = abiCoder.encode(
+    [
+      "address",
+      "uint256",
+      "bytes32",
+      "bytes32",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "bytes32",
+    ],
+    [
+      op.sender,
+      op.nonce,
+      keccak256(op.initCode),
+      keccak256(op.callData),
+      op.callGasLimit,
+      op.verificationGasLimit,
+      op.preVerificationGas,
+      op.maxFeePerGas,
+      op.maxPriorityFeePerGas,
+      keccak256(op.paymasterAndData),
+    ],
+  );
+  return keccak256(
+    abiCoder.encode(
+      ["bytes32", "address", "uint256"],
+      [keccak256(packed), entryPoint, chainId],
+    ),
+  );
+}
+
+/**
+ * @notice Signs a user operation with the owner key, in the format
+ * `_validateSignature` expects: an "Ethereum Signed Message" of the
+ * user operation hash.
+ */
+export async function signUserOp(
+  op: UserOperation,
+  owner: Signer,
+  entryPoint: string,
+  chainId: bigint,
+): Promise<UserOperation> {
+  const userOpHash = getUserOpHash(op, entryPoint, chainId);
+  return {
+    ...op,
+    signature: await owner.signMessage(getBytes(userOpHash)),
+  };
+}
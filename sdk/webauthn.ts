@@ -0,0 +1,261 @@
+import {
+  AbiCoder,
+  BytesLike,
+  ContractFactory,
+  Signer,
+  concat,
+  dataLength,
+  dataSlice,
+  getBytes,
+  hexlify,
+  sha256,
+  toBigInt,
+  toUtf8Bytes,
+  toUtf8String,
+} from "ethers";
+import { KeyObject, generateKeyPairSync, sign } from "crypto";
+import { WEBAUTHN_VERIFIER_ABI } from "./abi";
+import { BytecodeArtifact } from "./account";
+import { AccountDomain, getMessageHash } from "./messages";
+import { UserOperation, getUserOpHash } from "./userop";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * @notice Prefix of the signatures made by the owner's passkey
+ * (`TyronSSIAccount.PASSKEY_SIGNATURE_MAGIC`).
+ */
+export const PASSKEY_SIGNATURE_MAGIC = "0x9a55c0de";
+
+// @dev Verifying a P-256 signature in Solidity costs about 750k gas.
+export const PASSKEY_VERIFICATION_GAS_LIMIT = 2_000_000n;
+
+const ASSERTION_TUPLE =
+  "tuple(bytes authenticatorData, string clientDataJSON, uint256 challengeIndex, uint256 typeIndex, uint256 r, uint256 s)";
+
+/**
+ * @notice A P-256 public key (`TyronSSIAccount.setPasskey`).
+ */
+export interface PasskeyPublicKey {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * @notice A WebAuthn assertion in the format of `WebAuthn.Assertion`
+ * (contracts/WebAuthn.sol).
+ */
+export interface WebAuthnAssertion {
+  authenticatorData: string;
+  clientDataJSON: string;
+  challengeIndex: bigint;
+  typeIndex: bigint;
+  r: bigint;
+  s: bigint;
+}
+
+/**
+ * @notice Anything that produces WebAuthn assertions over a 32-byte
+ * challenge: a browser passkey wrapped with `assertionFromResponse`, or a
+ * `SoftwarePasskey` in tests.
+ */
+export interface WebAuthnSigner {
+  sign(challenge: string): Promise<WebAuthnAssertion>;
+}
+
+/**
+ * @notice Encodes a 32-byte challenge the way browsers put it in
+ * `clientDataJSON`: base64url without padding.
+ */
+export function encodeChallenge(challenge: BytesLike): string {
+  return Buffer.from(getBytes(challenge)).toString("base64url");
+}
+
+/**
+ * @notice Builds an assertion from the `AuthenticatorAssertionResponse` of
+ * `navigator.credentials.get`, whose signature is DER-encoded.
+ */
+export function assertionFromResponse(response: {
+  authenticatorData: BytesLike;
+  clientDataJSON: BytesLike;
+  signature: BytesLike;
+}): WebAuthnAssertion {
+  const clientDataJSON = toUtf8String(response.clientDataJSON);
+  const { r, s } = parseDerSignature(response.signature);
+  return {
+    authenticatorData: hexlify(response.authenticatorData),
+    clientDataJSON,
+    challengeIndex: BigInt(clientDataJSON.indexOf('"challenge":"')),
+    typeIndex: BigInt(clientDataJSON.indexOf('"type":"webauthn.get"')),
+    r,
+    s,
+  };
+}
+
+/**
+ * @notice Decodes a DER-encoded ECDSA signature,
+ * `SEQUENCE { INTEGER r, INTEGER s }`.
+ */
+export function parseDerSignature(signature: BytesLike): {
+  r: bigint;
+  s: bigint;
+} {
+  const bytes = getBytes(signature);
+  if (bytes[0] !== 0x30 || bytes[2] !== 0x02) {
+    throw new Error("WebAuthn: the signature is not DER-encoded.");
+  }
+  const rLength = bytes[3];
+  const r = toBigInt(bytes.slice(4, 4 + rLength));
+  const sOffset = 4 + rLength;
+  if (bytes[sOffset] !== 0x02) {
+    throw new Error("WebAuthn: the signature is not DER-encoded.");
+  }
+  const s = toBigInt(
+    bytes.slice(sOffset + 2, sOffset + 2 + bytes[sOffset + 1]),
+  );
+  return { r, s };
+}
+
+/**
+ * @notice Encodes an assertion as a signature of the owner's passkey.
+ */
+export function encodePasskeySignature(assertion: WebAuthnAssertion): string {
+  return concat([
+    PASSKEY_SIGNATURE_MAGIC,
+    abiCoder.encode([ASSERTION_TUPLE], [assertion]),
+  ]);
+}
+
+/**
+ * @notice Splits a passkey signature, or returns `undefined` if the
+ * signature was made by another signer.
+ */
+export function decodePasskeySignature(
+  signature: string,
+): WebAuthnAssertion | undefined {
+  if (
+    dataLength(signature) <= 65 ||
+    dataSlice(signature, 0, 4) !== PASSKEY_SIGNATURE_MAGIC
+  ) {
+    return undefined;
+  }
+  const [assertion] = abiCoder.decode(
+    [ASSERTION_TUPLE],
+    dataSlice(signature, 4),
+  );
+  return {
+    authenticatorData: assertion.authenticatorData,
+    clientDataJSON: assertion.clientDataJSON,
+    challengeIndex: assertion.challengeIndex,
+    typeIndex: assertion.typeIndex,
+    r: assertion.r,
+    s: assertion.s,
+  };
+}
+
+/**
+ * @notice Signs a user operation with the owner's passkey. The user
+ * operation needs about `PASSKEY_VERIFICATION_GAS_LIMIT` of verification gas.
+ */
+export async function signPasskeyUserOp(
+  op: UserOperation,
+  passkey: WebAuthnSigner,
+  entryPoint: string,
+  chainId: bigint,
+): Promise<UserOperation> {
+  const userOpHash = getUserOpHash(op, entryPoint, chainId);
+  return {
+    ...op,
+    signature: encodePasskeySignature(await passkey.sign(userOpHash)),
+  };
+}
+
+/**
+ * @notice Signs a digest for the account's `isValidSignature` with the
+ * owner's passkey. The challenge is the account's message hash of the digest.
+ */
+export async function signPasskeyMessage(
+  passkey: WebAuthnSigner,
+  domain: AccountDomain,
+  digest: BytesLike,
+): Promise<string> {
+  const challenge = getMessageHash(
+    domain,
+    abiCoder.encode(["bytes32"], [digest]),
+  );
+  return encodePasskeySignature(await passkey.sign(challenge));
+}
+
+/**
+ * @notice A P-256 key held in memory that produces the same assertions as a
+ * platform authenticator, so passkey flows can run without a browser.
+ * @dev For tests and scripts only: a real passkey never leaves its authenticator.
+ */
+export class SoftwarePasskey implements WebAuthnSigner {
+  constructor(
+    readonly privateKey: KeyObject,
+    readonly rpId = "localhost",
+    readonly origin = "http://localhost",
+  ) {}
+
+  static generate(rpId?: string, origin?: string): SoftwarePasskey {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    return new SoftwarePasskey(privateKey, rpId, origin);
+  }
+
+  get publicKey(): PasskeyPublicKey {
+    const jwk = this.privateKey.export({ format: "jwk" });
+    return {
+      x: toBigInt(Buffer.from(jwk.x!, "base64url")),
+      y: toBigInt(Buffer.from(jwk.y!, "base64url")),
+    };
+  }
+
+  async sign(challenge: string): Promise<WebAuthnAssertion> {
+    const clientDataJSON = JSON.stringify({
+      type: "webauthn.get",
+      challenge: encodeChallenge(challenge),
+      origin: this.origin,
+      crossOrigin: false,
+    });
+    // @dev The RP ID hash, the "user present" and "user verified" flags, and a zero signature counter.
+    const authenticatorData = concat([
+      sha256(toUtf8Bytes(this.rpId)),
+      "0x05",
+      "0x00000000",
+    ]);
+    const signature = sign(
+      "sha256",
+      getBytes(
+        concat([authenticatorData, sha256(toUtf8Bytes(clientDataJSON))]),
+      ),
+      { key: this.privateKey, dsaEncoding: "ieee-p1363" },
+    );
+    return {
+      authenticatorData,
+      clientDataJSON,
+      challengeIndex: BigInt(clientDataJSON.indexOf('"challenge":"')),
+      typeIndex: BigInt(clientDataJSON.indexOf('"type":"webauthn.get"')),
+      r: toBigInt(signature.subarray(0, 32)),
+      s: toBigInt(signature.subarray(32)),
+    };
+  }
+}
+
+/**
+ * @notice Deploys a `TyronWebAuthnVerifier`, e.g. from
+ * `hre.artifacts.readArtifact("TyronWebAuthnVerifier")`, for local networks.
+ */
+export async function deployWebAuthnVerifier(
+  signer: Signer,
+  artifact: BytecodeArtifact,
+): Promise<string> {
+  const factory = new ContractFactory(
+    WEBAUTHN_VERIFIER_ABI,
+    artifact.bytecode,
+    signer,
+  );
+  const verifier = await factory.deploy();
+  await verifier.waitForDeployment();
+  return verifier.getAddress();
+}
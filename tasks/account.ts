@@ -0,0 +1,255 @@
+import { formatEther, parseEther } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  GuardianSource,
+  ModuleType,
+  ThresholdMode,
+  TyronAccount,
+  encodeModuleData,
+  listModules,
+} from "../sdk";
+import {
+  AccountCall,
+  addGuardiansCall,
+  executeCall,
+  formatOutcome,
+  readCallFile,
+  removeGuardiansCall,
+  resolveAccount,
+  runAccountCall,
+  splitList,
+} from "../scripts/utils/admin";
+
+interface AccountFlags {
+  account?: string;
+  dryRun?: boolean;
+}
+
+async function connect(
+  hre: HardhatRuntimeEnvironment,
+  flags: AccountFlags,
+): Promise<TyronAccount> {
+  const [signer] = await hre.ethers.getSigners();
+  const account = await resolveAccount(
+    hre,
+    signer ?? hre.ethers.provider,
+    flags.account,
+  );
+  console.log(`Account: ${account.address}`);
+  return account;
+}
+
+async function run(
+  hre: HardhatRuntimeEnvironment,
+  flags: AccountFlags,
+  call: (account: TyronAccount) => AccountCall | Promise<AccountCall>,
+) {
+  const account = await connect(hre, flags);
+  const accountCall = await call(account);
+  console.log(
+    formatOutcome(
+      accountCall,
+      await runAccountCall(account, accountCall, flags.dryRun),
+    ),
+  );
+}
+
+// @notice Declares an account task: `--account` defaults to the latest
+// account of the deployment manifest.
+function accountTask(name: string, description: string) {
+  return task(name, description).addOptionalParam(
+    "account",
+    "The account address (defaults to the latest one of the manifest)",
+  );
+}
+
+// @notice Declares an account task that sends a call, or simulates it with `--dry-run`.
+function callTask(name: string, description: string) {
+  return accountTask(name, description).addFlag(
+    "dryRun",
+    "Simulates the call and prints the decoded revert",
+  );
+}
+
+accountTask("tyron:guardians", "Lists the guardians of an account").setAction(
+  async (flags, hre) => {
+    const account = await connect(hre, flags);
+    console.table(
+      (await account.getGuardians()).map((guardian) => ({
+        guardian: guardian.guardian,
+        source: GuardianSource[guardian.source],
+        tokenId: guardian.tokenId.toString(),
+        hash: guardian.guardianHash,
+      })),
+    );
+  },
+);
+
+callTask("tyron:guardians:add", "Adds guardians to an account")
+  .addOptionalParam("guardians", "Comma-separated guardian addresses")
+  .addOptionalParam("guardianIds", "Comma-separated guardian DNS NFT IDs")
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () =>
+      addGuardiansCall(
+        splitList(flags.guardians),
+        splitList(flags.guardianIds),
+      ),
+    ),
+  );
+
+callTask("tyron:guardians:remove", "Removes guardians from an account")
+  .addOptionalParam("guardians", "Comma-separated guardian addresses")
+  .addOptionalParam("guardianIds", "Comma-separated guardian DNS NFT IDs")
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () =>
+      removeGuardiansCall(
+        splitList(flags.guardians),
+        splitList(flags.guardianIds),
+      ),
+    ),
+  );
+
+accountTask(
+  "tyron:threshold",
+  "Shows the guardian count, threshold and threshold policy",
+).setAction(async (flags, hre) => {
+  const account = await connect(hre, flags);
+  const { count, threshold } = await account.getGuardianParams();
+  const policy = await account.getThresholdPolicy();
+  console.log(`Guardians: ${count}`);
+  console.log(`Threshold: ${threshold}`);
+  console.log(`Policy: ${ThresholdMode[policy.mode]} (${policy.value})`);
+});
+
+callTask("tyron:owner:transfer", "Starts an ownership transfer")
+  .addParam("newOwner", "The address of the new owner")
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () => ({
+      method: "transferOwnership",
+      args: [flags.newOwner],
+    })),
+  );
+
+callTask(
+  "tyron:owner:accept",
+  "Accepts a pending ownership transfer, signed by the new owner",
+).setAction(async (flags, hre) =>
+  run(hre, flags, () => ({ method: "acceptOwnership", args: [] })),
+);
+
+// @notice Parses a module type given by name, e.g. "validator".
+function moduleType(name: string): ModuleType {
+  const type = Object.entries(ModuleType).find(
+    ([key]) => key.toLowerCase() === name.toLowerCase(),
+  );
+  if (!type) {
+    throw new Error(
+      `Unknown module type ${name}: use validator, executor or fallback.`,
+    );
+  }
+  return type[1] as ModuleType;
+}
+
+// @notice Declares a module task: the module, its type and its data.
+function moduleTask(name: string, description: string) {
+  return callTask(name, description)
+    .addParam("module", "The address of the module")
+    .addParam("type", "The module type: validator, executor or fallback")
+    .addOptionalParam("selector", "The function a fallback handler answers")
+    .addOptionalParam("data", "The hex data of the module's hook", "0x");
+}
+
+accountTask(
+  "tyron:modules",
+  "Lists the modules installed on an account",
+).setAction(async (flags, hre) => {
+  const account = await connect(hre, flags);
+  console.table(
+    (await listModules(account)).map((module) => ({
+      type: ModuleType[module.type],
+      module: module.module,
+      selector: module.selector ?? "",
+      block: module.blockNumber,
+    })),
+  );
+});
+
+moduleTask(
+  "tyron:modules:install",
+  "Installs a module on an account",
+).setAction(async (flags, hre) =>
+  run(hre, flags, () => {
+    const installation = { ...flags, type: moduleType(flags.type) };
+    return {
+      method: "installModule",
+      args: [
+        installation.type,
+        flags.module,
+        encodeModuleData(installation, flags.data),
+      ],
+    };
+  }),
+);
+
+moduleTask(
+  "tyron:modules:uninstall",
+  "Uninstalls a module from an account",
+).setAction(async (flags, hre) =>
+  run(hre, flags, () => {
+    const installation = { ...flags, type: moduleType(flags.type) };
+    return {
+      method: "uninstallModule",
+      args: [
+        installation.type,
+        flags.module,
+        encodeModuleData(installation, flags.data),
+      ],
+    };
+  }),
+);
+
+accountTask(
+  "tyron:deposit",
+  "Shows the account's deposit in the EntryPoint",
+).setAction(async (flags, hre) => {
+  const account = await connect(hre, flags);
+  console.log(`Deposit: ${formatEther(await account.getDeposit())} ETH`);
+});
+
+callTask("tyron:deposit:add", "Tops up the account's EntryPoint deposit")
+  .addParam("amount", "The amount in ETH")
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () => ({
+      method: "addDeposit",
+      args: [],
+      value: parseEther(flags.amount),
+    })),
+  );
+
+callTask(
+  "tyron:deposit:withdraw",
+  "Withdraws from the account's EntryPoint deposit",
+)
+  .addParam("to", "The address receiving the withdrawal")
+  .addParam("amount", "The amount in ETH")
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () => ({
+      method: "withdrawDepositTo",
+      args: [flags.to, parseEther(flags.amount)],
+    })),
+  );
+
+callTask(
+  "tyron:execute",
+  "Runs the calls of a JSON file with execute or executeBatch",
+)
+  .addParam(
+    "calls",
+    "A JSON list of { target, value?, data? }, with value in wei",
+    undefined,
+    types.inputFile,
+  )
+  .setAction(async (flags, hre) =>
+    run(hre, flags, () => executeCall(readCallFile(flags.calls))),
+  );
@@ -0,0 +1,68 @@
+import { writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import path from "path";
+import { TyronAccount } from "../sdk";
+import { ActivityIndexer } from "../scripts/utils/activity";
+import { resolveAccount, splitList } from "../scripts/utils/admin";
+import { manifestDir } from "../scripts/utils/deploy";
+
+// @notice Indexes the activity of accounts and exports their timeline, e.g.
+// npx hardhat tyron:activity --network zkEVM --from-block 1200000 --format csv --out activity.csv
+// Later runs resume from the store (deployments/activity/<chainId>.json by default).
+task(
+  "tyron:activity",
+  "Indexes the activity of accounts and exports their timeline",
+)
+  .addOptionalParam(
+    "accounts",
+    "Comma-separated account addresses (defaults to the latest one of the manifest)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "The first block to index, e.g. the block of the deployment",
+    0,
+    types.int,
+  )
+  .addOptionalParam(
+    "confirmations",
+    "The blocks below the head left out",
+    0,
+    types.int,
+  )
+  .addOptionalParam("store", "The JSON file of the index")
+  .addOptionalParam("format", "json or csv", "json")
+  .addOptionalParam("out", "The file to export to (printed if unset)")
+  .setAction(async (flags, hre) => {
+    if (flags.format !== "json" && flags.format !== "csv") {
+      throw new Error(`Unknown format ${flags.format}: use json or csv.`);
+    }
+    const provider = hre.ethers.provider;
+    const addresses = splitList(flags.accounts);
+    const accounts =
+      addresses.length > 0
+        ? addresses.map((address) => TyronAccount.connect(address, provider))
+        : [await resolveAccount(hre, provider)];
+    const { chainId } = await provider.getNetwork();
+
+    const indexer = await ActivityIndexer.open(
+      provider,
+      flags.store ?? path.join(manifestDir(hre), "activity", `${chainId}.json`),
+      {
+        accounts: accounts.map(({ address }) => address),
+        entryPoint: await accounts[0].contract.entryPoint(),
+        fromBlock: flags.fromBlock,
+        confirmations: flags.confirmations,
+      },
+    );
+    const { added, removed, syncedBlock } = await indexer.sync();
+    const timeline = indexer.export(flags.format);
+    if (!flags.out) {
+      process.stdout.write(timeline);
+      return;
+    }
+    console.log(
+      `Indexed up to block ${syncedBlock}: ${added} new entries, ${removed} dropped by reorgs.`,
+    );
+    writeFileSync(flags.out, timeline);
+    console.log(`Timeline written to: ${flags.out}`);
+  });
@@ -0,0 +1,31 @@
+import { task, types } from "hardhat/config";
+import { loadAccountParams } from "../scripts/utils/accountParams";
+import { deployTyron } from "../scripts/utils/deploy";
+
+// @notice Deploys an account, e.g.
+// npx hardhat tyron:deploy --network zkEVM --params account.yaml --salt 1
+task("tyron:deploy", "Deploys a TyronSSI account through the factory")
+  .addOptionalParam(
+    "params",
+    "A JSON or YAML file with the account parameters",
+    undefined,
+    types.inputFile,
+  )
+  .addOptionalParam("owner", "The account owner (defaults to the deployer)")
+  .addOptionalParam("guardians", "Comma-separated guardian addresses")
+  .addOptionalParam("guardianIds", "Comma-separated guardian DNS NFT IDs")
+  .addOptionalParam("salt", "The CREATE2 salt of the account")
+  .addOptionalParam("dns", "The Tyron DNS NFT address")
+  .addOptionalParam("entryPoint", "The ERC-4337 EntryPoint address")
+  .setAction(async (flags, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer) {
+      throw new Error(
+        `No signer for ${hre.network.name}: set DEPLOYER_PRIVATE_KEY.`,
+      );
+    }
+    console.log(`Signer address: ${signer.address}`);
+
+    const { file } = await deployTyron(hre, signer, loadAccountParams(flags));
+    console.log(`Manifest written to: ${file}`);
+  });
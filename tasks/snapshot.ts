@@ -0,0 +1,129 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { exportAccountSnapshot, formatSnapshotDifference } from "../sdk";
+import { formatOutcome, resolveAccount } from "../scripts/utils/admin";
+import {
+  SnapshotPlan,
+  applySnapshotPlan,
+  deploySnapshot,
+  planSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "../scripts/utils/snapshot";
+
+async function requireSigner(hre: HardhatRuntimeEnvironment) {
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer) {
+    throw new Error(
+      `No signer for ${hre.network.name}: set DEPLOYER_PRIVATE_KEY.`,
+    );
+  }
+  return signer;
+}
+
+function printPlan(plan: SnapshotPlan) {
+  if (plan.differences.length === 0) {
+    console.log("The account matches the snapshot.");
+    return;
+  }
+  for (const difference of plan.differences) {
+    console.log(formatSnapshotDifference(difference));
+  }
+  if (
+    plan.differences.some(
+      ({ field }) => field === "entryPoint" || field === "dns",
+    )
+  ) {
+    console.log(
+      "The EntryPoint and DNS are bound to the implementation and are not reconciled.",
+    );
+  }
+}
+
+// @notice Exports an account to a snapshot, e.g.
+// npx hardhat tyron:snapshot:export --network zkEVM --out snapshot.json
+task("tyron:snapshot:export", "Exports the state of an account to a snapshot")
+  .addOptionalParam(
+    "account",
+    "The account address (defaults to the latest one of the manifest)",
+  )
+  .addOptionalParam("out", "The JSON file to write (printed if unset)")
+  .setAction(async (flags, hre) => {
+    const [runner] = await hre.ethers.getSigners();
+    const account = await resolveAccount(
+      hre,
+      runner ?? hre.ethers.provider,
+      flags.account,
+    );
+    const snapshot = await exportAccountSnapshot(account);
+    if (flags.out) {
+      console.log(`Snapshot written to: ${writeSnapshot(snapshot, flags.out)}`);
+    } else {
+      console.log(JSON.stringify(snapshot, null, 2));
+    }
+  });
+
+task(
+  "tyron:snapshot:diff",
+  "Compares an account with a snapshot and lists the calls that reconcile it",
+)
+  .addParam("snapshot", "The snapshot file", undefined, types.inputFile)
+  .addOptionalParam(
+    "account",
+    "The account address (defaults to the latest one of the manifest)",
+  )
+  .setAction(async (flags, hre) => {
+    const [runner] = await hre.ethers.getSigners();
+    const account = await resolveAccount(
+      hre,
+      runner ?? hre.ethers.provider,
+      flags.account,
+    );
+    console.log(`Account: ${account.address}`);
+    const plan = await planSnapshot(account, readSnapshot(flags.snapshot));
+    printPlan(plan);
+    for (const call of plan.calls) {
+      console.log(`Call: ${call.method}`);
+    }
+  });
+
+// @notice Replicates a snapshot on another network, e.g.
+// npx hardhat tyron:snapshot:apply --network sepolia --snapshot snapshot.json --deploy
+task(
+  "tyron:snapshot:apply",
+  "Deploys an account from a snapshot, or reconciles an account with it",
+)
+  .addParam("snapshot", "The snapshot file", undefined, types.inputFile)
+  .addOptionalParam(
+    "account",
+    "The account address (defaults to the latest one of the manifest)",
+  )
+  .addFlag("deploy", "Deploys a new account instead of reconciling one")
+  .addOptionalParam("salt", "The CREATE2 salt of a new account", "0")
+  .addFlag("dryRun", "Shows the differences and simulates the calls")
+  .setAction(async (flags, hre) => {
+    if (flags.deploy && flags.dryRun) {
+      throw new Error("A dry run cannot deploy: pass --account instead.");
+    }
+    const snapshot = readSnapshot(flags.snapshot);
+    const deployer = await requireSigner(hre);
+    const account = flags.deploy
+      ? await deploySnapshot(hre, deployer, snapshot, BigInt(flags.salt))
+      : await resolveAccount(hre, deployer, flags.account);
+    console.log(`Account: ${account.address}`);
+
+    const plan = await planSnapshot(account, snapshot);
+    printPlan(plan);
+    for (const { call, outcome } of await applySnapshotPlan(
+      account,
+      plan,
+      flags.dryRun,
+    )) {
+      console.log(formatOutcome(call, outcome));
+    }
+    if (plan.calls.some(({ method }) => method === "transferOwnership")) {
+      console.log(
+        `${snapshot.owner} must accept the ownership (tyron:owner:accept).`,
+      );
+    }
+  });
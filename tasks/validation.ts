@@ -0,0 +1,87 @@
+import { readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import {
+  UserOperation,
+  buildUserOp,
+  fromRpcUserOp,
+  signUserOp,
+  toRpcUserOp,
+} from "../sdk";
+import { readCallFile, resolveAccount } from "../scripts/utils/admin";
+import {
+  TracingProvider,
+  formatValidationReport,
+  simulateUserOpValidation,
+} from "../scripts/utils/validation";
+
+// @notice Simulates the validation of a user operation and checks it against the bundler rules, e.g.
+// npx hardhat tyron:validate --op userop.json
+// npx hardhat tyron:validate --calls calls.json --out userop.json
+// The network must answer debug_traceCall, like the Hardhat network. Exits with 1 if the operation is invalid.
+task(
+  "tyron:validate",
+  "Simulates the validation of a user operation and checks the bundler rules",
+)
+  .addOptionalParam(
+    "op",
+    "A JSON file of the user operation, with hex fields as in eth_sendUserOperation",
+  )
+  .addOptionalParam(
+    "calls",
+    "A JSON file of calls to build a user operation from, signed by the owner",
+  )
+  .addOptionalParam(
+    "account",
+    "The account address (defaults to the latest one of the manifest)",
+  )
+  .addOptionalParam(
+    "entryPoint",
+    "The EntryPoint address (defaults to the account's)",
+  )
+  .addOptionalParam("out", "The JSON file to write the user operation to")
+  .setAction(async (flags, hre) => {
+    if (!flags.op === !flags.calls) {
+      throw new Error("Set either --op or --calls.");
+    }
+    const [signer] = await hre.ethers.getSigners();
+    let op: UserOperation;
+    let entryPoint: string = flags.entryPoint;
+    if (flags.op) {
+      op = fromRpcUserOp(JSON.parse(readFileSync(flags.op, "utf8")));
+      entryPoint ??= await (
+        await resolveAccount(hre, hre.ethers.provider, op.sender)
+      ).contract.entryPoint();
+    } else {
+      if (!signer) {
+        throw new Error(
+          `No signer for ${hre.network.name}: set DEPLOYER_PRIVATE_KEY.`,
+        );
+      }
+      const account = await resolveAccount(hre, signer, flags.account);
+      entryPoint ??= await account.contract.entryPoint();
+      const { chainId } = await hre.ethers.provider.getNetwork();
+      op = await signUserOp(
+        await buildUserOp(entryPoint, signer, {
+          sender: account.address,
+          calls: readCallFile(flags.calls),
+        }),
+        signer,
+        entryPoint,
+        chainId,
+      );
+    }
+    if (flags.out) {
+      writeFileSync(flags.out, JSON.stringify(toRpcUserOp(op), null, 2));
+      console.log(`User operation written to: ${flags.out}`);
+    }
+
+    const report = await simulateUserOpValidation(
+      hre.ethers.provider as unknown as TracingProvider,
+      entryPoint,
+      op,
+    );
+    console.log(formatValidationReport(op, report));
+    if (!report.valid) {
+      process.exitCode = 1;
+    }
+  });
@@ -1,13 +1,23 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
-import { expect } from "chai";
 import {
-  TypedDataEncoder,
-  hashMessage,
-  keccak256,
-  solidityPackedKeccak256,
-  toUtf8Bytes,
-} from "ethers";
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { BaseWallet } from "ethers";
 import { ethers } from "hardhat";
+import {
+  RecoveryVerificationError,
+  TyronAccount,
+  accountDomain,
+  bundleRecovery,
+  encodeRecoveryMessage,
+  hashGuardian,
+  prepareRecovery,
+  recoveryDigest,
+  ThresholdMode,
+  signRecovery,
+  verifyRecoveryBundle,
+} from "../sdk";
 const hre = require("hardhat");
 
 describe("TyronSSIAccount", function () {
@@ -40,12 +50,29 @@ describe("TyronSSIAccount", function () {
 
     const entryPoint = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
 
-    const TyronSSI = await hre.ethers.getContractFactory("TyronSSIAccount");
-    const contract = await TyronSSI.deploy(addresses, dns, ids, entryPoint);
+    const guardiansLibrary = await hre.ethers.deployContract("TyronGuardians");
+    const implementation = await hre.ethers.deployContract(
+      "TyronSSIAccount",
+      [dns, entryPoint],
+      { libraries: { TyronGuardians: guardiansLibrary.target } },
+    );
+    const proxy = await hre.ethers.deployContract("ERC1967Proxy", [
+      implementation.target,
+      implementation.interface.encodeFunctionData("initialize", [
+        signer,
+        addresses,
+        ids,
+      ]),
+    ]);
+    const contract = await hre.ethers.getContractAt(
+      "TyronSSIAccount",
+      proxy.target,
+    );
     console.log("Account:", contract.target);
 
     return {
       contract,
+      implementation,
       addresses,
       signer,
       accounts,
@@ -56,12 +83,54 @@ describe("TyronSSIAccount", function () {
     };
   }
 
+  // Signs a recovery to `new_signer` with the given guardians, checking it against the account.
+  async function signBundle(
+    contract: any,
+    new_signer: string,
+    guardians: BaseWallet[],
+  ) {
+    const account = TyronAccount.connect(
+      contract.target as string,
+      ethers.provider,
+    );
+    const domain = await accountDomain(account);
+    const request = await prepareRecovery(account, new_signer);
+    expect(recoveryDigest(domain, request)).to.equal(
+      await contract.getMessageHash(encodeRecoveryMessage(domain, request)),
+    );
+    const signatures = await Promise.all(
+      guardians.map((guardian) => signRecovery(guardian, domain, request)),
+    );
+    const bundle = bundleRecovery(request, signatures);
+    await verifyRecoveryBundle(account, bundle);
+    return bundle;
+  }
+
   describe("Initialize", function () {
     it("Sets the right owner", async function () {
       const { contract, signer } = await loadFixture(deployFixture);
       expect(await contract.owner()).to.equal(signer);
     });
 
+    it("Cannot initialize twice", async function () {
+      const { contract, implementation, signer } =
+        await loadFixture(deployFixture);
+      await expect(
+        contract.initialize(signer, [], []),
+      ).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+      await expect(
+        implementation.initialize(signer, [], []),
+      ).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+    });
+
+    it("Cannot renounce the ownership", async function () {
+      const { contract, signer } = await loadFixture(deployFixture);
+      await expect(contract.renounceOwnership())
+        .to.be.revertedWithCustomError(contract, "InvalidOwner")
+        .withArgs(ethers.ZeroAddress);
+      expect(await contract.owner()).to.equal(signer);
+    });
+
     it("Verifies the guardian config params", async function () {
       const { contract, addresses } = await loadFixture(deployFixture);
 
@@ -106,94 +175,470 @@ describe("TyronSSIAccount", function () {
       console.log("Guardian threshold:", guardian_params[1].toString());
     });
 
-    // it("Social recovers the account", async function () {
-    //   const { contract, accounts, signer, wallet1, wallet2, wallet3, wallet4 } =
-    //     await loadFixture(deployFixture);
-
-    //   //@notice Transfers the ownership to account1
-    //   const new_signer = accounts[1].address;
-
-    //   // const digest = solidityPackedKeccak256(["address"], [new_signer]);
-    //   // console.log("Digest:", digest);
-
-    //   // eth_signTypedData_v4 parameters. All of these parameters affect the resulting signature.
-    //   const domain = {
-    //     // This defines the network, in this case, Hardhat Network.
-    //     chainId: 31337,
-    //     // Give a user-friendly name to the specific contract you're signing for.
-    //     name: "Tyron",
-    //     // Add a verifying contract to make sure you're establishing contracts with the proper entity.
-    //     verifyingContract: contract.target,
-    //     // This identifies the latest version.
-    //     version: "1",
-    //   };
-
-    //   // This defines the message you're proposing the user to sign, is dapp-specific, and contains
-    //   // anything you want. There are no required fields. Be as explicit as possible when building out
-    //   // the message schema.
-
-    //   const message = {
-    //     newOwner: new_signer,
-    //     // contents: "Hello, Bob!",
-    //     // attachedMoneyInEth: 4.2,
-    //     // from: {
-    //     //   name: "Cow",
-    //     //   wallets: [
-    //     //     "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826",
-    //     //     "0xDeaDbeefdEAdbeefdEadbEEFdeadbeEFdEaDbeeF",
-    //     //   ],
-    //     // },
-    //     // to: [
-    //     //   {
-    //     //     name: "Bob",
-    //     //     wallets: [
-    //     //       "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB",
-    //     //       "0xB0BdaBea57B0BDABeA57b0bdABEA57b0BDabEa57",
-    //     //       "0xB0B0b0b0b0b0B000000000000000000000000000",
-    //     //     ],
-    //     //   },
-    //     // ],
-    //   };
-
-    //   // This refers to the keys of the following types object.
-    //   const types = {
-    //     // This refers to the domain the contract is hosted on.
-    //     // @dev The domain type is inbuilt in the EIP712 standard
-    //     // EIP712Domain: [
-    //     //   { name: "name", type: "string" },
-    //     //   { name: "version", type: "string" },
-    //     //   { name: "chainId", type: "uint256" },
-    //     //   { name: "verifyingContract", type: "address" },
-    //     // ],
-    //     NewSigner: [{ name: "newOwner", type: "address" }],
-    //   };
-
-    //   const typedData = new TypedDataEncoder(types);
-    //   console.log(typedData);
-    //   const domainSeparator = TypedDataEncoder.hashDomain(domain);
-    //   console.log(domainSeparator);
-    //   const hashStruct = typedData.hashStruct("NewSigner", message);
-    //   console.log(hashStruct);
-
-    //   const addr1 = wallet1.address;
-    //   const addr2 = wallet2.address;
-    //   const addr3 = wallet3.address;
-    //   const addr4 = wallet4.address;
-    //   const addresses: string[] = [addr1, addr2, addr3, addr4];
-
-    //   const sig1 = await wallet1.signTypedData(domain, types, message);
-    //   console.log("Guardian signature:", sig1);
-    //   const sig2 = await wallet2.signTypedData(domain, types, message);
-    //   console.log("Guardian signature:", sig2);
-    //   const sig3 = await wallet3.signTypedData(domain, types, message);
-    //   console.log("Guardian signature:", sig3);
-    //   const sig4 = await wallet4.signTypedData(domain, types, message);
-    //   console.log("Guardian signature:", sig4);
-    //   const signatures: string[] = [sig1, sig2, sig3, sig4];
-
-    //   await contract.socialRecovery(new_signer, addresses, signatures);
-
-    //   //   // expect(await contract.owner()).to.equal(new_signer);
-    // });
+    it("Emits an event per guardian", async function () {
+      const { contract, accounts, addresses } =
+        await loadFixture(deployFixture);
+      const guardian = accounts[1].address;
+      const guardian_hash = ethers.solidityPackedKeccak256(
+        ["address"],
+        [guardian],
+      );
+
+      await expect(contract.addGuardians([guardian], []))
+        .to.emit(contract, "GuardianAdded")
+        .withArgs(guardian_hash, 0, guardian, 0);
+      await expect(contract.removeGuardians([guardian_hash]))
+        .to.emit(contract, "GuardianRemoved")
+        .withArgs(guardian_hash, 0, guardian, 0);
+
+      const guardians = await contract.getGuardians();
+      expect(guardians.map((g: any) => g.guardian)).to.deep.equal(
+        addresses.map((address) => ethers.getAddress(address)),
+      );
+    });
+
+    it("Social recovers the account", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3, wallet4 } =
+        await loadFixture(deployFixture);
+
+      //@notice Transfers the ownership to account1
+      const new_signer = accounts[1].address;
+
+      const bundle = await signBundle(contract, new_signer, [
+        wallet1,
+        wallet2,
+        wallet3,
+        wallet4,
+      ]);
+
+      //@notice A relayer opens the recovery
+      const relayer = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      await expect(relayer.socialRecovery(bundle)).to.emit(
+        contract,
+        "RecoveryProposed",
+      );
+      await expect(relayer.executeRecovery()).to.be.rejectedWith(
+        "RecoveryNotReady",
+      );
+
+      await time.increase(await contract.getRecoveryDelay());
+      await expect(relayer.executeRecovery())
+        .to.emit(contract, "RecoveryExecuted")
+        .withArgs(accounts[0].address, new_signer);
+      expect(await contract.owner()).to.equal(new_signer);
+      expect(await relayer.getPendingRecovery()).to.be.undefined;
+    });
+
+    it("Accepts guardians that only sign raw digests", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      const domain = await accountDomain(account);
+      const request = await prepareRecovery(account, accounts[1].address);
+
+      // @dev e.g. a hardware key without EIP-712 support.
+      const digestSigner = {
+        getAddress: async () => wallet3.address,
+        signDigest: async (digest: string) =>
+          wallet3.signingKey.sign(digest).serialized,
+      };
+      const signature = await signRecovery(digestSigner, domain, request);
+      expect(signature).to.deep.equal(
+        await signRecovery(wallet3, domain, request),
+      );
+
+      const bundle = bundleRecovery(request, [
+        await signRecovery(wallet1, domain, request),
+        await signRecovery(wallet2, domain, request),
+        signature,
+      ]);
+      await verifyRecoveryBundle(account, bundle);
+      await expect(account.socialRecovery(bundle)).to.emit(
+        contract,
+        "RecoveryProposed",
+      );
+    });
+
+    it("Lets the owner cancel a recovery", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const new_signer = accounts[1].address;
+      const bundle = await signBundle(contract, new_signer, [
+        wallet1,
+        wallet2,
+        wallet3,
+      ]);
+
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      await account.connect(accounts[5]).socialRecovery(bundle);
+      expect((await account.getPendingRecovery())?.newOwner).to.equal(
+        new_signer,
+      );
+
+      await expect(
+        account.connect(accounts[5]).cancelRecovery(),
+      ).to.be.rejectedWith("NotAuthorized");
+      await expect(account.cancelRecovery())
+        .to.emit(contract, "RecoveryCancelled")
+        .withArgs(new_signer);
+
+      await time.increase(await contract.getRecoveryDelay());
+      await expect(account.executeRecovery()).to.be.rejectedWith(
+        "NoPendingRecovery",
+      );
+      expect(await contract.owner()).to.equal(accounts[0].address);
+    });
+
+    it("Expires recoveries that are not executed in time", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const new_signer = accounts[1].address;
+      const bundle = await signBundle(contract, new_signer, [
+        wallet1,
+        wallet2,
+        wallet3,
+      ]);
+
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      await account.socialRecovery(bundle);
+      const pending = (await account.getPendingRecovery())!;
+
+      await time.increaseTo(pending.expiresAt + 1n);
+      await expect(account.executeRecovery()).to.be.rejectedWith(
+        "RecoveryExpired",
+      );
+      expect(await contract.owner()).to.equal(accounts[0].address);
+    });
+
+    it("Clears the pending ownership transfer on recovery", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const new_signer = accounts[1].address;
+
+      //@notice The previous owner key started a transfer
+      await contract.transferOwnership(accounts[6].address);
+
+      const bundle = await signBundle(contract, new_signer, [
+        wallet1,
+        wallet2,
+        wallet3,
+      ]);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      await account.socialRecovery(bundle);
+      await time.increase(await contract.getRecoveryDelay());
+      await account.executeRecovery();
+
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(
+        account.connect(accounts[6]).acceptOwnership(),
+      ).to.be.rejectedWith("Ownable2Step: caller is not the new owner");
+    });
+
+    it("Bounds the recovery delay", async function () {
+      const { contract } = await loadFixture(deployFixture);
+      await expect(contract.setRecoveryDelay(60)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidRecoveryDelay",
+      );
+      await expect(contract.setRecoveryDelay(3 * 24 * 60 * 60))
+        .to.emit(contract, "RecoveryDelayUpdated")
+        .withArgs(3 * 24 * 60 * 60);
+      expect(await contract.getRecoveryDelay()).to.equal(3 * 24 * 60 * 60);
+    });
+
+    it("Rejects recovery bundles below the threshold", async function () {
+      const { contract, accounts, wallet1, wallet2 } =
+        await loadFixture(deployFixture);
+      const new_signer = accounts[1].address;
+
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      const domain = await accountDomain(account);
+      const request = await prepareRecovery(account, new_signer);
+      const signatures = await Promise.all(
+        [wallet1, wallet2, wallet1].map((guardian) =>
+          signRecovery(guardian, domain, request),
+        ),
+      );
+      const bundle = bundleRecovery(request, signatures);
+      expect(bundle.guardians).to.deep.equal([
+        wallet1.address,
+        wallet2.address,
+      ]);
+
+      await expect(verifyRecoveryBundle(account, bundle)).to.be.rejectedWith(
+        RecoveryVerificationError,
+        "do not reach the threshold",
+      );
+    });
+
+    it("Does not replay guardian signatures", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const new_signer = accounts[1].address;
+      const bundle = await signBundle(contract, new_signer, [
+        wallet1,
+        wallet2,
+        wallet3,
+      ]);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      expect(await account.getRecoveryNonce()).to.equal(0n);
+
+      await account.connect(accounts[5]).socialRecovery(bundle);
+      expect(await account.getRecoveryNonce()).to.equal(1n);
+      await account.cancelRecovery();
+
+      //@notice The nonce was consumed, so the vetoed bundle cannot be submitted again
+      await expect(verifyRecoveryBundle(account, bundle)).to.be.rejectedWith(
+        RecoveryVerificationError,
+        "The recovery nonce 0 is not the account's 1",
+      );
+      await expect(
+        account.connect(accounts[5]).socialRecovery(bundle),
+      ).to.be.rejectedWith("InsufficientRecoveryVotes(");
+
+      //@notice Signatures for another chain do not count
+      const domain = await accountDomain(account);
+      const request = await prepareRecovery(account, new_signer);
+      const signatures = await Promise.all(
+        [wallet1, wallet2, wallet3].map((guardian) =>
+          signRecovery(guardian, { ...domain, chainId: 1n }, request),
+        ),
+      );
+      await expect(
+        account.socialRecovery(bundleRecovery(request, signatures)),
+      ).to.be.rejectedWith("InsufficientRecoveryVotes(");
+    });
+
+    it("Rejects expired recovery requests", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      const domain = await accountDomain(account);
+      const request = await prepareRecovery(account, accounts[1].address, 60n);
+      const signatures = await Promise.all(
+        [wallet1, wallet2, wallet3].map((guardian) =>
+          signRecovery(guardian, domain, request),
+        ),
+      );
+      const bundle = bundleRecovery(request, signatures);
+      await verifyRecoveryBundle(account, bundle);
+
+      await time.increase(120);
+      await expect(verifyRecoveryBundle(account, bundle)).to.be.rejectedWith(
+        RecoveryVerificationError,
+        "expired",
+      );
+      await expect(account.socialRecovery(bundle)).to.be.rejectedWith(
+        `RecoveryRequestExpired(${request.deadline})`,
+      );
+    });
+
+    it("Rejects guardians listed twice", async function () {
+      const { contract, accounts, wallet1, wallet2 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      const domain = await accountDomain(account);
+      const request = await prepareRecovery(account, accounts[1].address);
+      const [first, second] = await Promise.all(
+        [wallet1, wallet2].map((guardian) =>
+          signRecovery(guardian, domain, request),
+        ),
+      );
+
+      //@notice The same guardian three times would otherwise reach the threshold of 3
+      const bundle = {
+        ...request,
+        guardians: [first.guardian, second.guardian, first.guardian],
+        signatures: [first.signature, second.signature, first.signature],
+      };
+      await expect(verifyRecoveryBundle(account, bundle)).to.be.rejectedWith(
+        RecoveryVerificationError,
+        "is listed twice",
+      );
+      const error = await account.socialRecovery(bundle).catch((e) => e);
+      expect(error.errorName).to.equal("DuplicateGuardian");
+      expect(error.args).to.deep.equal([wallet1.address]);
+    });
+
+    it("Rejects bundles with a signature missing", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[5],
+      );
+      const bundle = await signBundle(contract, accounts[1].address, [
+        wallet1,
+        wallet2,
+        wallet3,
+      ]);
+      const truncated = {
+        ...bundle,
+        signatures: bundle.signatures.slice(0, 2),
+      };
+      await expect(verifyRecoveryBundle(account, truncated)).to.be.rejectedWith(
+        RecoveryVerificationError,
+        "does not match",
+      );
+      await expect(account.socialRecovery(truncated)).to.be.rejectedWith(
+        "ArrayLengthMismatch",
+      );
+    });
+  });
+
+  describe("Threshold policy", function () {
+    it("Keeps small guardian sets recoverable", async function () {
+      const { contract, addresses } = await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        (await hre.ethers.getSigners())[0],
+      );
+      await account.removeGuardians(addresses.slice(0, 3));
+
+      const { count, threshold } = await account.getGuardianParams();
+      expect(count).to.equal(2n);
+      expect(threshold).to.equal(2n);
+    });
+
+    it("Recovers with a fixed number of guardians", async function () {
+      const { contract, accounts, wallet1, wallet2 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      await expect(
+        account.setThresholdPolicy({ mode: ThresholdMode.Fixed, value: 6n }),
+      ).to.be.rejectedWith("UnreachableThreshold(6, 5)");
+      await expect(
+        account.setThresholdPolicy({ mode: ThresholdMode.Fixed, value: 2n }),
+      )
+        .to.emit(contract, "ThresholdPolicyUpdated")
+        .withArgs(ThresholdMode.Fixed, 2);
+      expect((await account.getGuardianParams()).threshold).to.equal(2n);
+
+      const bundle = await signBundle(contract, accounts[1].address, [
+        wallet1,
+        wallet2,
+      ]);
+      await expect(account.socialRecovery(bundle)).to.emit(
+        contract,
+        "RecoveryProposed",
+      );
+    });
+
+    it("Computes percentage thresholds", async function () {
+      const { contract, accounts, wallet1 } = await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      await expect(
+        account.setThresholdPolicy({
+          mode: ThresholdMode.Percentage,
+          value: 101n,
+        }),
+      ).to.be.rejectedWith("InvalidThresholdPolicy");
+      await expect(
+        account.setThresholdPolicy({ mode: ThresholdMode.Majority, value: 1n }),
+      ).to.be.rejectedWith("InvalidThresholdPolicy");
+
+      await account.setThresholdPolicy({
+        mode: ThresholdMode.Percentage,
+        value: 30n,
+      });
+      expect((await account.getGuardianParams()).threshold).to.equal(2n);
+      expect(
+        await account.getRecoveryProgress([wallet1.address]),
+      ).to.deep.equal({ threshold: 2n, votes: 1n, remaining: 1n });
+    });
+
+    it("Counts weighted guardians", async function () {
+      const { contract, accounts, wallet1, wallet2, wallet3 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      await expect(account.setGuardianWeights([wallet1.address], [2]))
+        .to.emit(contract, "GuardianWeightUpdated")
+        .withArgs(hashGuardian(wallet1.address), 2);
+      expect(await account.getGuardianWeight(wallet1.address)).to.equal(2n);
+      expect(await account.getGuardianTotalWeight()).to.equal(6n);
+      await account.setThresholdPolicy({
+        mode: ThresholdMode.Weighted,
+        value: 3n,
+      });
+
+      expect(
+        await account.getRecoveryProgress([wallet2.address, wallet3.address]),
+      ).to.deep.equal({ threshold: 3n, votes: 2n, remaining: 1n });
+      const bundle = await signBundle(contract, accounts[1].address, [
+        wallet1,
+        wallet2,
+      ]);
+      await expect(account.socialRecovery(bundle)).to.emit(
+        contract,
+        "RecoveryProposed",
+      );
+    });
+
+    it("Rejects changes that make the threshold unreachable", async function () {
+      const { contract, accounts, addresses, wallet1 } =
+        await loadFixture(deployFixture);
+      const account = TyronAccount.connect(
+        contract.target as string,
+        accounts[0],
+      );
+      await account.setGuardianWeights([wallet1.address], [3]);
+      await account.setThresholdPolicy({
+        mode: ThresholdMode.Weighted,
+        value: 7n,
+      });
+
+      await expect(
+        account.removeGuardians([wallet1.address]),
+      ).to.be.rejectedWith("UnreachableThreshold(7, 4)");
+      await expect(
+        account.setGuardianWeights([wallet1.address], [1]),
+      ).to.be.rejectedWith("UnreachableThreshold(7, 5)");
+      await expect(
+        account.setGuardianWeights([wallet1.address], [101]),
+      ).to.be.rejectedWith("InvalidGuardianWeight");
+
+      await account.setThresholdPolicy({
+        mode: ThresholdMode.Weighted,
+        value: 6n,
+      });
+      await account.removeGuardians([addresses[0]]);
+      expect(await account.getGuardianTotalWeight()).to.equal(6n);
+    });
   });
 });
@@ -0,0 +1,125 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  LocalBundler,
+  TyronAccount,
+  TyronAccountFactory,
+  computeAccountAddress,
+} from "../sdk";
+import { deployImplementation } from "./fixtures";
+const hre = require("hardhat");
+
+describe("TyronSSIAccountFactory", function () {
+  async function deployFixture() {
+    const [signer, owner, bundlerSigner, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, implementation } = await deployImplementation(signer);
+    const factory = await TyronAccountFactory.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronSSIAccountFactory"),
+      implementation,
+    );
+    const params = {
+      owner: owner.address,
+      guardians: [
+        ethers.Wallet.createRandom().address,
+        ethers.Wallet.createRandom().address,
+      ],
+      salt: 7n,
+    };
+
+    return {
+      entryPoint,
+      implementation,
+      factory,
+      params,
+      signer,
+      owner,
+      bundlerSigner,
+      recipient,
+    };
+  }
+
+  it("Predicts the account address offline", async function () {
+    const { implementation, factory, params } =
+      await loadFixture(deployFixture);
+    const artifact = await hre.artifacts.readArtifact("ERC1967Proxy");
+
+    expect(
+      computeAccountAddress(factory.address, implementation, artifact, params),
+    ).to.equal(await factory.getAddress(params));
+    expect(await factory.getAddress({ ...params, salt: 8n })).to.not.equal(
+      await factory.getAddress(params),
+    );
+  });
+
+  it("Receives funds before the account is deployed", async function () {
+    const { factory, params, signer, owner } = await loadFixture(deployFixture);
+    const address = await factory.getAddress(params);
+
+    await signer.sendTransaction({ to: address, value: 1000n });
+    expect(await factory.isDeployed(params)).to.be.false;
+
+    expect(await factory.createAccount(params)).to.equal(address);
+    expect(await factory.isDeployed(params)).to.be.true;
+    expect(await ethers.provider.getBalance(address)).to.equal(1000n);
+
+    const account = TyronAccount.connect(address, owner);
+    expect(await account.owner()).to.equal(owner.address);
+    expect(await account.implementation()).to.equal(
+      await factory.accountImplementation(),
+    );
+    expect(await account.isGuardian(params.guardians[0])).to.be.true;
+  });
+
+  it("Returns the existing account idempotently", async function () {
+    const { factory, params } = await loadFixture(deployFixture);
+    const address = await factory.createAccount(params);
+
+    await expect(
+      factory.contract.createAccount(
+        params.owner,
+        params.guardians,
+        [],
+        params.salt,
+      ),
+    ).to.not.emit(factory.contract, "AccountCreated");
+    expect(await factory.createAccount(params)).to.equal(address);
+  });
+
+  it("Deploys the account from the initCode of a user operation", async function () {
+    const {
+      entryPoint,
+      factory,
+      params,
+      signer,
+      owner,
+      bundlerSigner,
+      recipient,
+    } = await loadFixture(deployFixture);
+    const address = await factory.getAddress(params);
+    await signer.sendTransaction({
+      to: address,
+      value: ethers.parseEther("1"),
+    });
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: address,
+        initCode: factory.initCode(params),
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      owner,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    expect(await factory.isDeployed(params)).to.be.true;
+    expect(await TyronAccount.connect(address, owner).owner()).to.equal(
+      owner.address,
+    );
+  });
+});
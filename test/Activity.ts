@@ -0,0 +1,185 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync } from "fs";
+import { ethers } from "hardhat";
+import { tmpdir } from "os";
+import path from "path";
+import { BatchBuilder, LocalBundler } from "../sdk";
+import { ActivityIndexer } from "../scripts/utils/activity";
+import { deployAccount, deployImplementation } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Activity", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, newOwner, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, implementation } = await deployImplementation(signer);
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const account = await deployAccount(signer, implementation);
+    await signer.sendTransaction({
+      to: account.address,
+      value: ethers.parseEther("1"),
+    });
+    const token = await hre.ethers.deployContract("TokenMock");
+    await token.mint(account.address, 1000n);
+
+    const options = {
+      accounts: [account.address],
+      entryPoint,
+      fromBlock,
+    };
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      token,
+      options,
+      signer,
+      newOwner,
+      recipient,
+    };
+  }
+
+  // @dev A new store for each test, as fixtures are shared.
+  function storeFile() {
+    return path.join(
+      mkdtempSync(path.join(tmpdir(), "tyron-activity-")),
+      "activity.json",
+    );
+  }
+
+  it("Indexes the timeline of an account", async function () {
+    const { account, bundler, token, options, signer, newOwner } =
+      await loadFixture(deployFixture);
+    const file = storeFile();
+    const batch = new BatchBuilder()
+      .erc20Transfer(token.target as string, newOwner.address, 10n)
+      .native(newOwner.address, 5n, { allowFailure: true });
+    const op = await bundler.buildSignedUserOp(
+      { sender: account.address, callData: batch.encode() },
+      signer,
+    );
+    const { receipt } = await bundler.sendUserOperation(op);
+    await account.addDeposit(ethers.parseEther("0.1"));
+    await account.withdrawDepositTo(newOwner.address, 1000n);
+    await account.transferOwnership(newOwner.address);
+    await account.connect(newOwner).acceptOwnership();
+
+    const indexer = await ActivityIndexer.open(ethers.provider, file, options);
+    const { added, removed } = await indexer.sync();
+    const entries = indexer.entries;
+
+    expect(added).to.equal(entries.length);
+    expect(removed).to.equal(0);
+    expect(entries.map(({ kind }) => kind)).to.include.members([
+      "Initialized",
+      "LightAccountInitialized",
+      "GuardiansUpdated",
+      "UserOperation",
+      "Deposited",
+      "Withdrawn",
+      "OwnershipTransferStarted",
+      "OwnershipTransferred",
+    ]);
+    expect(entries.every(({ account: a }) => a === account.address)).to.be.true;
+    const blocks = entries.map(({ blockNumber }) => blockNumber);
+    expect(blocks).to.deep.equal([...blocks].sort((a, b) => a - b));
+
+    const operation = entries.find(({ kind }) => kind === "UserOperation")!;
+    expect(operation.transactionHash).to.equal(receipt.hash);
+    expect(operation.args.success).to.be.true;
+    expect(operation.calls).to.deep.equal(
+      batch.calls.map(({ target, value, data, allowFailure }) => ({
+        target,
+        value: (value ?? 0n).toString(),
+        data: data ?? "0x",
+        allowFailure: allowFailure ?? false,
+      })),
+    );
+    const withdrawn = entries.find(({ kind }) => kind === "Withdrawn")!;
+    expect(withdrawn.args).to.deep.equal({
+      account: account.address,
+      withdrawAddress: newOwner.address,
+      amount: "1000",
+    });
+    const transferred = entries[entries.length - 1];
+    expect(transferred.kind).to.equal("OwnershipTransferred");
+    expect(transferred.args.newOwner).to.equal(newOwner.address);
+  });
+
+  it("Resumes from its store", async function () {
+    const { account, options } = await loadFixture(deployFixture);
+    const file = storeFile();
+    const first = await ActivityIndexer.open(ethers.provider, file, options);
+    await first.sync();
+    const indexed = first.entries.length;
+
+    await account.addDeposit(1000n);
+    const resumed = await ActivityIndexer.open(ethers.provider, file, options);
+    expect(resumed.syncedBlock).to.equal(first.syncedBlock);
+    const { added } = await resumed.sync();
+    expect(added).to.equal(1);
+    expect(resumed.entries.length).to.equal(indexed + 1);
+    expect(JSON.parse(readFileSync(file, "utf8")).entries.length).to.equal(
+      indexed + 1,
+    );
+
+    const other = await ActivityIndexer.open(ethers.provider, file, {
+      ...options,
+      accounts: [ethers.Wallet.createRandom().address],
+    });
+    expect(other.entries).to.deep.equal([]);
+    expect(other.syncedBlock).to.equal(options.fromBlock - 1);
+  });
+
+  it("Drops the entries of a reorg", async function () {
+    const { account, options, recipient } = await loadFixture(deployFixture);
+    const file = storeFile();
+    const indexer = await ActivityIndexer.open(ethers.provider, file, options);
+    await indexer.sync();
+    const kept = indexer.entries;
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await account.addDeposit(1000n);
+    await account.withdrawDepositTo(recipient.address, 1000n);
+    await indexer.sync();
+    expect(indexer.entries.length).to.equal(kept.length + 2);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await recipient.sendTransaction({ to: recipient.address, value: 1n });
+    await account.addDeposit(2000n);
+    await recipient.sendTransaction({ to: recipient.address, value: 1n });
+    const { added, removed } = await indexer.sync();
+
+    expect(removed).to.equal(2);
+    expect(added).to.equal(1);
+    const entries = indexer.entries;
+    expect(entries.slice(0, kept.length)).to.deep.equal(kept);
+    expect(entries[entries.length - 1].args.totalDeposit).to.equal("2000");
+  });
+
+  it("Exports the timeline as CSV and JSON", async function () {
+    const { account, options } = await loadFixture(deployFixture);
+    const file = storeFile();
+    const indexer = await ActivityIndexer.open(ethers.provider, file, options);
+    await indexer.sync();
+
+    expect(JSON.parse(indexer.export("json"))).to.deep.equal(indexer.entries);
+    const csv = indexer.export("csv").trimEnd().split("\n");
+    expect(csv[0]).to.equal(
+      "date,blockNumber,transactionHash,logIndex,account,kind,args,calls",
+    );
+    expect(csv.length).to.equal(indexer.entries.length + 1);
+    const initialized = csv
+      .find((row) => row.includes(",LightAccountInitialized,"))!
+      .split(",");
+    expect(initialized[4]).to.equal(account.address);
+    expect(initialized[6]).to.equal(
+      `entryPoint=${options.entryPoint} owner=${await account.owner()}`,
+    );
+    expect(
+      indexer.export("csv", ethers.Wallet.createRandom().address).trimEnd(),
+    ).to.equal(csv[0]);
+  });
+});
@@ -0,0 +1,117 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { TyronAccountError, encodeExecute } from "../sdk";
+import {
+  addGuardiansCall,
+  executeCall,
+  readCallFile,
+  removeGuardiansCall,
+  resolveAccount,
+  runAccountCall,
+} from "../scripts/utils/admin";
+import { loadAccountParams } from "../scripts/utils/accountParams";
+import { deployTyron } from "../scripts/utils/deploy";
+const hre = require("hardhat");
+
+describe("Account administration", function () {
+  async function deployFixture() {
+    const [signer, guardian, recipient] = await hre.ethers.getSigners();
+    const dir = mkdtempSync(path.join(tmpdir(), "tyron-admin-"));
+    const { account: deployment } = await deployTyron(
+      hre,
+      signer,
+      loadAccountParams({}),
+      dir,
+    );
+    const account = await resolveAccount(hre, signer, deployment.address);
+    return { account, signer, guardian, recipient, dir };
+  }
+
+  it("Simulates calls in a dry run", async function () {
+    const { account, guardian } = await loadFixture(deployFixture);
+    const call = addGuardiansCall([guardian.address]);
+
+    const outcome = await runAccountCall(account, call, true);
+    expect(outcome.status).to.equal("simulated");
+    expect(await account.isGuardian(guardian.address)).to.be.false;
+
+    expect((await runAccountCall(account, call)).status).to.equal("sent");
+    expect(await account.isGuardian(guardian.address)).to.be.true;
+    await runAccountCall(account, removeGuardiansCall([guardian.address]));
+    expect(await account.isGuardian(guardian.address)).to.be.false;
+  });
+
+  it("Returns decoded reverts in a dry run", async function () {
+    const { account, guardian } = await loadFixture(deployFixture);
+    const outcome = await runAccountCall(
+      account.connect(guardian),
+      { method: "transferOwnership", args: [guardian.address] },
+      true,
+    );
+    if (outcome.status !== "reverted") {
+      expect.fail(`Expected the dry run to revert, got ${outcome.status}`);
+    }
+    if (!(outcome.error instanceof TyronAccountError)) {
+      expect.fail(`Expected a decoded revert, got ${outcome.error}`);
+    }
+    expect(outcome.error.errorName).to.equal("NotAuthorized");
+
+    await expect(
+      runAccountCall(account, addGuardiansCall([hre.ethers.ZeroAddress])),
+    ).to.be.rejectedWith("Account: A guardian cannot be null.");
+  });
+
+  it("Tops up and withdraws the EntryPoint deposit", async function () {
+    const { account, recipient } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("1");
+    await runAccountCall(account, {
+      method: "addDeposit",
+      args: [],
+      value: amount,
+    });
+    expect(await account.getDeposit()).to.equal(amount);
+
+    await runAccountCall(account, {
+      method: "withdrawDepositTo",
+      args: [recipient.address, amount],
+    });
+    expect(await account.getDeposit()).to.equal(0n);
+  });
+
+  it("Executes the calls of a JSON file", async function () {
+    const { account, signer, recipient, dir } =
+      await loadFixture(deployFixture);
+    await signer.sendTransaction({ to: account.address, value: 10n });
+    const file = path.join(dir, "calls.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        calls: [
+          { target: recipient.address, value: "3" },
+          { target: recipient.address, value: "4" },
+        ],
+      }),
+    );
+
+    const calls = readCallFile(file);
+    expect(executeCall([calls[0]]).method).to.equal("execute");
+    expect(
+      account.contract.interface.encodeFunctionData(
+        "execute",
+        executeCall([calls[0]]).args,
+      ),
+    ).to.equal(encodeExecute(calls[0]));
+
+    const call = executeCall(calls);
+    expect(call.method).to.equal("executeBatch(address[],uint256[],bytes[])");
+    const before = await hre.ethers.provider.getBalance(recipient.address);
+    await runAccountCall(account, call);
+    expect(await hre.ethers.provider.getBalance(recipient.address)).to.equal(
+      before + 7n,
+    );
+    expect(await hre.ethers.provider.getBalance(account.address)).to.equal(3n);
+  });
+});
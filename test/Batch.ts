@@ -0,0 +1,172 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  BatchBuilder,
+  LocalBundler,
+  encodeExecuteBatch,
+  parseBatchResults,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Batch", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, otherAccount, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+    const token = await hre.ethers.deployContract("TokenMock");
+    await token.mint(account.address, 1000n);
+    const nft = await hre.ethers.deployContract("TyronDNSMock");
+    await nft.mint(account.address, 7n);
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      token,
+      nft,
+      signer,
+      otherAccount,
+      recipient,
+    };
+  }
+
+  it("Picks the executeBatch overload of a batch", async function () {
+    const { token, recipient } = await loadFixture(deployFixture);
+    const selector = (calldata: string) => calldata.slice(0, 10);
+    const transfer = new BatchBuilder()
+      .erc20Transfer(token.target as string, recipient.address, 1n)
+      .erc20Transfer(token.target as string, recipient.address, 2n);
+
+    expect(selector(transfer.encode())).to.equal(
+      ethers.id("executeBatch(address[],bytes[])").slice(0, 10),
+    );
+    expect(selector(transfer.native(recipient.address, 1n).encode())).to.equal(
+      ethers.id("executeBatch(address[],uint256[],bytes[])").slice(0, 10),
+    );
+    const results = ethers
+      .id("executeBatch(address[],uint256[],bytes[],bool[])")
+      .slice(0, 10);
+    expect(selector(transfer.encode(true))).to.equal(results);
+    expect(
+      selector(
+        encodeExecuteBatch([
+          { target: recipient.address, value: 1n, allowFailure: true },
+        ]),
+      ),
+    ).to.equal(results);
+    expect(() => new BatchBuilder().encode()).to.throw(
+      "BatchBuilder: the batch is empty.",
+    );
+  });
+
+  it("Executes a batch whose calls may fail", async function () {
+    const { account, token, nft, recipient } = await loadFixture(deployFixture);
+    const batch = new BatchBuilder()
+      .erc20Transfer(token.target as string, recipient.address, 400n)
+      .erc20Transfer(token.target as string, recipient.address, 5000n, {
+        allowFailure: true,
+      })
+      .erc721Transfer(
+        nft.target as string,
+        account.address,
+        recipient.address,
+        7n,
+      )
+      .native(recipient.address, 100n);
+    const before = await ethers.provider.getBalance(recipient.address);
+
+    const preview = await account.previewBatch(batch.calls);
+    expect(preview.map(({ success }) => success)).to.deep.equal([
+      true,
+      false,
+      true,
+      true,
+    ]);
+    expect(preview[0].result).to.equal(
+      ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]),
+    );
+    expect(preview[1].error?.message).to.equal(
+      "ERC20: transfer amount exceeds balance",
+    );
+
+    const receipt = await (await account.executeBatch(batch.calls)).wait();
+    const results = parseBatchResults(receipt!, account.address);
+    expect(results).to.deep.equal(preview);
+    expect(await token.balanceOf(recipient.address)).to.equal(400n);
+    expect(await nft.ownerOf(7n)).to.equal(recipient.address);
+    expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+      before + 100n,
+    );
+    await expect(receipt)
+      .to.emit(account.contract, "BatchCallExecuted")
+      .withArgs(1n, token.target, false, preview[1].result);
+  });
+
+  it("Reverts the batch when a required call fails", async function () {
+    const { account, token, recipient } = await loadFixture(deployFixture);
+    const batch = new BatchBuilder()
+      .native(recipient.address, 100n, { allowFailure: true })
+      .erc20Transfer(token.target as string, recipient.address, 5000n);
+
+    const error = await account.executeBatch(batch.calls).catch((e) => e);
+    expect(error.errorName).to.equal("Error");
+    expect(error.args).to.deep.equal([
+      "ERC20: transfer amount exceeds balance",
+    ]);
+
+    await expect(
+      account.contract["executeBatch(address[],uint256[],bytes[],bool[])"](
+        [recipient.address],
+        [1n],
+        ["0x"],
+        [],
+      ),
+    ).to.be.revertedWithCustomError(account.contract, "ArrayLengthMismatch");
+  });
+
+  it("Only lets the owner, the EntryPoint and executors run a batch", async function () {
+    const { account, recipient, otherAccount } =
+      await loadFixture(deployFixture);
+    const calls = new BatchBuilder().native(recipient.address, 1n, {
+      allowFailure: true,
+    }).calls;
+
+    const error = await account
+      .connect(otherAccount)
+      .executeBatch(calls)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+    expect(error.args).to.deep.equal([otherAccount.address]);
+  });
+
+  it("Reports the results of a batch run by a user operation", async function () {
+    const { account, bundler, token, signer, recipient } =
+      await loadFixture(deployFixture);
+    const batch = new BatchBuilder()
+      .erc20Approve(token.target as string, recipient.address, 10n)
+      .erc20Transfer(token.target as string, recipient.address, 5000n, {
+        allowFailure: true,
+      });
+
+    const op = await bundler.buildSignedUserOp(
+      { sender: account.address, callData: batch.encode() },
+      signer,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    const results = parseBatchResults(result.receipt, account.address);
+    expect(results.map(({ success }) => success)).to.deep.equal([true, false]);
+    expect(results[1].error?.args).to.deep.equal([
+      "ERC20: transfer amount exceeds balance",
+    ]);
+    expect(await token.allowance(account.address, recipient.address)).to.equal(
+      10n,
+    );
+  });
+});
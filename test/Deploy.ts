@@ -0,0 +1,138 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { TyronAccount } from "../sdk";
+import { loadAccountParams } from "../scripts/utils/accountParams";
+import { deployTyron } from "../scripts/utils/deploy";
+import {
+  findAccount,
+  manifestPath,
+  readManifest,
+} from "../scripts/utils/manifest";
+import { networksConfig } from "../scripts/utils/networks";
+const hre = require("hardhat");
+
+describe("Deployment", function () {
+  async function deployFixture() {
+    const [signer, owner, guardian1, guardian2] = await hre.ethers.getSigners();
+    const dir = mkdtempSync(path.join(tmpdir(), "tyron-deployments-"));
+    return { signer, owner, guardian1, guardian2, dir };
+  }
+
+  describe("Parameters", function () {
+    it("Reads YAML files and lets flags override them", async function () {
+      const { dir, owner, guardian1, guardian2 } =
+        await loadFixture(deployFixture);
+      const file = path.join(dir, "account.yaml");
+      writeFileSync(
+        file,
+        [
+          `owner: "${owner.address}"`,
+          "guardians:",
+          `  - "${guardian1.address}"`,
+          "guardianIds: [1, 2]",
+          "salt: 3",
+        ].join("\n"),
+      );
+
+      expect(loadAccountParams({ params: file })).to.deep.equal({
+        owner: owner.address,
+        guardians: [guardian1.address],
+        guardianIds: [1n, 2n],
+        salt: 3n,
+        dns: undefined,
+        entryPoint: undefined,
+      });
+      const overridden = loadAccountParams({
+        params: file,
+        guardians: `${guardian1.address},${guardian2.address}`,
+        salt: "4",
+      });
+      expect(overridden.guardians).to.deep.equal([
+        guardian1.address,
+        guardian2.address,
+      ]);
+      expect(overridden.salt).to.equal(4n);
+    });
+
+    it("Rejects unquoted YAML addresses", async function () {
+      const { dir } = await loadFixture(deployFixture);
+      const file = path.join(dir, "account.yaml");
+      writeFileSync(
+        file,
+        "owner: 0x1c61dE56e7b39efaCfEcE6fEDa5807dcDFBaB7c6\n",
+      );
+      expect(() => loadAccountParams({ params: file })).to.throw(
+        "quote it in YAML",
+      );
+    });
+
+    it("Takes signer keys from the environment", async function () {
+      const key = `0x${"11".repeat(32)}`;
+      const networks = networksConfig({
+        DEPLOYER_PRIVATE_KEY: key,
+        ZKEVM_RPC_URL: "http://rpc.test",
+      });
+      expect(networks.zkEVM).to.deep.include({
+        url: "http://rpc.test",
+        accounts: [key],
+      });
+      expect(networksConfig({}).sepolia).to.deep.include({ accounts: [] });
+    });
+  });
+
+  describe("Manifest", function () {
+    it("Records the deployment per chain ID", async function () {
+      const { signer, owner, guardian1, dir } =
+        await loadFixture(deployFixture);
+      const { account, file } = await deployTyron(
+        hre,
+        signer,
+        loadAccountParams({
+          owner: owner.address,
+          guardians: guardian1.address,
+        }),
+        dir,
+      );
+      expect(file).to.equal(manifestPath(31337, dir));
+
+      const manifest = readManifest(31337, dir)!;
+      expect(manifest.network).to.equal("hardhat");
+      expect(findAccount(manifest)).to.deep.equal(account);
+
+      const deployed = TyronAccount.connect(
+        account.address,
+        hre.ethers.provider,
+      );
+      expect(await deployed.owner()).to.equal(owner.address);
+      expect(await deployed.implementation()).to.equal(manifest.implementation);
+      expect(await deployed.entryPoint()).to.equal(manifest.entryPoint);
+      expect(await deployed.dns()).to.equal(manifest.dns);
+      expect(await deployed.isGuardian(guardian1.address)).to.be.true;
+      expect(
+        manifest.storageLayouts?.[manifest.implementation]?.map(
+          ({ label }) => label,
+        ),
+      ).to.include("_guardianStorage.guardians");
+    });
+
+    it("Reuses the contracts of the manifest", async function () {
+      const { signer, dir } = await loadFixture(deployFixture);
+      const first = await deployTyron(hre, signer, loadAccountParams({}), dir);
+      const second = await deployTyron(
+        hre,
+        signer,
+        loadAccountParams({ salt: "1" }),
+        dir,
+      );
+
+      expect(second.manifest.factory).to.equal(first.manifest.factory);
+      expect(second.manifest.dns).to.equal(first.manifest.dns);
+      expect(
+        second.manifest.accounts.map(({ address }) => address),
+      ).to.deep.equal([first.account.address, second.account.address]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { BaseWallet } from "ethers";
+import { ethers, ignition } from "hardhat";
+import LocalFactoryModule from "../ignition/LocalFactoryModule";
+import {
+  GuardianSource,
+  RecoveryVerificationError,
+  ThresholdMode,
+  TyronAccount,
+  TyronAccountFactory,
+  accountDomain,
+  bundleRecovery,
+  prepareRecovery,
+  hashTokenGuardian,
+  indexGuardians,
+  signRecovery,
+  verifyRecoveryBundle,
+} from "../sdk";
+const hre = require("hardhat");
+
+describe("DNS guardians", function () {
+  async function deployFixture() {
+    const [signer, newOwner] = await hre.ethers.getSigners();
+    const { dns, factory } = await ignition.deploy(LocalFactoryModule);
+
+    const holders = [0, 1, 2].map(() =>
+      ethers.Wallet.createRandom().connect(ethers.provider),
+    );
+    const ids = [1n, 2n, 3n];
+    for (let i = 0; i < ids.length; i++) {
+      await dns.mint(holders[i].address, ids[i]);
+      await signer.sendTransaction({
+        to: holders[i].address,
+        value: ethers.parseEther("1"),
+      });
+    }
+
+    const address = await TyronAccountFactory.connect(
+      factory.target as string,
+      signer,
+    ).createAccount({ owner: signer.address, guardianIds: ids });
+    const account = TyronAccount.connect(address, signer);
+
+    return { dns, account, holders, ids, signer, newOwner };
+  }
+
+  async function bundle(
+    account: TyronAccount,
+    newOwner: string,
+    guardians: BaseWallet[],
+  ) {
+    const domain = await accountDomain(account);
+    const request = await prepareRecovery(account, newOwner);
+    const signatures = await Promise.all(
+      guardians.map((guardian) => signRecovery(guardian, domain, request)),
+    );
+    return bundleRecovery(request, signatures);
+  }
+
+  it("Registers guardians by NFT ID", async function () {
+    const { dns, account, holders, ids } = await loadFixture(deployFixture);
+    expect(await account.dns()).to.equal(
+      ethers.getAddress(dns.target as string),
+    );
+
+    const listed = await account.getGuardians();
+    expect(listed).to.deep.equal(
+      ids.map((tokenId, i) => ({
+        guardianHash: hashTokenGuardian(tokenId),
+        source: GuardianSource.DnsToken,
+        guardian: holders[i].address,
+        tokenId,
+      })),
+    );
+    expect(await account.getGuardianVotes(holders[0].address)).to.equal(1n);
+  });
+
+  it("Rejects NFT IDs that do not exist", async function () {
+    const { account } = await loadFixture(deployFixture);
+    await expect(account.addGuardians([], [42n])).to.be.rejectedWith(
+      "ERC721: invalid token ID",
+    );
+  });
+
+  it("Follows the NFT when it changes hands", async function () {
+    const { dns, account, holders, ids, newOwner } =
+      await loadFixture(deployFixture);
+    const buyer = ethers.Wallet.createRandom();
+    const token = await ethers.getContractAt("TyronDNSMock", dns, holders[0]);
+    await token.transferFrom(holders[0].address, buyer.address, ids[0]);
+
+    expect(await account.getGuardianVotes(holders[0].address)).to.equal(0n);
+    expect(await account.getGuardianVotes(buyer.address)).to.equal(1n);
+    const indexed = await indexGuardians(account);
+    expect(indexed[0].guardian).to.equal(buyer.address);
+
+    //@notice The previous holder lost its vote
+    const stale = await bundle(account, newOwner.address, holders);
+    await expect(verifyRecoveryBundle(account, stale)).to.be.rejectedWith(
+      RecoveryVerificationError,
+      `${holders[0].address} is not a guardian`,
+    );
+    await expect(account.socialRecovery(stale)).to.be.rejectedWith(
+      `UnregisteredGuardian(${holders[0].address})`,
+    );
+
+    //@notice The new holder signs instead
+    const recovery = await bundle(account, newOwner.address, [
+      buyer,
+      holders[1],
+      holders[2],
+    ]);
+    await verifyRecoveryBundle(account, recovery);
+    await expect(account.socialRecovery(recovery)).to.emit(
+      account.contract,
+      "RecoveryProposed",
+    );
+  });
+
+  it("Adds guardians by address and NFT ID under a fixed threshold", async function () {
+    const { account, ids } = await loadFixture(deployFixture);
+    await account.removeGuardians([], ids);
+    await account.setThresholdPolicy({ mode: ThresholdMode.Fixed, value: 3n });
+    const guardian = ethers.Wallet.createRandom().address;
+
+    await expect(account.addGuardians([guardian], [ids[0]])).to.be.rejectedWith(
+      "UnreachableThreshold(3, 2)",
+    );
+    // @dev The threshold is reached by both lists together, not by either one.
+    await expect(account.addGuardians([guardian], [ids[0], ids[1]]))
+      .to.emit(account.contract, "GuardiansUpdated")
+      .withArgs(account.address, 3n);
+    const params = await account.getGuardianParams();
+    expect(params.count).to.equal(3n);
+    expect(params.threshold).to.equal(3n);
+  });
+
+  it("Removes guardians by NFT ID, including burned ones", async function () {
+    const { dns, account, holders, ids } = await loadFixture(deployFixture);
+    const token = await ethers.getContractAt("TyronDNSMock", dns, holders[2]);
+    await token.burn(ids[2]);
+    expect((await account.getGuardians())[2].guardian).to.equal(
+      ethers.ZeroAddress,
+    );
+
+    await account.removeGuardians([], [ids[2]]);
+    expect(await account.contract.isGuardian(hashTokenGuardian(ids[2]))).to.be
+      .false;
+    expect((await account.getGuardianParams()).count).to.equal(2n);
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ContractRunner } from "ethers";
+import { ethers } from "hardhat";
+import {
+  FailedOpError,
+  LocalBundler,
+  ThresholdMode,
+  TyronAccount,
+  TyronAccountError,
+  accountDomain,
+  bundleRecovery,
+  prepareRecovery,
+  signAccountDigest,
+  signRecovery,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+// @dev `FREEZE_PERIOD` of the account.
+const FREEZE_PERIOD = 3n * 24n * 60n * 60n;
+
+describe("Freeze", function () {
+  async function deployFixture() {
+    const [signer, guardian, otherAccount, bundlerSigner, newOwner] =
+      await hre.ethers.getSigners();
+    const wallets = [
+      ethers.Wallet.createRandom(),
+      ethers.Wallet.createRandom(),
+    ];
+
+    const { entryPoint, implementation, account } = await deployAccountFixture(
+      signer,
+      {
+        guardians: [guardian.address, ...wallets.map(({ address }) => address)],
+      },
+    );
+    await account.setThresholdPolicy({ mode: ThresholdMode.Fixed, value: 2n });
+    await signer.sendTransaction({
+      to: account.address,
+      value: ethers.parseEther("1"),
+    });
+    await account.addDeposit(ethers.parseEther("0.1"));
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      implementation,
+      bundler,
+      signer,
+      guardian,
+      wallets,
+      otherAccount,
+      newOwner,
+    };
+  }
+
+  // @dev Freezes the account with `guardian` and returns the end of the freeze.
+  async function freeze(account: TyronAccount, guardian: ContractRunner) {
+    await account.connect(guardian).freeze();
+    return (await account.getFreeze()).frozenUntil;
+  }
+
+  async function expectFrozen(call: Promise<unknown>, frozenUntil: bigint) {
+    const error: unknown = await call.catch((e) => e);
+    if (!(error instanceof TyronAccountError)) {
+      expect.fail(`Expected the call to revert with Frozen, got ${error}`);
+    }
+    expect(error.errorName).to.equal("Frozen");
+    expect(error.args).to.deep.equal([frozenUntil]);
+  }
+
+  it("Lets a guardian freeze the account", async function () {
+    const { account, guardian, otherAccount } =
+      await loadFixture(deployFixture);
+    expect(await account.getFreeze()).to.deep.equal({
+      frozen: false,
+      frozenUntil: 0n,
+      threshold: 1n,
+      votes: 0n,
+    });
+
+    const error = await account
+      .connect(otherAccount)
+      .freeze()
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+    expect(error.args).to.deep.equal([otherAccount.address]);
+
+    const tx = await account.connect(guardian).freeze();
+    const frozenUntil =
+      BigInt(await time.latest()) +
+      FREEZE_PERIOD +
+      (await account.getRecoveryDelay());
+    await expect(tx)
+      .to.emit(account.contract, "AccountFrozen")
+      .withArgs(guardian.address, frozenUntil);
+    expect(await account.getFreeze()).to.deep.equal({
+      frozen: true,
+      frozenUntil,
+      threshold: 1n,
+      votes: 0n,
+    });
+  });
+
+  it("Requires the votes of the freeze threshold", async function () {
+    const { account, signer, guardian, wallets, otherAccount } =
+      await loadFixture(deployFixture);
+    await signer.sendTransaction({
+      to: wallets[0].address,
+      value: ethers.parseEther("1"),
+    });
+    const other = wallets[0].connect(ethers.provider);
+
+    // @dev The threshold is capped by the recovery threshold of 2.
+    await expect(account.setFreezeThreshold(5n))
+      .to.emit(account.contract, "FreezeThresholdUpdated")
+      .withArgs(5n);
+    expect((await account.getFreeze()).threshold).to.equal(2n);
+
+    // @dev A single guardian cannot freeze the owner out on its own.
+    await expect(account.connect(guardian).freeze())
+      .to.emit(account.contract, "FreezeVoted")
+      .withArgs(guardian.address, 1n, 2n);
+    expect(await account.getFreeze()).to.deep.equal({
+      frozen: false,
+      frozenUntil: 0n,
+      threshold: 2n,
+      votes: 1n,
+    });
+    const error = await account
+      .connect(guardian)
+      .freeze()
+      .catch((e) => e);
+    expect(error.errorName).to.equal("DuplicateGuardian");
+    expect(error.args).to.deep.equal([guardian.address]);
+    await expect(
+      account.execute({ target: otherAccount.address, value: 1n }),
+    ).to.changeEtherBalance(otherAccount, 1n);
+
+    // @dev Votes count for `FREEZE_PERIOD` from the first vote of their round.
+    await time.increase(FREEZE_PERIOD);
+    expect((await account.getFreeze()).votes).to.equal(0n);
+    await account.connect(guardian).freeze();
+
+    const tx = await account.connect(other).freeze();
+    const frozenUntil =
+      BigInt(await time.latest()) +
+      FREEZE_PERIOD +
+      (await account.getRecoveryDelay());
+    await expect(tx)
+      .to.emit(account.contract, "AccountFrozen")
+      .withArgs(other.address, frozenUntil);
+    expect(await account.getFreeze()).to.deep.equal({
+      frozen: true,
+      frozenUntil,
+      threshold: 2n,
+      votes: 0n,
+    });
+  });
+
+  it("Blocks the owner, its user operations and signatures", async function () {
+    const { account, implementation, bundler, signer, guardian, otherAccount } =
+      await loadFixture(deployFixture);
+    const frozenUntil = await freeze(account, guardian);
+    const call = { target: otherAccount.address, value: 1n };
+
+    await expectFrozen(account.execute(call), frozenUntil);
+    await expectFrozen(account.executeBatch([call]), frozenUntil);
+    await expectFrozen(
+      account.withdrawDepositTo(otherAccount.address, 1n),
+      frozenUntil,
+    );
+    await expectFrozen(
+      account.transferOwnership(otherAccount.address),
+      frozenUntil,
+    );
+    await expectFrozen(
+      account.addGuardians([ethers.Wallet.createRandom().address]),
+      frozenUntil,
+    );
+    await expectFrozen(
+      account.removeGuardians([guardian.address]),
+      frozenUntil,
+    );
+    await expect(
+      account.contract.upgradeTo(implementation),
+    ).to.be.revertedWithCustomError(account.contract, "Frozen");
+
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        callData: account.contract.interface.encodeFunctionData("execute", [
+          otherAccount.address,
+          1n,
+          "0x",
+        ]),
+        // @dev The call cannot be estimated while the account is frozen.
+        callGasLimit: 100000n,
+      },
+      signer,
+    );
+    const failed = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(failed).to.be.instanceOf(FailedOpError);
+    expect(failed.reason).to.equal("AA22 expired or not due");
+
+    const digest = ethers.id("frozen");
+    const signature = await signAccountDigest(
+      signer,
+      await accountDomain(account),
+      digest,
+    );
+    expect(await account.contract.isValidSignature(digest, signature)).to.equal(
+      "0xffffffff",
+    );
+
+    // @dev Funds can still be received.
+    await expect(
+      otherAccount.sendTransaction({ to: account.address, value: 1n }),
+    ).to.changeEtherBalance(account.address, 1n);
+  });
+
+  it("Blocks ownership transfers started before the freeze", async function () {
+    const { account, guardian, otherAccount } =
+      await loadFixture(deployFixture);
+    await account.transferOwnership(otherAccount.address);
+    const frozenUntil = await freeze(account, guardian);
+
+    await expectFrozen(
+      account.connect(otherAccount).acceptOwnership(),
+      frozenUntil,
+    );
+
+    await time.increaseTo(frozenUntil);
+    await account.connect(otherAccount).acceptOwnership();
+    expect(await account.owner()).to.equal(otherAccount.address);
+  });
+
+  it("Ends the freeze with a recovery", async function () {
+    const { account, signer, guardian, wallets, otherAccount, newOwner } =
+      await loadFixture(deployFixture);
+    await freeze(account, guardian);
+
+    const domain = await accountDomain(account);
+    const request = await prepareRecovery(account, newOwner.address);
+    const signatures = await Promise.all(
+      wallets.map((wallet) => signRecovery(wallet, domain, request)),
+    );
+    await account
+      .connect(otherAccount)
+      .socialRecovery(bundleRecovery(request, signatures));
+    // @dev The leaked key cannot veto the recovery.
+    const error = await account.cancelRecovery().catch((e) => e);
+    expect(error.errorName).to.equal("Frozen");
+
+    await time.increase(await account.getRecoveryDelay());
+    await account.connect(otherAccount).executeRecovery();
+
+    expect(await account.owner()).to.equal(newOwner.address);
+    expect(await account.getFreeze()).to.deep.equal({
+      frozen: false,
+      frozenUntil: 0n,
+      threshold: 1n,
+      votes: 0n,
+    });
+    await expect(
+      account.connect(newOwner).execute({ target: signer.address, value: 1n }),
+    ).to.changeEtherBalance(signer, 1n);
+  });
+
+  it("Expires and spaces out freezes", async function () {
+    const { account, guardian, otherAccount } =
+      await loadFixture(deployFixture);
+    const frozenUntil = await freeze(account, guardian);
+
+    let error = await account
+      .connect(guardian)
+      .freeze()
+      .catch((e) => e);
+    expect(error.errorName).to.equal("FreezeCooldown");
+    expect(error.args).to.deep.equal([frozenUntil + FREEZE_PERIOD]);
+
+    await time.increaseTo(frozenUntil);
+    expect((await account.getFreeze()).frozen).to.be.false;
+    await expect(
+      account.execute({ target: otherAccount.address, value: 1n }),
+    ).to.changeEtherBalance(otherAccount, 1n);
+
+    error = await account
+      .connect(guardian)
+      .freeze()
+      .catch((e) => e);
+    expect(error.errorName).to.equal("FreezeCooldown");
+
+    await time.increaseTo(frozenUntil + FREEZE_PERIOD);
+    await account.connect(guardian).freeze();
+    expect((await account.getFreeze()).frozen).to.be.true;
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ContractRunner } from "ethers";
+import { ethers } from "hardhat";
+import {
+  DEFAULT_CALL_GAS_LIMIT,
+  LocalBundler,
+  ModuleType,
+  TyronAccount,
+  TyronInheritanceModule,
+  encodeInheritancePolicy,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+const DAY = 24n * 60n * 60n;
+
+describe("Inheritance", function () {
+  async function deployFixture() {
+    const [signer, beneficiary, otherAccount, bundlerSigner] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+    const token = await hre.ethers.deployContract("TokenMock");
+    await token.mint(account.address, 1000n);
+    const nft = await hre.ethers.deployContract("TyronDNSMock");
+    await nft.mint(account.address, 7n);
+
+    const module = await TyronInheritanceModule.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronInheritanceModule"),
+    );
+    const policy = {
+      beneficiaries: [beneficiary.address],
+      inactivityPeriod: 90n * DAY,
+      challengePeriod: 7n * DAY,
+    };
+    await account.installModule(
+      module.installation,
+      encodeInheritancePolicy(policy),
+    );
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      module,
+      policy,
+      token,
+      nft,
+      bundler,
+      signer,
+      beneficiary,
+      otherAccount,
+    };
+  }
+
+  // @dev Opens a claim of `beneficiary` once the owner is inactive, and returns its end.
+  async function openClaim(
+    account: TyronAccount,
+    module: TyronInheritanceModule,
+    beneficiary: ContractRunner,
+  ) {
+    await time.increaseTo(await module.contract.getInactiveAt(account.address));
+    await module.connect(beneficiary).openClaim(account.address);
+    return (await module.getStatus(account.address)).claim!.executableAt;
+  }
+
+  it("Configures the policy of the account", async function () {
+    const { account, module, policy, beneficiary, otherAccount } =
+      await loadFixture(deployFixture);
+    expect(await module.getPolicy(account.address)).to.deep.equal(policy);
+    expect(await module.getPolicy(otherAccount.address)).to.be.undefined;
+
+    const updated = {
+      ...policy,
+      beneficiaries: [beneficiary.address, otherAccount.address],
+    };
+    await expect(account.execute(module.setPolicy(updated)))
+      .to.emit(module.contract, "PolicyUpdated")
+      .withArgs(
+        account.address,
+        updated.beneficiaries,
+        updated.inactivityPeriod,
+        updated.challengePeriod,
+      );
+    expect(await module.getPolicy(account.address)).to.deep.equal(updated);
+
+    await expect(
+      account.contract.execute(
+        module.address,
+        0,
+        module.setPolicy({ ...policy, inactivityPeriod: DAY }).data,
+      ),
+    )
+      .to.be.revertedWithCustomError(module.contract, "InvalidPolicy")
+      .withArgs(DAY, policy.challengePeriod);
+    await expect(
+      account.contract.execute(
+        module.address,
+        0,
+        module.setPolicy({ ...policy, beneficiaries: [account.address] }).data,
+      ),
+    )
+      .to.be.revertedWithCustomError(module.contract, "InvalidBeneficiary")
+      .withArgs(account.address);
+    await expect(
+      module
+        .connect(otherAccount)
+        .contract.setPolicy([beneficiary.address], 0, 0),
+    )
+      .to.be.revertedWithCustomError(module.contract, "NoPolicy")
+      .withArgs(otherAccount.address);
+  });
+
+  it("Counts the calls of the owner and its user operations as activity", async function () {
+    const { account, module, bundler, signer, otherAccount } =
+      await loadFixture(deployFixture);
+    const installedAt = BigInt(await time.latest());
+    let status = await module.getStatus(account.address);
+    expect(status.lastActivity).to.equal(installedAt);
+    expect(status.inactive).to.be.false;
+
+    await time.increase(30n * DAY);
+    await account.execute({ target: otherAccount.address, value: 1n });
+    const executedAt = BigInt(await time.latest());
+    expect(await account.getLastActivity()).to.equal(executedAt);
+
+    await time.increase(30n * DAY);
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: otherAccount.address, value: 1n }],
+      },
+      signer,
+    );
+    await bundler.sendUserOperation(op);
+    const operatedAt = BigInt(await time.latest());
+    status = await module.getStatus(account.address);
+    expect(status.lastActivity).to.equal(operatedAt);
+    expect(status.inactiveAt).to.equal(operatedAt + 90n * DAY);
+  });
+
+  it("Only counts the actions of the owner as activity", async function () {
+    const { account, bundler, otherAccount } = await loadFixture(deployFixture);
+    await time.increase(DAY);
+    await account.setRecoveryDelay(DAY);
+    expect(await account.getLastActivity()).to.equal(await time.latest());
+
+    const sessionKey = ethers.Wallet.createRandom();
+    const now = BigInt(await time.latest());
+    await account.createSession(sessionKey.address, {
+      validAfter: now,
+      validUntil: now + 2n * DAY,
+      valueLimit: 10n,
+      targets: [otherAccount.address],
+      selectors: ["0x00000000"],
+    });
+    const executor = await ethers.deployContract("ExecutorMock");
+    await account.installModule({
+      type: ModuleType.Executor,
+      module: await executor.getAddress(),
+    });
+    const configuredAt = BigInt(await time.latest());
+
+    await time.increase(DAY);
+    const op = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: otherAccount.address, value: 1n }],
+      },
+      sessionKey,
+    );
+    expect((await bundler.sendUserOperation(op)).success).to.be.true;
+    await executor.run(account.address, otherAccount.address, 1n, "0x");
+    expect(await account.getLastActivity()).to.equal(configuredAt);
+  });
+
+  it("Does not count the calls of a reverted owner operation as activity", async function () {
+    const { account, token, bundler, signer, otherAccount } =
+      await loadFixture(deployFixture);
+    const sessionKey = ethers.Wallet.createRandom();
+    const now = BigInt(await time.latest());
+    await account.createSession(sessionKey.address, {
+      validAfter: now,
+      validUntil: now + 2n * DAY,
+      valueLimit: 0n,
+      targets: [await token.getAddress()],
+      selectors: [token.interface.getFunction("transfer").selector],
+    });
+    const configuredAt = BigInt(await time.latest());
+
+    // @dev The owner's transfer exceeds the balance, so its execution reverts.
+    await time.increase(DAY);
+    const request = {
+      sender: account.address,
+      callGasLimit: DEFAULT_CALL_GAS_LIMIT,
+      calls: [
+        {
+          target: await token.getAddress(),
+          data: token.interface.encodeFunctionData("transfer", [
+            otherAccount.address,
+            2000n,
+          ]),
+        },
+      ],
+    };
+    const op = await bundler.buildSignedUserOp(request, signer);
+    expect((await bundler.sendUserOperation(op)).success).to.be.false;
+    expect(await account.getLastActivity()).to.equal(configuredAt);
+
+    await token.mint(account.address, 1000n);
+    const sessionOp = await bundler.buildSessionUserOp(request, sessionKey);
+    expect(sessionOp.callData).to.equal(op.callData);
+    expect((await bundler.sendUserOperation(sessionOp)).success).to.be.true;
+    expect(await token.balanceOf(otherAccount.address)).to.equal(2000n);
+    expect(await account.getLastActivity()).to.equal(configuredAt);
+  });
+
+  it("Lets a beneficiary take over the account of an inactive owner", async function () {
+    const { account, module, beneficiary, otherAccount } =
+      await loadFixture(deployFixture);
+    const inactiveAt = await module.contract.getInactiveAt(account.address);
+
+    await expect(module.connect(beneficiary).openClaim(account.address))
+      .to.be.revertedWithCustomError(module.contract, "OwnerActive")
+      .withArgs(inactiveAt);
+    await time.increaseTo(inactiveAt);
+    expect((await module.getStatus(account.address)).inactive).to.be.true;
+    await expect(module.connect(otherAccount).openClaim(account.address))
+      .to.be.revertedWithCustomError(module.contract, "NotBeneficiary")
+      .withArgs(account.address, otherAccount.address);
+
+    const executableAt = BigInt(await time.latest()) + 1n + 7n * DAY;
+    await expect(module.connect(beneficiary).openClaim(account.address))
+      .to.emit(module.contract, "ClaimOpened")
+      .withArgs(account.address, beneficiary.address, executableAt);
+    const { claim } = await module.getStatus(account.address);
+    expect(claim).to.deep.equal({
+      beneficiary: beneficiary.address,
+      executableAt,
+      executable: false,
+    });
+    await expect(module.connect(beneficiary).openClaim(account.address))
+      .to.be.revertedWithCustomError(module.contract, "ClaimPending")
+      .withArgs(beneficiary.address, claim!.executableAt);
+    await expect(module.connect(beneficiary).claimOwnership(account.address))
+      .to.be.revertedWithCustomError(module.contract, "ClaimNotReady")
+      .withArgs(claim!.executableAt);
+
+    await time.increaseTo(claim!.executableAt);
+    await expect(module.connect(beneficiary).claimOwnership(account.address))
+      .to.emit(module.contract, "OwnershipClaimed")
+      .withArgs(account.address, beneficiary.address);
+    await account.connect(beneficiary).acceptOwnership();
+    expect(await account.owner()).to.equal(beneficiary.address);
+
+    // @dev The first calls of the new owner close the claim.
+    await account
+      .connect(beneficiary)
+      .execute({ target: otherAccount.address, value: 1n });
+    expect((await module.getStatus(account.address)).claim).to.be.undefined;
+  });
+
+  it("Lets a beneficiary sweep the assets of an inactive owner", async function () {
+    const { account, module, token, nft, beneficiary } =
+      await loadFixture(deployFixture);
+    const executableAt = await openClaim(account, module, beneficiary);
+    await time.increaseTo(executableAt);
+
+    const balance = await ethers.provider.getBalance(account.address);
+    const sweep = module
+      .connect(beneficiary)
+      .sweep(
+        account.address,
+        [token.target as string],
+        [{ token: nft.target as string, tokenId: 7n }],
+      );
+    await expect(sweep)
+      .to.emit(module.contract, "AssetsSwept")
+      .withArgs(account.address, beneficiary.address);
+    await expect(sweep).to.changeEtherBalances(
+      [account.address, beneficiary],
+      [-balance, balance],
+    );
+    expect(await token.balanceOf(beneficiary.address)).to.equal(1000n);
+    expect(await nft.ownerOf(7n)).to.equal(beneficiary.address);
+    expect(await account.owner()).to.not.equal(beneficiary.address);
+  });
+
+  it("Lets the owner cancel a claim during the challenge period", async function () {
+    const { account, module, bundler, signer, beneficiary, otherAccount } =
+      await loadFixture(deployFixture);
+    let executableAt = await openClaim(account, module, beneficiary);
+
+    // @dev Any user operation of the owner voids the claim.
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: otherAccount.address, value: 1n }],
+      },
+      signer,
+    );
+    await bundler.sendUserOperation(op);
+    expect((await module.getStatus(account.address)).claim).to.be.undefined;
+    await time.increaseTo(executableAt);
+    await expect(module.connect(beneficiary).claimOwnership(account.address))
+      .to.be.revertedWithCustomError(module.contract, "NoClaim")
+      .withArgs(account.address);
+    await expect(
+      module.connect(beneficiary).openClaim(account.address),
+    ).to.be.revertedWithCustomError(module.contract, "OwnerActive");
+
+    executableAt = await openClaim(account, module, beneficiary);
+    await expect(account.execute(module.cancelClaim()))
+      .to.emit(module.contract, "ClaimCancelled")
+      .withArgs(account.address, beneficiary.address);
+    await time.increaseTo(executableAt);
+    await expect(
+      module.connect(beneficiary).sweep(account.address),
+    ).to.be.revertedWithCustomError(module.contract, "NoClaim");
+  });
+});
@@ -0,0 +1,171 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  accountDomain,
+  accountTypedDataDomain,
+  domainSeparator,
+  signAccountMessage,
+  signAccountTypedData,
+  verifyAccountMessage,
+  verifyAccountSignature,
+  verifyAccountTypedData,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Messages", function () {
+  async function deployFixture() {
+    const [signer, otherAccount] = await hre.ethers.getSigners();
+
+    const { account } = await deployAccountFixture(signer);
+    const domain = await accountDomain(account);
+
+    return { account, domain, signer, otherAccount };
+  }
+
+  // @dev A dapp's typed data, e.g. an order of a marketplace.
+  const order = {
+    domain: {
+      name: "Marketplace",
+      version: "2",
+      chainId: 31337n,
+      verifyingContract: "0x000000000000000000000000000000000000dEaD",
+    },
+    types: {
+      Order: [
+        { name: "item", type: "uint256" },
+        { name: "price", type: "uint256" },
+      ],
+    },
+    value: { item: 1n, price: ethers.parseEther("1") },
+  };
+
+  it("Exposes a standard EIP-712 domain", async function () {
+    const { account, domain } = await loadFixture(deployFixture);
+
+    expect(await account.contract.domainSeparator()).to.equal(
+      ethers.TypedDataEncoder.hashDomain(accountTypedDataDomain(domain)),
+    );
+    expect(await account.contract.domainSeparator()).to.equal(
+      domainSeparator(domain),
+    );
+
+    const eip712Domain = await account.contract.eip712Domain();
+    expect(eip712Domain.fields).to.equal("0x0f");
+    expect(eip712Domain.name).to.equal("TyronSSIAccount");
+    expect(eip712Domain.version).to.equal("1");
+    expect(eip712Domain.chainId).to.equal(domain.chainId);
+    expect(eip712Domain.verifyingContract).to.equal(account.address);
+  });
+
+  it("Signs Sign-In with Ethereum messages", async function () {
+    const { account, domain, signer, otherAccount } =
+      await loadFixture(deployFixture);
+    const message = `localhost wants you to sign in with your Ethereum account:\n${account.address}\n\nURI: http://localhost\nVersion: 1\nChain ID: ${domain.chainId}\nNonce: 32891756\nIssued At: 2023-11-01T00:00:00.000Z`;
+
+    const signature = await signAccountMessage(signer, domain, message);
+    expect(
+      await account.contract.isValidSignature(
+        ethers.hashMessage(message),
+        signature,
+      ),
+    ).to.equal("0x1626ba7e");
+    expect(
+      await verifyAccountMessage(
+        ethers.provider,
+        account.address,
+        message,
+        signature,
+      ),
+    ).to.be.true;
+    expect(
+      await verifyAccountMessage(
+        ethers.provider,
+        account.address,
+        `${message}\n`,
+        signature,
+      ),
+    ).to.be.false;
+
+    const forged = await signAccountMessage(otherAccount, domain, message);
+    expect(
+      await verifyAccountMessage(
+        ethers.provider,
+        account.address,
+        message,
+        forged,
+      ),
+    ).to.be.false;
+  });
+
+  it("Signs typed data of dapps", async function () {
+    const { account, domain, signer } = await loadFixture(deployFixture);
+
+    const signature = await signAccountTypedData(
+      signer,
+      domain,
+      order.domain,
+      order.types,
+      order.value,
+    );
+    expect(
+      await verifyAccountTypedData(
+        ethers.provider,
+        account.address,
+        order.domain,
+        order.types,
+        order.value,
+        signature,
+      ),
+    ).to.be.true;
+    expect(
+      await verifyAccountTypedData(
+        ethers.provider,
+        account.address,
+        order.domain,
+        order.types,
+        { ...order.value, price: 1n },
+        signature,
+      ),
+    ).to.be.false;
+
+    // @dev A plain signature of the dapp's digest is not valid for the account.
+    const digest = ethers.TypedDataEncoder.hash(
+      order.domain,
+      order.types,
+      order.value,
+    );
+    expect(
+      await verifyAccountSignature(
+        ethers.provider,
+        account.address,
+        digest,
+        await signer.signTypedData(order.domain, order.types, order.value),
+      ),
+    ).to.be.false;
+  });
+
+  it("Does not replay signatures on other accounts", async function () {
+    const { domain, signer } = await loadFixture(deployFixture);
+    const other = await deployFixture();
+
+    const signature = await signAccountMessage(signer, domain, "Hello");
+    expect(
+      await verifyAccountMessage(
+        ethers.provider,
+        other.account.address,
+        "Hello",
+        signature,
+      ),
+    ).to.be.false;
+    expect(
+      await verifyAccountMessage(
+        ethers.provider,
+        ethers.Wallet.createRandom().address,
+        "Hello",
+        signature,
+      ),
+    ).to.be.false;
+  });
+});
@@ -0,0 +1,395 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  FailedOpError,
+  LocalBundler,
+  ModuleType,
+  accountDomain,
+  bundleRecovery,
+  decodeValidatorSignature,
+  encodeValidatorSignature,
+  listModules,
+  prepareRecovery,
+  signAccountDigest,
+  signRecovery,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+// keccak256(abi.encode(uint256(keccak256("tyron.account.modules")) - 1)) & ~bytes32(uint256(0xff))
+const MODULE_STORAGE =
+  "0x223ea3a9decbcee8472234a111fec7653442a89121245a1af56defdc5c568700";
+
+describe("Modules", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, otherAccount, recipient, key] =
+      await hre.ethers.getSigners();
+    const guardian = ethers.Wallet.createRandom();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      guardians: [guardian.address],
+      value: ethers.parseEther("1"),
+    });
+
+    const validator = await ethers.deployContract("TyronECDSAValidator");
+    const executor = await ethers.deployContract("ExecutorMock");
+    const handler = await ethers.deployContract("FallbackHandlerMock");
+    const validatorModule = {
+      type: ModuleType.Validator,
+      module: await validator.getAddress(),
+    };
+    const executorModule = {
+      type: ModuleType.Executor,
+      module: await executor.getAddress(),
+    };
+    const handlerModule = {
+      type: ModuleType.Fallback,
+      module: await handler.getAddress(),
+      selector: "whoami()",
+    };
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      validator,
+      executor,
+      handler,
+      validatorModule,
+      executorModule,
+      handlerModule,
+      signer,
+      otherAccount,
+      recipient,
+      key,
+      guardian,
+    };
+  }
+
+  async function validatorFixture() {
+    const fixture = await deployFixture();
+    await fixture.account.installModule(
+      fixture.validatorModule,
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address"],
+        [fixture.key.address],
+      ),
+    );
+    return fixture;
+  }
+
+  describe("Validators", function () {
+    it("Installs and uninstalls a validator", async function () {
+      const { account, validator, validatorModule, key } =
+        await loadFixture(validatorFixture);
+      expect(await account.isModuleInstalled(validatorModule)).to.be.true;
+      expect(await validator.signers(account.address)).to.equal(key.address);
+
+      await expect(account.uninstallModule(validatorModule))
+        .to.emit(account.contract, "ModuleUninstalled")
+        .withArgs(ModuleType.Validator, validatorModule.module)
+        .and.not.to.emit(account.contract, "ModuleUninstallFailed");
+      expect(await account.isModuleInstalled(validatorModule)).to.be.false;
+      expect(await validator.signers(account.address)).to.equal(
+        ethers.ZeroAddress,
+      );
+    });
+
+    it("Executes user operations signed through a validator", async function () {
+      const { account, bundler, validatorModule, key, recipient } =
+        await loadFixture(validatorFixture);
+      const before = await ethers.provider.getBalance(recipient.address);
+
+      const op = await bundler.buildValidatorUserOp(
+        {
+          sender: account.address,
+          calls: [{ target: recipient.address, value: 1000n }],
+        },
+        validatorModule.module,
+        key,
+      );
+      expect(decodeValidatorSignature(op.signature)?.validator).to.equal(
+        validatorModule.module,
+      );
+      const result = await bundler.sendUserOperation(op);
+
+      expect(result.success).to.be.true;
+      expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+        before + 1000n,
+      );
+    });
+
+    it("Rejects user operations of other keys and removed validators", async function () {
+      const {
+        account,
+        bundler,
+        validatorModule,
+        key,
+        otherAccount,
+        recipient,
+      } = await loadFixture(validatorFixture);
+      const request = {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      };
+
+      const forged = await bundler.buildValidatorUserOp(
+        request,
+        validatorModule.module,
+        otherAccount,
+      );
+      let error = await bundler.sendUserOperation(forged).catch((e) => e);
+      expect(error).to.be.instanceOf(FailedOpError);
+      expect(error.reason).to.equal("AA24 signature error");
+
+      await account.uninstallModule(validatorModule);
+      const op = await bundler.buildValidatorUserOp(
+        request,
+        validatorModule.module,
+        key,
+      );
+      error = await bundler.sendUserOperation(op).catch((e) => e);
+      expect(error).to.be.instanceOf(FailedOpError);
+    });
+
+    it("Signs ERC-1271 messages through a validator", async function () {
+      const { account, validatorModule, key, otherAccount } =
+        await loadFixture(validatorFixture);
+      const digest = ethers.id("Sign in to Tyron");
+      const domain = await accountDomain(account);
+
+      const signature = encodeValidatorSignature(
+        validatorModule.module,
+        await signAccountDigest(key, domain, digest),
+      );
+      expect(
+        await account.contract.isValidSignature(digest, signature),
+      ).to.equal("0x1626ba7e");
+      expect(
+        await account.contract.isValidSignature(ethers.id("other"), signature),
+      ).to.equal("0xffffffff");
+
+      // @dev A signature naming a validator the account did not install is
+      // checked as the owner's, and fails.
+      const unknown = encodeValidatorSignature(
+        otherAccount.address,
+        await signAccountDigest(key, domain, digest),
+      );
+      expect(await account.contract.isValidSignature(digest, unknown)).to.equal(
+        "0xffffffff",
+      );
+    });
+  });
+
+  describe("Executors", function () {
+    it("Lets an installed executor run calls", async function () {
+      const { account, executor, executorModule, recipient } =
+        await loadFixture(deployFixture);
+      await expect(account.installModule(executorModule, "0x1234"))
+        .to.emit(account.contract, "ModuleInstalled")
+        .withArgs(ModuleType.Executor, executorModule.module);
+      expect(await executor.installData(account.address)).to.equal("0x1234");
+
+      const before = await ethers.provider.getBalance(recipient.address);
+      await executor.run(account.address, recipient.address, 1000n, "0x");
+      expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+        before + 1000n,
+      );
+
+      await account.uninstallModule(executorModule);
+      await expect(
+        executor.run(account.address, recipient.address, 1000n, "0x"),
+      ).to.be.revertedWithCustomError(account.contract, "NotAuthorized");
+    });
+  });
+
+  describe("Fallback handlers", function () {
+    it("Routes unknown functions to their handler", async function () {
+      const { account, handler, handlerModule, otherAccount } =
+        await loadFixture(deployFixture);
+      const whoami = new ethers.Contract(
+        account.address,
+        handler.interface,
+        otherAccount,
+      );
+      await expect(whoami.whoami()).to.be.revertedWithCustomError(
+        account.contract,
+        "NoFallbackHandler",
+      );
+
+      await expect(account.installModule(handlerModule, "0xabcd"))
+        .to.emit(account.contract, "FallbackHandlerUpdated")
+        .withArgs(
+          handler.interface.getFunction("whoami")!.selector,
+          handlerModule.module,
+        );
+      expect(await handler.installData(account.address)).to.equal("0xabcd");
+      expect(await account.isModuleInstalled(handlerModule)).to.be.true;
+      // @dev The handler is kept by selector only, so uninstalling it leaves nothing behind.
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const installedSlot = ethers.keccak256(
+        coder.encode(
+          ["address", "bytes32"],
+          [
+            handlerModule.module,
+            ethers.keccak256(
+              coder.encode(
+                ["uint256", "bytes32"],
+                [ModuleType.Fallback, MODULE_STORAGE],
+              ),
+            ),
+          ],
+        ),
+      );
+      expect(
+        await ethers.provider.getStorage(account.address, installedSlot),
+      ).to.equal(ethers.ZeroHash);
+
+      const [from, caller] = await whoami.whoami();
+      expect(from).to.equal(account.address);
+      expect(caller).to.equal(otherAccount.address);
+
+      // @dev The handler's uninstall hook reverts, and is reported.
+      await expect(account.uninstallModule(handlerModule))
+        .to.emit(account.contract, "ModuleUninstallFailed")
+        .withArgs(ModuleType.Fallback, handlerModule.module);
+      expect(await account.isModuleInstalled(handlerModule)).to.be.false;
+      expect(
+        await account.isModuleInstalled({
+          ...handlerModule,
+          module: ethers.ZeroAddress,
+        }),
+      ).to.be.false;
+      await expect(whoami.whoami()).to.be.revertedWithCustomError(
+        account.contract,
+        "NoFallbackHandler",
+      );
+    });
+
+    it("Keeps one handler per function", async function () {
+      const { account, handlerModule } = await loadFixture(deployFixture);
+      await account.installModule(handlerModule);
+
+      const other = await ethers.deployContract("FallbackHandlerMock");
+      const error = await account
+        .installModule({ ...handlerModule, module: await other.getAddress() })
+        .catch((e) => e);
+      expect(error.errorName).to.equal("InvalidModule");
+    });
+  });
+
+  it("Ends the modules of the previous owner on recovery", async function () {
+    const {
+      account,
+      bundler,
+      executor,
+      validatorModule,
+      executorModule,
+      key,
+      guardian,
+      otherAccount,
+      recipient,
+    } = await loadFixture(validatorFixture);
+    await account.installModule(executorModule);
+
+    const domain = await accountDomain(account);
+    const request = await prepareRecovery(account, otherAccount.address);
+    await account.socialRecovery(
+      bundleRecovery(request, [await signRecovery(guardian, domain, request)]),
+    );
+    await time.increase(await account.getRecoveryDelay());
+    await account.executeRecovery();
+
+    expect(await account.isModuleInstalled(validatorModule)).to.be.false;
+    expect(await account.isModuleInstalled(executorModule)).to.be.false;
+    const op = await bundler.buildValidatorUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      validatorModule.module,
+      key,
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA24 signature error");
+    await expect(
+      executor.run(account.address, recipient.address, 1n, "0x"),
+    ).to.be.revertedWithCustomError(account.contract, "NotAuthorized");
+
+    // @dev The new owner can install the modules again.
+    await account.connect(otherAccount).installModule(executorModule);
+    await expect(
+      executor.run(account.address, recipient.address, 1n, "0x"),
+    ).to.changeEtherBalance(recipient, 1n);
+  });
+
+  it("Rejects modules of the wrong type and duplicates", async function () {
+    const { account, validatorModule, executorModule } =
+      await loadFixture(validatorFixture);
+
+    let error = await account
+      .installModule({ ...executorModule, type: ModuleType.Validator })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("InvalidModule");
+    expect(error.args).to.deep.equal([
+      BigInt(ModuleType.Validator),
+      executorModule.module,
+    ]);
+
+    error = await account
+      .installModule(
+        validatorModule,
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["address"],
+          [ethers.Wallet.createRandom().address],
+        ),
+      )
+      .catch((e) => e);
+    expect(error.errorName).to.equal("InvalidModule");
+
+    error = await account.uninstallModule(executorModule).catch((e) => e);
+    expect(error.errorName).to.equal("ModuleNotInstalled");
+  });
+
+  it("Only lets the owner manage modules", async function () {
+    const { account, validatorModule, executorModule, otherAccount } =
+      await loadFixture(validatorFixture);
+
+    let error = await account
+      .connect(otherAccount)
+      .installModule(executorModule)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+
+    error = await account
+      .connect(otherAccount)
+      .uninstallModule(validatorModule)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+  });
+
+  it("Lists the installed modules", async function () {
+    const { account, validatorModule, executorModule, handlerModule } =
+      await loadFixture(validatorFixture);
+    await account.installModule(executorModule);
+    await account.installModule(handlerModule);
+    await account.uninstallModule(executorModule);
+
+    const modules = await listModules(account);
+    expect(
+      modules.map(({ type, module, selector }) => ({ type, module, selector })),
+    ).to.deep.equal([
+      { ...validatorModule, selector: undefined },
+      {
+        type: ModuleType.Fallback,
+        module: handlerModule.module,
+        selector: ethers.id("whoami()").slice(0, 10),
+      },
+    ]);
+  });
+});
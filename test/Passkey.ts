@@ -0,0 +1,236 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  FailedOpError,
+  LocalBundler,
+  SoftwarePasskey,
+  WEBAUTHN_VERIFIER_ABI,
+  accountDomain,
+  decodePasskeySignature,
+  deployWebAuthnVerifier,
+  encodePasskeySignature,
+  signPasskeyMessage,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Passkey", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, otherAccount, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+
+    const verifierAddress = await deployWebAuthnVerifier(
+      signer,
+      await hre.artifacts.readArtifact("TyronWebAuthnVerifier"),
+    );
+    const verifier = new ethers.Contract(
+      verifierAddress,
+      WEBAUTHN_VERIFIER_ABI,
+      signer,
+    );
+    const passkey = SoftwarePasskey.generate();
+    await account.setPasskey(passkey.publicKey, verifierAddress);
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      verifier,
+      passkey,
+      signer,
+      otherAccount,
+      recipient,
+    };
+  }
+
+  describe("Verifier", function () {
+    it("Verifies WebAuthn assertions", async function () {
+      const { verifier, passkey } = await loadFixture(deployFixture);
+      const challenge = ethers.id("challenge");
+      const { x, y } = passkey.publicKey;
+
+      const signature = decodePasskeySignature(
+        encodePasskeySignature(await passkey.sign(challenge)),
+      )!;
+      const encode = (assertion: typeof signature) =>
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          [
+            "tuple(bytes authenticatorData, string clientDataJSON, uint256 challengeIndex, uint256 typeIndex, uint256 r, uint256 s)",
+          ],
+          [assertion],
+        );
+
+      expect(await verifier.verify(challenge, encode(signature), x, y)).to.be
+        .true;
+      expect(await verifier.verify(ethers.id("other"), encode(signature), x, y))
+        .to.be.false;
+      expect(
+        await verifier.verify(
+          challenge,
+          encode({ ...signature, s: signature.s + 1n }),
+          x,
+          y,
+        ),
+      ).to.be.false;
+      expect(
+        await verifier.verify(
+          challenge,
+          encode({ ...signature, challengeIndex: 0n }),
+          x,
+          y,
+        ),
+      ).to.be.false;
+      const other = SoftwarePasskey.generate().publicKey;
+      expect(
+        await verifier.verify(challenge, encode(signature), other.x, other.y),
+      ).to.be.false;
+    });
+
+    it("Rejects points off the curve", async function () {
+      const { verifier, passkey } = await loadFixture(deployFixture);
+      const { x, y } = passkey.publicKey;
+      expect(await verifier.isValidKey(x, y)).to.be.true;
+      expect(await verifier.isValidKey(x, y + 1n)).to.be.false;
+      expect(await verifier.isValidKey(0n, 0n)).to.be.false;
+    });
+  });
+
+  it("Registers the passkey of the owner", async function () {
+    const { account, verifier, passkey, otherAccount } =
+      await loadFixture(deployFixture);
+    expect(await account.getPasskey()).to.deep.equal({
+      ...passkey.publicKey,
+      verifier: await verifier.getAddress(),
+    });
+
+    let error = await account
+      .connect(otherAccount)
+      .setPasskey(SoftwarePasskey.generate().publicKey, otherAccount.address)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+
+    // @dev A point off the curve could never sign, so it is not registered.
+    const { x, y } = passkey.publicKey;
+    error = await account
+      .setPasskey({ x, y: y + 1n }, await verifier.getAddress())
+      .catch((e) => e);
+    expect(error.errorName).to.equal("InvalidPasskey");
+    expect(error.args).to.deep.equal([x, y + 1n]);
+
+    await expect(account.removePasskey())
+      .to.emit(account.contract, "PasskeyUpdated")
+      .withArgs(0n, 0n, ethers.ZeroAddress);
+    expect(await account.getPasskey()).to.be.undefined;
+  });
+
+  it("Executes user operations signed by the passkey", async function () {
+    const { account, bundler, passkey, recipient } =
+      await loadFixture(deployFixture);
+    const before = await ethers.provider.getBalance(recipient.address);
+
+    const op = await bundler.buildPasskeyUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1000n }],
+      },
+      passkey,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+      before + 1000n,
+    );
+  });
+
+  it("Rejects user operations signed by another passkey", async function () {
+    const { account, bundler, recipient } = await loadFixture(deployFixture);
+
+    const op = await bundler.buildPasskeyUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      SoftwarePasskey.generate(),
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA24 signature error");
+  });
+
+  it("Rejects truncated assertions as invalid signatures", async function () {
+    const { account, bundler, passkey, recipient } =
+      await loadFixture(deployFixture);
+
+    // @dev The verifier cannot decode the assertion, which must not revert the validation.
+    const op = await bundler.buildPasskeyUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      passkey,
+    );
+    const error = await bundler
+      .sendUserOperation({
+        ...op,
+        signature: ethers.dataSlice(op.signature, 0, 100),
+      })
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA24 signature error");
+
+    const digest = ethers.id("Sign in to Tyron");
+    const signature = await signPasskeyMessage(
+      passkey,
+      await accountDomain(account),
+      digest,
+    );
+    expect(
+      await account.contract.isValidSignature(
+        digest,
+        ethers.dataSlice(signature, 0, 100),
+      ),
+    ).to.equal("0xffffffff");
+  });
+
+  it("Signs ERC-1271 messages with the passkey", async function () {
+    const { account, passkey } = await loadFixture(deployFixture);
+    const digest = ethers.id("Sign in to Tyron");
+
+    const signature = await signPasskeyMessage(
+      passkey,
+      await accountDomain(account),
+      digest,
+    );
+    expect(await account.contract.isValidSignature(digest, signature)).to.equal(
+      "0x1626ba7e",
+    );
+    expect(
+      await account.contract.isValidSignature(ethers.id("other"), signature),
+    ).to.equal("0xffffffff");
+  });
+
+  it("Removes the passkey when the owner changes", async function () {
+    const { account, bundler, passkey, otherAccount, recipient } =
+      await loadFixture(deployFixture);
+
+    await account.transferOwnership(otherAccount.address);
+    await account.connect(otherAccount).acceptOwnership();
+    expect(await account.getPasskey()).to.be.undefined;
+
+    const op = await bundler.buildPasskeyUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      passkey,
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+  });
+});
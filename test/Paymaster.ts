@@ -0,0 +1,374 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { Contract, Signer } from "ethers";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { ethers } from "hardhat";
+import {
+  FailedOpError,
+  LocalBundler,
+  TyronPaymaster,
+  decodePaymasterAndData,
+  signSponsorship,
+  sponsorService,
+} from "../sdk";
+import {
+  SponsorPolicy,
+  createSponsorServer,
+  maxUserOpCost,
+  sponsorUserOp,
+} from "../scripts/utils/sponsor";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Paymaster", function () {
+  const servers: Server[] = [];
+
+  afterEach(function () {
+    servers.splice(0).forEach((server) => server.close());
+  });
+
+  async function deployFixture() {
+    const [signer, bundlerSigner, sponsor, otherAccount, recipient] =
+      await hre.ethers.getSigners();
+
+    // @dev The account holds no native token.
+    const { entryPoint, account } = await deployAccountFixture(signer);
+    const paymaster = await TyronPaymaster.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronVerifyingPaymaster"),
+      {
+        entryPoint,
+        sponsor: sponsor.address,
+        defaultQuota: ethers.parseEther("0.01"),
+      },
+    );
+    await paymaster.deposit(ethers.parseEther("1"));
+    const token = await hre.ethers.deployContract("TokenMock");
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      entryPoint,
+      paymaster,
+      token,
+      signer,
+      sponsor,
+      otherAccount,
+      recipient,
+    };
+  }
+
+  // @dev Starts a sponsor service on a free port and returns its URL.
+  async function listen(
+    paymaster: TyronPaymaster,
+    sponsor: Signer,
+    entryPoint: string,
+    policy: SponsorPolicy,
+  ) {
+    const server = createSponsorServer({
+      paymaster,
+      sponsor,
+      entryPoint,
+      chainId: 31337n,
+      policy,
+    });
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  function mint(token: Contract, to: string, amount: bigint) {
+    return {
+      target: token.target as string,
+      data: token.interface.encodeFunctionData("mint", [to, amount]),
+    };
+  }
+
+  it("Sponsors the operations of an account without funds", async function () {
+    const {
+      account,
+      bundler,
+      entryPoint,
+      paymaster,
+      token,
+      signer,
+      sponsor,
+      recipient,
+    } = await loadFixture(deployFixture);
+    const service = sponsorService(
+      await listen(paymaster, sponsor, entryPoint, {
+        validity: 600,
+      }),
+      entryPoint,
+      31337n,
+    );
+    const deposit = await paymaster.getDeposit();
+
+    const op = await bundler.buildSponsoredUserOp(
+      {
+        sender: account.address,
+        calls: [mint(token, recipient.address, 5n)],
+      },
+      signer,
+      service,
+    );
+    expect(decodePaymasterAndData(op.paymasterAndData)?.paymaster).to.equal(
+      paymaster.address,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    expect(await token.balanceOf(recipient.address)).to.equal(5n);
+    expect(await ethers.provider.getBalance(account.address)).to.equal(0n);
+    expect(await paymaster.getDeposit()).to.equal(
+      deposit - result.actualGasCost,
+    );
+    // @dev The cost known to `postOp` leaves out the gas of `postOp` itself.
+    const sponsored = await paymaster.sponsoredCostOf(account.address);
+    expect(sponsored).to.be.greaterThan(0n);
+    expect(sponsored).to.be.lessThan(result.actualGasCost);
+    expect(await paymaster.remainingQuota(account.address)).to.equal(
+      ethers.parseEther("0.01") - sponsored,
+    );
+    await expect(result.receipt)
+      .to.emit(paymaster.contract, "UserOperationSponsored")
+      .withArgs(account.address, ethers.ZeroAddress, sponsored, 0n);
+  });
+
+  it("Rejects operations not signed by the sponsor", async function () {
+    const { account, bundler, paymaster, token, signer, otherAccount } =
+      await loadFixture(deployFixture);
+
+    const forged = await bundler.buildSponsoredUserOp(
+      { sender: account.address, calls: [mint(token, signer.address, 1n)] },
+      signer,
+      (op) =>
+        signSponsorship(otherAccount, op, paymaster.address, 31337n, {
+          validUntil: 0,
+          validAfter: 0,
+        }),
+    );
+    const error = await bundler.sendUserOperation(forged).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA34 signature error");
+  });
+
+  it("Rejects expired sponsorships", async function () {
+    const { account, bundler, entryPoint, paymaster, token, signer, sponsor } =
+      await loadFixture(deployFixture);
+    const service = sponsorService(
+      await listen(paymaster, sponsor, entryPoint, {
+        validity: 60,
+      }),
+      entryPoint,
+      31337n,
+    );
+
+    const op = await bundler.buildSponsoredUserOp(
+      { sender: account.address, calls: [mint(token, signer.address, 1n)] },
+      signer,
+      service,
+    );
+    await time.increase(120);
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA32 paymaster expired or not due");
+  });
+
+  it("Enforces the quota of each account", async function () {
+    const { account, bundler, entryPoint, paymaster, token, signer, sponsor } =
+      await loadFixture(deployFixture);
+    await paymaster.setQuota(account.address, 1000n);
+    expect(await paymaster.quotaOf(account.address)).to.equal(1000n);
+    const service = sponsorService(
+      await listen(paymaster, sponsor, entryPoint, {
+        validity: 600,
+      }),
+      entryPoint,
+      31337n,
+    );
+    const request = {
+      sender: account.address,
+      calls: [mint(token, signer.address, 1n)],
+    };
+
+    const refused = await bundler
+      .buildSponsoredUserOp(request, signer, service)
+      .catch((e) => e);
+    expect(refused.message).to.match(/above the remaining quota of 1000\.$/);
+
+    // @dev The paymaster enforces the quota whatever the sponsor signs.
+    const op = await bundler.buildSponsoredUserOp(request, signer, (op) =>
+      signSponsorship(sponsor, op, paymaster.address, 31337n, {
+        validUntil: 0,
+        validAfter: 0,
+      }),
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA33 reverted (or OOG)");
+  });
+
+  it("Reserves the most an operation can cost until it is settled", async function () {
+    const { account, bundler, entryPoint, paymaster, token, signer, sponsor } =
+      await loadFixture(deployFixture);
+    const nonce: bigint = await bundler.entryPoint.getNonce(account.address, 0);
+    const [first, second] = await Promise.all(
+      [nonce, nonce + 1n].map((nonce) =>
+        bundler.buildSponsoredUserOp(
+          {
+            sender: account.address,
+            nonce,
+            calls: [mint(token, signer.address, 1n)],
+            callGasLimit: 200_000n,
+          },
+          signer,
+          (op) =>
+            signSponsorship(sponsor, op, paymaster.address, 31337n, {
+              validUntil: 0,
+              validAfter: 0,
+            }),
+        ),
+      ),
+    );
+    // @dev Each operation fits the quota, but not both of them.
+    await paymaster.setQuota(
+      account.address,
+      maxUserOpCost(first) + maxUserOpCost(second) - 1n,
+    );
+
+    const error = await bundler.handleOps([first, second]).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.opIndex).to.equal(1n);
+    expect(error.reason).to.equal("AA33 reverted (or OOG)");
+
+    // @dev Once settled, only the actual cost counts.
+    const result = await bundler.sendUserOperation(first);
+    expect(await paymaster.sponsoredCostOf(account.address)).to.be.lessThan(
+      result.actualGasCost,
+    );
+    expect((await bundler.sendUserOperation(second)).success).to.be.true;
+  });
+
+  it("Applies the sponsor's policy", async function () {
+    const {
+      account,
+      bundler,
+      entryPoint,
+      paymaster,
+      token,
+      signer,
+      sponsor,
+      otherAccount,
+    } = await loadFixture(deployFixture);
+    const op = await bundler.buildUserOp({
+      sender: account.address,
+      calls: [mint(token, signer.address, 1n)],
+    });
+    const options = {
+      paymaster,
+      sponsor,
+      entryPoint,
+      chainId: 31337n,
+    };
+
+    for (const [policy, message] of [
+      [
+        { validity: 600, accounts: [otherAccount.address] },
+        `The account ${account.address} is not served.`,
+      ],
+      [{ validity: 600, maxCost: 1n }, /above the limit of 1\.$/],
+      [
+        { validity: 600, allow: () => false },
+        "The policy refuses the operation.",
+      ],
+    ] as [SponsorPolicy, string | RegExp][]) {
+      const error = await sponsorUserOp({ ...options, policy }, op).catch(
+        (e) => e,
+      );
+      expect(error.name).to.equal("SponsorRejectedError");
+      expect(error.message).to.match(
+        typeof message === "string" ? new RegExp(`^${message}$`) : message,
+      );
+    }
+
+    const url = await listen(paymaster, sponsor, entryPoint, {
+      validity: 600,
+    });
+    const error = await sponsorService(
+      url,
+      otherAccount.address,
+      31337n,
+    )(op).catch((e) => e);
+    expect(error.message).to.equal(
+      `Sponsor: Only EntryPoint ${entryPoint} on chain 31337 is served.`,
+    );
+    expect(await sponsorService(url, entryPoint, 31337n)(op)).to.match(/^0x/);
+  });
+
+  it("Charges an ERC20 instead of sponsoring", async function () {
+    const {
+      account,
+      bundler,
+      entryPoint,
+      paymaster,
+      token,
+      signer,
+      sponsor,
+      recipient,
+    } = await loadFixture(deployFixture);
+    const price = 2n * 10n ** 18n;
+    const service = sponsorService(
+      await listen(paymaster, sponsor, entryPoint, {
+        validity: 600,
+        token: { address: token.target as string, price },
+      }),
+      entryPoint,
+      31337n,
+    );
+    const request = {
+      sender: account.address,
+      calls: [mint(token, recipient.address, 1n)],
+    };
+
+    // @dev Without an allowance, the paymaster refuses the operation.
+    const refused = await bundler.buildSponsoredUserOp(
+      request,
+      signer,
+      service,
+    );
+    const error = await bundler.sendUserOperation(refused).catch((e) => e);
+    expect(error.reason).to.equal("AA33 reverted (or OOG)");
+
+    await token.mint(account.address, ethers.parseEther("1"));
+    await account.execute({
+      target: token.target as string,
+      data: token.interface.encodeFunctionData("approve", [
+        paymaster.address,
+        ethers.MaxUint256,
+      ]),
+    });
+    const result = await bundler.sendUserOperation(
+      await bundler.buildSponsoredUserOp(request, signer, service),
+    );
+
+    expect(result.success).to.be.true;
+    const charge = await token.balanceOf(paymaster.address);
+    expect(charge).to.be.greaterThan(0n);
+    expect(charge).to.be.lessThan((result.actualGasCost * price) / 10n ** 18n);
+    expect(await token.balanceOf(account.address)).to.equal(
+      ethers.parseEther("1") - charge,
+    );
+    expect(await paymaster.sponsoredCostOf(account.address)).to.equal(0n);
+    await expect(result.receipt)
+      .to.emit(paymaster.contract, "UserOperationSponsored")
+      .withArgs(account.address, token.target, anyValue, charge);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { ethers } from "hardhat";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  LocalBundler,
+  RecoveryServiceClient,
+  RecoveryVerificationError,
+  ThresholdMode,
+  accountDomain,
+  signRecovery,
+} from "../sdk";
+import {
+  RecoveryCoordinator,
+  RecoveryCoordinatorOptions,
+  createRecoveryServer,
+  directSubmitter,
+  userOpSubmitter,
+} from "../scripts/utils/recovery";
+import { deployAccount, deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Recovery service", function () {
+  const servers: Server[] = [];
+
+  afterEach(function () {
+    servers.splice(0).forEach((server) => server.close());
+  });
+
+  async function deployFixture() {
+    const [signer, bundlerSigner, relayerOwner, newOwner] =
+      await hre.ethers.getSigners();
+    const guardians = [
+      ethers.Wallet.createRandom(),
+      ethers.Wallet.createRandom(),
+      ethers.Wallet.createRandom(),
+    ];
+
+    const { entryPoint, implementation, account } = await deployAccountFixture(
+      signer,
+      { guardians: guardians.map(({ address }) => address) },
+    );
+    await account.setThresholdPolicy({ mode: ThresholdMode.Fixed, value: 2n });
+    // @dev The account of the service, which sends recoveries as user operations.
+    const relayer = await deployAccount(relayerOwner, implementation);
+    await relayerOwner.sendTransaction({
+      to: relayer.address,
+      value: ethers.parseEther("1"),
+    });
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      relayer,
+      bundler,
+      guardians,
+      relayerOwner,
+      newOwner,
+    };
+  }
+
+  // @dev A new store for each test, as fixtures are shared.
+  function storeFile() {
+    return path.join(
+      mkdtempSync(path.join(tmpdir(), "tyron-recovery-")),
+      "recovery.json",
+    );
+  }
+
+  // @dev Starts a recovery service on a free port and returns its client.
+  async function listen(file: string, options: RecoveryCoordinatorOptions) {
+    const coordinator = await RecoveryCoordinator.open(
+      ethers.provider,
+      file,
+      options,
+    );
+    const server = createRecoveryServer(coordinator);
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return new RecoveryServiceClient(`http://127.0.0.1:${port}`);
+  }
+
+  it("Collects guardian signatures and submits the recovery", async function () {
+    const { account, guardians, relayerOwner, newOwner } =
+      await loadFixture(deployFixture);
+    const file = storeFile();
+    const client = await listen(file, {
+      submit: directSubmitter(relayerOwner),
+    });
+
+    const opened = await client.open(account.address, newOwner.address);
+    expect(opened).to.include({
+      account: account.address,
+      newOwner: newOwner.address,
+      nonce: "0",
+      status: "open",
+      threshold: "2",
+      votes: "0",
+      remaining: "2",
+    });
+    expect(opened.digest).to.equal(
+      await account.contract.getMessageHash(opened.message),
+    );
+    expect(await client.open(account.address, newOwner.address)).to.deep.equal(
+      opened,
+    );
+
+    const first = await client.sign(opened.id, guardians[0]);
+    expect(first).to.include({ status: "open", votes: "1", remaining: "1" });
+    expect(await account.getPendingRecovery()).to.be.undefined;
+
+    const second = await client.sign(opened.id, guardians[2]);
+    expect(second).to.include({ status: "submitted", votes: "2" });
+    expect(second.signatures.map(({ guardian }) => guardian)).to.deep.equal([
+      guardians[0].address,
+      guardians[2].address,
+    ]);
+    expect((await account.getPendingRecovery())?.newOwner).to.equal(
+      newOwner.address,
+    );
+    await expect(second.transactionHash)
+      .to.emit(account.contract, "RecoveryProposed")
+      .withArgs(newOwner.address, anyValue);
+    expect(await client.list(account.address)).to.deep.equal([second]);
+  });
+
+  it("Refuses signers that are not guardians and invalid signatures", async function () {
+    const { account, guardians, newOwner } = await loadFixture(deployFixture);
+    const file = storeFile();
+    const client = await listen(file, {});
+    const { id } = await client.open(account.address, newOwner.address);
+
+    const stranger = ethers.Wallet.createRandom();
+    await expect(client.sign(id, stranger)).to.be.rejectedWith(
+      `Recovery service: ${stranger.address} is not a guardian of ${account.address}.`,
+    );
+
+    const domain = await accountDomain(account);
+    const other = await signRecovery(guardians[0], domain, {
+      newOwner: guardians[1].address,
+      nonce: 0n,
+      deadline: 1n,
+    });
+    await expect(client.submitSignature(id, other)).to.be.rejectedWith(
+      `Recovery service: The signature of ${guardians[0].address} does not match the recovery.`,
+    );
+    await expect(client.get("0x01")).to.be.rejectedWith(
+      "Recovery service: Unknown recovery 0x01.",
+    );
+    await expect(
+      client.open(account.address, await account.owner()),
+    ).to.be.rejectedWith(/cannot own/);
+
+    // @dev A guardian checks the digest of the request before signing it.
+    const store = JSON.parse(readFileSync(file, "utf8"));
+    store.requests[0].newOwner = stranger.address;
+    writeFileSync(file, JSON.stringify(store));
+    const tampered = await listen(file, {});
+    await expect(tampered.sign(id, guardians[0])).to.be.rejectedWith(
+      RecoveryVerificationError,
+    );
+  });
+
+  it("Resumes from its store", async function () {
+    const { account, guardians, relayerOwner, newOwner } =
+      await loadFixture(deployFixture);
+    const file = storeFile();
+    const collecting = await RecoveryCoordinator.open(ethers.provider, file);
+    const { id, message } = await collecting.openRequest(
+      account.address,
+      newOwner.address,
+    );
+    const digest = await account.contract.getMessageHash(message);
+    await collecting.addSignature(
+      id,
+      guardians[1].address,
+      guardians[1].signingKey.sign(digest).serialized,
+    );
+    expect((await collecting.get(id)).status).to.equal("open");
+
+    const restarted = await RecoveryCoordinator.open(ethers.provider, file, {
+      submit: directSubmitter(relayerOwner),
+    });
+    expect((await restarted.get(id)).votes).to.equal("1");
+    const recovery = await restarted.addSignature(
+      id,
+      guardians[0].address,
+      guardians[0].signingKey.sign(digest).serialized,
+    );
+
+    expect(recovery.status).to.equal("submitted");
+    expect(await account.getRecoveryNonce()).to.equal(1n);
+  });
+
+  it("Submits the recovery as a user operation", async function () {
+    const { account, relayer, bundler, guardians, relayerOwner } =
+      await loadFixture(deployFixture);
+    const file = storeFile();
+    const newOwner = ethers.Wallet.createRandom().address;
+    const client = await listen(file, {
+      submit: userOpSubmitter(bundler, relayer.address, relayerOwner),
+    });
+
+    const { id } = await client.open(account.address, newOwner);
+    await client.sign(id, guardians[0]);
+    const recovery = await client.sign(id, guardians[1]);
+
+    expect(recovery.status).to.equal("submitted");
+    expect((await account.getPendingRecovery())?.newOwner).to.equal(newOwner);
+    await expect(recovery.transactionHash).to.emit(
+      bundler.entryPoint,
+      "UserOperationEvent",
+    );
+  });
+
+  it("Marks a request stale once it expires or the nonce moves on", async function () {
+    const { account, guardians, relayerOwner, newOwner } =
+      await loadFixture(deployFixture);
+    const file = storeFile();
+    const client = await listen(file, {
+      submit: directSubmitter(relayerOwner),
+      ttl: 60n,
+    });
+
+    const expiring = await client.open(account.address, newOwner.address);
+    await time.increase(120);
+    expect((await client.get(expiring.id)).status).to.equal("stale");
+    await expect(client.sign(expiring.id, guardians[0])).to.be.rejectedWith(
+      `Recovery service: The recovery ${expiring.id} is stale.`,
+    );
+
+    const replaced = await client.open(account.address, newOwner.address);
+    expect(replaced.id).to.not.equal(expiring.id);
+    const other = await client.open(account.address, guardians[0].address);
+    await client.sign(other.id, guardians[1]);
+    await client.sign(other.id, guardians[2]);
+    expect((await client.get(replaced.id)).status).to.equal("stale");
+  });
+});
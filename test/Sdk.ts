@@ -0,0 +1,184 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  GuardianSource,
+  TyronAccountError,
+  hashGuardian,
+  indexGuardians,
+  withDecodedErrors,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("TyronSSIAccount SDK", function () {
+  async function deployFixture() {
+    const accounts = await hre.ethers.getSigners();
+    const [signer, otherAccount] = accounts;
+
+    const guardians = [
+      ethers.Wallet.createRandom().address,
+      ethers.Wallet.createRandom().address,
+      ethers.Wallet.createRandom().address,
+    ];
+    const { implementation, account } = await deployAccountFixture(signer, {
+      guardians,
+    });
+
+    return {
+      account,
+      implementation,
+      guardians,
+      signer,
+      otherAccount,
+      accounts,
+    };
+  }
+
+  describe("Deployment", function () {
+    it("Sets the deployer as owner", async function () {
+      const { account, signer } = await loadFixture(deployFixture);
+      expect(await account.owner()).to.equal(signer.address);
+    });
+
+    it("Deploys the account behind a proxy", async function () {
+      const { account, implementation } = await loadFixture(deployFixture);
+      expect(await account.implementation()).to.equal(implementation);
+      expect(await account.getInitializedVersion()).to.equal(1n);
+    });
+
+    it("Returns typed guardian params", async function () {
+      const { account, guardians } = await loadFixture(deployFixture);
+      const { count, threshold } = await account.getGuardianParams();
+      expect(count).to.equal(BigInt(guardians.length));
+      expect(threshold).to.equal(3n);
+    });
+  });
+
+  describe("Guardians", function () {
+    it("Hashes guardian addresses like the contract", async function () {
+      const { account, guardians } = await loadFixture(deployFixture);
+      expect(await account.contract.isGuardian(hashGuardian(guardians[0]))).to
+        .be.true;
+      expect(await account.isGuardian(guardians[1])).to.be.true;
+    });
+
+    it("Adds and removes guardians by address", async function () {
+      const { account, guardians, accounts } = await loadFixture(deployFixture);
+      const added = accounts[2].address;
+
+      await account.addGuardians([added]);
+      expect(await account.isGuardian(added)).to.be.true;
+
+      await account.removeGuardians([added, guardians[0]]);
+      expect(await account.isGuardian(added)).to.be.false;
+      expect(await account.isGuardian(guardians[0])).to.be.false;
+      expect((await account.getGuardianParams()).count).to.equal(2n);
+    });
+
+    it("Lists guardians and rebuilds them from logs", async function () {
+      const { account, guardians, accounts } = await loadFixture(deployFixture);
+      await account.addGuardians([accounts[2].address, accounts[3].address]);
+      await account.removeGuardians([guardians[0]]);
+
+      const listed = await account.getGuardians();
+      expect(listed.map((guardian) => guardian.guardian)).to.deep.equal([
+        accounts[3].address,
+        guardians[1],
+        guardians[2],
+        accounts[2].address,
+      ]);
+      expect(listed[0]).to.deep.include({
+        guardianHash: hashGuardian(accounts[3].address),
+        source: GuardianSource.Address,
+        tokenId: 0n,
+      });
+
+      const indexed = await indexGuardians(account);
+      expect(
+        indexed.map(({ guardianHash, source, guardian, tokenId }) => ({
+          guardianHash,
+          source,
+          guardian,
+          tokenId,
+        })),
+      ).to.deep.equal(listed);
+    });
+  });
+
+  describe("Ownership", function () {
+    it("Transfers the ownership in two steps", async function () {
+      const { account, otherAccount } = await loadFixture(deployFixture);
+
+      await account.transferOwnership(otherAccount.address);
+      expect(await account.pendingOwner()).to.equal(otherAccount.address);
+
+      await account.connect(otherAccount).acceptOwnership();
+      expect(await account.owner()).to.equal(otherAccount.address);
+    });
+  });
+
+  describe("Execution", function () {
+    it("Executes single and batched calls", async function () {
+      const { account, signer, accounts } = await loadFixture(deployFixture);
+      await signer.sendTransaction({
+        to: account.address,
+        value: ethers.parseEther("1"),
+      });
+
+      const recipient = accounts[3].address;
+      const before = await ethers.provider.getBalance(recipient);
+      await account.execute({ target: recipient, value: 100n });
+      await account.executeBatch([
+        { target: recipient, value: 20n },
+        { target: recipient, value: 3n },
+      ]);
+      expect(await ethers.provider.getBalance(recipient)).to.equal(
+        before + 123n,
+      );
+    });
+  });
+
+  describe("Errors", function () {
+    it("Decodes NotAuthorized", async function () {
+      const { account, otherAccount } = await loadFixture(deployFixture);
+      const error = await account
+        .connect(otherAccount)
+        .addGuardians([otherAccount.address])
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(TyronAccountError);
+      expect(error.errorName).to.equal("NotAuthorized");
+      expect(error.args).to.deep.equal([otherAccount.address]);
+    });
+
+    it("Decodes InvalidOwner", async function () {
+      const { account } = await loadFixture(deployFixture);
+      const error = await account
+        .transferOwnership(account.address)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(TyronAccountError);
+      expect(error.errorName).to.equal("InvalidOwner");
+      expect(error.args).to.deep.equal([account.address]);
+    });
+
+    it("Decodes ArrayLengthMismatch", async function () {
+      const { account, signer } = await loadFixture(deployFixture);
+      const error = await withDecodedErrors(() =>
+        account.contract["executeBatch(address[],bytes[])"](
+          [signer.address],
+          [],
+        ),
+      ).catch((e) => e);
+      expect(error).to.be.instanceOf(TyronAccountError);
+      expect(error.errorName).to.equal("ArrayLengthMismatch");
+    });
+
+    it("Decodes revert reasons", async function () {
+      const { account, guardians } = await loadFixture(deployFixture);
+      const error = await account.addGuardians([guardians[0]]).catch((e) => e);
+      expect(error).to.be.instanceOf(TyronAccountError);
+      expect(error.errorName).to.equal("Error");
+      expect(error.message).to.equal("Account: A guardian cannot be repeated.");
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  FailedOpError,
+  LocalBundler,
+  SessionPermissions,
+  decodeSessionSignature,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("SessionKeys", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, otherAccount, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+
+    // @dev Any contract works as a session target; the DNS mock has a public `mint`.
+    const target = await hre.ethers.deployContract("TyronDNSMock");
+    const sessionKey = ethers.Wallet.createRandom(ethers.provider);
+    const now = BigInt(await time.latest());
+    const permissions: SessionPermissions = {
+      validAfter: now,
+      validUntil: now + 3600n,
+      valueLimit: 1000n,
+      targets: [await target.getAddress(), recipient.address],
+      selectors: ["mint(address,uint256)", "0x00000000"],
+    };
+    await account.createSession(sessionKey.address, permissions);
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return {
+      account,
+      bundler,
+      target,
+      sessionKey,
+      permissions,
+      signer,
+      otherAccount,
+      recipient,
+    };
+  }
+
+  it("Registers a session key", async function () {
+    const { account, sessionKey, permissions, target, recipient } =
+      await loadFixture(deployFixture);
+
+    expect(await account.getSession(sessionKey.address)).to.deep.equal({
+      validAfter: permissions.validAfter,
+      validUntil: permissions.validUntil,
+      valueLimit: 1000n,
+      valueSpent: 0n,
+      active: true,
+    });
+    const targetAddress = await target.getAddress();
+    expect(
+      await account.isSessionCallAllowed(
+        sessionKey.address,
+        targetAddress,
+        "mint(address,uint256)",
+      ),
+    ).to.be.true;
+    expect(
+      await account.isSessionCallAllowed(
+        sessionKey.address,
+        targetAddress,
+        "burn(uint256)",
+      ),
+    ).to.be.false;
+    expect(
+      await account.isSessionCallAllowed(
+        sessionKey.address,
+        recipient.address,
+        "0x00000000",
+      ),
+    ).to.be.true;
+  });
+
+  it("Rejects invalid sessions", async function () {
+    const { account, sessionKey, permissions, otherAccount } =
+      await loadFixture(deployFixture);
+
+    const invalid = [
+      { ...permissions, validUntil: permissions.validAfter },
+      { ...permissions, targets: [] },
+      { ...permissions, targets: [account.address] },
+    ];
+    for (const session of invalid) {
+      const error = await account
+        .createSession(sessionKey.address, session)
+        .catch((e) => e);
+      expect(error.errorName).to.equal("InvalidSession");
+      expect(error.args).to.deep.equal([sessionKey.address]);
+    }
+    const error = await account
+      .connect(otherAccount)
+      .createSession(otherAccount.address, permissions)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("NotAuthorized");
+  });
+
+  it("Executes allowed calls signed by the session key", async function () {
+    const { account, bundler, target, sessionKey, recipient } =
+      await loadFixture(deployFixture);
+    const before = await ethers.provider.getBalance(recipient.address);
+
+    const op = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [
+          {
+            target: await target.getAddress(),
+            data: target.interface.encodeFunctionData("mint", [
+              recipient.address,
+              1n,
+            ]),
+          },
+          { target: recipient.address, value: 400n },
+        ],
+      },
+      sessionKey,
+    );
+    expect(decodeSessionSignature(op.signature)?.key).to.equal(
+      sessionKey.address,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    expect(await target.ownerOf(1n)).to.equal(recipient.address);
+    expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+      before + 400n,
+    );
+    expect((await account.getSession(sessionKey.address)).valueSpent).to.equal(
+      400n,
+    );
+  });
+
+  it("Rejects calls outside of the session permissions", async function () {
+    const { account, bundler, target, sessionKey, otherAccount } =
+      await loadFixture(deployFixture);
+
+    // @dev A selector that was not allowed.
+    const burn = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [
+          {
+            target: await target.getAddress(),
+            data: target.interface.encodeFunctionData("burn", [1n]),
+          },
+        ],
+        callGasLimit: 200_000n,
+      },
+      sessionKey,
+    );
+    let error = await bundler.sendUserOperation(burn).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.match(/^AA23/);
+
+    // @dev A target that was not allowed.
+    const transfer = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: otherAccount.address, value: 1n }],
+      },
+      sessionKey,
+    );
+    error = await bundler.sendUserOperation(transfer).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+
+    // @dev Account administration is never allowed.
+    const addGuardians = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        callData: account.contract.interface.encodeFunctionData(
+          "addGuardians",
+          [[otherAccount.address], []],
+        ),
+        callGasLimit: 200_000n,
+      },
+      sessionKey,
+    );
+    error = await bundler.sendUserOperation(addGuardians).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+  });
+
+  it("Enforces the session value limit", async function () {
+    const { account, bundler, sessionKey, recipient } =
+      await loadFixture(deployFixture);
+
+    await bundler.sendUserOperation(
+      await bundler.buildSessionUserOp(
+        {
+          sender: account.address,
+          calls: [{ target: recipient.address, value: 800n }],
+        },
+        sessionKey,
+      ),
+    );
+    const op = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 201n }],
+      },
+      sessionKey,
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect((await account.getSession(sessionKey.address)).valueSpent).to.equal(
+      800n,
+    );
+  });
+
+  it("Rejects user operations outside of the session window", async function () {
+    const { account, bundler, sessionKey, permissions, recipient } =
+      await loadFixture(deployFixture);
+
+    await time.increaseTo(permissions.validUntil + 1n);
+    const op = await bundler.buildSessionUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      sessionKey,
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA22 expired or not due");
+  });
+
+  it("Ends sessions when revoked or when the owner changes", async function () {
+    const {
+      account,
+      bundler,
+      sessionKey,
+      permissions,
+      otherAccount,
+      recipient,
+    } = await loadFixture(deployFixture);
+    const request = {
+      sender: account.address,
+      calls: [{ target: recipient.address, value: 1n }],
+    };
+
+    await expect(account.revokeSession(sessionKey.address))
+      .to.emit(account.contract, "SessionRevoked")
+      .withArgs(sessionKey.address);
+    expect((await account.getSession(sessionKey.address)).active).to.be.false;
+    let error = await bundler
+      .sendUserOperation(await bundler.buildSessionUserOp(request, sessionKey))
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    error = await account.revokeSession(sessionKey.address).catch((e) => e);
+    expect(error.errorName).to.equal("SessionNotActive");
+
+    // @dev Registering the key again does not restore its previous permissions.
+    await account.createSession(sessionKey.address, {
+      ...permissions,
+      targets: [recipient.address],
+      selectors: [],
+    });
+    expect(
+      await account.isSessionCallAllowed(
+        sessionKey.address,
+        permissions.targets[0],
+        "mint(address,uint256)",
+      ),
+    ).to.be.false;
+
+    await account.transferOwnership(otherAccount.address);
+    await account.connect(otherAccount).acceptOwnership();
+    expect((await account.getSession(sessionKey.address)).active).to.be.false;
+    error = await bundler
+      .sendUserOperation(await bundler.buildSessionUserOp(request, sessionKey))
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+  });
+});
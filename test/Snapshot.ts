@@ -0,0 +1,200 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  ThresholdMode,
+  TyronAccount,
+  exportAccountSnapshot,
+  formatSnapshotDifference,
+  parseAccountSnapshot,
+} from "../sdk";
+import { loadAccountParams } from "../scripts/utils/accountParams";
+import { deployTyron } from "../scripts/utils/deploy";
+import {
+  applySnapshotPlan,
+  deploySnapshot,
+  planSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "../scripts/utils/snapshot";
+const hre = require("hardhat");
+
+describe("Snapshots", function () {
+  async function deployFixture() {
+    const [signer, deployer, guardian1, guardian2, guardian3, holder] =
+      await hre.ethers.getSigners();
+    const dir = mkdtempSync(path.join(tmpdir(), "tyron-snapshots-"));
+    const { manifest, account: deployment } = await deployTyron(
+      hre,
+      signer,
+      loadAccountParams({
+        guardians: [guardian1, guardian2, guardian3]
+          .map(({ address }) => address)
+          .join(","),
+      }),
+      dir,
+    );
+    const account = TyronAccount.connect(deployment.address, signer);
+    await account.setGuardianWeights([guardian1.address], [3]);
+    await account.setThresholdPolicy({
+      mode: ThresholdMode.Fixed,
+      value: 2n,
+    });
+    await account.addDeposit(hre.ethers.parseEther("0.1"));
+
+    return {
+      account,
+      manifest,
+      dir,
+      signer,
+      deployer,
+      guardian1,
+      guardian2,
+      guardian3,
+      holder,
+    };
+  }
+
+  it("Exports the state of an account", async function () {
+    const { account, manifest, dir, signer, guardian1, guardian2, guardian3 } =
+      await loadFixture(deployFixture);
+
+    const snapshot = await exportAccountSnapshot(account);
+    expect(snapshot).to.deep.include({
+      version: 1,
+      chainId: 31337,
+      account: account.address,
+      owner: signer.address,
+      entryPoint: manifest.entryPoint,
+      dns: manifest.dns,
+      threshold: { mode: "Fixed", value: "2" },
+      deposit: hre.ethers.parseEther("0.1").toString(),
+    });
+    expect(snapshot.guardians).to.deep.equal([
+      { source: "Address", guardian: guardian1.address, weight: "3" },
+      { source: "Address", guardian: guardian2.address, weight: "1" },
+      { source: "Address", guardian: guardian3.address, weight: "1" },
+    ]);
+
+    const file = writeSnapshot(snapshot, path.join(dir, "snapshot.json"));
+    expect(readSnapshot(file)).to.deep.equal(snapshot);
+    expect(() => parseAccountSnapshot({ ...snapshot, version: 2 })).to.throw(
+      "Unsupported snapshot version 2",
+    );
+    expect(() =>
+      parseAccountSnapshot({
+        ...snapshot,
+        threshold: { mode: "Unanimous", value: "0" },
+      }),
+    ).to.throw("Unknown threshold mode Unanimous");
+  });
+
+  it("Exports guardians registered by DNS NFT ID", async function () {
+    const { account, manifest, holder } = await loadFixture(deployFixture);
+    const dns = await hre.ethers.getContractAt("TyronDNSMock", manifest.dns);
+    await dns.mint(holder.address, 7n);
+    await account.addGuardians([], [7n]);
+
+    const snapshot = await exportAccountSnapshot(account);
+    expect(snapshot.guardians.at(-1)).to.deep.equal({
+      source: "DnsToken",
+      tokenId: "7",
+      weight: "1",
+    });
+  });
+
+  it("Shows and reconciles the differences with an account", async function () {
+    const { account, deployer, guardian1, guardian3 } =
+      await loadFixture(deployFixture);
+    const snapshot = await exportAccountSnapshot(account);
+
+    await account.addGuardians([deployer.address]);
+    await account.setGuardianWeights([guardian1.address], [1]);
+    await account.setThresholdPolicy({
+      mode: ThresholdMode.Majority,
+      value: 0n,
+    });
+    await account.removeGuardians([guardian3.address]);
+
+    const plan = await planSnapshot(account, snapshot);
+    expect(plan.differences.map(formatSnapshotDifference)).to.deep.equal([
+      `~ guardian ${guardian1.address} -> ${guardian1.address} (weight 3)`,
+      `+ guardian ${guardian3.address}`,
+      `- guardian ${deployer.address}`,
+      "~ threshold Majority (0) -> Fixed (2)",
+    ]);
+    expect(plan.calls.map(({ method }) => method)).to.deep.equal([
+      "addGuardians",
+      "setGuardianWeights",
+      "setThresholdPolicy",
+      "removeGuardians",
+    ]);
+
+    const [simulated] = await applySnapshotPlan(account, plan, true);
+    expect(simulated.outcome.status).to.equal("simulated");
+    expect(await account.isGuardian(guardian3.address)).to.be.false;
+
+    await applySnapshotPlan(account, plan);
+    expect((await planSnapshot(account, snapshot)).differences).to.be.empty;
+  });
+
+  it("Dry runs each call on the state of the previous ones", async function () {
+    const { account, deployer, holder } = await loadFixture(deployFixture);
+    const snapshot = await exportAccountSnapshot(account);
+
+    // @dev A threshold of 5 guardians is only reachable once they are added.
+    const target = parseAccountSnapshot({
+      ...snapshot,
+      guardians: [
+        ...snapshot.guardians,
+        { source: "Address", guardian: deployer.address, weight: "1" },
+        { source: "Address", guardian: holder.address, weight: "1" },
+      ],
+      threshold: { mode: "Fixed", value: "5" },
+    });
+    const plan = await planSnapshot(account, target);
+    expect(plan.calls.map(({ method }) => method)).to.deep.equal([
+      "addGuardians",
+      "setThresholdPolicy",
+    ]);
+
+    const outcomes = await applySnapshotPlan(account, plan, true);
+    expect(outcomes.map(({ outcome }) => outcome.status)).to.deep.equal([
+      "simulated",
+      "simulated",
+    ]);
+    expect(await account.isGuardian(deployer.address)).to.be.false;
+    expect((await account.getThresholdPolicy()).value).to.equal(2n);
+
+    await applySnapshotPlan(account, plan);
+    expect((await planSnapshot(account, target)).differences).to.be.empty;
+  });
+
+  it("Replicates an account on another network", async function () {
+    const { account, signer, deployer } = await loadFixture(deployFixture);
+    const snapshot = await exportAccountSnapshot(account);
+
+    // @dev Another manifest directory stands for another network, with its own
+    // EntryPoint and DNS.
+    const dir = mkdtempSync(path.join(tmpdir(), "tyron-replica-"));
+    const replica = await deploySnapshot(hre, deployer, snapshot, 0n, dir);
+    const plan = await planSnapshot(replica, snapshot);
+    expect(plan.calls.map(({ method }) => method)).to.deep.equal([
+      "setGuardianWeights",
+      "setThresholdPolicy",
+      "addDeposit",
+      "transferOwnership",
+    ]);
+    await applySnapshotPlan(replica, plan);
+    await replica.connect(signer).acceptOwnership();
+
+    const remaining = await planSnapshot(replica, snapshot);
+    expect(remaining.differences.map(({ field }) => field)).to.deep.equal([
+      "entryPoint",
+      "dns",
+    ]);
+    expect(remaining.calls).to.be.empty;
+  });
+});
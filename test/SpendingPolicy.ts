@@ -0,0 +1,355 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+import {
+  NATIVE_ASSET,
+  TyronAccount,
+  TyronSpendingPolicy,
+  previewSpendingPolicy,
+} from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+describe("SpendingPolicy", function () {
+  async function deployFixture() {
+    const [signer, otherAccount, recipient] = await hre.ethers.getSigners();
+
+    const { account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+    const token = await hre.ethers.deployContract("TokenMock");
+    await token.mint(account.address, 10_000n);
+
+    const policy = await TyronSpendingPolicy.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronSpendingPolicy"),
+    );
+    await account.setSpendingPolicy(policy.address);
+    await account.executeBatch([
+      policy.setDailyLimit(NATIVE_ASSET, 1000n),
+      policy.setDailyLimit(await token.getAddress(), 500n),
+    ]);
+
+    return { account, policy, token, signer, otherAccount, recipient };
+  }
+
+  function transfer(token: Contract, to: string, amount: bigint) {
+    return {
+      target: token.target as string,
+      data: token.interface.encodeFunctionData("transfer", [to, amount]),
+    };
+  }
+
+  it("Installs the first policy at once", async function () {
+    const { account, policy } = await loadFixture(deployFixture);
+    expect(await account.getSpendingPolicy()).to.deep.equal({
+      policy: policy.address,
+    });
+    expect(
+      await policy.getDailyLimit(account.address, NATIVE_ASSET),
+    ).to.deep.equal({ enabled: true, amount: 1000n, spent: 0n, freesAt: 0n });
+  });
+
+  it("Enforces the daily limit of native value", async function () {
+    const { account, policy, recipient } = await loadFixture(deployFixture);
+
+    await account.execute({ target: recipient.address, value: 600n });
+    const error = await account
+      .execute({ target: recipient.address, value: 500n })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("DailyLimitExceeded");
+    expect(error.args).to.deep.equal([NATIVE_ASSET, 500n, 400n]);
+
+    // @dev A spend counts for 24 full hours of its hour.
+    await time.increase(DAY + HOUR);
+    await account.execute({ target: recipient.address, value: 500n });
+    expect(
+      await policy.getRemainingDailyLimit(account.address, NATIVE_ASSET),
+    ).to.equal(500n);
+  });
+
+  it("Limits every 24 hours, not calendar windows", async function () {
+    const { account, policy, recipient } = await loadFixture(deployFixture);
+
+    await account.execute({ target: recipient.address, value: 600n });
+    const freesAt =
+      (BigInt(await time.latest()) / BigInt(HOUR) + 25n) * BigInt(HOUR);
+    await time.increase(DAY / 2);
+    await account.execute({ target: recipient.address, value: 400n });
+    expect(
+      await policy.getDailyLimit(account.address, NATIVE_ASSET),
+    ).to.deep.equal({ enabled: true, amount: 1000n, spent: 1000n, freesAt });
+
+    // @dev A day after the first spend, the second one still counts.
+    await time.increase(DAY / 2);
+    let error = await account
+      .execute({ target: recipient.address, value: 1n })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("DailyLimitExceeded");
+
+    await time.increaseTo(freesAt);
+    expect(
+      await policy.getRemainingDailyLimit(account.address, NATIVE_ASSET),
+    ).to.equal(600n);
+    error = await account
+      .execute({ target: recipient.address, value: 601n })
+      .catch((e) => e);
+    expect(error.args).to.deep.equal([NATIVE_ASSET, 601n, 600n]);
+  });
+
+  it("Enforces the daily limit of ERC20 transfers and approvals", async function () {
+    const { account, token, recipient } = await loadFixture(deployFixture);
+
+    await account.execute(transfer(token, recipient.address, 300n));
+    expect(await token.balanceOf(recipient.address)).to.equal(300n);
+    const error = await account
+      .execute({
+        target: token.target as string,
+        data: token.interface.encodeFunctionData("approve", [
+          recipient.address,
+          201n,
+        ]),
+      })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("DailyLimitExceeded");
+    expect(error.args).to.deep.equal([token.target, 201n, 200n]);
+  });
+
+  it("Decodes every ERC20 call that spends a limited token", async function () {
+    const { account, policy, token, recipient } =
+      await loadFixture(deployFixture);
+    const call = (name: string, args: unknown[]) => ({
+      target: token.target as string,
+      data: token.interface.encodeFunctionData(name, args),
+    });
+
+    // @dev Moving tokens through an allowance of the account to itself.
+    await account.executeBatch([
+      call("approve", [account.address, 200n]),
+      call("transferFrom", [account.address, recipient.address, 200n]),
+      call("increaseAllowance", [recipient.address, 100n]),
+    ]);
+    expect(await token.balanceOf(recipient.address)).to.equal(200n);
+    expect(
+      await policy.getRemainingDailyLimit(
+        account.address,
+        token.target as string,
+      ),
+    ).to.equal(0n);
+    await account.execute(call("decreaseAllowance", [recipient.address, 1n]));
+
+    // @dev Calls the policy cannot decode are rejected.
+    const error = await account
+      .execute(call("mint", [recipient.address, 1n]))
+      .catch((e) => e);
+    expect(error.errorName).to.equal("UnknownTokenCall");
+    expect(error.args).to.deep.equal([
+      token.target,
+      token.interface.getFunction("mint")!.selector,
+    ]);
+  });
+
+  it("Enforces the allowlist and blocked selectors", async function () {
+    const { account, policy, token, recipient, otherAccount } =
+      await loadFixture(deployFixture);
+
+    await account.executeBatch([
+      policy.setAllowlistEnabled(true),
+      policy.setSelectorBlocked("approve(address,uint256)", true),
+    ]);
+    let error = await account
+      .execute({ target: recipient.address, value: 1n })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("TargetNotAllowed");
+    expect(error.args).to.deep.equal([recipient.address]);
+
+    // @dev Adding a target loosens the policy, so it waits for the delay.
+    const allowToken = policy.setTargetAllowed(token.target as string, true);
+    await account.execute(allowToken);
+    expect(
+      await policy.isTargetAllowed(account.address, token.target as string),
+    ).to.be.false;
+    await time.increase(2 * DAY);
+    await account.execute(allowToken);
+    await account.execute(transfer(token, recipient.address, 1n));
+
+    error = await account
+      .execute({
+        target: token.target as string,
+        data: token.interface.encodeFunctionData("approve", [
+          otherAccount.address,
+          1n,
+        ]),
+      })
+      .catch((e) => e);
+    expect(error.errorName).to.equal("SelectorBlocked");
+  });
+
+  it("Delays loosening changes", async function () {
+    const { account, policy, recipient } = await loadFixture(deployFixture);
+
+    // @dev Lowering a limit applies at once.
+    await account.execute(policy.setDailyLimit(NATIVE_ASSET, 100n));
+    expect(
+      (await policy.getDailyLimit(account.address, NATIVE_ASSET)).amount,
+    ).to.equal(100n);
+
+    const raise = policy.setDailyLimit(NATIVE_ASSET, 5000n);
+    await expect(account.execute(raise)).to.emit(
+      policy.contract,
+      "PolicyChangeScheduled",
+    );
+    const applicableAt = await policy.getScheduledChange(
+      account.address,
+      raise,
+    );
+    expect(applicableAt).to.equal(
+      BigInt(await time.latest()) + BigInt(2 * DAY),
+    );
+
+    const error = await account.execute(raise).catch((e) => e);
+    expect(error.errorName).to.equal("PolicyChangeNotReady");
+
+    await time.increaseTo(applicableAt!);
+    await account.execute(raise);
+    await account.execute({ target: recipient.address, value: 4000n });
+    expect(await policy.getScheduledChange(account.address, raise)).to.be
+      .undefined;
+
+    // @dev A scheduled change can be cancelled.
+    const remove = policy.removeDailyLimit(NATIVE_ASSET);
+    await account.execute(remove);
+    await account.execute(policy.cancelChange(remove));
+    expect(await policy.getScheduledChange(account.address, remove)).to.be
+      .undefined;
+  });
+
+  it("Delays the removal of the policy", async function () {
+    const { account, policy, recipient } = await loadFixture(deployFixture);
+
+    const now = BigInt(await time.latest());
+    await expect(account.setSpendingPolicy(ethers.ZeroAddress))
+      .to.emit(account.contract, "SpendingPolicyScheduled")
+      .withArgs(ethers.ZeroAddress, now + 1n + BigInt(2 * DAY));
+    const error = await account.applySpendingPolicy().catch((e) => e);
+    expect(error.errorName).to.equal("SpendingPolicyNotReady");
+
+    await time.increase(2 * DAY);
+    await expect(account.applySpendingPolicy())
+      .to.emit(account.contract, "SpendingPolicyUpdated")
+      .withArgs(ethers.ZeroAddress);
+    expect(await account.getSpendingPolicy()).to.deep.equal({
+      policy: ethers.ZeroAddress,
+    });
+    await account.execute({ target: recipient.address, value: 5000n });
+    expect(
+      (await policy.getDailyLimit(account.address, NATIVE_ASSET)).spent,
+    ).to.equal(0n);
+  });
+
+  it("Delays upgrades while the account has a policy", async function () {
+    const { account, signer } = await loadFixture(deployFixture);
+    const implementation = await TyronAccount.deployImplementation(
+      signer,
+      await hre.artifacts.readArtifact("TyronSSIAccount"),
+      {
+        dns: await account.dns(),
+        entryPoint: await account.entryPoint(),
+        libraries: await TyronAccount.deployLibraries(signer, {
+          TyronGuardians: await hre.artifacts.readArtifact("TyronGuardians"),
+        }),
+      },
+    );
+
+    await expect(account.contract.upgradeTo(implementation))
+      .to.be.revertedWithCustomError(account.contract, "UpgradeNotReady")
+      .withArgs(implementation, 0n);
+    const now = BigInt(await time.latest());
+    await expect(account.scheduleUpgrade(implementation))
+      .to.emit(account.contract, "UpgradeScheduled")
+      .withArgs(implementation, now + 1n + BigInt(2 * DAY));
+    const scheduled = await account.getScheduledUpgrade();
+    expect(scheduled?.implementation).to.equal(implementation);
+    await expect(
+      account.contract.upgradeTo(implementation),
+    ).to.be.revertedWithCustomError(account.contract, "UpgradeNotReady");
+
+    await time.increaseTo(scheduled!.applicableAt);
+    await expect(
+      account.contract.upgradeToAndCall(ethers.ZeroAddress, "0x"),
+    ).to.be.revertedWithCustomError(account.contract, "UpgradeNotReady");
+    await account.contract.upgradeTo(implementation);
+    expect(await account.implementation()).to.equal(implementation);
+    expect(await account.getScheduledUpgrade()).to.be.undefined;
+  });
+
+  it("Checks deposit withdrawals", async function () {
+    const { account, recipient } = await loadFixture(deployFixture);
+    await account.addDeposit(2000n);
+
+    const error = await account
+      .withdrawDepositTo(recipient.address, 1500n)
+      .catch((e) => e);
+    expect(error.errorName).to.equal("DailyLimitExceeded");
+    await account.withdrawDepositTo(recipient.address, 1000n);
+  });
+
+  it("Does not withdraw the deposit around the policy", async function () {
+    const { account, otherAccount } = await loadFixture(deployFixture);
+    await account.addDeposit(2000n);
+    const entryPoint = await ethers.getContractAt(
+      "EntryPoint",
+      await account.entryPoint(),
+    );
+
+    for (const data of [
+      entryPoint.interface.encodeFunctionData("withdrawTo", [
+        otherAccount.address,
+        2000n,
+      ]),
+      entryPoint.interface.encodeFunctionData("withdrawStake", [
+        otherAccount.address,
+      ]),
+    ]) {
+      const call = { target: entryPoint.target as string, data };
+      for (const run of [
+        () => account.execute(call),
+        () => account.executeBatch([call]),
+        () => account.executeBatch([{ ...call, allowFailure: true }]),
+      ]) {
+        const error = await run().catch((e) => e);
+        expect(error.errorName).to.equal("EntryPointWithdrawal");
+        expect(error.args).to.deep.equal([data.slice(0, 10)]);
+      }
+    }
+    expect(await account.getDeposit()).to.equal(2000n);
+  });
+
+  it("Previews batches against the current policy", async function () {
+    const { account, token, recipient } = await loadFixture(deployFixture);
+
+    expect(
+      await previewSpendingPolicy(account, [
+        { target: recipient.address, value: 400n },
+        transfer(token, recipient.address, 500n),
+      ]),
+    ).to.deep.equal({ allowed: true });
+
+    const preview = await previewSpendingPolicy(account, [
+      { target: recipient.address, value: 600n },
+      { target: recipient.address, value: 600n },
+    ]);
+    expect(preview.allowed).to.be.false;
+    if (!preview.allowed) {
+      expect(preview.error.errorName).to.equal("DailyLimitExceeded");
+      expect(preview.error.args).to.deep.equal([NATIVE_ASSET, 1200n, 1000n]);
+    }
+  });
+});
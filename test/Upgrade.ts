@@ -0,0 +1,161 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  StorageLayoutError,
+  compareStorageLayouts,
+  getStorageLayout,
+  saveStorageLayout,
+} from "../scripts/utils/storageLayout";
+import { upgradeAccount } from "../scripts/utils/upgrade";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Upgrades", function () {
+  async function deployFixture() {
+    const [signer, otherAccount] = await hre.ethers.getSigners();
+    const guardians = [ethers.Wallet.createRandom().address];
+
+    const { implementation, account } = await deployAccountFixture(signer, {
+      guardians,
+    });
+    // @dev As `tyron:deploy` saves it in the manifest.
+    const storageLayouts = {
+      [implementation]: saveStorageLayout(
+        await getStorageLayout(hre, "TyronSSIAccount"),
+      ),
+    };
+    return {
+      account,
+      implementation,
+      storageLayouts,
+      guardians,
+      signer,
+      otherAccount,
+    };
+  }
+
+  describe("Storage layout", function () {
+    it("Accepts appended state", async function () {
+      expect(
+        compareStorageLayouts(
+          await getStorageLayout(hre, "TyronSSIAccount"),
+          await getStorageLayout(hre, "TyronSSIAccountV2Mock"),
+        ),
+      ).to.deep.equal([]);
+    });
+
+    it("Rejects shifted state", async function () {
+      const problems = compareStorageLayouts(
+        await getStorageLayout(hre, "TyronSSIAccount"),
+        await getStorageLayout(hre, "TyronSSIAccountShiftedMock"),
+      );
+      expect(
+        problems.some((problem) =>
+          problem.includes("`_guardianStorage.guardians`"),
+        ),
+      ).to.be.true;
+    });
+  });
+
+  describe("Code size", function () {
+    it("Keeps the implementation under the contract size limit", async function () {
+      // @dev The EIP-170 limit, which the test network enforces on every deployment.
+      const { deployedBytecode } =
+        await hre.artifacts.readArtifact("TyronSSIAccount");
+      // The library placeholders are as long as the addresses they stand for.
+      expect((deployedBytecode.length - 2) / 2).to.be.at.most(24576);
+    });
+  });
+
+  describe("Upgrade", function () {
+    it("Upgrades and runs the migration", async function () {
+      const { account, implementation, storageLayouts, guardians, signer } =
+        await loadFixture(deployFixture);
+
+      const result = await upgradeAccount(hre, signer, {
+        account: account.address,
+        contract: "TyronSSIAccountV2Mock",
+        storageLayouts,
+        migration: "migrateToV2",
+        migrationArgs: [42],
+      });
+
+      expect(result.previousImplementation).to.equal(implementation);
+      expect(result.version).to.equal(2n);
+      expect(await account.implementation()).to.equal(result.implementation);
+      const upgraded = await hre.ethers.getContractAt(
+        "TyronSSIAccountV2Mock",
+        account.address,
+      );
+      expect(await upgraded.migratedValue()).to.equal(42n);
+      expect(await account.owner()).to.equal(signer.address);
+      expect(await account.isGuardian(guardians[0])).to.be.true;
+    });
+
+    it("Refuses incompatible storage layouts", async function () {
+      const { account, implementation, storageLayouts, signer } =
+        await loadFixture(deployFixture);
+
+      await expect(
+        upgradeAccount(hre, signer, {
+          account: account.address,
+          contract: "TyronSSIAccountShiftedMock",
+          storageLayouts,
+        }),
+      ).to.be.rejectedWith(StorageLayoutError);
+      expect(await account.implementation()).to.equal(implementation);
+    });
+
+    it("Refuses implementations without a saved layout", async function () {
+      const { account, implementation, signer } =
+        await loadFixture(deployFixture);
+
+      await expect(
+        upgradeAccount(hre, signer, {
+          account: account.address,
+          contract: "TyronSSIAccountV2Mock",
+        }),
+      ).to.be.rejectedWith(
+        `No storage layout was saved for the implementation ${implementation}.`,
+      );
+      expect(await account.implementation()).to.equal(implementation);
+    });
+
+    it("Refuses migrations that already ran", async function () {
+      const { account, storageLayouts, signer } =
+        await loadFixture(deployFixture);
+      const result = await upgradeAccount(hre, signer, {
+        account: account.address,
+        contract: "TyronSSIAccountV2Mock",
+        storageLayouts,
+        migration: "migrateToV2",
+        migrationArgs: [1],
+      });
+
+      await expect(
+        upgradeAccount(hre, signer, {
+          account: account.address,
+          contract: "TyronSSIAccountV2Mock",
+          storageLayouts: {
+            [result.implementation]: result.storageLayout,
+          },
+          migration: "migrateToV2",
+          migrationArgs: [2],
+        }),
+      ).to.be.rejected;
+    });
+
+    it("Only lets the owner upgrade", async function () {
+      const { account, storageLayouts, otherAccount } =
+        await loadFixture(deployFixture);
+      await expect(
+        upgradeAccount(hre, otherAccount, {
+          account: account.address,
+          contract: "TyronSSIAccountV2Mock",
+          storageLayouts,
+        }),
+      ).to.be.rejected;
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { FailedOpError, LocalBundler, getUserOpHash } from "../sdk";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("UserOperation", function () {
+  async function deployFixture() {
+    const [signer, bundlerSigner, otherAccount, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, account } = await deployAccountFixture(signer, {
+      value: ethers.parseEther("1"),
+    });
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    return { account, bundler, entryPoint, signer, otherAccount, recipient };
+  }
+
+  it("Matches the EntryPoint's user operation hash", async function () {
+    const { account, bundler, recipient } = await loadFixture(deployFixture);
+    const op = await bundler.buildUserOp({
+      sender: account.address,
+      calls: [{ target: recipient.address, value: 1n }],
+    });
+    expect(await bundler.getUserOpHash(op)).to.equal(
+      await bundler.entryPoint.getUserOpHash(op),
+    );
+    expect(getUserOpHash(op, bundler.entryPointAddress, 31337n)).to.equal(
+      await bundler.getUserOpHash(op),
+    );
+  });
+
+  it("Executes a call through the EntryPoint", async function () {
+    const { account, bundler, signer, recipient } =
+      await loadFixture(deployFixture);
+    const before = await ethers.provider.getBalance(recipient.address);
+
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1000n }],
+      },
+      signer,
+    );
+    const result = await bundler.sendUserOperation(op);
+
+    expect(result.success).to.be.true;
+    expect(result.actualGasCost).to.be.greaterThan(0n);
+    expect(await ethers.provider.getBalance(recipient.address)).to.equal(
+      before + 1000n,
+    );
+    expect(await account.getNonce()).to.equal(1n);
+  });
+
+  it("Executes a batch through the EntryPoint", async function () {
+    const { account, bundler, signer, otherAccount, recipient } =
+      await loadFixture(deployFixture);
+
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [
+          {
+            target: account.address,
+            data: account.contract.interface.encodeFunctionData(
+              "addGuardians",
+              [[otherAccount.address], []],
+            ),
+          },
+          { target: recipient.address, value: 1n },
+        ],
+      },
+      signer,
+    );
+    // @dev addGuardians is onlyOwner, which the account passes when calling itself.
+    const result = await bundler.sendUserOperation(op);
+    expect(result.success).to.be.true;
+    expect(await account.isGuardian(otherAccount.address)).to.be.true;
+  });
+
+  it("Reports reverted calls", async function () {
+    const { account, bundler, signer } = await loadFixture(deployFixture);
+
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [
+          {
+            target: account.address,
+            data: account.contract.interface.encodeFunctionData(
+              "transferOwnership",
+              [account.address],
+            ),
+          },
+        ],
+        callGasLimit: 100_000n,
+      },
+      signer,
+    );
+    const result = await bundler.sendUserOperation(op);
+    expect(result.success).to.be.false;
+    expect(result.revertReason).to.equal(
+      account.contract.interface.encodeErrorResult("InvalidOwner", [
+        account.address,
+      ]),
+    );
+  });
+
+  it("Rejects user operations not signed by the owner", async function () {
+    const { account, bundler, otherAccount, recipient } =
+      await loadFixture(deployFixture);
+
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      otherAccount,
+    );
+    const error = await bundler.sendUserOperation(op).catch((e) => e);
+    expect(error).to.be.instanceOf(FailedOpError);
+    expect(error.reason).to.equal("AA24 signature error");
+  });
+});
@@ -0,0 +1,246 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  LocalBundler,
+  ModuleType,
+  TyronAccountFactory,
+  TyronPaymaster,
+  encodeValidatorSignature,
+  signSponsorship,
+} from "../sdk";
+import {
+  TracingProvider,
+  formatValidationReport,
+  simulateUserOpValidation,
+} from "../scripts/utils/validation";
+import { deployAccountFixture } from "./fixtures";
+const hre = require("hardhat");
+
+describe("Validation", function () {
+  async function deployFixture() {
+    const [signer, owner, bundlerSigner, recipient] =
+      await hre.ethers.getSigners();
+
+    const { entryPoint, implementation, account } = await deployAccountFixture(
+      signer,
+      { value: ethers.parseEther("1") },
+    );
+    const factory = await TyronAccountFactory.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronSSIAccountFactory"),
+      implementation,
+    );
+
+    const bundler = new LocalBundler(entryPoint, bundlerSigner);
+    const provider = hre.ethers.provider as TracingProvider;
+    return {
+      entryPoint,
+      account,
+      factory,
+      bundler,
+      provider,
+      signer,
+      owner,
+      recipient,
+    };
+  }
+
+  it("Accepts the user operations of the owner", async function () {
+    const { entryPoint, account, bundler, provider, signer, recipient } =
+      await loadFixture(deployFixture);
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      signer,
+    );
+
+    const report = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(report.failure).to.be.undefined;
+    expect(report.sigFailed).to.be.false;
+    expect(report.validAfter).to.equal(0n);
+    expect(report.validUntil).to.equal(2n ** 48n - 1n);
+    expect(report.violations).to.deep.equal([]);
+    expect(report.valid).to.be.true;
+    expect(report.gasUsed.account).to.be.greaterThan(0n);
+    expect(report.gasUsed.account).to.be.lessThan(op.verificationGasLimit);
+    expect(report.gasUsed.factory).to.equal(0n);
+    expect(report.userOpHash).to.equal(await bundler.getUserOpHash(op));
+    expect(formatValidationReport(op, report)).to.contain(
+      "No bundler rule violations.",
+    );
+  });
+
+  it("Accepts the deployment of an account by the factory", async function () {
+    const { entryPoint, factory, bundler, provider, signer, owner, recipient } =
+      await loadFixture(deployFixture);
+    const params = {
+      owner: owner.address,
+      guardians: [ethers.Wallet.createRandom().address],
+      salt: 7n,
+    };
+    const address = await factory.getAddress(params);
+    await signer.sendTransaction({
+      to: address,
+      value: ethers.parseEther("1"),
+    });
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: address,
+        initCode: factory.initCode(params),
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      owner,
+    );
+
+    const report = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(report.violations).to.deep.equal([]);
+    expect(report.valid).to.be.true;
+    expect(report.gasUsed.factory).to.be.greaterThan(0n);
+    expect(await factory.isDeployed(params)).to.be.false;
+  });
+
+  it("Accepts the token reads of a staked ERC20 paymaster", async function () {
+    const { entryPoint, account, bundler, provider, signer, owner, recipient } =
+      await loadFixture(deployFixture);
+    const paymaster = await TyronPaymaster.deploy(
+      signer,
+      await hre.artifacts.readArtifact("TyronVerifyingPaymaster"),
+      { entryPoint, sponsor: owner.address, defaultQuota: 0n },
+    );
+    await paymaster.deposit(ethers.parseEther("1"));
+    const token = await hre.ethers.deployContract("TokenMock");
+    const tokenAddress = await token.getAddress();
+    await token.mint(account.address, ethers.parseEther("1"));
+    await account.execute({
+      target: tokenAddress,
+      data: token.interface.encodeFunctionData("approve", [
+        paymaster.address,
+        ethers.MaxUint256,
+      ]),
+    });
+    const op = await bundler.buildSponsoredUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      signer,
+      (op) =>
+        signSponsorship(owner, op, paymaster.address, 31337n, {
+          validUntil: 0,
+          validAfter: 0,
+          token: tokenAddress,
+          price: 10n ** 18n,
+        }),
+    );
+
+    // @dev Unstaked, the paymaster may neither use its own storage nor read the allowance.
+    const unstaked = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(unstaked.failure).to.be.undefined;
+    expect(unstaked.valid).to.be.false;
+    expect(
+      unstaked.violations.map(({ phase, opcode, address }) => ({
+        phase,
+        opcode,
+        address,
+      })),
+    ).to.deep.include({
+      phase: "paymaster",
+      opcode: "SLOAD",
+      address: tokenAddress,
+    });
+
+    const contract = await ethers.getContractAt(
+      "TyronVerifyingPaymaster",
+      paymaster.address,
+      signer,
+    );
+    await contract.addStake(1, { value: ethers.parseEther("1") });
+    const report = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(report.failure).to.be.undefined;
+    expect(report.sigFailed).to.be.false;
+    expect(report.violations).to.deep.equal([]);
+    expect(report.valid).to.be.true;
+    expect(report.gasUsed.paymaster).to.be.greaterThan(0n);
+  });
+
+  it("Reports the signatures of other keys", async function () {
+    const { entryPoint, account, bundler, provider, owner, recipient } =
+      await loadFixture(deployFixture);
+    const op = await bundler.buildSignedUserOp(
+      {
+        sender: account.address,
+        calls: [{ target: recipient.address, value: 1n }],
+      },
+      owner,
+    );
+
+    const report = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(report.sigFailed).to.be.true;
+    expect(report.valid).to.be.false;
+
+    const outOfOrder = await simulateUserOpValidation(provider, entryPoint, {
+      ...op,
+      nonce: op.nonce + 1n,
+    });
+    expect(outOfOrder.failure).to.equal("AA25 invalid account nonce");
+    expect(outOfOrder.valid).to.be.false;
+  });
+
+  it("Reports banned opcodes and storage of validator modules", async function () {
+    const { entryPoint, account, bundler, provider, recipient } =
+      await loadFixture(deployFixture);
+    const validator = await hre.ethers.deployContract("TimestampValidatorMock");
+    const address = await validator.getAddress();
+    await account.installModule(
+      { type: ModuleType.Validator, module: address },
+      ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [2n ** 40n]),
+    );
+    const op = await bundler.buildUserOp({
+      sender: account.address,
+      calls: [{ target: recipient.address, value: 1n }],
+    });
+    op.signature = encodeValidatorSignature(address, "0x");
+
+    const report = await simulateUserOpValidation(provider, entryPoint, op);
+    expect(report.failure).to.be.undefined;
+    expect(report.sigFailed).to.be.false;
+    expect(report.valid).to.be.false;
+    expect(
+      report.violations.map(({ phase, rule, opcode, address, slot }) => ({
+        phase,
+        rule,
+        opcode,
+        address,
+        slot,
+      })),
+    ).to.have.deep.members([
+      {
+        phase: "account",
+        rule: "opcode",
+        opcode: "TIMESTAMP",
+        address,
+        slot: undefined,
+      },
+      {
+        phase: "account",
+        rule: "storage",
+        opcode: "SLOAD",
+        address,
+        slot: ethers.toBeHex(1n, 32),
+      },
+      {
+        phase: "account",
+        rule: "storage",
+        opcode: "SSTORE",
+        address,
+        slot: ethers.toBeHex(1n, 32),
+      },
+    ]);
+    expect(formatValidationReport(op, report)).to.contain(
+      `${address} uses the banned opcode TIMESTAMP.`,
+    );
+  });
+});
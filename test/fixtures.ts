@@ -0,0 +1,65 @@
+import { Signer } from "ethers";
+import { artifacts, ethers } from "hardhat";
+import { TyronAccount, deployEntryPoint } from "../sdk";
+
+// @dev The DNS the accounts resolve guardian NFTs with. The tests of NFT guardians deploy a `TyronDNSMock` instead.
+export const DNS = "0xC68d43b78b5B720b0A1392269aFaC939DDfA40EE";
+
+/**
+ * @notice Deploys an EntryPoint and an account implementation using it.
+ */
+export async function deployImplementation(signer: Signer) {
+  const entryPoint = await deployEntryPoint(
+    signer,
+    await artifacts.readArtifact("EntryPoint"),
+  );
+  const implementation = await TyronAccount.deployImplementation(
+    signer,
+    await artifacts.readArtifact("TyronSSIAccount"),
+    {
+      dns: DNS,
+      entryPoint,
+      libraries: await TyronAccount.deployLibraries(signer, {
+        TyronGuardians: await artifacts.readArtifact("TyronGuardians"),
+      }),
+    },
+  );
+  return { entryPoint, implementation };
+}
+
+/**
+ * @notice Deploys an account owned by `signer` behind a proxy of `implementation`.
+ * @param guardians The guardians of the account, a random address by default.
+ */
+export async function deployAccount(
+  signer: Signer,
+  implementation: string,
+  guardians: string[] = [ethers.Wallet.createRandom().address],
+): Promise<TyronAccount> {
+  return TyronAccount.deploy(
+    signer,
+    await artifacts.readArtifact("ERC1967Proxy"),
+    { implementation, guardians },
+  );
+}
+
+/**
+ * @notice Deploys an EntryPoint, an implementation and an account owned by `signer`.
+ * @param options.guardians The guardians of the account, a random address by default.
+ * @param options.value The native value the account is funded with.
+ */
+export async function deployAccountFixture(
+  signer: Signer,
+  options: { guardians?: string[]; value?: bigint } = {},
+) {
+  const { entryPoint, implementation } = await deployImplementation(signer);
+  const account = await deployAccount(
+    signer,
+    implementation,
+    options.guardians,
+  );
+  if (options.value) {
+    await signer.sendTransaction({ to: account.address, value: options.value });
+  }
+  return { entryPoint, implementation, account };
+}